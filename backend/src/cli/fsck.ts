@@ -0,0 +1,90 @@
+import { initializeDatabase, closeDatabase } from '../config/db';
+import { initializeFilesModel } from '../models/files';
+import { initializeFoldersModel } from '../models/folders';
+import { initializeFileVersionsModel } from '../models/fileVersions';
+import { runStorageCheck, type StorageCheckReport } from '../utils/storageCheck';
+
+/**
+ * fsck CLI
+ * ========
+ * Command-line front end for the storage consistency check.
+ * Uses the same environment (.env) as the server.
+ *
+ * Usage:
+ *   pnpm fsck [--repair] [--delete-orphans] [--skip-hashes]
+ *   node dist/cli/fsck.js ...   (production build)
+ *
+ * For a JSON report use the admin endpoint (POST /api/admin/fsck).
+ * Exits with code 1 when problems were found and not repaired.
+ */
+
+const USAGE = 'Usage: fsck [--repair] [--delete-orphans] [--skip-hashes]';
+
+/** Print a human-readable summary of the report. */
+function printReport(report: StorageCheckReport): void {
+    console.log(`Checked ${report.checkedFiles} files, ${report.checkedVersions} versions, ${report.checkedObjects} stored objects`);
+
+    console.log(`\nMissing content: ${report.missingContent.length}`);
+    for (const item of report.missingContent) {
+        console.log(`  [${item.kind}] ${item.storageProvider}:${item.storagePath} (${item.originalName}, id ${item.id})`);
+    }
+
+    console.log(`\nOrphaned objects: ${report.orphanObjects.length}`);
+    for (const item of report.orphanObjects) {
+        console.log(`  ${item.storageProvider}:${item.storagePath} (${item.size} bytes)`);
+    }
+
+    console.log(`\nHash/size mismatches: ${report.hashMismatches.length}`);
+    for (const item of report.hashMismatches) {
+        console.log(`  ${item.storageProvider}:${item.storagePath} (id ${item.fileId})`);
+        console.log(`    expected ${item.expectedHash ?? '-'} / ${item.expectedSize ?? '-'} bytes`);
+        console.log(`    actual   ${item.actualHash ?? '-'} / ${item.actualSize} bytes`);
+    }
+
+    console.log(`\nStale folder sizes: ${report.staleFolderSizes.length}`);
+    for (const item of report.staleFolderSizes) {
+        console.log(`  ${item.path || '(root)'}: recorded ${item.recordedSize}, actual ${item.actualSize}`);
+    }
+
+    console.log(report.repaired ? '\nRepairs applied.' : '');
+}
+
+async function main(): Promise<number> {
+    const args = new Set(process.argv.slice(2));
+    const known = ['--repair', '--delete-orphans', '--skip-hashes', '--help'];
+    const unknown = [...args].filter((arg) => !known.includes(arg));
+    if (unknown.length > 0 || args.has('--help')) {
+        console.error(USAGE);
+        return unknown.length > 0 ? 2 : 0;
+    }
+
+    const repair = args.has('--repair');
+    const deleteOrphans = args.has('--delete-orphans');
+    if (deleteOrphans && !repair) {
+        console.error('--delete-orphans requires --repair');
+        return 2;
+    }
+
+    initializeDatabase();
+    initializeFilesModel();
+    initializeFoldersModel();
+    initializeFileVersionsModel();
+
+    try {
+        const report = await runStorageCheck({ repair, deleteOrphans, verifyHashes: !args.has('--skip-hashes') });
+        printReport(report);
+
+        const problems = report.missingContent.length + report.orphanObjects.length
+            + report.hashMismatches.length + report.staleFolderSizes.length;
+        return problems > 0 && !repair ? 1 : 0;
+    } finally {
+        closeDatabase();
+    }
+}
+
+main()
+    .then((code) => process.exit(code))
+    .catch((err) => {
+        console.error('Storage check failed:', err);
+        process.exit(1);
+    });
@@ -0,0 +1,95 @@
+import { initializeDatabase, closeDatabase } from '../config/db';
+import { initializeFilesModel } from '../models/files';
+import { initializeFoldersModel } from '../models/folders';
+import { initializeFileVersionsModel } from '../models/fileVersions';
+import { initializeUsersModel, getUserByUsername } from '../models/users';
+import { importUntrackedFiles } from '../utils/storageImport';
+
+/**
+ * import-files CLI
+ * ================
+ * Registers files already present in FILES_DIR that the catalog doesn't
+ * know about. Uses the same environment (.env) as the server.
+ *
+ * Usage:
+ *   pnpm import-files --owner <username> [--folder <path>] [--dry-run]
+ *   node dist/cli/importFiles.js ...   (production build)
+ */
+
+const USAGE = 'Usage: import-files --owner <username> [--folder <path>] [--dry-run]';
+
+/** Parse `--flag value` / `--flag` arguments. */
+function parseArgs(argv: string[]): Map<string, string | true> | null {
+    const args = new Map<string, string | true>();
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--dry-run' || arg === '--help') {
+            args.set(arg, true);
+        } else if (arg === '--owner' || arg === '--folder') {
+            const value = argv[++i];
+            if (value === undefined) return null;
+            args.set(arg, value);
+        } else {
+            return null;
+        }
+    }
+    return args;
+}
+
+async function main(): Promise<number> {
+    const args = parseArgs(process.argv.slice(2));
+    if (!args || args.has('--help')) {
+        console.error(USAGE);
+        return args ? 0 : 2;
+    }
+
+    const username = args.get('--owner');
+    if (typeof username !== 'string') {
+        console.error(USAGE);
+        return 2;
+    }
+
+    initializeDatabase();
+    initializeFilesModel();
+    initializeFoldersModel();
+    initializeUsersModel();
+    initializeFileVersionsModel();
+
+    try {
+        const owner = getUserByUsername(username);
+        if (!owner) {
+            console.error(`User not found: ${username}`);
+            return 1;
+        }
+
+        const folder = args.get('--folder');
+        const report = await importUntrackedFiles({
+            ownerId: owner.id,
+            folder: typeof folder === 'string' ? folder : undefined,
+            dryRun: args.has('--dry-run'),
+        });
+
+        const verb = report.dryRun ? 'Would import' : 'Imported';
+        console.log(`${verb} ${report.imported.length} files for ${owner.username}`);
+        for (const file of report.imported) {
+            const moved = file.storagePath !== file.sourcePath ? ` -> ${file.storagePath}` : '';
+            console.log(`  ${file.sourcePath}${moved} (${file.mimeType}, ${file.size} bytes)`);
+        }
+        if (report.skipped.length > 0) {
+            console.log(`\nSkipped ${report.skipped.length} files`);
+            for (const file of report.skipped) {
+                console.log(`  ${file.storagePath}: ${file.reason}`);
+            }
+        }
+        return 0;
+    } finally {
+        closeDatabase();
+    }
+}
+
+main()
+    .then((code) => process.exit(code))
+    .catch((err) => {
+        console.error('Import failed:', err instanceof Error ? err.message : err);
+        process.exit(1);
+    });
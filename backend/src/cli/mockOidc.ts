@@ -0,0 +1,163 @@
+import express, { Request, Response } from 'express';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Mock OIDC provider
+ * ==================
+ * A minimal OpenID Connect identity provider for trying single sign-on
+ * locally. It signs in whoever asks — never expose it beyond a dev box.
+ *
+ * Usage:
+ *   pnpm oidc-mock                 (listens on MOCK_OIDC_PORT, default 4400)
+ *
+ * Then start the server with:
+ *   OIDC_ISSUER=http://localhost:4400
+ *   OIDC_CLIENT_ID=moxbox
+ *   OIDC_REDIRECT_URI=http://localhost:4200/api/users/oidc/callback
+ *
+ * The authorization page asks for a username; add `login_hint=<name>` to
+ * the authorization URL to skip it (handy with curl). PKCE (S256) is
+ * required. Set MOCK_OIDC_CLIENT_SECRET to require a client secret.
+ */
+
+const PORT = Number(process.env.MOCK_OIDC_PORT) || 4400;
+const ISSUER = (process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`).replace(/\/+$/, '');
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || '';
+
+/** Authorization codes are valid this long. */
+const CODE_TTL_MS = 60 * 1000;
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+
+interface IssuedCode {
+    clientId: string;
+    redirectUri: string;
+    codeChallenge: string;
+    nonce?: string;
+    username: string;
+    expiresAt: number;
+}
+
+const codes = new Map<string, IssuedCode>();
+
+function escapeHtml(value: string): string {
+    return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/** Client credentials from HTTP Basic auth or the form body. */
+function clientCredentials(req: Request): { clientId: string; clientSecret: string } {
+    const header = req.headers.authorization;
+    if (header?.startsWith('Basic ')) {
+        const [id, secret] = Buffer.from(header.slice(6), 'base64').toString().split(':');
+        return { clientId: decodeURIComponent(id ?? ''), clientSecret: decodeURIComponent(secret ?? '') };
+    }
+    return { clientId: req.body?.client_id ?? '', clientSecret: req.body?.client_secret ?? '' };
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (_req: Request, res: Response) => {
+    res.json({
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+    });
+});
+
+app.get('/jwks', (_req: Request, res: Response) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+});
+
+app.get('/authorize', (req: Request, res: Response) => {
+    const query = req.query as Record<string, string | undefined>;
+    const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method } = query;
+
+    if (query.response_type !== 'code' || !client_id || !redirect_uri) {
+        return res.status(400).send('response_type=code, client_id and redirect_uri are required');
+    }
+    if (!code_challenge || code_challenge_method !== 'S256') {
+        return res.status(400).send('PKCE with code_challenge_method=S256 is required');
+    }
+
+    const username = (query.login_hint || query.username || '').trim();
+    if (!username) {
+        // Ask who to sign in as, keeping the original parameters
+        const hidden = Object.entries(query)
+            .filter(([key]) => key !== 'username')
+            .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(String(value ?? ''))}">`)
+            .join('');
+        return res.send(
+            `<!doctype html><title>Mock OIDC</title><form method="get" action="/authorize">${hidden}` +
+            `<p>Sign in to <b>${escapeHtml(client_id)}</b> as:</p><input name="username" autofocus required>` +
+            ` <button>Continue</button></form>`
+        );
+    }
+
+    const code = crypto.randomBytes(24).toString('base64url');
+    codes.set(code, {
+        clientId: client_id,
+        redirectUri: redirect_uri,
+        codeChallenge: code_challenge,
+        nonce,
+        username,
+        expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    const target = new URL(redirect_uri);
+    target.searchParams.set('code', code);
+    if (state) target.searchParams.set('state', state);
+    res.redirect(302, target.toString());
+});
+
+app.post('/token', (req: Request, res: Response) => {
+    const { grant_type, code, redirect_uri, code_verifier } = req.body ?? {};
+    const { clientId, clientSecret } = clientCredentials(req);
+
+    const issued = typeof code === 'string' ? codes.get(code) : undefined;
+    if (issued) codes.delete(code);
+
+    if (grant_type !== 'authorization_code' || !issued || issued.expiresAt <= Date.now()) {
+        return res.status(400).json({ error: 'invalid_grant' });
+    }
+    if (issued.clientId !== clientId || (CLIENT_SECRET && clientSecret !== CLIENT_SECRET)) {
+        return res.status(401).json({ error: 'invalid_client' });
+    }
+    if (issued.redirectUri !== redirect_uri) {
+        return res.status(400).json({ error: 'invalid_grant', error_description: 'redirect_uri mismatch' });
+    }
+    const challenge = crypto.createHash('sha256').update(String(code_verifier ?? '')).digest('base64url');
+    if (challenge !== issued.codeChallenge) {
+        return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+
+    const idToken = jwt.sign(
+        {
+            sub: `mock-${issued.username}`,
+            preferred_username: issued.username,
+            email: `${issued.username}@example.test`,
+            ...(issued.nonce ? { nonce: issued.nonce } : {}),
+        },
+        privateKey,
+        { algorithm: 'RS256', keyid: KEY_ID, issuer: ISSUER, audience: clientId, expiresIn: '5m' }
+    );
+
+    res.json({
+        access_token: crypto.randomBytes(24).toString('base64url'),
+        token_type: 'Bearer',
+        expires_in: 300,
+        id_token: idToken,
+    });
+});
+
+app.listen(PORT, () => {
+    console.log(`Mock OIDC provider listening on ${ISSUER}`);
+});
@@ -0,0 +1,258 @@
+import express, { Request, Response } from 'express';
+import crypto from 'crypto';
+
+/**
+ * Mock S3 server
+ * ==============
+ * A minimal S3-compatible object store for trying STORAGE_PROVIDER=s3
+ * locally. Objects live in memory and are gone when it stops — never use
+ * it for real data.
+ *
+ * Usage:
+ *   pnpm s3-mock                   (listens on MOCK_S3_PORT, default 4500)
+ *
+ * Then start the server with:
+ *   STORAGE_PROVIDER=s3
+ *   S3_ENDPOINT=http://localhost:4500
+ *   S3_BUCKET=moxbox
+ *   S3_ACCESS_KEY_ID=moxbox
+ *   S3_SECRET_ACCESS_KEY=moxbox-secret
+ *
+ * Supports what the provider uses, path-style only: PutObject, CopyObject,
+ * GetObject (with Range), HeadObject, DeleteObject and ListObjectsV2.
+ * Every request must carry a valid AWS Signature V4, checked here
+ * independently of the provider's own signing code. Set MOCK_S3_PAGE_SIZE
+ * to a small number to exercise listing continuation tokens.
+ */
+
+const PORT = Number(process.env.MOCK_S3_PORT) || 4500;
+const BUCKET = process.env.MOCK_S3_BUCKET || 'moxbox';
+const ACCESS_KEY_ID = process.env.MOCK_S3_ACCESS_KEY_ID || 'moxbox';
+const SECRET_ACCESS_KEY = process.env.MOCK_S3_SECRET_ACCESS_KEY || 'moxbox-secret';
+const PAGE_SIZE = Number(process.env.MOCK_S3_PAGE_SIZE) || 1000;
+
+/** Requests dated further than this from the server clock are refused, as S3 does. */
+const MAX_CLOCK_SKEW_MS = 15 * 60 * 1000;
+
+interface StoredObject {
+    body: Buffer;
+    modifiedAt: Date;
+    etag: string;
+}
+
+const objects = new Map<string, StoredObject>();
+
+function escapeXml(value: string): string {
+    return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function sendError(res: Response, status: number, code: string, message: string) {
+    res.status(status).type('application/xml');
+    // HEAD responses carry no body, only the status
+    res.send(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${escapeXml(message)}</Message></Error>`);
+}
+
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function hmac(key: crypto.BinaryLike, value: string): Buffer {
+    return crypto.createHmac('sha256', key).update(value).digest();
+}
+
+/**
+ * Check the request's SigV4 `Authorization` header against what was
+ * actually received. Returns an error message, or null when it is valid.
+ */
+function checkSignature(req: Request): string | null {
+    const auth = req.get('authorization') ?? '';
+    const match = auth.match(/^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request, ?SignedHeaders=([^,]+), ?Signature=([0-9a-f]{64})$/);
+    if (!match) return 'Missing or malformed AWS4-HMAC-SHA256 Authorization header';
+    const [, accessKeyId, date, region, signedHeaders, signature] = match;
+
+    if (accessKeyId !== ACCESS_KEY_ID) return `Unknown access key '${accessKeyId}'`;
+
+    const amzDate = req.get('x-amz-date') ?? '';
+    const requestTime = Date.parse(amzDate.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z'));
+    if (!amzDate.startsWith(date) || Number.isNaN(requestTime)) return 'x-amz-date missing or not matching the credential scope';
+    if (Math.abs(Date.now() - requestTime) > MAX_CLOCK_SKEW_MS) return 'Request time too skewed';
+
+    const payloadHash = req.get('x-amz-content-sha256');
+    if (!payloadHash) return 'x-amz-content-sha256 header is required';
+
+    const headerNames = signedHeaders.split(';');
+    if (!headerNames.includes('host')) return 'The host header must be signed';
+    const canonicalHeaders = headerNames
+        .map((name) => `${name}:${String(req.headers[name] ?? '').trim().replace(/\s+/g, ' ')}\n`)
+        .join('');
+
+    // Rebuild the canonical URI and query from the raw request line
+    const [rawPath, rawQuery = ''] = req.originalUrl.split(/\?(.*)/s);
+    const canonicalQuery = rawQuery
+        .split('&')
+        .filter(Boolean)
+        .map((pair) => {
+            const [name, value = ''] = pair.split(/=(.*)/s);
+            return [encodeRfc3986(decodeURIComponent(name)), encodeRfc3986(decodeURIComponent(value))];
+        })
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([name, value]) => `${name}=${value}`)
+        .join('&');
+
+    const canonicalRequest = [req.method, rawPath, canonicalQuery, canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const scope = `${date}/${region}/s3/aws4_request`;
+    const stringToSign = [
+        'AWS4-HMAC-SHA256',
+        amzDate,
+        scope,
+        crypto.createHash('sha256').update(canonicalRequest).digest('hex'),
+    ].join('\n');
+
+    const kSigning = hmac(hmac(hmac(hmac(`AWS4${SECRET_ACCESS_KEY}`, date), region), 's3'), 'aws4_request');
+    const expected = crypto.createHmac('sha256', kSigning).update(stringToSign).digest('hex');
+    if (expected !== signature) {
+        console.warn(`Signature mismatch for ${req.method} ${req.originalUrl}\n--- canonical request ---\n${canonicalRequest}`);
+        return 'The request signature does not match';
+    }
+    return null;
+}
+
+/** Bucket and key from a path-style URL (`/bucket/key`). */
+function parsePath(req: Request): { bucket: string; key: string } {
+    const [rawPath] = req.originalUrl.split('?');
+    const [bucket = '', ...rest] = rawPath.slice(1).split('/');
+    return { bucket: decodeURIComponent(bucket), key: rest.map(decodeURIComponent).join('/') };
+}
+
+function readBody(req: Request): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+}
+
+function setObjectHeaders(res: Response, object: StoredObject) {
+    res.setHeader('ETag', object.etag);
+    res.setHeader('Last-Modified', object.modifiedAt.toUTCString());
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Content-Type', 'application/octet-stream');
+}
+
+function listObjects(req: Request, res: Response) {
+    const query = req.query as Record<string, string | undefined>;
+    if (query['list-type'] !== '2') return sendError(res, 400, 'NotImplemented', 'Only ListObjectsV2 is supported');
+
+    const prefix = query.prefix ?? '';
+    const after = query['continuation-token'] ? Buffer.from(query['continuation-token'], 'base64url').toString() : '';
+    const maxKeys = Math.min(Number(query['max-keys']) || PAGE_SIZE, PAGE_SIZE);
+
+    const keys = [...objects.keys()].filter((key) => key.startsWith(prefix) && key > after).sort();
+    const page = keys.slice(0, maxKeys);
+    const truncated = keys.length > page.length;
+
+    const contents = page.map((key) => {
+        const object = objects.get(key)!;
+        return `<Contents><Key>${escapeXml(key)}</Key><LastModified>${object.modifiedAt.toISOString()}</LastModified>` +
+            `<ETag>${escapeXml(object.etag)}</ETag><Size>${object.body.length}</Size><StorageClass>STANDARD</StorageClass></Contents>`;
+    }).join('');
+    const next = truncated
+        ? `<NextContinuationToken>${Buffer.from(page[page.length - 1]).toString('base64url')}</NextContinuationToken>`
+        : '';
+
+    res.type('application/xml').send(
+        `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>${escapeXml(BUCKET)}</Name>` +
+        `<Prefix>${escapeXml(prefix)}</Prefix><KeyCount>${page.length}</KeyCount><MaxKeys>${maxKeys}</MaxKeys>` +
+        `<IsTruncated>${truncated}</IsTruncated>${next}${contents}</ListBucketResult>`
+    );
+}
+
+async function putObject(req: Request, res: Response, key: string) {
+    const copySource = req.get('x-amz-copy-source');
+    if (copySource) {
+        const [sourceBucket, ...sourceKey] = decodeURIComponent(copySource.replace(/^\//, '')).split('/');
+        const source = sourceBucket === BUCKET ? objects.get(sourceKey.join('/')) : undefined;
+        if (!source) return sendError(res, 404, 'NoSuchKey', 'The copy source does not exist');
+
+        const copy = { body: source.body, modifiedAt: new Date(), etag: source.etag };
+        objects.set(key, copy);
+        return res.type('application/xml').send(
+            `<?xml version="1.0" encoding="UTF-8"?><CopyObjectResult><LastModified>${copy.modifiedAt.toISOString()}</LastModified>` +
+            `<ETag>${escapeXml(copy.etag)}</ETag></CopyObjectResult>`
+        );
+    }
+
+    // Like S3, refuse uploads of unknown length (no chunked encoding)
+    const declared = req.get('content-length');
+    if (declared === undefined) return sendError(res, 411, 'MissingContentLength', 'Content-Length is required');
+
+    const body = await readBody(req);
+    if (body.length !== Number(declared)) {
+        return sendError(res, 400, 'IncompleteBody', `Expected ${declared} bytes, received ${body.length}`);
+    }
+
+    const etag = `"${crypto.createHash('md5').update(body).digest('hex')}"`;
+    objects.set(key, { body, modifiedAt: new Date(), etag });
+    res.setHeader('ETag', etag);
+    res.status(200).end();
+}
+
+function getObject(req: Request, res: Response, key: string) {
+    const object = objects.get(key);
+    if (!object) return sendError(res, 404, 'NoSuchKey', 'The specified key does not exist');
+    setObjectHeaders(res, object);
+
+    const size = object.body.length;
+    const range = req.get('range')?.match(/^bytes=(\d*)-(\d*)$/);
+    if (!range) {
+        res.setHeader('Content-Length', size);
+        return req.method === 'HEAD' ? res.status(200).end() : res.status(200).end(object.body);
+    }
+
+    const start = range[1] ? Number(range[1]) : Math.max(0, size - Number(range[2]));
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1;
+    if (start >= size || start > end) {
+        res.setHeader('Content-Range', `bytes */${size}`);
+        return sendError(res, 416, 'InvalidRange', 'The requested range is not satisfiable');
+    }
+
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+    res.setHeader('Content-Length', end - start + 1);
+    res.status(206).end(req.method === 'HEAD' ? undefined : object.body.subarray(start, end + 1));
+}
+
+const app = express();
+
+app.use(async (req: Request, res: Response) => {
+    const signatureError = checkSignature(req);
+    if (signatureError) return sendError(res, 403, 'SignatureDoesNotMatch', signatureError);
+
+    const { bucket, key } = parsePath(req);
+    if (bucket !== BUCKET) return sendError(res, 404, 'NoSuchBucket', `The bucket '${bucket}' does not exist`);
+
+    console.log(`${req.method} ${key || '(bucket)'}${req.get('range') ? ` ${req.get('range')}` : ''}`);
+
+    if (!key) {
+        if (req.method === 'GET') return listObjects(req, res);
+        return sendError(res, 405, 'MethodNotAllowed', 'Only listing is supported on the bucket');
+    }
+
+    switch (req.method) {
+        case 'PUT':
+            return putObject(req, res, key);
+        case 'GET':
+        case 'HEAD':
+            return getObject(req, res, key);
+        case 'DELETE':
+            // Deletes succeed whether or not the key exists
+            objects.delete(key);
+            return res.status(204).end();
+        default:
+            return sendError(res, 405, 'MethodNotAllowed', `${req.method} is not supported`);
+    }
+});
+
+app.listen(PORT, () => {
+    console.log(`Mock S3 server listening on http://localhost:${PORT} (bucket '${BUCKET}')`);
+});
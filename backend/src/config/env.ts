@@ -14,11 +14,9 @@ export const DATABASE_PATH = process.env.DATABASE_PATH || './data/moxbox.db';
 /**
  * Parse a human-readable file size string into bytes.
  * Supports formats like: "1gb", "500MB", "100kb", "1024b", "1024" (bytes)
+ * `name` is only used in warnings; `DEFAULT_SIZE` defaults to 100MB.
  */
-function parseFileSize(sizeStr: string | undefined): number {
-    // Default: 100MB
-    const DEFAULT_SIZE = 100 * 1024 * 1024;
-
+function parseFileSize(sizeStr: string | undefined, name = 'UPLOAD_MAX_FILE_SIZE', DEFAULT_SIZE = 100 * 1024 * 1024): number {
     if (!sizeStr || typeof sizeStr !== 'string') {
         return DEFAULT_SIZE;
     }
@@ -35,7 +33,7 @@ function parseFileSize(sizeStr: string | undefined): number {
     const match = normalized.match(/^([\d.]+)\s*(b|kb|mb|gb|tb)?$/i);
 
     if (!match) {
-        console.warn(`[env] Invalid UPLOAD_MAX_FILE_SIZE format: "${sizeStr}". Using default 100MB.`);
+        console.warn(`[env] Invalid ${name} format: "${sizeStr}". Using default ${DEFAULT_SIZE} bytes.`);
         return DEFAULT_SIZE;
     }
 
@@ -43,7 +41,7 @@ function parseFileSize(sizeStr: string | undefined): number {
     const unit = match[2] || 'b'; // Default to bytes if no unit
 
     if (isNaN(value) || value < 0) {
-        console.warn(`[env] Invalid UPLOAD_MAX_FILE_SIZE value: "${sizeStr}". Using default 100MB.`);
+        console.warn(`[env] Invalid ${name} value: "${sizeStr}". Using default ${DEFAULT_SIZE} bytes.`);
         return DEFAULT_SIZE;
     }
 
@@ -77,6 +75,13 @@ function parseMimeTypeList(mimeStr: string | undefined): string[] {
 
 export const UPLOAD_MAX_FILE_SIZE = parseFileSize(process.env.UPLOAD_MAX_FILE_SIZE);
 
+/**
+ * Storage quota for users without their own (admin-set) quota, in bytes.
+ * Parsed from `USER_QUOTA_DEFAULT` with the same formats as
+ * UPLOAD_MAX_FILE_SIZE; unset or 0 means unlimited.
+ */
+export const USER_QUOTA_DEFAULT = parseFileSize(process.env.USER_QUOTA_DEFAULT, 'USER_QUOTA_DEFAULT', 0);
+
 /**
  * List of MIME types that are disallowed for upload (blacklist).
  * Parsed from `UPLOAD_DISALLOWED_MIME_TYPES` env var (comma-separated).
@@ -86,6 +91,143 @@ export const UPLOAD_DISALLOWED_MIME_TYPES: string[] = process.env.UPLOAD_DISALLO
     ? parseMimeTypeList(process.env.UPLOAD_DISALLOWED_MIME_TYPES)
     : [];
 
+/**
+ * Limits for archives extracted on upload, guarding against archive bombs:
+ * - `ARCHIVE_MAX_ENTRIES`: files and folders per archive (default 10000)
+ * - `ARCHIVE_MAX_EXTRACTED_SIZE`: total extracted bytes, same formats as
+ *   UPLOAD_MAX_FILE_SIZE (default 1gb); each entry is also capped by
+ *   UPLOAD_MAX_FILE_SIZE
+ * - `ARCHIVE_MAX_COMPRESSION_RATIO`: extracted size relative to the
+ *   archive's size (default 100)
+ */
+export const ARCHIVE_MAX_ENTRIES = Number(process.env.ARCHIVE_MAX_ENTRIES) > 0 ? Math.floor(Number(process.env.ARCHIVE_MAX_ENTRIES)) : 10000;
+export const ARCHIVE_MAX_EXTRACTED_SIZE = parseFileSize(process.env.ARCHIVE_MAX_EXTRACTED_SIZE, 'ARCHIVE_MAX_EXTRACTED_SIZE', 1024 ** 3);
+export const ARCHIVE_MAX_COMPRESSION_RATIO = Number(process.env.ARCHIVE_MAX_COMPRESSION_RATIO) > 0 ? Number(process.env.ARCHIVE_MAX_COMPRESSION_RATIO) : 100;
+
+/**
+ * Hours an unfinished resumable upload is kept without receiving data.
+ * Parsed from `UPLOAD_RESUMABLE_TTL_HOURS`; defaults to 24.
+ */
+export const UPLOAD_RESUMABLE_TTL_HOURS = Number(process.env.UPLOAD_RESUMABLE_TTL_HOURS) || 24;
+
+/**
+ * Number of previous versions kept per file when it is replaced.
+ * Parsed from `FILE_VERSION_RETENTION`; defaults to 10. Set to 0 to disable
+ * version history (replaced content is deleted immediately).
+ */
+const parsedVersionRetention = Number.parseInt(process.env.FILE_VERSION_RETENTION ?? '', 10);
+export const FILE_VERSION_RETENTION = Number.isNaN(parsedVersionRetention) ? 10 : Math.max(0, parsedVersionRetention);
+
+/**
+ * Days a file stays in Trash before it is permanently deleted.
+ * Parsed from `TRASH_RETENTION_DAYS`; defaults to 30. Set to 0 to keep
+ * trashed files until they are deleted by hand.
+ */
+const parsedTrashRetention = Number.parseInt(process.env.TRASH_RETENTION_DAYS ?? '', 10);
+export const TRASH_RETENTION_DAYS = Number.isNaN(parsedTrashRetention) ? 30 : Math.max(0, parsedTrashRetention);
+
+/**
+ * Lifetime of access tokens (jsonwebtoken format, e.g. '15m', '1h').
+ * Parsed from `ACCESS_TOKEN_TTL`; defaults to 15 minutes. Clients renew
+ * them with their refresh token.
+ */
+export const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL?.trim() || '15m';
+
+/**
+ * Days a session (refresh token) stays valid without being used.
+ * Parsed from `SESSION_TTL_DAYS`; defaults to 30.
+ */
+export const SESSION_TTL_DAYS = Number(process.env.SESSION_TTL_DAYS) > 0 ? Number(process.env.SESSION_TTL_DAYS) : 30;
+
+/**
+ * Failed sign-ins allowed per username before it is temporarily locked.
+ * Parsed from `LOGIN_MAX_ATTEMPTS`; defaults to 5. Each further failure
+ * doubles the lockout, up to LOGIN_LOCKOUT_MINUTES.
+ */
+export const LOGIN_MAX_ATTEMPTS = Number(process.env.LOGIN_MAX_ATTEMPTS) > 0 ? Math.floor(Number(process.env.LOGIN_MAX_ATTEMPTS)) : 5;
+
+/**
+ * Failed sign-ins allowed per client IP (across all usernames) before it
+ * is temporarily locked. Parsed from `LOGIN_IP_MAX_ATTEMPTS`; defaults to 20.
+ */
+export const LOGIN_IP_MAX_ATTEMPTS = Number(process.env.LOGIN_IP_MAX_ATTEMPTS) > 0 ? Math.floor(Number(process.env.LOGIN_IP_MAX_ATTEMPTS)) : 20;
+
+/**
+ * Longest sign-in lockout in minutes. Parsed from `LOGIN_LOCKOUT_MINUTES`;
+ * defaults to 15.
+ */
+export const LOGIN_LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES) > 0 ? Number(process.env.LOGIN_LOCKOUT_MINUTES) : 15;
+
+/**
+ * Where new file contents are stored: 'local' (FILES_DIR, default) or 's3'.
+ * Existing files stay on the provider recorded in `files.storage_provider`.
+ */
+export const STORAGE_PROVIDER: 'local' | 's3' = process.env.STORAGE_PROVIDER?.trim().toLowerCase() === 's3' ? 's3' : 'local';
+
+/**
+ * S3-compatible object storage settings (used when STORAGE_PROVIDER=s3, or
+ * to read files previously stored there).
+ */
+export const S3_ENDPOINT = process.env.S3_ENDPOINT || '';
+export const S3_REGION = process.env.S3_REGION || 'us-east-1';
+export const S3_BUCKET = process.env.S3_BUCKET || '';
+export const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID || '';
+export const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY || '';
+export const S3_PREFIX = process.env.S3_PREFIX || '';
+export const S3_FORCE_PATH_STYLE = process.env.S3_FORCE_PATH_STYLE !== 'false';
+
+/**
+ * OpenID Connect single sign-on (authorization code flow with PKCE).
+ * SSO is enabled when OIDC_ISSUER, OIDC_CLIENT_ID and OIDC_REDIRECT_URI are
+ * set. OIDC_CLIENT_SECRET is optional (public clients rely on PKCE alone).
+ * OIDC_REDIRECT_URI must point at this server's /api/users/oidc/callback.
+ */
+export const OIDC_ISSUER = (process.env.OIDC_ISSUER || '').trim().replace(/\/+$/, '');
+export const OIDC_CLIENT_ID = process.env.OIDC_CLIENT_ID || '';
+export const OIDC_CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET || '';
+export const OIDC_REDIRECT_URI = process.env.OIDC_REDIRECT_URI || '';
+export const OIDC_SCOPES = process.env.OIDC_SCOPES?.trim() || 'openid profile email';
+export const OIDC_ENABLED = Boolean(OIDC_ISSUER && OIDC_CLIENT_ID && OIDC_REDIRECT_URI);
+
+/**
+ * ID token claim used as the username of SSO users. Parsed from
+ * `OIDC_USERNAME_CLAIM`; defaults to 'preferred_username'.
+ */
+export const OIDC_USERNAME_CLAIM = process.env.OIDC_USERNAME_CLAIM?.trim() || 'preferred_username';
+
+/**
+ * Link an SSO identity to an existing local account with the same username
+ * on its first sign-in. Parsed from `OIDC_LINK_EXISTING`; defaults to false,
+ * since anyone who controls that claim at the IdP could claim the account.
+ * Admin accounts are never linked this way, nor usernames from `email`.
+ */
+export const OIDC_LINK_EXISTING = process.env.OIDC_LINK_EXISTING === 'true';
+
+/**
+ * Create accounts for SSO users who have none yet. Parsed from
+ * `OIDC_AUTO_PROVISION`; defaults to false (only existing users may sign in).
+ */
+export const OIDC_AUTO_PROVISION = process.env.OIDC_AUTO_PROVISION === 'true';
+
+/**
+ * Frontend origins SSO sign-ins may return to, from the comma-separated
+ * `OIDC_FRONTEND_ORIGINS` (e.g. "http://moxbox.lan:5173"). The first entry
+ * is used when the login request names none of them; defaults to
+ * http://localhost:FRONTEND_PORT.
+ */
+export const OIDC_FRONTEND_ORIGINS = (process.env.OIDC_FRONTEND_ORIGINS || '')
+    .split(',')
+    .map((origin) => {
+        try {
+            return new URL(origin.trim()).origin;
+        } catch {
+            if (origin.trim()) console.warn(`[env] Ignoring invalid OIDC_FRONTEND_ORIGINS entry: "${origin.trim()}"`);
+            return '';
+        }
+    })
+    .filter((origin) => origin.length > 0 && origin !== 'null');
+if (OIDC_FRONTEND_ORIGINS.length === 0) OIDC_FRONTEND_ORIGINS.push(`http://localhost:${FRONTEND_PORT}`);
+
 /**
  * A typed configuration object for the runtime application.
  * Keeping the individual exports for compatibility.
@@ -97,8 +239,42 @@ export interface Config {
     databasePath: string;
     /** Maximum file size for uploads in bytes */
     uploadMaxFileSize: number;
+    /** Default per-user storage quota in bytes (0 = unlimited) */
+    userQuotaDefault: number;
     /** List of MIME types that are disallowed for upload */
     uploadDisallowedMimeTypes: string[];
+    /** Hours an idle resumable upload is kept before being discarded */
+    uploadResumableTtlHours: number;
+    /** Most files and folders extracted from one uploaded archive */
+    archiveMaxEntries: number;
+    /** Most bytes extracted from one uploaded archive */
+    archiveMaxExtractedSize: number;
+    /** Largest extracted size relative to the archive's size */
+    archiveMaxCompressionRatio: number;
+    /** Previous versions kept per file (0 disables history) */
+    fileVersionRetention: number;
+    /** Days trashed files are kept before being purged (0 keeps them) */
+    trashRetentionDays: number;
+    /** Provider that receives new uploads */
+    storageProvider: 'local' | 's3';
+    /** Lifetime of access tokens */
+    accessTokenTtl: string;
+    /** Days an unused session stays valid */
+    sessionTtlDays: number;
+    /** Failed sign-ins per username before lockout */
+    loginMaxAttempts: number;
+    /** Failed sign-ins per client IP before lockout */
+    loginIpMaxAttempts: number;
+    /** Longest sign-in lockout in minutes */
+    loginLockoutMinutes: number;
+    /** Whether OpenID Connect single sign-on is configured */
+    oidcEnabled: boolean;
+    /** Create accounts for unknown SSO users */
+    oidcAutoProvision: boolean;
+    /** Link SSO users to existing non-admin accounts by username */
+    oidcLinkExisting: boolean;
+    /** Frontend origins SSO sign-ins may return to (first is the default) */
+    oidcFrontendOrigins: string[];
 }
 
 export const config: Config = {
@@ -107,7 +283,24 @@ export const config: Config = {
     filesDir: FILES_DIR,
     databasePath: DATABASE_PATH,
     uploadMaxFileSize: UPLOAD_MAX_FILE_SIZE,
+    userQuotaDefault: USER_QUOTA_DEFAULT,
     uploadDisallowedMimeTypes: UPLOAD_DISALLOWED_MIME_TYPES,
+    uploadResumableTtlHours: UPLOAD_RESUMABLE_TTL_HOURS,
+    archiveMaxEntries: ARCHIVE_MAX_ENTRIES,
+    archiveMaxExtractedSize: ARCHIVE_MAX_EXTRACTED_SIZE,
+    archiveMaxCompressionRatio: ARCHIVE_MAX_COMPRESSION_RATIO,
+    fileVersionRetention: FILE_VERSION_RETENTION,
+    trashRetentionDays: TRASH_RETENTION_DAYS,
+    storageProvider: STORAGE_PROVIDER,
+    accessTokenTtl: ACCESS_TOKEN_TTL,
+    sessionTtlDays: SESSION_TTL_DAYS,
+    loginMaxAttempts: LOGIN_MAX_ATTEMPTS,
+    loginIpMaxAttempts: LOGIN_IP_MAX_ATTEMPTS,
+    loginLockoutMinutes: LOGIN_LOCKOUT_MINUTES,
+    oidcEnabled: OIDC_ENABLED,
+    oidcAutoProvision: OIDC_AUTO_PROVISION,
+    oidcLinkExisting: OIDC_LINK_EXISTING,
+    oidcFrontendOrigins: OIDC_FRONTEND_ORIGINS,
 };
 
 // Export HOST for internal server startup
@@ -0,0 +1,570 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+    createUser as createUserRecord,
+    countActiveAdmins,
+    countUsersWithRole,
+    deleteUser as deleteUserRecord,
+    getUserById,
+    getUserByUsername,
+    listUsers as listUserRecords,
+    setUserDisabled,
+    setUserQuota,
+    setUserRole,
+    updatePassword,
+    type UserRecord,
+} from '../models/users';
+import {
+    ADMIN_ROLE,
+    ROLE_CAPABILITIES,
+    createRole as createRoleRecord,
+    deleteRole as deleteRoleRecord,
+    getRoleById,
+    listRoles as listRoleRecords,
+    updateRole as updateRoleRecord,
+    type RoleRecord,
+} from '../models/roles';
+import {
+    createInvite as createInviteRecord,
+    deleteInvite as deleteInviteRecord,
+    getInviteById,
+    isInviteUsable,
+    listInvites as listInviteRecords,
+    type InviteRecord,
+} from '../models/invites';
+import { deleteUserSessions, revokeUserSessions } from '../models/sessions';
+import { deleteUserApiTokens } from '../models/apiTokens';
+import { deleteLoginAttempt, getLoginAttemptById, listActiveLockouts } from '../models/loginAttempts';
+import { getAccountLockout, unlockAccount } from '../utils/loginThrottle';
+import { getEffectiveQuota } from '../utils/storageQuota';
+import { getOwnerStorageUsage } from '../models/files';
+import { hashPassword } from '../utils/passwordHash';
+import { isStorageCheckRunning, runStorageCheck } from '../utils/storageCheck';
+import { importUntrackedFiles, isStorageImportRunning } from '../utils/storageImport';
+import { sanitizeFolderPath } from '../utils/pathSanitizer';
+import { NotFoundError, ValidationError } from '../middleware/errors';
+import { info } from '../utils/logger';
+
+/**
+ * Controller: Admin
+ * - User management for administrators (list, create, reset password,
+ *   assign role / toggle admin, disable, set storage quota, delete)
+ * - Role management: custom roles built from capabilities
+ * - Invite codes for self-service registration
+ * - Visibility and unlock of sign-in lockouts (usernames and client IPs)
+ * - Storage consistency check (fsck) with optional repair
+ * - Import of untracked files already present in FILES_DIR
+ * - Routes are guarded by `authenticate` + `requireAdmin`
+ * - Guards against an admin locking themselves (or everyone) out
+ */
+
+/** Public shape of a user — never expose the password hash. */
+function toAdminUser(user: UserRecord) {
+    const { failedAttempts, lockedUntil } = getAccountLockout(user.username);
+    return {
+        id: user.id,
+        username: user.username,
+        isAdmin: user.is_admin === 1,
+        role: user.role,
+        disabled: user.disabled === 1,
+        failedLoginAttempts: failedAttempts,
+        lockedUntil,
+        quotaBytes: user.quota_bytes ?? null,
+        effectiveQuotaBytes: getEffectiveQuota(user),
+        usedBytes: getOwnerStorageUsage(user.id),
+        createdAt: user.created_at,
+        updatedAt: user.updated_at ?? null,
+    };
+}
+
+/** Load a user by `req.params.id` or throw NotFoundError. */
+function requireUser(req: Request): UserRecord {
+    const id = req.params.id;
+    if (!id) throw new ValidationError('User id is required');
+
+    const user = getUserById(id);
+    if (!user) throw new NotFoundError('User not found');
+    return user;
+}
+
+/** Public shape of a role. */
+function toAdminRole(role: RoleRecord) {
+    return {
+        id: role.id,
+        name: role.name,
+        description: role.description ?? null,
+        capabilities: role.capabilities,
+        builtIn: role.built_in === 1,
+        userCount: countUsersWithRole(role.id),
+        createdAt: role.created_at,
+        updatedAt: role.updated_at ?? null,
+    };
+}
+
+/** Public shape of an invite, with whether it can still be used. */
+function toAdminInvite(invite: InviteRecord) {
+    const creator = invite.created_by ? getUserById(invite.created_by) : null;
+    return {
+        id: invite.id,
+        code: invite.code,
+        maxUses: invite.max_uses,
+        useCount: invite.use_count,
+        expiresAt: invite.expires_at ?? null,
+        role: invite.role ?? null,
+        quotaBytes: invite.quota_bytes ?? null,
+        usable: isInviteUsable(invite),
+        createdBy: creator?.username ?? null,
+        createdAt: invite.created_at,
+    };
+}
+
+/** Load a role by id or throw ValidationError (used for request bodies). */
+function requireRole(id: string): RoleRecord {
+    const role = getRoleById(id);
+    if (!role) throw new ValidationError(`Unknown role: ${id}`);
+    return role;
+}
+
+/** Capabilities accepted in role payloads; `admin` is reserved for the admin role. */
+const capabilitySchema = z.enum(ROLE_CAPABILITIES).refine((capability) => capability !== 'admin', {
+    message: "The 'admin' capability is reserved for the admin role",
+});
+
+/** True when removing this user's admin rights would leave no active admin. */
+function isLastActiveAdmin(user: UserRecord): boolean {
+    return user.is_admin === 1 && user.disabled === 0 && countActiveAdmins() <= 1;
+}
+
+/**
+ * GET /api/admin/users
+ * List all user accounts.
+ */
+export async function listUsers(_req: Request, res: Response) {
+    const users = listUserRecords().map(toAdminUser);
+    return res.status(200).json({ users });
+}
+
+/**
+ * POST /api/admin/users
+ * Create a new user account.
+ *
+ * @body username - Unique username
+ * @body password - Initial password (min 6 chars)
+ * @body isAdmin  - Optional, grant admin role
+ * @body role     - Optional, role id (wins over isAdmin; default 'user')
+ */
+export async function createUser(req: Request, res: Response) {
+    const schema = z.object({
+        username: z.string().trim().min(1).max(64),
+        password: z.string().min(6),
+        isAdmin: z.boolean().optional(),
+        role: z.string().trim().min(1).optional(),
+    });
+
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        const formattedError = z.treeifyError(parsed.error);
+        throw new ValidationError('Invalid user payload', formattedError);
+    }
+
+    const { username, password, isAdmin } = parsed.data;
+    if (getUserByUsername(username)) {
+        throw new ValidationError('Username already exists');
+    }
+    const role = parsed.data.role ? requireRole(parsed.data.role).id : undefined;
+
+    const passwordHash = await hashPassword(password);
+    const user = createUserRecord({ username, passwordHash, isAdmin, role });
+
+    info('Admin created user', { by: req.user?.username, username, role: user.role });
+    return res.status(201).json({ user: toAdminUser(user) });
+}
+
+/**
+ * PUT /api/admin/users/:id/password
+ * Reset a user's password. Existing tokens and sessions for that user are
+ * invalidated, signing them out everywhere.
+ *
+ * @body password - New password (min 6 chars)
+ */
+export async function resetUserPassword(req: Request, res: Response) {
+    const user = requireUser(req);
+
+    const schema = z.object({ password: z.string().min(6) });
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        const formattedError = z.treeifyError(parsed.error);
+        throw new ValidationError('Invalid password payload', formattedError);
+    }
+
+    const passwordHash = await hashPassword(parsed.data.password);
+    updatePassword(user.id, passwordHash);
+    revokeUserSessions(user.id);
+
+    info('Admin reset user password', { by: req.user?.username, username: user.username });
+    return res.status(200).json({ message: 'Password reset successfully' });
+}
+
+/**
+ * PATCH /api/admin/users/:id
+ * Assign a role or toggle admin, toggle the disabled state, or set the
+ * storage quota.
+ *
+ * @body isAdmin    - Optional, grant or revoke admin role (admin <-> user)
+ * @body role       - Optional, role id (cannot be combined with isAdmin)
+ * @body disabled   - Optional, disable or re-enable the account
+ * @body quotaBytes - Optional, storage quota in bytes (0 = unlimited,
+ *                    null = use the USER_QUOTA_DEFAULT)
+ */
+export async function updateUser(req: Request, res: Response) {
+    const user = requireUser(req);
+
+    const schema = z.object({
+        isAdmin: z.boolean().optional(),
+        role: z.string().trim().min(1).optional(),
+        disabled: z.boolean().optional(),
+        quotaBytes: z.number().int().nonnegative().nullable().optional(),
+    });
+
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        const formattedError = z.treeifyError(parsed.error);
+        throw new ValidationError('Invalid user update payload', formattedError);
+    }
+
+    const { isAdmin, disabled, quotaBytes } = parsed.data;
+    if (isAdmin === undefined && parsed.data.role === undefined && disabled === undefined && quotaBytes === undefined) {
+        throw new ValidationError('Nothing to update');
+    }
+    if (isAdmin !== undefined && parsed.data.role !== undefined) {
+        throw new ValidationError('Send either isAdmin or role, not both');
+    }
+
+    const role = parsed.data.role !== undefined
+        ? requireRole(parsed.data.role).id
+        : isAdmin !== undefined ? (isAdmin ? ADMIN_ROLE : 'user') : undefined;
+
+    const isSelf = user.id === req.user?.id;
+    const revokesAdmin = (role !== undefined && role !== ADMIN_ROLE) || disabled === true;
+
+    if (isSelf && revokesAdmin) {
+        throw new ValidationError('You cannot remove your own admin access');
+    }
+    if (revokesAdmin && isLastActiveAdmin(user)) {
+        throw new ValidationError('At least one active admin is required');
+    }
+
+    let updated: UserRecord | null = user;
+    if (role !== undefined && role !== user.role) updated = setUserRole(user.id, role);
+    if (disabled !== undefined) updated = setUserDisabled(user.id, disabled);
+    if (disabled === true) revokeUserSessions(user.id);
+    if (quotaBytes !== undefined) updated = setUserQuota(user.id, quotaBytes);
+
+    info('Admin updated user', { by: req.user?.username, username: user.username, role, disabled, quotaBytes });
+    return res.status(200).json({ user: toAdminUser(updated!) });
+}
+
+/**
+ * DELETE /api/admin/users/:id
+ * Delete a user account. Files and folders they owned are kept and
+ * remain reachable by admins.
+ */
+export async function deleteUser(req: Request, res: Response) {
+    const user = requireUser(req);
+
+    if (user.id === req.user?.id) {
+        throw new ValidationError('You cannot delete your own account here');
+    }
+    if (isLastActiveAdmin(user)) {
+        throw new ValidationError('At least one active admin is required');
+    }
+
+    deleteUserRecord(user.id);
+    deleteUserSessions(user.id);
+    deleteUserApiTokens(user.id);
+
+    info('Admin deleted user', { by: req.user?.username, username: user.username });
+    return res.status(200).json({ message: 'User deleted successfully', id: user.id });
+}
+
+/**
+ * POST /api/admin/users/:id/unlock
+ * Clear a user's failed sign-in attempts and end any running lockout.
+ */
+export async function unlockUser(req: Request, res: Response) {
+    const user = requireUser(req);
+    const wasLocked = unlockAccount(user.username);
+
+    info('Admin unlocked user', { by: req.user?.username, username: user.username, wasLocked });
+    return res.status(200).json({ user: toAdminUser(user) });
+}
+
+/**
+ * GET /api/admin/lockouts
+ * List running sign-in lockouts, for usernames (existing or not),
+ * client IPs and share/drop link passwords (`link`, keyed by link and IP).
+ */
+export async function listLockouts(_req: Request, res: Response) {
+    const lockouts = listActiveLockouts().map((record) => ({
+        id: record.id,
+        kind: record.kind,
+        identifier: record.identifier,
+        failedAttempts: record.failures,
+        lastFailureAt: record.last_failure_at,
+        lockedUntil: record.locked_until,
+    }));
+    return res.status(200).json({ lockouts });
+}
+
+/**
+ * DELETE /api/admin/lockouts/:id
+ * End a lockout and clear its failed attempts.
+ */
+export async function clearLockout(req: Request, res: Response) {
+    const record = getLoginAttemptById(req.params.id);
+    if (!record) throw new NotFoundError('Lockout not found');
+
+    deleteLoginAttempt(record.id);
+
+    info('Admin cleared sign-in lockout', { by: req.user?.username, kind: record.kind, identifier: record.identifier });
+    return res.status(200).json({ message: 'Lockout cleared', id: record.id });
+}
+
+/**
+ * GET /api/admin/roles
+ * List roles with their capabilities and how many users hold them, plus
+ * the capabilities a role can be given.
+ */
+export async function listRoles(_req: Request, res: Response) {
+    const roles = listRoleRecords().map(toAdminRole);
+    return res.status(200).json({ roles, capabilities: ROLE_CAPABILITIES });
+}
+
+/**
+ * POST /api/admin/roles
+ * Create a custom role.
+ *
+ * @body name         - Display name; the role id is derived from it
+ * @body description  - Optional
+ * @body capabilities - Capabilities to grant (any except 'admin')
+ */
+export async function createRole(req: Request, res: Response) {
+    const schema = z.object({
+        name: z.string().trim().min(1).max(64),
+        description: z.string().trim().max(200).optional(),
+        capabilities: z.array(capabilitySchema),
+    });
+
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        const formattedError = z.treeifyError(parsed.error);
+        throw new ValidationError('Invalid role payload', formattedError);
+    }
+
+    const { name, description, capabilities } = parsed.data;
+    const id = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    if (!id) throw new ValidationError('Role name must contain letters or digits');
+    if (getRoleById(id)) throw new ValidationError('A role with this name already exists');
+
+    const role = createRoleRecord({ id, name, description: description || null, capabilities });
+
+    info('Admin created role', { by: req.user?.username, role: role.id, capabilities: role.capabilities });
+    return res.status(201).json({ role: toAdminRole(role) });
+}
+
+/**
+ * PATCH /api/admin/roles/:id
+ * Rename a role or change its capabilities. Changes apply to signed-in
+ * users immediately. The admin role cannot be changed.
+ *
+ * @body name         - Optional
+ * @body description  - Optional (null clears it)
+ * @body capabilities - Optional, replaces the current list (any except 'admin')
+ */
+export async function updateRole(req: Request, res: Response) {
+    const role = getRoleById(req.params.id);
+    if (!role) throw new NotFoundError('Role not found');
+    if (role.id === ADMIN_ROLE) throw new ValidationError('The admin role cannot be changed');
+
+    const schema = z.object({
+        name: z.string().trim().min(1).max(64).optional(),
+        description: z.string().trim().max(200).nullable().optional(),
+        capabilities: z.array(capabilitySchema).optional(),
+    });
+
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        const formattedError = z.treeifyError(parsed.error);
+        throw new ValidationError('Invalid role update payload', formattedError);
+    }
+
+    const updated = updateRoleRecord(role.id, parsed.data);
+
+    info('Admin updated role', { by: req.user?.username, role: role.id, capabilities: updated?.capabilities });
+    return res.status(200).json({ role: toAdminRole(updated!) });
+}
+
+/**
+ * DELETE /api/admin/roles/:id
+ * Delete a custom role that no user holds.
+ */
+export async function deleteRole(req: Request, res: Response) {
+    const role = getRoleById(req.params.id);
+    if (!role) throw new NotFoundError('Role not found');
+    if (role.built_in === 1) throw new ValidationError('Built-in roles cannot be deleted');
+
+    const userCount = countUsersWithRole(role.id);
+    if (userCount > 0) {
+        throw new ValidationError(`Role is assigned to ${userCount} user(s). Assign them another role first.`);
+    }
+
+    deleteRoleRecord(role.id);
+
+    info('Admin deleted role', { by: req.user?.username, role: role.id });
+    return res.status(200).json({ message: 'Role deleted successfully', id: role.id });
+}
+
+/**
+ * GET /api/admin/invites
+ * List invite codes, newest first, including used up and expired ones.
+ */
+export async function listInvites(_req: Request, res: Response) {
+    const invites = listInviteRecords().map(toAdminInvite);
+    return res.status(200).json({ invites });
+}
+
+/**
+ * POST /api/admin/invites
+ * Create an invite code for POST /api/users/register.
+ *
+ * @body maxUses    - Optional number of registrations allowed (default 1)
+ * @body expiresAt  - Optional ISO timestamp after which the code stops working
+ * @body role       - Optional role for new accounts (not 'admin'; default 'user')
+ * @body quotaBytes - Optional storage quota for new accounts (0 = unlimited)
+ */
+export async function createInvite(req: Request, res: Response) {
+    const schema = z.object({
+        maxUses: z.number().int().min(1).max(1000).optional(),
+        expiresAt: z.iso.datetime({ offset: true }).optional(),
+        role: z.string().trim().min(1).optional(),
+        quotaBytes: z.number().int().nonnegative().nullable().optional(),
+    });
+
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        const formattedError = z.treeifyError(parsed.error);
+        throw new ValidationError('Invalid invite payload', formattedError);
+    }
+
+    const { maxUses, expiresAt, quotaBytes } = parsed.data;
+    if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+        throw new ValidationError('expiresAt must be in the future');
+    }
+
+    // A leaked code must not be able to mint administrators
+    const role = parsed.data.role ? requireRole(parsed.data.role).id : null;
+    if (role === ADMIN_ROLE) throw new ValidationError('Invites cannot grant the admin role');
+
+    const invite = createInviteRecord({
+        createdBy: req.user?.id ?? null,
+        maxUses: maxUses ?? 1,
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+        role,
+        quotaBytes: quotaBytes ?? null,
+    });
+
+    info('Admin created invite', { by: req.user?.username, invite: invite.id, maxUses: invite.max_uses, role });
+    return res.status(201).json({ invite: toAdminInvite(invite) });
+}
+
+/**
+ * DELETE /api/admin/invites/:id
+ * Revoke an invite code. Accounts already created with it are kept.
+ */
+export async function deleteInvite(req: Request, res: Response) {
+    const invite = getInviteById(req.params.id);
+    if (!invite) throw new NotFoundError('Invite not found');
+
+    deleteInviteRecord(invite.id);
+
+    info('Admin revoked invite', { by: req.user?.username, invite: invite.id });
+    return res.status(200).json({ message: 'Invite revoked', id: invite.id });
+}
+
+/**
+ * POST /api/admin/fsck
+ * Compare the catalog with stored content and report missing content,
+ * orphaned objects, hash/size mismatches and stale folder sizes.
+ *
+ * @body repair        - Optional, fix the catalog (default false)
+ * @body deleteOrphans - Optional, also delete orphaned objects when repairing
+ * @body verifyHashes  - Optional, re-hash stored content (default true)
+ */
+export async function checkStorage(req: Request, res: Response) {
+    const schema = z.object({
+        repair: z.boolean().optional(),
+        deleteOrphans: z.boolean().optional(),
+        verifyHashes: z.boolean().optional(),
+    });
+
+    const parsed = schema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+        const formattedError = z.treeifyError(parsed.error);
+        throw new ValidationError('Invalid storage check payload', formattedError);
+    }
+
+    const { repair = false, deleteOrphans = false, verifyHashes } = parsed.data;
+    if (deleteOrphans && !repair) {
+        throw new ValidationError('deleteOrphans requires repair');
+    }
+    if (isStorageCheckRunning()) {
+        return res.status(409).json({ message: 'A storage check is already running' });
+    }
+
+    info('Admin started storage check', { by: req.user?.username, repair, deleteOrphans });
+    const report = await runStorageCheck({ repair, deleteOrphans, verifyHashes });
+    return res.status(200).json({ report });
+}
+
+/**
+ * POST /api/admin/import
+ * Register files found in FILES_DIR that have no catalog row, under the
+ * given owner (defaults to the calling admin).
+ *
+ * @body username - Optional, owner of the imported files
+ * @body folder   - Optional, only import beneath this folder
+ * @body dryRun   - Optional, report without importing (default false)
+ */
+export async function importFiles(req: Request, res: Response) {
+    const schema = z.object({
+        username: z.string().trim().min(1).optional(),
+        folder: z.string().optional(),
+        dryRun: z.boolean().optional(),
+    });
+
+    const parsed = schema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+        const formattedError = z.treeifyError(parsed.error);
+        throw new ValidationError('Invalid import payload', formattedError);
+    }
+
+    const { username, dryRun } = parsed.data;
+    const owner = username ? getUserByUsername(username) : getUserById(req.user!.id);
+    if (!owner) throw new NotFoundError('User not found');
+
+    let folder: string;
+    try {
+        folder = sanitizeFolderPath(parsed.data.folder);
+    } catch (err) {
+        throw new ValidationError(err instanceof Error ? err.message : 'Invalid folder path');
+    }
+
+    if (isStorageImportRunning()) {
+        return res.status(409).json({ message: 'An import is already running' });
+    }
+
+    const report = await importUntrackedFiles({ ownerId: owner.id, folder, dryRun });
+
+    info('Admin imported untracked files', { by: req.user?.username, owner: owner.username, imported: report.imported.length, dryRun: report.dryRun });
+    return res.status(200).json({ report });
+}
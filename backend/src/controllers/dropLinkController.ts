@@ -0,0 +1,302 @@
+import { Request, Response, NextFunction } from 'express';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import * as fileStorage from '../utils/fileStorage';
+import { sanitizeFolderPath } from '../utils/pathSanitizer';
+import { hashPassword } from '../utils/passwordHash';
+import { assertQuotaAvailable } from '../utils/storageQuota';
+import { info } from '../utils/logger';
+import { UPLOAD_MAX_FILE_SIZE } from '../config/env';
+import { MULTIPART_OVERHEAD_BYTES } from '../middleware/multerHandler';
+import {
+    AuthorizationError,
+    NotFoundError,
+    QuotaExceededError,
+    ValidationError,
+} from '../middleware/errors';
+import { canAccessFolder, canAccessOwner, hasCapability } from '../middleware/authorize';
+import { getActiveFileByOriginalNameAndFolder, getDeletedFileByOriginalNameAndFolder } from '../models/files';
+import { getUserById } from '../models/users';
+import {
+    createDropLink as createDropLinkRecord,
+    getDropLinkById,
+    getDropLinkByToken,
+    listDropLinks as listDropLinkRecords,
+    revokeDropLink as revokeDropLinkRecord,
+    reserveDropLinkBytes,
+    releaseDropLinkBytes,
+    type DropLinkRecord,
+} from '../models/dropLinks';
+import type { UserClaim } from '../types/auth';
+import { checkSharePassword } from './shareController';
+import { recordStoredFile } from './files';
+
+/**
+ * Controller: Drop Links ("file requests")
+ * - Owners create/list/revoke upload-only links bound to one folder
+ * - Anyone holding the token can upload through `/d/:token`, subject to
+ *   expiry, password and a total size limit; nothing is ever listed or
+ *   downloadable through a drop link
+ * - Uploads belong to the link creator, count against their quota and
+ *   only work while the creator could still upload into the folder
+ */
+
+/** Message used for every unusable link so tokens can't be probed. */
+const UNAVAILABLE = 'Drop link not found or expired';
+
+/** Longest uploader name kept with a file. */
+const MAX_UPLOADER_NAME_LENGTH = 100;
+
+/** Public shape of a drop link — never expose the password hash. */
+function toDropLink(link: DropLinkRecord) {
+    return {
+        id: link.id,
+        token: link.token,
+        url: `/d/${link.token}`,
+        folderPath: link.folder_path,
+        hasPassword: !!link.password_hash,
+        requireUploaderName: !!link.require_uploader_name,
+        expiresAt: link.expires_at ?? null,
+        maxBytes: link.max_bytes ?? null,
+        bytesReceived: link.bytes_received,
+        uploadCount: link.upload_count,
+        createdAt: link.created_at,
+        revokedAt: link.revoked_at ?? null,
+    };
+}
+
+/** Bytes that may still be uploaded, or null when unlimited. */
+function bytesRemaining(link: DropLinkRecord): number | null {
+    return link.max_bytes != null ? Math.max(link.max_bytes - link.bytes_received, 0) : null;
+}
+
+/**
+ * Resolve a token to a usable link plus the creator's claim.
+ * Throws NotFoundError when revoked, expired, full or orphaned, or when
+ * the creator may no longer upload into the folder.
+ */
+function resolveDropLink(token: string | undefined): { link: DropLinkRecord; owner: UserClaim } {
+    const link = token ? getDropLinkByToken(token) : null;
+    if (!link || link.revoked_at) throw new NotFoundError(UNAVAILABLE);
+
+    if (link.expires_at && new Date(link.expires_at).getTime() <= Date.now()) {
+        throw new NotFoundError(UNAVAILABLE);
+    }
+    if (bytesRemaining(link) === 0) throw new NotFoundError(UNAVAILABLE);
+
+    const ownerRecord = getUserById(link.owner_id);
+    if (!ownerRecord || ownerRecord.disabled) throw new NotFoundError(UNAVAILABLE);
+
+    const owner: UserClaim = {
+        id: ownerRecord.id,
+        username: ownerRecord.username,
+        role: ownerRecord.role,
+    };
+
+    const absPath = fileStorage.getFilePath(link.folder_path);
+    if (!fs.existsSync(absPath) || !hasCapability(owner, 'upload') || !canAccessFolder(owner, link.folder_path, 'upload')) {
+        throw new NotFoundError(UNAVAILABLE);
+    }
+    return { link, owner };
+}
+
+/**
+ * POST /api/drops
+ * Create a drop link for a folder the user can upload into.
+ *
+ * @body folderPath          - Destination folder, relative to FILES_DIR
+ * @body expiresAt           - Optional ISO timestamp after which the link stops working
+ * @body password            - Optional password uploaders must provide
+ * @body maxBytes            - Optional limit on the total size of all uploads
+ * @body requireUploaderName - Optional, uploaders must say who they are
+ */
+export async function createDropLink(req: Request, res: Response) {
+    const schema = z.object({
+        folderPath: z.string().min(1),
+        expiresAt: z.iso.datetime({ offset: true }).optional(),
+        password: z.string().min(1).optional(),
+        maxBytes: z.number().int().positive().optional(),
+        requireUploaderName: z.boolean().optional(),
+    });
+
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        const formattedError = z.treeifyError(parsed.error);
+        throw new ValidationError('Invalid drop link payload', formattedError);
+    }
+
+    const { expiresAt, password, maxBytes, requireUploaderName } = parsed.data;
+    if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+        throw new ValidationError('Expiry must be in the future');
+    }
+
+    let folderPath: string;
+    try {
+        folderPath = sanitizeFolderPath(parsed.data.folderPath);
+    } catch (err) {
+        throw new ValidationError((err as Error).message);
+    }
+    if (!folderPath) throw new ValidationError('Drop links must target a folder');
+
+    const absPath = fileStorage.getFilePath(folderPath);
+    if (!fs.existsSync(absPath) || !canAccessFolder(req.user, folderPath, 'upload')) {
+        throw new NotFoundError('Folder not found');
+    }
+
+    const link = createDropLinkRecord({
+        ownerId: req.user!.id,
+        folderPath,
+        passwordHash: password ? await hashPassword(password) : null,
+        requireUploaderName,
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+        maxBytes: maxBytes ?? null,
+    });
+
+    info('Drop link created', { id: link.id, folderPath, by: req.user?.username });
+    return res.status(201).json({ message: 'Drop link created', dropLink: toDropLink(link) });
+}
+
+/**
+ * GET /api/drops
+ * List the current user's active (non-revoked) drop links.
+ *
+ * @query folderPath - Optional, only links into this folder
+ */
+export async function listDropLinks(req: Request, res: Response) {
+    const folderPath = req.query.folderPath as string | undefined;
+    const links = listDropLinkRecords({ ownerId: req.user!.id, folderPath });
+    return res.status(200).json({ dropLinks: links.map(toDropLink) });
+}
+
+/**
+ * DELETE /api/drops/:id
+ * Revoke a drop link. Its token stops working immediately.
+ */
+export async function revokeDropLink(req: Request, res: Response) {
+    const id = req.params.id;
+    if (!id) throw new ValidationError('Drop link id is required');
+
+    const link = getDropLinkById(id);
+    if (!link || !canAccessOwner(req.user, link.owner_id)) {
+        throw new NotFoundError('Drop link not found');
+    }
+
+    const revoked = revokeDropLinkRecord(id);
+    info('Drop link revoked', { id, by: req.user?.username });
+    return res.status(200).json({ message: 'Drop link revoked', dropLink: toDropLink(revoked!) });
+}
+
+/**
+ * GET /d/:token
+ * Public landing info for a drop link. Never reveals the folder's contents
+ * or its full path, only its name.
+ */
+export async function getDropLink(req: Request, res: Response) {
+    const { link, owner } = resolveDropLink(req.params.token);
+    const unlocked = await checkSharePassword(req, link);
+
+    return res.status(200).json({
+        name: link.folder_path.split('/').pop(),
+        requestedBy: owner.username,
+        requiresPassword: !!link.password_hash,
+        unlocked,
+        requireUploaderName: !!link.require_uploader_name,
+        expiresAt: link.expires_at ?? null,
+        bytesRemaining: bytesRemaining(link),
+        maxFileSize: UPLOAD_MAX_FILE_SIZE,
+    });
+}
+
+/**
+ * Middleware for POST /d/:token/upload, mounted before multer.
+ * Checks the link and password, uploads as the link creator and pins the
+ * destination to the link's folder. Requests whose Content-Length can't
+ * fit in the remaining allowance are refused before any data is written.
+ */
+export async function openDropLink(req: Request, _res: Response, next?: NextFunction) {
+    const { link, owner } = resolveDropLink(req.params.token);
+    if (!(await checkSharePassword(req, link))) {
+        throw new AuthorizationError('This drop link requires a password');
+    }
+
+    const remaining = bytesRemaining(link);
+    const contentLength = Number(req.headers['content-length']) || 0;
+    if (remaining != null && contentLength - MULTIPART_OVERHEAD_BYTES > remaining) {
+        throw new QuotaExceededError('Upload is larger than this drop link allows', link.bytes_received, link.max_bytes!);
+    }
+
+    req.user = owner;
+    (req as any).dropLink = link;
+    (req as any).pinnedUploadFolder = link.folder_path;
+    next?.();
+}
+
+/**
+ * POST /d/:token/upload
+ * Store one anonymously uploaded file in the link's folder. Name clashes
+ * always keep both files; the optional uploader name is kept in the file's
+ * metadata.
+ *
+ * @body file         - The file to upload (multipart)
+ * @body uploaderName - Who is sending the file (required when the link asks for it)
+ */
+export async function uploadToDropLink(req: Request, res: Response) {
+    const file = req.file;
+    if (!file) throw new ValidationError('No file provided');
+
+    const link = (req as any).dropLink as DropLinkRecord;
+    const folder = (req as any).sanitizedFolder as string;
+    const ownerId = req.user!.id;
+    const storagePath = path.posix.join(folder, file.filename);
+
+    let reserved = false;
+    try {
+        const uploaderName = typeof req.body?.uploaderName === 'string'
+            ? req.body.uploaderName.trim().slice(0, MAX_UPLOADER_NAME_LENGTH)
+            : '';
+        if (link.require_uploader_name && !uploaderName) {
+            throw new ValidationError('Please enter your name');
+        }
+
+        assertQuotaAvailable(ownerId, file.size);
+
+        // Restoring the trashed file later would clash with this one
+        if (getDeletedFileByOriginalNameAndFolder(file.originalname, folder, ownerId)) {
+            throw new ValidationError(`A file named '${file.originalname}' can't be accepted. Rename it and try again.`);
+        }
+
+        if (!reserveDropLinkBytes(link.id, file.size)) {
+            throw new QuotaExceededError('Upload is larger than this drop link allows', link.bytes_received, link.max_bytes!);
+        }
+        reserved = true;
+
+        const activeConflict = getActiveFileByOriginalNameAndFolder(file.originalname, folder, undefined, ownerId);
+        const result = await recordStoredFile({
+            storedName: file.filename,
+            storagePath,
+            originalName: file.originalname,
+            mimeType: file.mimetype,
+            size: file.size,
+            folder,
+            ownerId,
+            metadata: { dropLinkId: link.id, uploaderName: uploaderName || null },
+        }, 'keep_both', activeConflict);
+
+        info('Drop link upload', { id: link.id, fileId: result.file?.id, size: file.size, uploader: uploaderName || '(anonymous)' });
+        return res.status(201).json({ message: 'File received', name: result.file?.original_name, size: file.size });
+    } catch (err) {
+        if (reserved) releaseDropLinkBytes(link.id, file.size);
+        try { await fileStorage.deleteFile(storagePath); } catch { /* ignore */ }
+        throw err;
+    }
+}
+
+export default {
+    createDropLink,
+    listDropLinks,
+    revokeDropLink,
+    getDropLink,
+    openDropLink,
+    uploadToDropLink,
+};
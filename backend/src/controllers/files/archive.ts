@@ -0,0 +1,157 @@
+import { Request, Response } from 'express';
+import path from 'path';
+import { z } from 'zod';
+import { getFileById, type FileRecord } from '../../models/files';
+import { NotFoundError, ValidationError } from '../../middleware/errors';
+import { canAccessFile } from '../../middleware/authorize';
+import { getStorageProvider } from '../../utils/storage';
+import { createZipWriter } from '../../utils/zipStream';
+import { info, error as logError } from '../../utils/logger';
+import { buildContentDisposition } from './stream';
+
+/**
+ * Controller: Archive Downloads
+ * - Streams several files as one ZIP, built on the fly from storage
+ * - Entries are named after each file's original name and keep the folder
+ *   structure below a base folder
+ * - Used for whole-folder downloads (folderController) and for a
+ *   selection of files by id
+ */
+
+/** Most files a single selection archive may contain. */
+const MAX_ARCHIVE_FILES = 1000;
+
+/** Folder a file lives in ('' for the root). */
+function folderOf(file: FileRecord): string {
+    const folder = path.posix.dirname(file.storage_path);
+    return folder === '.' ? '' : folder;
+}
+
+/** `folder` relative to `base` ('' when they are the same). */
+function relativeTo(folder: string, base: string): string {
+    if (!base) return folder;
+    return folder === base ? '' : folder.slice(base.length + 1);
+}
+
+/** Original names may contain characters a ZIP entry uses as separators. */
+function toEntryName(name: string): string {
+    const cleaned = name.replace(/[/\\]/g, '_').replace(/^\.+$/, '_');
+    return cleaned || 'file';
+}
+
+/** Add " (n)" before the extension until `entry` is not taken. */
+function uniqueEntryName(entry: string, taken: Set<string>): string {
+    if (!taken.has(entry)) return entry;
+    const ext = path.posix.extname(entry);
+    const stem = entry.slice(0, entry.length - ext.length);
+    let n = 1;
+    while (taken.has(`${stem} (${n})${ext}`)) n++;
+    return `${stem} (${n})${ext}`;
+}
+
+/** Deepest folder containing every given folder ('' for the root). */
+function commonFolder(folders: string[]): string {
+    const [first, ...rest] = folders.map((folder) => (folder ? folder.split('/') : []));
+    if (!first) return '';
+    let length = first.length;
+    for (const segments of rest) {
+        let i = 0;
+        while (i < length && i < segments.length && segments[i] === first[i]) i++;
+        length = i;
+    }
+    return first.slice(0, length).join('/');
+}
+
+/**
+ * streamArchive
+ * - Sends `files` as a ZIP named `archiveName`, with entries relative to
+ *   `baseFolder`; `folders` adds (possibly empty) directory entries
+ * - Nothing is buffered: each file is read from its storage provider and
+ *   deflated into the response in turn
+ * - Files whose content is missing are skipped. Once streaming has
+ *   started, errors can only abort the connection, so they are logged
+ */
+export async function streamArchive(
+    res: Response,
+    archiveName: string,
+    baseFolder: string,
+    files: FileRecord[],
+    folders: string[] = []
+): Promise<void> {
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', buildContentDisposition('attachment', archiveName));
+    res.setHeader('Cache-Control', 'private, no-store');
+
+    const zip = createZipWriter(res);
+    const taken = new Set<string>();
+    let added = 0;
+
+    try {
+        for (const folder of folders) {
+            const relative = relativeTo(folder, baseFolder);
+            if (!relative) continue;
+            taken.add(relative);
+            await zip.addDirectory(relative);
+        }
+
+        for (const file of files) {
+            const directory = relativeTo(folderOf(file), baseFolder);
+            const entry = uniqueEntryName(
+                path.posix.join(directory, toEntryName(file.original_name)),
+                taken
+            );
+
+            const provider = getStorageProvider(file.storage_provider);
+            const stats = await provider.stat(file.storage_path);
+            if (!stats) {
+                logError('Archive skipped missing file content', { id: file.id, path: file.storage_path });
+                continue;
+            }
+
+            taken.add(entry);
+            const source = await provider.getStream(file.storage_path);
+            await zip.addFile(entry, source, { size: stats.size, modifiedAt: stats.modifiedAt });
+            added++;
+        }
+
+        await zip.finish();
+        info('Archive downloaded', { archive: archiveName, files: added });
+    } catch (err) {
+        // Client went away or storage failed mid-stream; the ZIP is incomplete
+        logError('Archive download aborted', { archive: archiveName, err });
+        res.destroy();
+    }
+}
+
+/**
+ * POST /api/files/archive
+ * Download a selection of files as one ZIP. Entry paths are relative to
+ * the deepest folder the files share, which also names the archive.
+ *
+ * @body fileIds - Ids of the files to include (1–1000)
+ */
+export async function downloadFilesArchive(req: Request, res: Response) {
+    const schema = z.object({
+        fileIds: z.array(z.string().min(1)).min(1).max(MAX_ARCHIVE_FILES),
+    });
+
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        const formattedError = z.treeifyError(parsed.error);
+        throw new ValidationError('Invalid archive payload', formattedError);
+    }
+
+    // Same rules as single downloads; unknown and inaccessible ids look alike
+    const files = [...new Set(parsed.data.fileIds)].map((id) => {
+        const file = getFileById(id);
+        if (!file || file.status !== 'active' || !canAccessFile(req.user, file, 'view')) {
+            throw new NotFoundError(`File not found: ${id}`);
+        }
+        return file;
+    });
+
+    const baseFolder = commonFolder(files.map(folderOf));
+    const archiveName = `${path.posix.basename(baseFolder) || 'files'}.zip`;
+
+    await streamArchive(res, archiveName, baseFolder, files);
+}
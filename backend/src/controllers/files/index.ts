@@ -4,13 +4,27 @@
  */
 
 // Single file upload
-export { uploadFile } from './upload';
+export { uploadFile, recordStoredFile } from './upload';
 
 // Batch/folder upload
 export { uploadFiles } from './uploadBatch';
 
+// Resumable (chunked) upload
+export {
+    createResumableUpload,
+    listResumableUploads,
+    getResumableUpload,
+    appendResumableUpload,
+    completeResumableUpload,
+    cancelResumableUpload,
+} from './resumable';
+
 // List and download
 export { listFiles, downloadFileById } from './list';
+export { streamFileRecord } from './stream';
+
+// ZIP archives
+export { downloadFilesArchive, streamArchive } from './archive';
 
 // File management (metadata, delete, restore)
 export {
@@ -23,5 +37,8 @@ export {
 // File moving
 export { moveFile } from './move';
 
+// Version history
+export { listFileVersions, downloadFileVersion, restoreFileVersion } from './versions';
+
 // Types
 export type { BatchFileResult, ConflictInfo, BatchUploadResponse, ConflictResponse } from './types';
@@ -1,30 +1,62 @@
 import { Request, Response } from 'express';
-import { createReadStream } from 'fs';
-import { stat } from 'fs/promises';
-import * as fileStorage from '../../utils/fileStorage';
 import { ValidationError, NotFoundError } from '../../middleware/errors';
 import { info } from '../../utils/logger';
-import { getFileById, listFiles as listFilesModel, bumpAccess } from '../../models/files';
+import { assertFolderAccess, canAccessFile, isAdmin } from '../../middleware/authorize';
+import { getFileById, listFiles as listFilesModel, type FileRecord } from '../../models/files';
+import { getTrashPurgeDate } from '../../utils/trashRetention';
+import { sanitizeFolderPath } from '../../utils/pathSanitizer';
+import { streamFileRecord } from './stream';
 
 /**
  * GET /api/files
  * List files with optional filtering and pagination.
+ * `?folder=` limits the list to one folder; inside a folder the user owns or
+ * was granted, active files added by other users are included too.
  */
 export async function listFiles(req: Request, res: Response) {
-    const ownerId = (req.query.ownerId as string) || req.user?.id;
     const isPublic = req.query.isPublic ? req.query.isPublic === 'true' : undefined;
     const status = (req.query.status as 'active' | 'deleted') || 'active';
     const limit = req.query.limit ? Number(req.query.limit) : undefined;
     const offset = req.query.offset ? Number(req.query.offset) : undefined;
 
-    const files = listFilesModel({ ownerId, isPublic, status, limit, offset });
+    let folder: string | undefined;
+    if (typeof req.query.folder === 'string') {
+        try {
+            folder = sanitizeFolderPath(req.query.folder);
+        } catch (err) {
+            throw new ValidationError(err instanceof Error ? err.message : 'Invalid folder path');
+        }
+        assertFolderAccess(req.user, folder, 'view');
+    }
+
+    // Only admins may list another user's files; a shared folder's active
+    // files are listed whoever added them (the root stays per-user)
+    const requestedOwner = req.query.ownerId as string | undefined;
+    const ownerId = folder && status === 'active'
+        ? undefined
+        : (isAdmin(req.user) && requestedOwner) || req.user?.id;
+
+    const files = (listFilesModel({ ownerId, folder, isPublic, status, limit, offset }) as FileRecord[])
+        .filter((file) => ownerId !== undefined || canAccessFile(req.user, file, 'view'));
     info('Files listed', { count: files.length, status });
+
+    // Trashed files report when retention will delete them
+    if (status === 'deleted') {
+        return res.status(200).json({
+            files: files.map((file) => file && {
+                ...file,
+                purge_at: getTrashPurgeDate(file)?.toISOString() ?? null,
+            }),
+        });
+    }
     return res.status(200).json({ files });
 }
 
 /**
  * GET /api/files/id/:id
  * Download/stream a file by its database ID.
+ * Supports Range requests and conditional GETs; `?disposition=attachment`
+ * forces a download instead of inline display.
  */
 export async function downloadFileById(req: Request, res: Response) {
     const id = req.params.id;
@@ -33,15 +65,5 @@ export async function downloadFileById(req: Request, res: Response) {
     const file = getFileById(id);
     if (!file) throw new NotFoundError('File not found');
 
-    const absolutePath = fileStorage.getFilePath(file.storage_path);
-    const stats = await stat(absolutePath);
-
-    res.setHeader('Content-Length', stats.size);
-    res.setHeader('Content-Type', file.mime_type ?? 'application/octet-stream');
-    res.setHeader('Content-Disposition', `inline; filename="${file.original_name}"`);
-
-    const stream = createReadStream(absolutePath);
-    stream.pipe(res);
-
-    try { bumpAccess(file.id); } catch { /* ignore */ }
+    await streamFileRecord(req, res, file);
 }
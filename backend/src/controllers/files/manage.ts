@@ -2,21 +2,46 @@ import { Request, Response } from 'express';
 import {
     updateFile,
     markFileDeleted,
+    markFileRestored,
     getFileById,
     deleteFilePermanent,
 } from '../../models/files';
 import * as fileStorage from '../../utils/fileStorage';
-import { ValidationError, NotFoundError } from '../../middleware/errors';
+import { purgeFileVersions } from '../../utils/fileVersioning';
+import { AuthorizationError, ValidationError, NotFoundError } from '../../middleware/errors';
+import { canAccessOwner, hasCapability } from '../../middleware/authorize';
 import { recalculateParentFolderSizes } from '../../utils/folderSizeUtil';
 import path from 'path';
 
+/** Fields a client may change through the metadata endpoint */
+const EDITABLE_FIELDS = ['original_name', 'is_public', 'metadata_json'] as const;
+
 /**
  * Update file metadata (original_name, is_public, metadata_json)
+ * Other fields (owner_id, storage_path, status, ...) are ignored so the
+ * endpoint can't be used to take over or relocate a file.
+ * `is_public` lists the file in its owner's public gallery, so only the
+ * owner (or an admin) with the 'share' capability may change it.
  */
 export async function updateFileMetadata(req: Request, res: Response) {
     const id = req.params.id;
     if (!id) throw new ValidationError('File id is required');
-    const patch = req.body as Record<string, any>;
+    const body = (req.body ?? {}) as Record<string, any>;
+    const patch: Record<string, any> = {};
+    for (const field of EDITABLE_FIELDS) {
+        if (body[field] !== undefined) patch[field] = body[field];
+    }
+
+    if (patch.is_public !== undefined) {
+        if (typeof patch.is_public !== 'boolean' && patch.is_public !== 0 && patch.is_public !== 1) {
+            throw new ValidationError('is_public must be a boolean');
+        }
+        const file = getFileById(id);
+        if (!file) throw new NotFoundError('File not found');
+        if (!canAccessOwner(req.user, file.owner_id) || !hasCapability(req.user, 'share')) {
+            throw new AuthorizationError('Only the file owner can publish or unpublish it');
+        }
+    }
     const updated = updateFile(id, patch as any);
     if (!updated) throw new NotFoundError('File not found');
     return res.status(200).json({ file: updated });
@@ -55,7 +80,7 @@ export async function restoreFile(req: Request, res: Response) {
     const file = getFileById(id);
     if (!file) throw new NotFoundError('File not found');
 
-    const updated = updateFile(id, { status: 'active' });
+    const updated = markFileRestored(id);
     if (!updated) throw new NotFoundError('File not found');
 
     // Recalculate folder size
@@ -79,11 +104,12 @@ export async function permanentDeleteById(req: Request, res: Response) {
 
     try {
         // Use storage_path (relative) to delete the file
-        await fileStorage.deleteFile(file.storage_path);
+        await fileStorage.deleteFile(file.storage_path, file.storage_provider);
     } catch (err) {
         throw err;
     }
 
+    await purgeFileVersions(id);
     deleteFilePermanent(id);
 
     // Recalculate folder size after hard deletion
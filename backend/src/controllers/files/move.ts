@@ -3,13 +3,17 @@ import path from 'path';
 import {
     getFileById,
     updateFile,
+    deleteFilePermanent,
     getActiveFileByOriginalNameAndFolder,
     generateUniqueOriginalNameInFolder,
 } from '../../models/files';
+import { reassignFileVersions } from '../../models/fileVersions';
 import { getFolderByPath } from '../../models/folders';
 import { ValidationError, NotFoundError } from '../../middleware/errors';
 import { recalculateParentFolderSizes } from '../../utils/folderSizeUtil';
+import { assertFolderAccess } from '../../middleware/authorize';
 import fileStorage from '../../utils/fileStorage';
+import { archiveFileVersion, pruneFileVersions } from '../../utils/fileVersioning';
 
 /**
  * POST /api/files/:id/move
@@ -43,11 +47,7 @@ export async function moveFile(req: Request, res: Response) {
         throw new ValidationError('Cannot move a file in Trash. Restore it first.');
     }
 
-    // Verify ownership (implicit by querying with user context if needed)
-    const userId = (req as any).user?.id;
-    if (file.owner_id !== userId) {
-        throw new NotFoundError('File not found');
-    }
+    // File access is enforced by the `authorizeFile('edit')` route middleware
 
     // Verify destination folder exists (if not root)
     if (destinationPath) {
@@ -57,10 +57,8 @@ export async function moveFile(req: Request, res: Response) {
                 `Destination folder '${destinationPath}' does not exist.`
             );
         }
-        // Verify ownership of destination folder
-        if (destFolder.owner_id !== userId) {
-            throw new NotFoundError('Destination folder not found');
-        }
+        // Verify the user may add files to the destination folder
+        assertFolderAccess(req.user, destinationPath, 'upload', 'Destination folder not found');
     }
 
     const sourceFolderPath = path.posix.dirname(file.storage_path) === '.' ? '' : path.posix.dirname(file.storage_path);
@@ -70,7 +68,7 @@ export async function moveFile(req: Request, res: Response) {
         : path.posix.basename(file.storage_path);
 
     // Check for active file conflict in destination (excluding the file being moved)
-    const activeConflict = getActiveFileByOriginalNameAndFolder(fileName, destinationPath || null, fileId);
+    const activeConflict = getActiveFileByOriginalNameAndFolder(fileName, destinationPath || null, fileId, file.owner_id ?? null);
 
     // Return 409 if conflict and no action specified
     if (activeConflict && !action) {
@@ -85,18 +83,29 @@ export async function moveFile(req: Request, res: Response) {
         // Move physical file first (atomic operation)
         if (file.storage_path !== newStoragePath) {
             await fileStorage.ensureDirectory(destinationPath || '');
-            await fileStorage.renameFile(file.storage_path, newStoragePath);
+            await fileStorage.renameFile(file.storage_path, newStoragePath, file.storage_provider);
         }
 
+        // Keep the replaced content as a version of the conflicting file
+        await archiveFileVersion(activeConflict, req.user?.id);
+
+        // The moved file lives on as the conflict's row (stored names are unique)
+        deleteFilePermanent(fileId);
+
         // Update existing conflict to take this file's data
         const updated = updateFile(activeConflict.id, {
             stored_name: file.stored_name,
             mime_type: file.mime_type,
             size: file.size,
             hash_sha256: file.hash_sha256,
+            storage_provider: file.storage_provider,
             storage_path: newStoragePath,
         });
 
+        // Carry the moved file's history over
+        reassignFileVersions(fileId, activeConflict.id);
+        await pruneFileVersions(activeConflict.id);
+
         // Recalculate both source and destination folder sizes
         recalculateParentFolderSizes(sourceFolderPath);
         recalculateParentFolderSizes(destinationPath || '');
@@ -107,13 +116,13 @@ export async function moveFile(req: Request, res: Response) {
     // Handle conflict by renaming (keep_both)
     let finalOriginalName = fileName;
     if (action === 'keep_both' && activeConflict) {
-        finalOriginalName = generateUniqueOriginalNameInFolder(fileName, destinationPath || null);
+        finalOriginalName = generateUniqueOriginalNameInFolder(fileName, destinationPath || null, file.owner_id ?? null);
     }
 
     // Move physical file first (atomic operation)
     if (file.storage_path !== newStoragePath) {
         await fileStorage.ensureDirectory(destinationPath || '');
-        await fileStorage.renameFile(file.storage_path, newStoragePath);
+        await fileStorage.renameFile(file.storage_path, newStoragePath, file.storage_provider);
     }
 
     // Update file with new path and possibly new name
@@ -0,0 +1,327 @@
+import { Request, Response } from 'express';
+import { createWriteStream } from 'fs';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { z } from 'zod';
+import { UPLOAD_MAX_FILE_SIZE, UPLOAD_DISALLOWED_MIME_TYPES } from '../../config/env';
+import * as fileStorage from '../../utils/fileStorage';
+import { sanitizeFolderPath } from '../../utils/pathSanitizer';
+import { assertQuotaAvailable } from '../../utils/storageQuota';
+import {
+    createStagedFile,
+    discardUpload,
+    getStagedFilePath,
+    syncUploadOffset,
+} from '../../utils/uploadStaging';
+import { correctMimeType } from '../../middleware/multerHandler';
+import { assertFolderAccess, canAccessOwner } from '../../middleware/authorize';
+import { NotFoundError, ValidationError } from '../../middleware/errors';
+import { info } from '../../utils/logger';
+import {
+    getDeletedFileByOriginalNameAndFolder,
+    getActiveFileByOriginalNameAndFolder,
+} from '../../models/files';
+import {
+    createUpload,
+    getUploadById,
+    listUploads,
+    type ResumableUploadRecord,
+} from '../../models/resumableUploads';
+import { recordStoredFile } from './upload';
+
+/**
+ * Controller: Resumable Uploads
+ * - tus-style protocol for large files over unreliable connections
+ * - POST creates an upload, PATCH appends bytes at `Upload-Offset`,
+ *   HEAD/GET report the received offset, POST .../complete finalizes
+ * - Bytes are staged under FILES_DIR/.uploads and the offset is persisted,
+ *   so clients can resume after network drops or server restarts
+ * - Finalizing runs the same trash/conflict checks as a multipart upload
+ */
+
+/** Content type required for PATCH bodies (as in tus). */
+const CHUNK_CONTENT_TYPE = 'application/offset+octet-stream';
+
+/** Uploads currently receiving a PATCH; concurrent writes would corrupt the offset. */
+const activeWrites = new Set<string>();
+
+const createUploadSchema = z.object({
+    filename: z.string().trim().min(1).max(255),
+    size: z.number().int().nonnegative(),
+    mimeType: z.string().trim().max(255).optional(),
+    folder: z.string().optional(),
+});
+
+const completeUploadSchema = z.object({
+    action: z.enum(['replace', 'keep_both']).optional(),
+});
+
+/** Public shape of an unfinished upload. */
+function toUpload(upload: ResumableUploadRecord) {
+    return {
+        id: upload.id,
+        filename: upload.original_name,
+        mimeType: upload.mime_type,
+        folder: upload.folder,
+        size: upload.total_size,
+        offset: upload.offset,
+        createdAt: upload.created_at,
+        updatedAt: upload.updated_at,
+    };
+}
+
+/** Load an upload owned by the current user (or any upload for admins). */
+function loadUpload(req: Request): ResumableUploadRecord {
+    const upload = getUploadById(req.params.id as string);
+    if (!upload || !canAccessOwner(req.user, upload.owner_id)) {
+        throw new NotFoundError('Upload not found');
+    }
+    return upload;
+}
+
+/** Set the tus-style headers describing upload progress. */
+function setProgressHeaders(res: Response, upload: ResumableUploadRecord): void {
+    res.set('Upload-Offset', String(upload.offset));
+    res.set('Upload-Length', String(upload.total_size));
+    res.set('Cache-Control', 'no-store');
+}
+
+/**
+ * POST /api/files/uploads
+ * Start a resumable upload. Validates size, type and folder access up front
+ * so clients don't transfer gigabytes only to be rejected at the end.
+ */
+export async function createResumableUpload(req: Request, res: Response) {
+    const body = createUploadSchema.parse(req.body ?? {});
+
+    let folder: string;
+    try {
+        folder = sanitizeFolderPath(body.folder);
+    } catch (err) {
+        throw new ValidationError(err instanceof Error ? err.message : 'Invalid folder path');
+    }
+    assertFolderAccess(req.user, folder, 'upload');
+
+    if (body.size > UPLOAD_MAX_FILE_SIZE) {
+        throw new ValidationError(`File too large. Maximum size is ${UPLOAD_MAX_FILE_SIZE} bytes`);
+    }
+    assertQuotaAvailable(req.user!.id, body.size);
+
+    const originalName = path.basename(body.filename.replace(/\\/g, '/'));
+    const mimeType = correctMimeType(body.mimeType || 'application/octet-stream', originalName);
+    if (UPLOAD_DISALLOWED_MIME_TYPES.includes(mimeType.toLowerCase())) {
+        throw new ValidationError(
+            `File type not allowed: ${mimeType}. Blocked types: ${UPLOAD_DISALLOWED_MIME_TYPES.join(', ')}`
+        );
+    }
+
+    const upload = createUpload({
+        ownerId: req.user!.id,
+        originalName,
+        storedName: `${crypto.randomUUID()}${path.extname(originalName)}`,
+        mimeType,
+        folder,
+        totalSize: body.size,
+    });
+
+    try {
+        await createStagedFile(upload.id);
+    } catch (err) {
+        await discardUpload(upload.id);
+        throw err;
+    }
+
+    info('Resumable upload created', { id: upload.id, originalName, size: body.size, folder: folder || '(root)' });
+
+    setProgressHeaders(res, upload);
+    res.set('Location', `${req.baseUrl}/uploads/${upload.id}`);
+    return res.status(201).json({ message: 'Upload created', upload: toUpload(upload) });
+}
+
+/**
+ * GET /api/files/uploads
+ * List the current user's unfinished uploads.
+ */
+export async function listResumableUploads(req: Request, res: Response) {
+    const uploads = listUploads({ ownerId: req.user!.id });
+    return res.status(200).json({ uploads: uploads.map(toUpload) });
+}
+
+/**
+ * GET|HEAD /api/files/uploads/:id
+ * Report how many bytes have been received so the client knows where to resume.
+ */
+export async function getResumableUpload(req: Request, res: Response) {
+    const upload = await syncUploadOffset(loadUpload(req));
+    setProgressHeaders(res, upload);
+    return res.status(200).json({ upload: toUpload(upload) });
+}
+
+/**
+ * PATCH /api/files/uploads/:id
+ * Append the request body at `Upload-Offset`. The offset must match the
+ * bytes already received; on mismatch the current offset is returned with 409.
+ * Bytes written before an interrupted request are kept.
+ */
+export async function appendResumableUpload(req: Request, res: Response) {
+    const upload = loadUpload(req);
+
+    if (req.get('Content-Type') !== CHUNK_CONTENT_TYPE) {
+        throw new ValidationError(`Content-Type must be ${CHUNK_CONTENT_TYPE}`);
+    }
+
+    const clientOffset = Number(req.get('Upload-Offset'));
+    if (!Number.isInteger(clientOffset) || clientOffset < 0) {
+        throw new ValidationError('Upload-Offset header must be a non-negative integer');
+    }
+
+    if (activeWrites.has(upload.id)) {
+        return res.status(409).json({ message: 'Upload is already receiving data', offset: upload.offset });
+    }
+
+    activeWrites.add(upload.id);
+    try {
+        const current = await syncUploadOffset(upload);
+        if (clientOffset !== current.offset) {
+            setProgressHeaders(res, current);
+            return res.status(409).json({ message: 'Upload offset mismatch', offset: current.offset });
+        }
+
+        const remaining = current.total_size - current.offset;
+        const declaredLength = Number(req.get('Content-Length'));
+        if (Number.isFinite(declaredLength) && declaredLength > remaining) {
+            throw new ValidationError('Chunk exceeds the declared upload size');
+        }
+
+        // Count bytes and refuse anything past the declared size
+        let received = 0;
+        let overflow = false;
+        const limiter = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+                received += chunk.length;
+                if (received > remaining) {
+                    overflow = true;
+                    return callback(new Error('Chunk exceeds the declared upload size'));
+                }
+                callback(null, chunk);
+            },
+        });
+
+        let writeError: unknown = null;
+        try {
+            await pipeline(req, limiter, createWriteStream(getStagedFilePath(upload.id), { flags: 'a' }));
+        } catch (err) {
+            writeError = err;
+        }
+
+        // Persist whatever made it to disk, even for interrupted requests
+        const updated = await syncUploadOffset(current);
+
+        if (overflow) {
+            throw new ValidationError('Chunk exceeds the declared upload size');
+        }
+        if (writeError) {
+            if (!req.complete) {
+                info('Resumable upload interrupted', { id: upload.id, offset: updated.offset });
+                return;
+            }
+            throw writeError;
+        }
+
+        setProgressHeaders(res, updated);
+        return res.status(200).json({ upload: toUpload(updated) });
+    } finally {
+        activeWrites.delete(upload.id);
+    }
+}
+
+/**
+ * POST /api/files/uploads/:id/complete
+ * Move a fully received upload into place and record it.
+ * Returns 409 on a name conflict without discarding the upload, so the
+ * client can retry with `action` = 'replace' | 'keep_both'.
+ */
+export async function completeResumableUpload(req: Request, res: Response) {
+    const { action } = completeUploadSchema.parse(req.body ?? {});
+    const pending = loadUpload(req);
+
+    if (activeWrites.has(pending.id)) {
+        return res.status(409).json({ message: 'Upload is still receiving data' });
+    }
+
+    const upload = await syncUploadOffset(pending);
+    if (upload.offset !== upload.total_size) {
+        throw new ValidationError(`Upload incomplete: received ${upload.offset} of ${upload.total_size} bytes`);
+    }
+
+    // The target folder may have changed hands since the upload started
+    assertFolderAccess(req.user, upload.folder, 'upload');
+
+    // Other uploads may have used up the quota meanwhile; the upload is kept
+    // so it can be completed once space is freed
+    assertQuotaAvailable(upload.owner_id, upload.total_size);
+
+    const ownerId = upload.owner_id;
+    const folder = upload.folder;
+
+    // Check for trashed file conflict
+    const trashedConflict = getDeletedFileByOriginalNameAndFolder(upload.original_name, folder || null, ownerId);
+    if (trashedConflict) {
+        throw new ValidationError(
+            `Upload blocked: '${upload.original_name}' exists in Trash. Restore or delete it first.`
+        );
+    }
+
+    // Check for active file conflict
+    const activeConflict = getActiveFileByOriginalNameAndFolder(upload.original_name, folder || null, undefined, ownerId);
+    if (activeConflict && !action) {
+        return res.status(409).json({
+            message: `A file named '${upload.original_name}' already exists.`,
+            conflict: { id: activeConflict.id, originalName: activeConflict.original_name },
+        });
+    }
+
+    const storagePath = folder ? path.posix.join(folder, upload.stored_name) : upload.stored_name;
+    if (folder) await fileStorage.ensureDirectory(folder);
+    await fileStorage.renameFile(fileStorage.getStagingPath(upload.id), storagePath);
+
+    try {
+        const result = await recordStoredFile({
+            storedName: upload.stored_name,
+            storagePath,
+            originalName: upload.original_name,
+            mimeType: upload.mime_type,
+            size: upload.total_size,
+            folder,
+            ownerId,
+        }, action, activeConflict);
+
+        await discardUpload(upload.id);
+        info('Resumable upload completed', { id: upload.id, storagePath });
+
+        return res.status(result.status).json({ message: result.message, file: result.file });
+    } catch (err) {
+        try { await fileStorage.deleteFile(storagePath); } catch { /* ignore */ }
+        await discardUpload(upload.id);
+        throw err;
+    }
+}
+
+/**
+ * DELETE /api/files/uploads/:id
+ * Abandon an upload and free its staged data.
+ */
+export async function cancelResumableUpload(req: Request, res: Response) {
+    const upload = loadUpload(req);
+
+    if (activeWrites.has(upload.id)) {
+        return res.status(409).json({ message: 'Upload is still receiving data' });
+    }
+
+    await discardUpload(upload.id);
+    info('Resumable upload cancelled', { id: upload.id });
+
+    return res.status(200).json({ message: 'Upload cancelled' });
+}
@@ -0,0 +1,160 @@
+import { Request, Response } from 'express';
+import { FileNotFoundError } from '../../middleware/errors';
+import { getStorageProvider, type StorageObjectStat } from '../../utils/storage';
+import { bumpAccess, type FileRecord } from '../../models/files';
+
+/** How the browser should present a download. */
+export type ContentDisposition = 'inline' | 'attachment';
+
+/** Options for streamFileRecord. */
+export interface StreamFileOptions {
+    /** Defaults to `?disposition=` from the request, else 'inline' */
+    disposition?: ContentDisposition;
+    /**
+     * Called before any file content is sent (full or partial) — not for
+     * 304 revalidations or HEAD requests — with the first byte being sent.
+     * Throw to refuse the download.
+     */
+    onDownload?: (start: number) => void;
+    /**
+     * Served without signing in (share links, public gallery). Types a
+     * browser would run script from are always sent as attachments.
+     */
+    isPublic?: boolean;
+}
+
+/**
+ * MIME types that run script when a browser renders them inline: HTML,
+ * SVG and other XML, and JavaScript.
+ */
+const ACTIVE_CONTENT_TYPE = /^(text\/(html|xml|xsl|javascript|ecmascript)|application\/(xhtml\+xml|xml|javascript|x-javascript|ecmascript)|[\w.-]+\/[\w.-]+\+xml)$/;
+
+function isActiveContent(mimeType: string | null): boolean {
+    if (!mimeType) return false;
+    return ACTIVE_CONTENT_TYPE.test(mimeType.split(';')[0].trim().toLowerCase());
+}
+
+/**
+ * Strong ETag from the content hash; files without a hash fall back to a
+ * weak size + mtime validator.
+ */
+function buildEtag(file: FileRecord, stats: StorageObjectStat): string {
+    if (file.hash_sha256) return `"${file.hash_sha256}"`;
+    return `W/"${stats.size.toString(16)}-${stats.modifiedAt.getTime().toString(16)}"`;
+}
+
+/**
+ * Content-Disposition value with an ASCII fallback `filename` and an
+ * RFC 5987 `filename*` so non-ASCII names survive intact.
+ */
+export function buildContentDisposition(type: ContentDisposition, filename: string): string {
+    const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    const encoded = encodeURIComponent(filename)
+        .replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+    return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/** Read `?disposition=attachment|inline` from the request (default inline). */
+function getRequestedDisposition(req: Request): ContentDisposition {
+    return req.query.disposition === 'attachment' ? 'attachment' : 'inline';
+}
+
+/**
+ * True when an `If-Range` precondition (if any) still matches, i.e. the
+ * client's partial copy is of the current content and a range may be served.
+ */
+function ifRangeMatches(req: Request, etag: string, lastModified: Date): boolean {
+    const ifRange = req.get('If-Range');
+    if (!ifRange) return true;
+
+    if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+        // Weak validators never match for ranges
+        return !etag.startsWith('W/') && ifRange === etag;
+    }
+
+    const since = Date.parse(ifRange);
+    return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) <= Math.floor(since / 1000);
+}
+
+/**
+ * streamFileRecord
+ * - Streams a stored file from its storage provider with content headers set
+ * - Supports single `Range` requests (206/416), `Accept-Ranges`, `ETag`,
+ *   `Last-Modified` and conditional GETs (`If-None-Match` /
+ *   `If-Modified-Since` → 304)
+ * - Shared by authenticated downloads and public share links; public ones
+ *   never render HTML, SVG, XML or JavaScript inline (see `isPublic`)
+ * - Bumps the file's access counter for downloads from the first byte (best effort)
+ */
+export async function streamFileRecord(
+    req: Request,
+    res: Response,
+    file: FileRecord,
+    options: StreamFileOptions = {}
+): Promise<void> {
+    const provider = getStorageProvider(file.storage_provider);
+    const stats = await provider.stat(file.storage_path);
+    if (!stats) throw new FileNotFoundError(`File not found: ${file.storage_path}`);
+    const etag = buildEtag(file, stats);
+
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('ETag', etag);
+    res.setHeader('Last-Modified', stats.modifiedAt.toUTCString());
+    res.setHeader('Cache-Control', 'private, no-cache');
+
+    // Client copy is current — Express compares If-None-Match / If-Modified-Since
+    if (req.fresh) {
+        res.status(304).end();
+        return;
+    }
+
+    // Resolve the requested byte range (multi-range requests get the whole file)
+    let start = 0;
+    let end = stats.size - 1;
+    let partial = false;
+
+    const ranges = req.get('Range') && ifRangeMatches(req, etag, stats.modifiedAt)
+        ? req.range(stats.size, { combine: true })
+        : undefined;
+
+    if (ranges === -1) {
+        res.setHeader('Content-Range', `bytes */${stats.size}`);
+        res.status(416).end();
+        return;
+    }
+    if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+        start = ranges[0].start;
+        end = ranges[0].end;
+        partial = true;
+    }
+
+    if (req.method !== 'HEAD') options.onDownload?.(start);
+
+    let disposition = options.disposition ?? getRequestedDisposition(req);
+    if (options.isPublic && isActiveContent(file.mime_type)) disposition = 'attachment';
+    res.setHeader('Content-Type', file.mime_type ?? 'application/octet-stream');
+    // Browsers must trust the stored type rather than guess from the content
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Content-Disposition', buildContentDisposition(disposition, file.original_name));
+    res.setHeader('Content-Length', stats.size === 0 ? 0 : end - start + 1);
+
+    if (partial) {
+        res.status(206);
+        res.setHeader('Content-Range', `bytes ${start}-${end}/${stats.size}`);
+    }
+
+    // Count each download once, not every range a player requests
+    if (start === 0 && req.method !== 'HEAD') {
+        try { bumpAccess(file.id); } catch { /* ignore */ }
+    }
+
+    if (req.method === 'HEAD' || stats.size === 0) {
+        res.end();
+        return;
+    }
+
+    const stream = await provider.getStream(file.storage_path, { start, end });
+    stream.on('error', () => res.destroy());
+    res.on('close', () => stream.destroy());
+    stream.pipe(res);
+}
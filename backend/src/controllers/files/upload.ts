@@ -3,6 +3,9 @@ import path from 'path';
 import { isUploadAborted } from '../../middleware/uploadTracker';
 import * as fileStorage from '../../utils/fileStorage';
 import { computeSha256 } from '../../utils/fileHash';
+import { commitToStorage, type StorageProviderName } from '../../utils/storage';
+import { archiveFileVersion } from '../../utils/fileVersioning';
+import { assertQuotaAvailable } from '../../utils/storageQuota';
 import { ValidationError } from '../../middleware/errors';
 import { info } from '../../utils/logger';
 import {
@@ -11,20 +14,25 @@ import {
     getActiveFileByOriginalNameAndFolder,
     generateUniqueOriginalNameInFolder,
     updateFile,
+    type FileRecord,
 } from '../../models/files';
 import { ensureAndRecalculateFolderSizes } from '../../utils/folderSizeUtil';
+import { extractUploadedArchive, isExtractRequested } from './uploadArchive';
 
 /**
  * POST /api/files/upload
  * Upload a single file to storage, optionally in a subdirectory.
  * Handles conflict detection and resolution via action param.
  * Recalculates folder size on successful upload.
+ * With `extract=true` an archive is unpacked into the folder instead
+ * (see uploadArchive).
  */
 export async function uploadFile(req: Request, res: Response) {
     const file = req.file;
     if (!file) throw new ValidationError('No file provided');
 
     const sanitizedFolder = (req as any).sanitizedFolder as string || '';
+    const ownerId = req.user?.id ?? null;
     const storagePath = sanitizedFolder
         ? path.posix.join(sanitizedFolder, file.filename)
         : file.filename;
@@ -41,8 +49,21 @@ export async function uploadFile(req: Request, res: Response) {
         return res.status(499).json({ message: 'Upload cancelled' });
     }
 
+    // Archives to unpack: the entries count against the quota, not the archive
+    if (isExtractRequested(req.body?.extract)) {
+        return extractUploadedArchive(req, res, file, sanitizedFolder, storagePath);
+    }
+
+    // Exact quota check now that the stored size is known
+    try {
+        assertQuotaAvailable(ownerId, file.size);
+    } catch (err) {
+        try { await fileStorage.deleteFile(storagePath); } catch { /* ignore */ }
+        throw err;
+    }
+
     // Check for trashed file conflict
-    const trashedConflict = getDeletedFileByOriginalNameAndFolder(file.originalname, sanitizedFolder || null);
+    const trashedConflict = getDeletedFileByOriginalNameAndFolder(file.originalname, sanitizedFolder || null, ownerId);
     if (trashedConflict) {
         try { await fileStorage.deleteFile(storagePath); } catch { /* ignore */ }
         throw new ValidationError(
@@ -51,7 +72,7 @@ export async function uploadFile(req: Request, res: Response) {
     }
 
     // Check for active file conflict
-    const activeConflict = getActiveFileByOriginalNameAndFolder(file.originalname, sanitizedFolder || null);
+    const activeConflict = getActiveFileByOriginalNameAndFolder(file.originalname, sanitizedFolder || null, undefined, ownerId);
     const action = req.body?.action as 'replace' | 'keep_both' | undefined;
 
     // Return 409 if conflict and no action specified
@@ -64,51 +85,106 @@ export async function uploadFile(req: Request, res: Response) {
     }
 
     try {
-        const absolutePath = fileStorage.getFilePath(storagePath);
-        const sha256 = await computeSha256(absolutePath);
-
-        // Handle replace action
-        if (action === 'replace' && activeConflict) {
-            const oldStorage = activeConflict.storage_path;
-            const updated = updateFile(activeConflict.id, {
-                stored_name: file.filename,
-                mime_type: file.mimetype,
-                size: file.size,
-                hash_sha256: sha256,
-                storage_path: storagePath,
-                owner_id: req.user?.id ?? null,
-            });
-            if (oldStorage && oldStorage !== storagePath) {
-                try { await fileStorage.deleteFile(oldStorage); } catch { /* ignore */ }
-            }
-            // Recalculate folder sizes after replace (including root folder)
-            ensureAndRecalculateFolderSizes(sanitizedFolder, req.user?.id ?? null);
-            return res.status(200).json({ message: 'File replaced', file: updated });
-        }
-
-        // Handle keep_both or new file
-        let displayName = file.originalname;
-        if (action === 'keep_both' && activeConflict) {
-            displayName = generateUniqueOriginalNameInFolder(file.originalname, sanitizedFolder || null);
-        }
-
-        const created = createFile({
-            originalName: displayName,
+        const result = await recordStoredFile({
             storedName: file.filename,
+            storagePath,
+            originalName: file.originalname,
             mimeType: file.mimetype,
             size: file.size,
-            hashSha256: sha256,
-            storagePath,
-            ownerId: req.user?.id ?? null,
-            isPublic: false,
-        });
+            folder: sanitizedFolder,
+            ownerId,
+        }, action, activeConflict);
+        return res.status(result.status).json({ message: result.message, file: result.file });
+    } catch (err) {
+        try { await fileStorage.deleteFile(storagePath); } catch { /* ignore */ }
+        throw err;
+    }
+}
 
-        // Recalculate folder sizes after successful upload (including root folder)
-        ensureAndRecalculateFolderSizes(sanitizedFolder, req.user?.id ?? null);
+/** A file already written to its final location in storage, not yet in the DB. */
+export interface StoredUpload {
+    storedName: string;
+    storagePath: string;
+    originalName: string;
+    mimeType: string;
+    size: number;
+    folder: string;
+    ownerId: string | null;
+    /** Extra details kept with a new file record (e.g. who sent it through a drop link) */
+    metadata?: Record<string, unknown> | null;
+}
+
+/**
+ * Records a stored upload in the DB.
+ * Hashes the file, commits it to the configured storage provider, applies the conflict action (replace/keep_both) against
+ * `activeConflict` and recalculates folder sizes.
+ * Shared by the multipart and resumable upload flows; callers run the
+ * trash/conflict checks first and clean up the stored file on failure.
+ * Once committed the file may no longer be local, so a failure to record
+ * it removes it from the provider it was committed to here.
+ */
+export async function recordStoredFile(
+    upload: StoredUpload,
+    action: 'replace' | 'keep_both' | undefined,
+    activeConflict: FileRecord | null
+): Promise<{ status: number; message: string; file: FileRecord | null }> {
+    const absolutePath = fileStorage.getFilePath(upload.storagePath);
+    const sha256 = await computeSha256(absolutePath);
+    const storageProvider = await commitToStorage(upload.storagePath);
 
-        return res.status(201).json({ message: 'File uploaded', file: created });
+    let result: { status: number; message: string; file: FileRecord | null };
+    try {
+        result = await writeFileRecord(upload, action, activeConflict, sha256, storageProvider);
     } catch (err) {
-        try { await fileStorage.deleteFile(storagePath); } catch { /* ignore */ }
+        try { await fileStorage.deleteFile(upload.storagePath, storageProvider); } catch { /* ignore */ }
         throw err;
     }
+
+    // Recalculate folder sizes after the upload (including root folder)
+    ensureAndRecalculateFolderSizes(upload.folder, upload.ownerId);
+    return result;
+}
+
+/** Create or replace the file record for a committed upload. */
+async function writeFileRecord(
+    upload: StoredUpload,
+    action: 'replace' | 'keep_both' | undefined,
+    activeConflict: FileRecord | null,
+    sha256: string,
+    storageProvider: StorageProviderName
+): Promise<{ status: number; message: string; file: FileRecord | null }> {
+    // Handle replace action — the previous content is kept as a version
+    if (action === 'replace' && activeConflict) {
+        await archiveFileVersion(activeConflict, upload.ownerId);
+        const updated = updateFile(activeConflict.id, {
+            stored_name: upload.storedName,
+            mime_type: upload.mimeType,
+            size: upload.size,
+            hash_sha256: sha256,
+            storage_provider: storageProvider,
+            storage_path: upload.storagePath,
+            owner_id: upload.ownerId,
+        });
+        return { status: 200, message: 'File replaced', file: updated };
+    }
+
+    // Handle keep_both or new file
+    let displayName = upload.originalName;
+    if (action === 'keep_both' && activeConflict) {
+        displayName = generateUniqueOriginalNameInFolder(upload.originalName, upload.folder || null, upload.ownerId);
+    }
+
+    const created = createFile({
+        originalName: displayName,
+        storedName: upload.storedName,
+        mimeType: upload.mimeType,
+        size: upload.size,
+        hashSha256: sha256,
+        storageProvider,
+        storagePath: upload.storagePath,
+        ownerId: upload.ownerId,
+        isPublic: false,
+        metadata: upload.metadata ?? null,
+    });
+    return { status: 201, message: 'File uploaded', file: created };
 }
@@ -0,0 +1,278 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+    ARCHIVE_MAX_COMPRESSION_RATIO,
+    ARCHIVE_MAX_ENTRIES,
+    ARCHIVE_MAX_EXTRACTED_SIZE,
+    FILES_DIR,
+    UPLOAD_DISALLOWED_MIME_TYPES,
+    UPLOAD_MAX_FILE_SIZE,
+} from '../../config/env';
+import { getActiveFileByOriginalNameAndFolder } from '../../models/files';
+import { ValidationError } from '../../middleware/errors';
+import { canAccessFolder } from '../../middleware/authorize';
+import { detectMimeType } from '../../middleware/multerHandler';
+import * as fileStorage from '../../utils/fileStorage';
+import {
+    detectArchiveFormat,
+    extractArchiveEntries,
+    listArchiveEntries,
+    type ArchiveEntry,
+} from '../../utils/archiveReader';
+import { resolveSecurePath, sanitizeFolderPath } from '../../utils/pathSanitizer';
+import { assertQuotaAvailable } from '../../utils/storageQuota';
+import { ensureAndRecalculateFolderSizes } from '../../utils/folderSizeUtil';
+import { info, error as logError } from '../../utils/logger';
+import { recordStoredFile } from './upload';
+import { detectConflicts } from './uploadBatch';
+import type { BatchFileResult } from './types';
+
+/**
+ * Archive extraction for uploads
+ * - `POST /api/files/upload` with `extract=true` unpacks a .zip, .tar or
+ *   .tar.gz into the target folder instead of storing the archive
+ * - Entry paths are checked before anything is written: absolute paths and
+ *   `..` are refused (zip slip) and folders go through sanitizeFolderPath /
+ *   resolveSecurePath like any other upload
+ * - Entry count, extracted size and compression ratio are limited
+ *   (ARCHIVE_MAX_*), each file by UPLOAD_MAX_FILE_SIZE
+ * - Conflicts are reported up front like batch uploads (409) unless an
+ *   action is given; the response has the batch upload shape
+ */
+
+/** What an archive entry becomes, or why it can't be extracted. */
+interface PlannedEntry {
+    entry: ArchiveEntry;
+    originalName: string;
+    folder: string;
+    error?: string;
+    /** Set when a later entry has the same path (last one wins) */
+    superseded?: boolean;
+}
+
+/** True for the form values clients send to ask for extraction. */
+export function isExtractRequested(value: unknown): boolean {
+    return value === true || value === 'true' || value === '1';
+}
+
+/** Resolve an entry's target folder and name within `baseFolder`. */
+function planEntry(entry: ArchiveEntry, baseFolder: string, req: Request): PlannedEntry {
+    const name = entry.name.replace(/\\/g, '/');
+    const segments = name.split('/').filter((segment) => segment && segment !== '.');
+    const originalName = entry.type === 'directory' ? '' : segments.pop() ?? '';
+    const planned: PlannedEntry = { entry, originalName, folder: baseFolder };
+
+    // Zip slip: never let an entry climb out of the target folder
+    if (name.startsWith('/') || /^[a-zA-Z]:/.test(name) || name.split('/').includes('..')) {
+        return { ...planned, error: 'Unsafe path in archive' };
+    }
+    if (entry.type === 'unsupported') {
+        return { ...planned, error: 'Unsupported entry (links, devices and encrypted entries are skipped)' };
+    }
+    if (entry.type === 'file' && !originalName) {
+        return { ...planned, error: 'Invalid file name' };
+    }
+
+    try {
+        planned.folder = sanitizeFolderPath([baseFolder, ...segments].filter(Boolean).join('/'));
+        resolveSecurePath(FILES_DIR, planned.folder);
+    } catch (err) {
+        return { ...planned, error: err instanceof Error ? err.message : 'Invalid folder path' };
+    }
+    if (!canAccessFolder(req.user, planned.folder, 'upload')) {
+        return { ...planned, error: 'Folder not found' };
+    }
+
+    if (entry.type === 'file') {
+        if (entry.size > UPLOAD_MAX_FILE_SIZE) {
+            return { ...planned, error: `File exceeds the maximum upload size of ${UPLOAD_MAX_FILE_SIZE} bytes` };
+        }
+        const mimeType = detectMimeType(originalName).toLowerCase();
+        if (UPLOAD_DISALLOWED_MIME_TYPES.includes(mimeType)) {
+            return { ...planned, error: `File type not allowed: ${mimeType}` };
+        }
+    }
+
+    return planned;
+}
+
+/** Failed result for an entry that was not extracted. */
+function failedResult(planned: PlannedEntry, message: string): BatchFileResult {
+    return {
+        originalName: planned.originalName || planned.entry.name,
+        storagePath: planned.entry.name,
+        success: false,
+        message: 'Not extracted',
+        error: message,
+    };
+}
+
+/** Write one entry into its folder and record it like an upload. */
+async function extractEntry(
+    planned: PlannedEntry,
+    open: () => Promise<Readable>,
+    action: 'replace' | 'keep_both' | undefined,
+    ownerId: string | null
+): Promise<BatchFileResult> {
+    const { originalName, folder, entry } = planned;
+    await fileStorage.ensureDirectory(folder);
+
+    const storedName = `${crypto.randomUUID()}${path.extname(originalName)}`;
+    const storagePath = folder ? path.posix.join(folder, storedName) : storedName;
+
+    try {
+        await pipeline(await open(), fs.createWriteStream(fileStorage.getFilePath(storagePath), { flags: 'wx' }));
+
+        // Conflicts were checked up front; one appearing since then is kept alongside
+        const activeConflict = getActiveFileByOriginalNameAndFolder(originalName, folder || null, undefined, ownerId);
+        const result = await recordStoredFile({
+            storedName,
+            storagePath,
+            originalName,
+            mimeType: detectMimeType(originalName),
+            size: entry.size,
+            folder,
+            ownerId,
+        }, action ?? (activeConflict ? 'keep_both' : undefined), activeConflict);
+
+        const finalName = result.file?.original_name ?? originalName;
+        return {
+            originalName: finalName,
+            storagePath,
+            success: true,
+            message: result.status === 200 ? 'Replaced' : finalName !== originalName ? 'Renamed' : 'Uploaded',
+            fileId: result.file?.id,
+        };
+    } catch (err) {
+        try { await fileStorage.deleteFile(storagePath); } catch { /* ignore */ }
+        return failedResult(planned, err instanceof Error ? err.message : 'Unknown error');
+    }
+}
+
+/**
+ * Extract an uploaded archive (already stored at `storagePath`) into
+ * `baseFolder` and respond with per-entry results. The archive itself is
+ * always removed afterwards.
+ */
+export async function extractUploadedArchive(
+    req: Request,
+    res: Response,
+    archive: Express.Multer.File,
+    baseFolder: string,
+    storagePath: string
+) {
+    const ownerId = req.user?.id ?? null;
+    const action = req.body?.action as 'replace' | 'keep_both' | undefined;
+
+    try {
+        const format = detectArchiveFormat(archive.originalname);
+        if (!format) {
+            throw new ValidationError('Only .zip, .tar and .tar.gz archives can be extracted');
+        }
+
+        const absolutePath = fileStorage.getFilePath(storagePath);
+        const limits = { maxEntries: ARCHIVE_MAX_ENTRIES, maxTotalSize: ARCHIVE_MAX_EXTRACTED_SIZE };
+        const entries = await listArchiveEntries(absolutePath, format, limits);
+
+        const totalSize = entries.reduce((sum, entry) => sum + (entry.type === 'file' ? entry.size : 0), 0);
+        if (totalSize > Math.max(archive.size, 1) * ARCHIVE_MAX_COMPRESSION_RATIO) {
+            throw new ValidationError(`Archive expands more than ${ARCHIVE_MAX_COMPRESSION_RATIO} times its size`);
+        }
+
+        // Plan every entry before writing anything; the last of duplicate paths wins
+        const plans = entries.map((entry) => planEntry(entry, baseFolder, req));
+        const seen = new Map<string, PlannedEntry>();
+        for (const planned of plans) {
+            if (planned.error || planned.entry.type !== 'file') continue;
+            const key = `${planned.folder}/${planned.originalName}`;
+            const previous = seen.get(key);
+            if (previous) previous.superseded = true;
+            seen.set(key, planned);
+        }
+        const extractable = plans.filter((p) => p.entry.type === 'file' && !p.error && !p.superseded);
+
+        assertQuotaAvailable(ownerId, extractable.reduce((sum, p) => sum + p.entry.size, 0));
+
+        if (!action) {
+            const { trashedConflicts, activeConflicts } = detectConflicts(extractable, ownerId);
+            if (trashedConflicts.length > 0) {
+                return res.status(409).json({
+                    message: 'Files exist in Trash. Restore or delete them first.',
+                    trashedConflicts,
+                });
+            }
+            if (activeConflicts.length > 0) {
+                return res.status(409).json({
+                    message: `${activeConflicts.length} file(s) already exist.`,
+                    conflicts: activeConflicts,
+                    totalFiles: extractable.length,
+                });
+            }
+        }
+
+        info('Archive extraction started', {
+            archive: archive.originalname,
+            folder: baseFolder || '(root)',
+            entries: entries.length,
+            action: action || 'none',
+        });
+
+        const results: BatchFileResult[] = plans
+            .filter((p) => p.error)
+            .map((p) => failedResult(p, p.error as string));
+        const affectedFolders = new Set<string>([baseFolder]);
+
+        // Keep (possibly empty) directories from the archive
+        for (const planned of plans) {
+            if (planned.entry.type !== 'directory' || planned.error) continue;
+            await fileStorage.ensureDirectory(planned.folder);
+            affectedFolders.add(planned.folder);
+        }
+
+        // File entries arrive in the same order they were listed in
+        const filePlans = plans.filter((p) => p.entry.type === 'file');
+        const handled = new Set<PlannedEntry>();
+        let index = 0;
+        try {
+            await extractArchiveEntries(absolutePath, format, limits, async (entry, open) => {
+                const planned = filePlans[index++];
+                if (!planned || planned.entry.name !== entry.name) {
+                    throw new ValidationError('Archive changed while it was being extracted');
+                }
+                if (planned.error || planned.superseded) return;
+
+                results.push(await extractEntry(planned, open, action, ownerId));
+                handled.add(planned);
+                affectedFolders.add(planned.folder);
+            });
+        } catch (err) {
+            // A corrupt tail leaves the remaining entries unextracted
+            logError('Archive extraction stopped', { archive: archive.originalname, err });
+            const message = err instanceof Error ? err.message : 'Extraction failed';
+            for (const planned of filePlans) {
+                if (planned.error || planned.superseded || handled.has(planned)) continue;
+                results.push(failedResult(planned, message));
+            }
+        }
+
+        affectedFolders.forEach((folder) => ensureAndRecalculateFolderSizes(folder, ownerId));
+
+        const successCount = results.filter((r) => r.success).length;
+        const failureCount = results.length - successCount;
+        info('Archive extraction completed', { archive: archive.originalname, successCount, failureCount });
+
+        return res.status(200).json({
+            message: `Extracted: ${successCount} succeeded, ${failureCount} failed`,
+            totalCount: results.length,
+            successCount,
+            failureCount,
+            results,
+        });
+    } finally {
+        try { await fileStorage.deleteFile(storagePath); } catch { /* ignore */ }
+    }
+}
@@ -3,6 +3,9 @@ import path from 'path';
 import { isUploadAborted } from '../../middleware/uploadTracker';
 import * as fileStorage from '../../utils/fileStorage';
 import { computeSha256 } from '../../utils/fileHash';
+import { commitToStorage } from '../../utils/storage';
+import { archiveFileVersion } from '../../utils/fileVersioning';
+import { assertQuotaAvailable } from '../../utils/storageQuota';
 import { ValidationError } from '../../middleware/errors';
 import { info } from '../../utils/logger';
 import {
@@ -15,31 +18,36 @@ import {
 import { ensureAndRecalculateFolderSizes } from '../../utils/folderSizeUtil';
 import type { BatchFileResult, ConflictInfo } from './types';
 
+/** A file about to be added to a folder. */
+export interface IncomingFile {
+    originalName: string;
+    /** Sanitized folder ('' for root) */
+    folder: string;
+}
+
 /**
  * Check all files for conflicts before processing.
  * Returns arrays of trashed and active conflicts.
+ * Shared with archive extraction, which checks every entry up front.
  */
-function detectConflicts(
-    files: Express.Multer.File[],
-    sanitizedFolders: string[]
+export function detectConflicts(
+    files: IncomingFile[],
+    ownerId: string | null
 ): { trashedConflicts: string[]; activeConflicts: ConflictInfo[] } {
     const trashedConflicts: string[] = [];
     const activeConflicts: ConflictInfo[] = [];
 
-    for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        const folder = sanitizedFolders[i] || '';
-
-        const trashed = getDeletedFileByOriginalNameAndFolder(file.originalname, folder || null);
+    for (const { originalName, folder } of files) {
+        const trashed = getDeletedFileByOriginalNameAndFolder(originalName, folder || null, ownerId);
         if (trashed) {
-            trashedConflicts.push(file.originalname);
+            trashedConflicts.push(originalName);
             continue;
         }
 
-        const active = getActiveFileByOriginalNameAndFolder(file.originalname, folder || null);
+        const active = getActiveFileByOriginalNameAndFolder(originalName, folder || null, undefined, ownerId);
         if (active) {
             activeConflicts.push({
-                originalName: file.originalname,
+                originalName,
                 existingFileId: active.id,
                 folder,
             });
@@ -71,6 +79,7 @@ export async function uploadFiles(req: Request, res: Response) {
 
     const sanitizedFolders: string[] = (req as any).sanitizedFolders || [];
     const action = req.body?.action as 'replace' | 'keep_both' | undefined;
+    const ownerId = req.user?.id ?? null;
 
     info('Batch upload received', { fileCount: files.length, action: action || 'none' });
 
@@ -80,9 +89,20 @@ export async function uploadFiles(req: Request, res: Response) {
         return res.status(499).json({ message: 'Upload cancelled' });
     }
 
+    // Exact quota check for the whole batch now that stored sizes are known
+    try {
+        assertQuotaAvailable(ownerId, files.reduce((sum, file) => sum + file.size, 0));
+    } catch (err) {
+        await cleanupFiles(files, sanitizedFolders);
+        throw err;
+    }
+
     // Check conflicts if no action specified
     if (!action) {
-        const { trashedConflicts, activeConflicts } = detectConflicts(files, sanitizedFolders);
+        const { trashedConflicts, activeConflicts } = detectConflicts(
+            files.map((file, i) => ({ originalName: file.originalname, folder: sanitizedFolders[i] || '' })),
+            ownerId
+        );
 
         if (trashedConflicts.length > 0) {
             await cleanupFiles(files, sanitizedFolders);
@@ -113,7 +133,7 @@ export async function uploadFiles(req: Request, res: Response) {
         const storagePath = folder ? path.posix.join(folder, file.filename) : file.filename;
 
         try {
-            const result = await processFile(file, folder, storagePath, action, req.user?.id);
+            const result = await processFile(file, folder, storagePath, action, ownerId);
             results.push(result);
             successCount++;
         } catch (err) {
@@ -136,7 +156,7 @@ export async function uploadFiles(req: Request, res: Response) {
     // Include root folder (empty string) to fix space tracking for root uploads
     const affectedFolders = new Set(sanitizedFolders);
     affectedFolders.forEach(folder => {
-        ensureAndRecalculateFolderSizes(folder, req.user?.id ?? null);
+        ensureAndRecalculateFolderSizes(folder, ownerId);
     });
 
     return res.status(200).json({
@@ -154,40 +174,45 @@ async function processFile(
     folder: string,
     storagePath: string,
     action: 'replace' | 'keep_both' | undefined,
-    ownerId?: string
+    ownerId: string | null
 ): Promise<BatchFileResult> {
-    const activeConflict = getActiveFileByOriginalNameAndFolder(file.originalname, folder || null);
+    const activeConflict = getActiveFileByOriginalNameAndFolder(file.originalname, folder || null, undefined, ownerId);
     const absolutePath = fileStorage.getFilePath(storagePath);
     const sha256 = await computeSha256(absolutePath);
+    const storageProvider = await commitToStorage(storagePath);
+
+    try {
+        if (activeConflict && action === 'replace') {
+            await archiveFileVersion(activeConflict, ownerId);
+            const updated = updateFile(activeConflict.id, {
+                stored_name: file.filename,
+                mime_type: file.mimetype,
+                size: file.size,
+                hash_sha256: sha256,
+                storage_provider: storageProvider,
+                storage_path: storagePath,
+                owner_id: ownerId,
+            });
+            return { originalName: file.originalname, storagePath, success: true, message: 'Replaced', fileId: updated?.id };
+        }
 
-    if (activeConflict && action === 'replace') {
-        const oldPath = activeConflict.storage_path;
-        const updated = updateFile(activeConflict.id, {
-            stored_name: file.filename,
-            mime_type: file.mimetype,
-            size: file.size,
-            hash_sha256: sha256,
-            storage_path: storagePath,
-            owner_id: ownerId ?? null,
-        });
-        if (oldPath && oldPath !== storagePath) {
-            try { await fileStorage.deleteFile(oldPath); } catch { /* ignore */ }
+        if (activeConflict && action === 'keep_both') {
+            const displayName = generateUniqueOriginalNameInFolder(file.originalname, folder || null, ownerId);
+            const created = createFile({
+                originalName: displayName, storedName: file.filename, mimeType: file.mimetype,
+                size: file.size, hashSha256: sha256, storageProvider, storagePath, ownerId, isPublic: false,
+            });
+            return { originalName: displayName, storagePath, success: true, message: 'Renamed', fileId: created.id };
         }
-        return { originalName: file.originalname, storagePath, success: true, message: 'Replaced', fileId: updated?.id };
-    }
 
-    if (activeConflict && action === 'keep_both') {
-        const displayName = generateUniqueOriginalNameInFolder(file.originalname, folder || null);
         const created = createFile({
-            originalName: displayName, storedName: file.filename, mimeType: file.mimetype,
-            size: file.size, hashSha256: sha256, storagePath, ownerId: ownerId ?? null, isPublic: false,
+            originalName: file.originalname, storedName: file.filename, mimeType: file.mimetype,
+            size: file.size, hashSha256: sha256, storageProvider, storagePath, ownerId, isPublic: false,
         });
-        return { originalName: displayName, storagePath, success: true, message: 'Renamed', fileId: created.id };
+        return { originalName: file.originalname, storagePath, success: true, message: 'Uploaded', fileId: created.id };
+    } catch (err) {
+        // The caller only removes the local copy; the file may have moved to another provider
+        try { await fileStorage.deleteFile(storagePath, storageProvider); } catch { /* ignore */ }
+        throw err;
     }
-
-    const created = createFile({
-        originalName: file.originalname, storedName: file.filename, mimeType: file.mimetype,
-        size: file.size, hashSha256: sha256, storagePath, ownerId: ownerId ?? null, isPublic: false,
-    });
-    return { originalName: file.originalname, storagePath, success: true, message: 'Uploaded', fileId: created.id };
 }
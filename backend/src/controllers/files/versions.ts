@@ -0,0 +1,125 @@
+import { Request, Response } from 'express';
+import path from 'path';
+import { getFileById, updateFile, type FileRecord } from '../../models/files';
+import {
+    deleteFileVersion,
+    getFileVersionById,
+    listFileVersions as listFileVersionsModel,
+    type FileVersionRecord,
+} from '../../models/fileVersions';
+import { getUserById } from '../../models/users';
+import { NotFoundError, ValidationError } from '../../middleware/errors';
+import * as fileStorage from '../../utils/fileStorage';
+import { archiveFileVersion } from '../../utils/fileVersioning';
+import { recalculateParentFolderSizes } from '../../utils/folderSizeUtil';
+import { info } from '../../utils/logger';
+import { streamFileRecord } from './stream';
+
+/**
+ * Controller: File Versions
+ * - Previous contents of a file, kept when it is replaced
+ * - List, download and restore a specific version
+ * - File access is enforced by the `authorizeFile` route middleware
+ */
+
+/** Public shape of a file version. */
+function toFileVersion(version: FileVersionRecord) {
+    const replacedBy = version.created_by ? getUserById(version.created_by) : null;
+    return {
+        id: version.id,
+        fileId: version.file_id,
+        originalName: version.original_name,
+        mimeType: version.mime_type,
+        size: version.size,
+        hashSha256: version.hash_sha256,
+        uploadedAt: version.uploaded_at,
+        replacedAt: version.created_at,
+        replacedBy: replacedBy?.username ?? null,
+    };
+}
+
+/** Load the file from `:id` (access already checked by authorizeFile). */
+function loadFile(req: Request): FileRecord {
+    const file = getFileById(req.params.id as string);
+    if (!file) throw new NotFoundError('File not found');
+    return file;
+}
+
+/** Load `:versionId`, which must belong to the given file. */
+function loadVersion(req: Request, file: FileRecord): FileVersionRecord {
+    const version = getFileVersionById(req.params.versionId as string);
+    if (!version || version.file_id !== file.id) {
+        throw new NotFoundError('Version not found');
+    }
+    return version;
+}
+
+/**
+ * GET /api/files/id/:id/versions
+ * List previous versions of a file, newest first.
+ */
+export async function listFileVersions(req: Request, res: Response) {
+    const file = loadFile(req);
+    const versions = listFileVersionsModel(file.id);
+    return res.status(200).json({ versions: versions.map(toFileVersion) });
+}
+
+/**
+ * GET /api/files/id/:id/versions/:versionId
+ * Download/stream a previous version. Supports the same Range and
+ * conditional requests as the current content.
+ */
+export async function downloadFileVersion(req: Request, res: Response) {
+    const file = loadFile(req);
+    const version = loadVersion(req, file);
+
+    await streamFileRecord(req, res, {
+        ...file,
+        original_name: version.original_name,
+        stored_name: version.stored_name,
+        mime_type: version.mime_type ?? 'application/octet-stream',
+        size: version.size ?? 0,
+        hash_sha256: version.hash_sha256,
+        storage_provider: version.storage_provider,
+        storage_path: version.storage_path,
+    });
+}
+
+/**
+ * POST /api/files/id/:id/versions/:versionId/restore
+ * Make a previous version the current content. The content it replaces
+ * becomes a version itself, so a restore can always be undone.
+ * The file keeps its current name.
+ */
+export async function restoreFileVersion(req: Request, res: Response) {
+    const file = loadFile(req);
+    if (file.status === 'deleted') {
+        throw new ValidationError('Cannot restore a version of a file in Trash. Restore the file first.');
+    }
+    const version = loadVersion(req, file);
+
+    const folderPath = path.posix.dirname(file.storage_path) === '.' ? '' : path.posix.dirname(file.storage_path);
+    const storagePath = folderPath ? path.posix.join(folderPath, version.stored_name) : version.stored_name;
+
+    // Move the version's content back into the file's folder first, so
+    // pruning while archiving the current content can't remove it
+    await fileStorage.ensureDirectory(folderPath);
+    await fileStorage.renameFile(version.storage_path, storagePath, version.storage_provider);
+    deleteFileVersion(version.id);
+
+    await archiveFileVersion(file, req.user?.id);
+
+    const updated = updateFile(file.id, {
+        stored_name: version.stored_name,
+        mime_type: version.mime_type ?? file.mime_type,
+        size: version.size ?? 0,
+        hash_sha256: version.hash_sha256,
+        storage_provider: version.storage_provider,
+        storage_path: storagePath,
+    });
+
+    recalculateParentFolderSizes(folderPath);
+    info('File version restored', { fileId: file.id, versionId: version.id });
+
+    return res.status(200).json({ message: 'Version restored', file: updated });
+}
@@ -1,22 +1,37 @@
 import { Request, Response } from 'express';
 import * as fileStorage from '../utils/fileStorage';
-import { ValidationError } from '../middleware/errors';
+import { NotFoundError, ValidationError } from '../middleware/errors';
 import { info } from '../utils/logger';
 import { sanitizeFolderPath } from '../utils/pathSanitizer';
 import {
     createFolder as createFolderRecord,
     deleteFolderByPath,
+    findGoverningFolder,
     getFolderByPath,
+    listFolders,
 } from '../models/folders';
+import { getFileByStoredName, listFilesUnderFolder } from '../models/files';
+import { renameShareLinkFolderPaths } from '../models/shareLinks';
+import { renameDropLinkFolderPaths } from '../models/dropLinks';
+import { deleteFolderGrantsUnder, renameFolderGrantPaths } from '../models/folderGrants';
 import { recalculateFolderSize, recalculateParentFolderSizes } from '../utils/folderSizeUtil';
+import { assertFolderAccess, canAccessFile, canAccessFolder, getFolderAccess, isAdmin } from '../middleware/authorize';
+import { streamArchive } from './files';
 
 /**
  * Controller: Folder
  * - Handles folder creation, renaming, deletion, and listing
  * - All paths are relative to FILES_DIR
  * - Maintains folder size metadata in DB via folderSizeUtil
+ * - Access is limited to the folder owner, users it was shared with (folder
+ *   grants) and admins via the authorize policy
  */
 
+/** Parent path of a relative folder path ('' for top-level folders). */
+function parentOf(folderPath: string): string {
+    return folderPath.split('/').slice(0, -1).join('/');
+}
+
 /**
  * POST /api/folders
  * Create a new folder within FILES_DIR.
@@ -37,6 +52,10 @@ export async function createFolder(req: Request, res: Response) {
         throw new ValidationError('Invalid folder path');
     }
 
+    // The user must be allowed to add to the parent folder (root is shared)
+    const parentPath = parentOf(folderPath);
+    assertFolderAccess(req.user, parentPath, 'upload', 'Parent folder not found');
+
     // Check if folder already exists on filesystem
     const fs = require('fs');
     const absPath = require('../utils/pathSanitizer').resolveSecurePath(require('../config/env').FILES_DIR, folderPath);
@@ -47,10 +66,12 @@ export async function createFolder(req: Request, res: Response) {
     // Create filesystem directory
     await fileStorage.ensureDirectory(folderPath);
 
-    // Create DB record with size = 0
+    // Create DB record with size = 0; folders made inside someone else's
+    // (shared) folder belong to that folder's owner so it stays one tree
+    const parentFolder = findGoverningFolder(parentPath);
     const folderRecord = createFolderRecord({
         path: folderPath,
-        ownerId: req.user?.id ?? null,
+        ownerId: parentFolder?.owner_id ?? req.user?.id ?? null,
     });
 
     // Immediately recalculate size in case files were already uploaded to this folder
@@ -88,17 +109,28 @@ export async function renameFolder(req: Request, res: Response) {
         throw new ValidationError('Invalid folder path');
     }
 
+    // Caller must be able to edit the folder and add to the destination parent
+    assertFolderAccess(req.user, oldPath, 'edit');
+    assertFolderAccess(req.user, parentOf(newPath), 'upload', 'Parent folder not found');
+
     await fileStorage.renameFolder(oldPath, newPath);
 
     // Update DB: delete old folder record, create new one, recalculate parent sizes
+    // The renamed folder keeps its original owner (an admin may rename for a user)
+    const previous = getFolderByPath(oldPath);
     deleteFolderByPath(oldPath);
     const folderRecord = createFolderRecord({
         path: newPath,
-        ownerId: req.user?.id ?? null,
+        ownerId: previous?.owner_id ?? req.user?.id ?? null,
     });
 
+    // Keep folder share links, drop links and grants pointing at the renamed folder
+    renameShareLinkFolderPaths(oldPath, newPath);
+    renameDropLinkFolderPaths(oldPath, newPath);
+    renameFolderGrantPaths(oldPath, newPath);
+
     // Recalculate parent folder sizes for both old and new paths
-    const oldParent = oldPath.split('/').slice(0, -1).join('/');
+    const oldParent = parentOf(oldPath);
     if (oldParent) recalculateParentFolderSizes(oldParent);
     recalculateParentFolderSizes(newPath);
 
@@ -131,13 +163,21 @@ export async function deleteFolder(req: Request, res: Response) {
         throw new ValidationError('Invalid folder path (cannot delete root)');
     }
 
+    assertFolderAccess(req.user, folderPath, 'edit');
+
+    // Files on remote storage leave no trace in the directory, so check the DB too
+    if (listFilesUnderFolder(folderPath, 'active').length > 0 || listFilesUnderFolder(folderPath, 'deleted').length > 0) {
+        throw new ValidationError('Cannot delete folder: it is not empty. Remove files (including items in trash) before deleting the folder.');
+    }
+
     await fileStorage.deleteFolder(folderPath);
 
-    // Remove DB record
+    // Remove DB record and any grants on it
     deleteFolderByPath(folderPath);
+    deleteFolderGrantsUnder(folderPath);
 
     // Recalculate parent folder sizes
-    const parentPath = folderPath.split('/').slice(0, -1).join('/');
+    const parentPath = parentOf(folderPath);
     if (parentPath) recalculateParentFolderSizes(parentPath);
 
     info('Folder deleted', { folder: folderPath });
@@ -167,7 +207,9 @@ export async function getRootFolderInfo(req: Request, res: Response) {
 /**
  * GET /api/folders/list
  * List contents (files and subfolders) of a directory.
- * Folder entries include size from DB.
+ * Folder entries include size from DB. `access` is the caller's access to
+ * the folder (view, upload, edit or owner) so clients can offer matching
+ * actions.
  *
  * @query path - Relative folder path (empty or omitted = root)
  */
@@ -175,20 +217,62 @@ export async function listFolderContents(req: Request, res: Response) {
     const rawPath = (req.query?.path as string) || '';
     const folderPath = sanitizeFolderPath(rawPath);
 
-    const contents = await fileStorage.listDirectoryContents(folderPath);
+    assertFolderAccess(req.user, folderPath, 'view');
+
+    // Non-admins only see subfolders and files they own or were granted
+    const entries = await fileStorage.listDirectoryContents(folderPath);
+    const contents = isAdmin(req.user) ? entries : entries.filter((entry) => {
+        if (entry.type === 'folder') {
+            return canAccessFolder(req.user, folderPath ? `${folderPath}/${entry.name}` : entry.name, 'view');
+        }
+        const file = getFileByStoredName(entry.name);
+        return !!file && canAccessFile(req.user, file, 'view');
+    });
 
     info('Folder contents listed', { folder: folderPath || '(root)', count: contents.length });
 
     return res.status(200).json({
         path: folderPath || '/',
+        access: getFolderAccess(req.user, folderPath),
         contents,
     });
 }
 
+/**
+ * GET /api/folders/archive
+ * Download a folder with everything below it as a ZIP, streamed on the fly.
+ * Only files and subfolders the caller may view are included; empty
+ * subfolders are kept as directory entries.
+ *
+ * @query path - Relative folder path (empty or omitted = root)
+ */
+export async function downloadFolderArchive(req: Request, res: Response) {
+    const rawPath = (req.query?.path as string) || '';
+    const folderPath = sanitizeFolderPath(rawPath);
+
+    assertFolderAccess(req.user, folderPath, 'view');
+
+    const files = listFilesUnderFolder(folderPath, 'active')
+        .filter((file) => canAccessFile(req.user, file, 'view'));
+    const folders = listFolders()
+        .map((folder) => folder.path)
+        .filter((p) => p && (!folderPath || p.startsWith(`${folderPath}/`)))
+        .filter((p) => canAccessFolder(req.user, p, 'view'))
+        .sort();
+
+    if (folderPath && !getFolderByPath(folderPath) && files.length === 0) {
+        throw new NotFoundError('Folder not found');
+    }
+
+    const archiveName = `${folderPath.split('/').pop() || 'files'}.zip`;
+    await streamArchive(res, archiveName, folderPath, files, folders);
+}
+
 export default {
     createFolder,
     renameFolder,
     deleteFolder,
     getRootFolderInfo,
     listFolderContents,
+    downloadFolderArchive,
 };
@@ -0,0 +1,154 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { sanitizeFolderPath } from '../utils/pathSanitizer';
+import { info } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../middleware/errors';
+import { assertFolderAccess, canAccessFolder, canAccessOwner, getFolderAccess } from '../middleware/authorize';
+import { findGoverningFolder, getFolderByPath } from '../models/folders';
+import { getUserById, getUserByUsername } from '../models/users';
+import {
+    FOLDER_PERMISSIONS,
+    deleteFolderGrant,
+    getFolderGrantById,
+    listFolderGrants as listFolderGrantRecords,
+    setFolderGrant,
+    type FolderGrantRecord,
+} from '../models/folderGrants';
+
+/**
+ * Controller: Folder Grants
+ * - Folder owners share a folder (and everything below it) with other
+ *   accounts as view, upload or edit (see the authorize policy)
+ * - Grantees list what was shared with them and may leave a share
+ */
+
+/** Sanitized, non-root folder path from a request value. */
+function parseGrantPath(raw: unknown): string {
+    let folderPath: string;
+    try {
+        folderPath = sanitizeFolderPath(typeof raw === 'string' ? raw : '');
+    } catch (err) {
+        throw new ValidationError((err as Error).message);
+    }
+    if (!folderPath) throw new ValidationError('The root folder cannot be shared');
+    return folderPath;
+}
+
+/** Public shape of a grant as seen by the folder owner. */
+function toFolderGrant(grant: FolderGrantRecord) {
+    return {
+        id: grant.id,
+        path: grant.folder_path,
+        userId: grant.user_id,
+        username: getUserById(grant.user_id)?.username ?? null,
+        permission: grant.permission,
+        createdAt: grant.created_at,
+    };
+}
+
+/**
+ * GET /api/folders/grants
+ * List who a folder is shared with.
+ *
+ * @query path - Relative folder path
+ */
+export async function listFolderGrants(req: Request, res: Response) {
+    const folderPath = parseGrantPath(req.query.path);
+    assertFolderAccess(req.user, folderPath);
+
+    const grants = listFolderGrantRecords({ folderPath });
+    return res.status(200).json({ grants: grants.map(toFolderGrant) });
+}
+
+/**
+ * POST /api/folders/grants
+ * Share a folder with another user, or change their permission.
+ *
+ * @body path - Relative folder path
+ * @body username - Account to share with
+ * @body permission - 'view' | 'upload' | 'edit'
+ */
+export async function grantFolderAccess(req: Request, res: Response) {
+    const schema = z.object({
+        path: z.string().min(1),
+        username: z.string().trim().min(1),
+        permission: z.enum(FOLDER_PERMISSIONS),
+    });
+
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        const formattedError = z.treeifyError(parsed.error);
+        throw new ValidationError('Invalid folder grant payload', formattedError);
+    }
+
+    const folderPath = parseGrantPath(parsed.data.path);
+    const folder = getFolderByPath(folderPath);
+    if (!folder || !canAccessFolder(req.user, folderPath)) {
+        throw new NotFoundError('Folder not found');
+    }
+
+    const grantee = getUserByUsername(parsed.data.username);
+    if (!grantee) throw new NotFoundError('User not found');
+    if (grantee.id === folder.owner_id) {
+        throw new ValidationError('The folder owner already has full access');
+    }
+
+    const grant = setFolderGrant({
+        folderPath,
+        userId: grantee.id,
+        permission: parsed.data.permission,
+        createdBy: req.user!.id,
+    });
+
+    info('Folder shared', { folder: folderPath, with: grantee.username, permission: grant.permission, by: req.user?.username });
+    return res.status(201).json({ message: 'Folder shared', grant: toFolderGrant(grant) });
+}
+
+/**
+ * DELETE /api/folders/grants/:id
+ * Stop sharing a folder with a user. Grantees may remove their own grant
+ * to leave a share.
+ */
+export async function revokeFolderGrant(req: Request, res: Response) {
+    const id = req.params.id;
+    if (!id) throw new ValidationError('Grant id is required');
+
+    const grant = getFolderGrantById(id);
+    if (!grant || !(canAccessOwner(req.user, grant.user_id) || canAccessFolder(req.user, grant.folder_path))) {
+        throw new NotFoundError('Grant not found');
+    }
+
+    deleteFolderGrant(id);
+    info('Folder grant revoked', { id, folder: grant.folder_path, by: req.user?.username });
+    return res.status(200).json({ message: 'Folder grant revoked' });
+}
+
+/**
+ * GET /api/folders/shared
+ * Folders other users have shared with the current user. Grants that no
+ * longer give access (folder deleted or handed to someone else) are left out.
+ */
+export async function listSharedWithMe(req: Request, res: Response) {
+    const shared = listFolderGrantRecords({ userId: req.user!.id })
+        .filter((grant) => getFolderByPath(grant.folder_path) && getFolderAccess(req.user, grant.folder_path) === grant.permission)
+        .map((grant) => {
+            const ownerId = findGoverningFolder(grant.folder_path)?.owner_id;
+            return {
+                id: grant.id,
+                path: grant.folder_path,
+                name: grant.folder_path.split('/').pop(),
+                permission: grant.permission,
+                owner: ownerId ? getUserById(ownerId)?.username ?? null : null,
+                createdAt: grant.created_at,
+            };
+        });
+
+    return res.status(200).json({ shared });
+}
+
+export default {
+    listFolderGrants,
+    grantFolderAccess,
+    revokeFolderGrant,
+    listSharedWithMe,
+};
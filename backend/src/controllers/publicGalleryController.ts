@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import { NotFoundError, ValidationError } from '../middleware/errors';
+import { hasCapability } from '../middleware/authorize';
+import { getFileById, listFiles, type FileRecord } from '../models/files';
+import { getUserByUsername } from '../models/users';
+import type { UserClaim } from '../types/auth';
+import { streamFileRecord } from './files';
+
+/**
+ * Controller: Public Gallery
+ * - Anyone can list and download the files a user has published
+ *   (`is_public`), without signing in
+ * - Only active files count; paths and other metadata stay private
+ * - A gallery disappears while the account is disabled or its role lacks
+ *   the 'share' capability
+ */
+
+/** Message used for every missing gallery so usernames can't be probed. */
+const UNAVAILABLE = 'Gallery not found';
+
+/** Public shape of a published file. */
+function toPublicFile(file: FileRecord) {
+    return {
+        id: file.id,
+        name: file.original_name,
+        size: file.size,
+        mimeType: file.mime_type,
+        createdAt: file.created_at,
+    };
+}
+
+/**
+ * Resolve a username to the claim of a user whose gallery is visible.
+ * Throws NotFoundError otherwise.
+ */
+function resolveGalleryOwner(username: string | undefined): UserClaim {
+    const record = username ? getUserByUsername(username) : null;
+    if (!record || record.disabled) throw new NotFoundError(UNAVAILABLE);
+
+    const owner: UserClaim = { id: record.id, username: record.username, role: record.role };
+    if (!hasCapability(owner, 'share')) throw new NotFoundError(UNAVAILABLE);
+    return owner;
+}
+
+/**
+ * GET /api/public/:username
+ * List a user's published files, newest first. An empty gallery is not an error.
+ */
+export async function listPublicFiles(req: Request, res: Response) {
+    const owner = resolveGalleryOwner(req.params.username);
+    const files = listFiles({ ownerId: owner.id, isPublic: true, status: 'active' }) as FileRecord[];
+    return res.status(200).json({ username: owner.username, files: files.map(toPublicFile) });
+}
+
+/**
+ * GET /api/public/:username/files/:id
+ * Stream one published file (Range and conditional requests supported).
+ */
+export async function downloadPublicFile(req: Request, res: Response) {
+    const owner = resolveGalleryOwner(req.params.username);
+    const id = req.params.id;
+    if (!id) throw new ValidationError('File id is required');
+
+    const file = getFileById(id);
+    if (!file || file.owner_id !== owner.id || !file.is_public || file.status !== 'active') {
+        throw new NotFoundError('File not found');
+    }
+
+    await streamFileRecord(req, res, file, { isPublic: true });
+}
+
+export default {
+    listPublicFiles,
+    downloadPublicFile,
+};
@@ -0,0 +1,335 @@
+import { Request, Response } from 'express';
+import fs from 'fs';
+import { z } from 'zod';
+import * as fileStorage from '../utils/fileStorage';
+import { sanitizeFolderPath } from '../utils/pathSanitizer';
+import { hashPassword, verifyPassword } from '../utils/passwordHash';
+import { signShareGrant, verifyShareGrant } from '../utils/token';
+import { assertLinkPasswordAllowed, recordLinkPasswordFailure, recordLinkPasswordSuccess } from '../utils/loginThrottle';
+import { info } from '../utils/logger';
+import { AuthorizationError, NotFoundError, ValidationError } from '../middleware/errors';
+import { canAccessFile, canAccessFolder, canAccessOwner } from '../middleware/authorize';
+import { getFileById, listFilesUnderFolder, type FileRecord } from '../models/files';
+import { getUserById } from '../models/users';
+import {
+    createShareLink as createShareLinkRecord,
+    getShareLinkById,
+    getShareLinkByToken,
+    listShareLinks as listShareLinkRecords,
+    revokeShareLink as revokeShareLinkRecord,
+    consumeShareLinkDownload,
+    type ShareLinkRecord,
+} from '../models/shareLinks';
+import type { UserClaim } from '../types/auth';
+import { streamFileRecord } from './files';
+
+/**
+ * Controller: Share Links
+ * - Owners create/list/revoke tokenized links to a file or folder
+ * - Anyone holding the token can view the landing info and download
+ *   through `/s/:token`, subject to expiry, password and download limits
+ * - A link only works while its creator could still access the target
+ */
+
+/** Message used for every unusable link so tokens can't be probed. */
+const UNAVAILABLE = 'Share link not found or expired';
+
+/** Cookie carrying the grant for ranges of an already counted download. */
+const GRANT_COOKIE = 'share_grant';
+
+/** How long a download grant cookie lives (matches the token's lifetime). */
+const GRANT_COOKIE_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+/** Public shape of a share link — never expose the password hash. */
+function toShareLink(link: ShareLinkRecord) {
+    return {
+        id: link.id,
+        token: link.token,
+        url: `/s/${link.token}`,
+        fileId: link.file_id ?? null,
+        folderPath: link.folder_path ?? null,
+        hasPassword: !!link.password_hash,
+        expiresAt: link.expires_at ?? null,
+        maxDownloads: link.max_downloads ?? null,
+        downloadCount: link.download_count,
+        createdAt: link.created_at,
+        revokedAt: link.revoked_at ?? null,
+    };
+}
+
+/** Minimal file info safe to show to anonymous visitors. */
+function toSharedFile(file: FileRecord, folderPath?: string | null) {
+    return {
+        id: file.id,
+        name: file.original_name,
+        path: folderPath ? file.storage_path.slice(folderPath.length + 1) : file.original_name,
+        size: file.size,
+        mimeType: file.mime_type,
+    };
+}
+
+/**
+ * Resolve a token to a usable link plus the creator's claim.
+ * Throws NotFoundError when revoked, expired, exhausted or orphaned.
+ * Downloads pass `allowExhausted`: they enforce the limit when counting,
+ * so granted ranges of the last download still work.
+ */
+function resolveShareLink(
+    token: string | undefined,
+    { allowExhausted = false }: { allowExhausted?: boolean } = {}
+): { link: ShareLinkRecord; owner: UserClaim } {
+    const link = token ? getShareLinkByToken(token) : null;
+    if (!link || link.revoked_at) throw new NotFoundError(UNAVAILABLE);
+
+    if (link.expires_at && new Date(link.expires_at).getTime() <= Date.now()) {
+        throw new NotFoundError(UNAVAILABLE);
+    }
+    if (!allowExhausted && link.max_downloads != null && link.download_count >= link.max_downloads) {
+        throw new NotFoundError(UNAVAILABLE);
+    }
+
+    const ownerRecord = getUserById(link.owner_id);
+    if (!ownerRecord || ownerRecord.disabled) throw new NotFoundError(UNAVAILABLE);
+
+    const owner: UserClaim = {
+        id: ownerRecord.id,
+        username: ownerRecord.username,
+        role: ownerRecord.role,
+    };
+    return { link, owner };
+}
+
+/** Load the shared file, or throw if it is gone or no longer the owner's. */
+function resolveSharedFile(link: ShareLinkRecord, owner: UserClaim): FileRecord {
+    const file = link.file_id ? getFileById(link.file_id) : null;
+    if (!file || file.status !== 'active' || !canAccessFile(owner, file)) {
+        throw new NotFoundError(UNAVAILABLE);
+    }
+    return file;
+}
+
+/** Active files inside a shared folder that the creator may access. */
+function resolveSharedFolderFiles(link: ShareLinkRecord, owner: UserClaim): FileRecord[] {
+    const folderPath = link.folder_path ?? '';
+    const absPath = fileStorage.getFilePath(folderPath);
+    if (!folderPath || !fs.existsSync(absPath) || !canAccessFolder(owner, folderPath)) {
+        throw new NotFoundError(UNAVAILABLE);
+    }
+    return listFilesUnderFolder(folderPath).filter((file) => canAccessFile(owner, file));
+}
+
+/** Value of a request cookie, if present. */
+function readCookie(req: Request, name: string): string | undefined {
+    for (const part of (req.get('cookie') ?? '').split(';')) {
+        const [key, ...value] = part.trim().split('=');
+        if (key === name) return decodeURIComponent(value.join('='));
+    }
+    return undefined;
+}
+
+/** True when the request carries a grant for this link and file. */
+function hasDownloadGrant(req: Request, link: ShareLinkRecord, file: FileRecord): boolean {
+    const grant = readCookie(req, GRANT_COOKIE);
+    if (!grant) return false;
+    try {
+        const { linkId, fileId } = verifyShareGrant(grant);
+        return linkId === link.id && fileId === file.id;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Check the visitor-supplied password (header `X-Share-Password`; never the
+ * query string, which ends up in logs and history). Returns false when the
+ * link has a password and none was given. Wrong guesses lock the client
+ * out of the link like failed sign-ins (429). Also used by drop links.
+ */
+export async function checkSharePassword(req: Request, link: { id: string; password_hash?: string | null }): Promise<boolean> {
+    if (!link.password_hash) return true;
+
+    const supplied = req.get('x-share-password');
+    if (!supplied) return false;
+
+    const attempt = { linkId: link.id, ipAddress: req.ip ?? null };
+    assertLinkPasswordAllowed(attempt);
+
+    const isMatch = await verifyPassword(supplied, link.password_hash);
+    if (!isMatch) {
+        recordLinkPasswordFailure(attempt);
+        throw new AuthorizationError('Incorrect share link password');
+    }
+    recordLinkPasswordSuccess(attempt);
+    return true;
+}
+
+/**
+ * POST /api/shares
+ * Create a share link for a file or folder the user can access.
+ *
+ * @body fileId       - File to share (mutually exclusive with folderPath)
+ * @body folderPath   - Folder to share, relative to FILES_DIR
+ * @body expiresAt    - Optional ISO timestamp after which the link stops working
+ * @body password     - Optional password visitors must provide
+ * @body maxDownloads - Optional number of downloads allowed
+ */
+export async function createShareLink(req: Request, res: Response) {
+    const schema = z.object({
+        fileId: z.string().min(1).optional(),
+        folderPath: z.string().min(1).optional(),
+        expiresAt: z.iso.datetime({ offset: true }).optional(),
+        password: z.string().min(1).optional(),
+        maxDownloads: z.number().int().positive().optional(),
+    }).refine((body) => !!body.fileId !== !!body.folderPath, {
+        message: 'Provide either fileId or folderPath',
+    });
+
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        const formattedError = z.treeifyError(parsed.error);
+        throw new ValidationError('Invalid share link payload', formattedError);
+    }
+
+    const { fileId, expiresAt, password, maxDownloads } = parsed.data;
+    if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+        throw new ValidationError('Expiry must be in the future');
+    }
+
+    let folderPath: string | null = null;
+    if (fileId) {
+        const file = getFileById(fileId);
+        if (!file || file.status !== 'active' || !canAccessFile(req.user, file)) {
+            throw new NotFoundError('File not found');
+        }
+    } else {
+        try {
+            folderPath = sanitizeFolderPath(parsed.data.folderPath);
+        } catch (err) {
+            throw new ValidationError((err as Error).message);
+        }
+        if (!folderPath) throw new ValidationError('The root folder cannot be shared');
+
+        const absPath = fileStorage.getFilePath(folderPath);
+        if (!fs.existsSync(absPath) || !canAccessFolder(req.user, folderPath)) {
+            throw new NotFoundError('Folder not found');
+        }
+    }
+
+    const link = createShareLinkRecord({
+        ownerId: req.user!.id,
+        fileId: fileId ?? null,
+        folderPath,
+        passwordHash: password ? await hashPassword(password) : null,
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+        maxDownloads: maxDownloads ?? null,
+    });
+
+    info('Share link created', { id: link.id, fileId, folderPath, by: req.user?.username });
+    return res.status(201).json({ message: 'Share link created', shareLink: toShareLink(link) });
+}
+
+/**
+ * GET /api/shares
+ * List the current user's active (non-revoked) share links.
+ *
+ * @query fileId - Optional, only links for this file
+ */
+export async function listShareLinks(req: Request, res: Response) {
+    const fileId = req.query.fileId as string | undefined;
+    const links = listShareLinkRecords({ ownerId: req.user!.id, fileId });
+    return res.status(200).json({ shareLinks: links.map(toShareLink) });
+}
+
+/**
+ * DELETE /api/shares/:id
+ * Revoke a share link. Its token stops working immediately.
+ */
+export async function revokeShareLink(req: Request, res: Response) {
+    const id = req.params.id;
+    if (!id) throw new ValidationError('Share link id is required');
+
+    const link = getShareLinkById(id);
+    if (!link || !canAccessOwner(req.user, link.owner_id)) {
+        throw new NotFoundError('Share link not found');
+    }
+
+    const revoked = revokeShareLinkRecord(id);
+    info('Share link revoked', { id, by: req.user?.username });
+    return res.status(200).json({ message: 'Share link revoked', shareLink: toShareLink(revoked!) });
+}
+
+/**
+ * GET /s/:token
+ * Public landing info for a share link. Contents are only listed once the
+ * password (if any) has been supplied.
+ */
+export async function getSharedLink(req: Request, res: Response) {
+    const { link, owner } = resolveShareLink(req.params.token);
+    const unlocked = await checkSharePassword(req, link);
+
+    const landing: Record<string, unknown> = {
+        type: link.file_id ? 'file' : 'folder',
+        sharedBy: owner.username,
+        requiresPassword: !!link.password_hash,
+        unlocked,
+        expiresAt: link.expires_at ?? null,
+        downloadsRemaining: link.max_downloads != null ? link.max_downloads - link.download_count : null,
+    };
+
+    if (link.file_id) {
+        const file = resolveSharedFile(link, owner);
+        landing.name = file.original_name;
+        if (unlocked) landing.file = toSharedFile(file);
+    } else {
+        const files = resolveSharedFolderFiles(link, owner);
+        landing.name = link.folder_path!.split('/').pop();
+        if (unlocked) landing.files = files.map((file) => toSharedFile(file, link.folder_path));
+    }
+
+    return res.status(200).json(landing);
+}
+
+/**
+ * GET /s/:token/download
+ * Stream the shared file. For folder links, `?fileId=` selects a file inside
+ * the shared folder. Responses starting at byte 0 (full or `Range: bytes=0-`)
+ * count against `maxDownloads` and set a short-lived grant cookie; later
+ * ranges of the same file (seeking, resuming) are free with that grant and
+ * count like a new download without it. 304 revalidations don't count.
+ */
+export async function downloadSharedLink(req: Request, res: Response) {
+    const { link, owner } = resolveShareLink(req.params.token, { allowExhausted: true });
+    if (!(await checkSharePassword(req, link))) {
+        throw new AuthorizationError('This share link requires a password');
+    }
+
+    let file: FileRecord;
+    if (link.file_id) {
+        file = resolveSharedFile(link, owner);
+    } else {
+        const fileId = req.query.fileId as string | undefined;
+        if (!fileId) throw new ValidationError('fileId is required for folder links');
+
+        const match = resolveSharedFolderFiles(link, owner).find((f) => f.id === fileId);
+        if (!match) throw new NotFoundError('File not found');
+        file = match;
+    }
+
+    await streamFileRecord(req, res, file, {
+        isPublic: true,
+        onDownload: (start) => {
+            // Continuing a download that was already counted
+            if (start > 0 && hasDownloadGrant(req, link, file)) return;
+
+            if (!consumeShareLinkDownload(link.id)) throw new NotFoundError(UNAVAILABLE);
+            res.cookie(GRANT_COOKIE, signShareGrant(link.id, file.id), {
+                httpOnly: true,
+                sameSite: 'lax',
+                secure: req.secure,
+                path: `/s/${encodeURIComponent(link.token)}`,
+                maxAge: GRANT_COOKIE_MAX_AGE_MS,
+            });
+            info('Share link download', { id: link.id, fileId: file.id });
+        },
+    });
+}
@@ -1,20 +1,34 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import { signToken } from '../utils/token';
 import { hashPassword, verifyPassword } from '../utils/passwordHash';
-import { getUserByUsername } from '../models/users';
+import { getSessionClient, refreshSession, startSession } from '../utils/session';
+import { signChallengeToken, verifyChallengeToken } from '../utils/token';
+import { verifySecondFactor } from '../utils/totp';
+import { assertLoginAllowed, recordLoginFailure, recordLoginSuccess } from '../utils/loginThrottle';
+import { createUser, getUserById, getUserByUsername } from '../models/users';
+import { consumeInvite, getInviteByCode, isInviteUsable } from '../models/invites';
+import { revokeSession, revokeUserSessions } from '../models/sessions';
+import { ROLE_CAPABILITIES, getRoleById } from '../models/roles';
+import { hasCapability } from '../middleware/authorize';
 import type { UserClaim } from '../types/auth';
-import { AuthenticationError, ValidationError } from '../middleware/errors';
+import { OIDC_ENABLED } from '../config/env';
+import { completeOidcLogin, createOidcLogin, issueOidcLoginCode, redeemOidcLoginCode, takeOidcLogin } from '../utils/oidc';
+import { resolveSsoReturnOrigin } from '../utils/frontendOrigin';
+import { AppError, AuthenticationError, NotFoundError, ValidationError } from '../middleware/errors';
 import { info } from '../utils/logger';
 
 // Controller: User
 // -----------------
 // User authentication and session management.
-// Users are stored in the database; authentication uses JWT tokens.
+// Users are stored in the database; authentication uses short-lived JWT
+// access tokens renewed with rotating refresh tokens (see utils/session.ts).
 
 /**
  * POST /api/users/login
- * Authenticate user against database and issue JWT token.
+ * Authenticate user against database, start a session and issue tokens.
+ * Users with 2FA enabled instead receive a challenge token to complete
+ * sign-in at POST /api/users/login/2fa.
+ * Repeated failures lock the username and client IP out for a while (429).
  */
 export async function loginUser(req: Request, res: Response) {
     const loginSchema = z.object({ username: z.string().min(1), password: z.string().min(1) });
@@ -25,37 +39,231 @@ export async function loginUser(req: Request, res: Response) {
     }
 
     const { username, password } = parsed.data;
+    const client = getSessionClient(req);
+    const attempt = { username, ipAddress: client.ipAddress };
+    assertLoginAllowed(attempt);
 
     // Look up user in database
     const user = getUserByUsername(username);
     if (!user) {
+        recordLoginFailure(attempt);
         throw new AuthenticationError('Invalid credentials');
     }
 
     // Verify password
     const isMatch = await verifyPassword(password, user.password_hash);
     if (!isMatch) {
+        recordLoginFailure(attempt);
         throw new AuthenticationError('Invalid credentials');
     }
 
-    // Build token and return
-    const userClaim: UserClaim = {
-        id: user.id,
-        username: user.username,
-        role: user.is_admin ? 'admin' : 'user',
-        // Include a version derived from the user's timestamps so tokens
-        // become invalid when the user's record changes (password reset, etc.)
-        v: user.updated_at ?? user.created_at,
-    };
+    // Disabled accounts keep their data but may not sign in
+    if (user.disabled) {
+        throw new AuthenticationError('Account is disabled');
+    }
+
+    // Password is correct but a second factor is still required
+    if (user.totp_enabled) {
+        const challengeToken = signChallengeToken(user.id, user.updated_at ?? user.created_at);
+        return res.status(200).json({ twoFactorRequired: true, challengeToken });
+    }
 
-    const token = signToken(userClaim);
-    res.status(200).json({ token, user: { id: userClaim.id, username: userClaim.username, role: userClaim.role } });
+    recordLoginSuccess(user.username);
+    const { token, refreshToken, user: profile } = startSession(user, client);
+    res.status(200).json({ token, refreshToken, user: profile });
     try { info('User logged in', { username: user.username }); } catch { /* no-op */ }
 }
 
+/**
+ * POST /api/users/register
+ * Create an account with an admin-issued invite code and sign it in.
+ * The invite may preset the new account's role and storage quota; a
+ * preset role that was deleted since falls back to the default role.
+ */
+export async function registerUser(req: Request, res: Response) {
+    const registerSchema = z.object({
+        code: z.string().trim().min(1),
+        username: z.string().trim().min(1).max(64),
+        password: z.string().min(6),
+    });
+    const parsed = registerSchema.safeParse(req.body);
+    if (!parsed.success) {
+        const formattedError = z.treeifyError(parsed.error);
+        throw new ValidationError('Invalid registration payload', formattedError);
+    }
+
+    const { code, username, password } = parsed.data;
+    const invite = getInviteByCode(code);
+    if (!invite || !isInviteUsable(invite)) {
+        throw new ValidationError('Invite code is invalid or has expired');
+    }
+    if (getUserByUsername(username)) {
+        throw new ValidationError('Username already exists');
+    }
+
+    const passwordHash = await hashPassword(password);
+
+    // Re-check after hashing: another registration may have won the race
+    if (getUserByUsername(username)) {
+        throw new ValidationError('Username already exists');
+    }
+    if (!consumeInvite(invite.id)) {
+        throw new ValidationError('Invite code is invalid or has expired');
+    }
+
+    const role = invite.role && getRoleById(invite.role) ? invite.role : undefined;
+    const user = createUser({ username, passwordHash, role, quotaBytes: invite.quota_bytes ?? null });
+
+    const { token, refreshToken, user: profile } = startSession(user, getSessionClient(req));
+    res.status(201).json({ token, refreshToken, user: profile });
+    try { info('User registered with invite', { username: user.username, invite: invite.id, role: user.role }); } catch { /* no-op */ }
+}
+
+/**
+ * POST /api/users/login/2fa
+ * Second login step: exchange the challenge token from POST /api/users/login
+ * and a TOTP or recovery code for a session. Wrong codes count towards
+ * the same lockout as wrong passwords.
+ */
+export async function loginTwoFactor(req: Request, res: Response) {
+    const schema = z.object({ challengeToken: z.string().min(1), code: z.string().trim().min(1) });
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid 2FA payload', z.treeifyError(parsed.error));
+    }
+
+    let challenge: { userId: string; version: string };
+    try {
+        challenge = verifyChallengeToken(parsed.data.challengeToken);
+    } catch {
+        throw new AuthenticationError('Sign-in attempt expired. Please log in again.');
+    }
+
+    // The account must be unchanged since the password step
+    const user = getUserById(challenge.userId);
+    if (!user || user.disabled || !user.totp_enabled || (user.updated_at ?? user.created_at) !== challenge.version) {
+        throw new AuthenticationError('Sign-in attempt expired. Please log in again.');
+    }
+
+    const client = getSessionClient(req);
+    const attempt = { username: user.username, ipAddress: client.ipAddress };
+    assertLoginAllowed(attempt);
+
+    if (!verifySecondFactor(user, parsed.data.code)) {
+        recordLoginFailure(attempt);
+        throw new AuthenticationError('Invalid authentication code');
+    }
+
+    recordLoginSuccess(user.username);
+    const { token, refreshToken, user: profile } = startSession(user, client);
+    res.status(200).json({ token, refreshToken, user: profile });
+    try { info('User logged in with 2FA', { username: user.username }); } catch { /* no-op */ }
+}
+
+/**
+ * POST /api/users/refresh
+ * Exchange a refresh token for a new access token. The refresh token is
+ * rotated: the one sent is no longer valid afterwards.
+ */
+export async function refreshToken(req: Request, res: Response) {
+    const schema = z.object({ refreshToken: z.string().min(1) });
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid refresh payload', z.treeifyError(parsed.error));
+    }
+
+    const { token, refreshToken: nextRefreshToken, user } = refreshSession(parsed.data.refreshToken, getSessionClient(req));
+    return res.status(200).json({ token, refreshToken: nextRefreshToken, user });
+}
+
+/**
+ * GET /api/users/oidc
+ * Tell the login page whether single sign-on is available.
+ */
+export async function getOidcConfig(_req: Request, res: Response) {
+    return res.status(200).json({ enabled: OIDC_ENABLED });
+}
+
+/**
+ * GET /api/users/oidc/login
+ * Start single sign-on: redirect the browser to the identity provider.
+ * `returnTo` is the frontend origin to come back to; anything not listed in
+ * OIDC_FRONTEND_ORIGINS falls back to the first configured origin.
+ */
+export async function startOidcLogin(req: Request, res: Response) {
+    if (!OIDC_ENABLED) throw new NotFoundError('Single sign-on is not configured');
+
+    const requested = typeof req.query.returnTo === 'string' ? req.query.returnTo : '';
+    const returnTo = resolveSsoReturnOrigin(requested);
+
+    const authorizationUrl = await createOidcLogin(returnTo);
+    return res.redirect(302, authorizationUrl);
+}
+
+/**
+ * GET /api/users/oidc/callback
+ * Redirect URI registered with the identity provider. Sends the browser
+ * back to the frontend's /login page with either a one-time `sso` code
+ * (traded at POST /api/users/oidc/exchange) or an `ssoError` message.
+ */
+export async function oidcCallback(req: Request, res: Response) {
+    const state = typeof req.query.state === 'string' ? req.query.state : '';
+    const pending = state ? takeOidcLogin(state) : null;
+    if (!pending) {
+        throw new ValidationError('Sign-in attempt expired or unknown. Please start again.');
+    }
+
+    const backToFrontend = (params: Record<string, string>) =>
+        res.redirect(302, `${pending.returnTo}/login?${new URLSearchParams(params)}`);
+
+    // The user cancelled or the IdP refused the request
+    if (typeof req.query.error === 'string') {
+        const description = typeof req.query.error_description === 'string' ? req.query.error_description : '';
+        return backToFrontend({ ssoError: description || `Sign-in was not completed (${req.query.error})` });
+    }
+
+    const code = typeof req.query.code === 'string' ? req.query.code : '';
+    if (!code) return backToFrontend({ ssoError: 'The identity provider did not return a code' });
+
+    try {
+        const user = await completeOidcLogin(pending, code);
+        info('User signed in with SSO', { username: user.username });
+        return backToFrontend({ sso: issueOidcLoginCode(user.id) });
+    } catch (err) {
+        const message = err instanceof AppError ? err.message : 'Single sign-on failed. Please try again.';
+        return backToFrontend({ ssoError: message });
+    }
+}
+
+/**
+ * POST /api/users/oidc/exchange
+ * Trade the one-time code from the SSO callback for a session.
+ * Users with 2FA enabled receive a challenge token instead, like /login,
+ * and complete sign-in at POST /api/users/login/2fa.
+ */
+export async function exchangeOidcCode(req: Request, res: Response) {
+    const schema = z.object({ code: z.string().min(1) });
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid SSO payload', z.treeifyError(parsed.error));
+    }
+
+    const user = redeemOidcLoginCode(parsed.data.code);
+    if (!user) throw new AuthenticationError('Sign-in link expired. Please try again.');
+
+    // The IdP vouches for the identity, not for this account's second factor
+    if (user.totp_enabled) {
+        const challengeToken = signChallengeToken(user.id, user.updated_at ?? user.created_at);
+        return res.status(200).json({ twoFactorRequired: true, challengeToken });
+    }
+
+    const { token, refreshToken, user: profile } = startSession(user, getSessionClient(req));
+    return res.status(200).json({ token, refreshToken, user: profile });
+}
+
 /**
  * GET /api/users/me
- * Return the authenticated user's profile.
+ * Return the authenticated user's profile and the capabilities of their role.
  * User data comes from JWT token attached by authenticate middleware.
  */
 export async function getCurrentUser(req: Request, res: Response) {
@@ -65,16 +273,23 @@ export async function getCurrentUser(req: Request, res: Response) {
         throw new AuthenticationError('User not found in token');
     }
 
-    const user = { id: maybeUser.id, username: maybeUser.username, role: maybeUser.role };
+    const user = {
+        id: maybeUser.id,
+        username: maybeUser.username,
+        role: maybeUser.role,
+        capabilities: ROLE_CAPABILITIES.filter((capability) => hasCapability(maybeUser, capability)),
+    };
     info('Return current user', { username: user.username });
     return res.status(200).json({ user });
 }
 
 /**
  * POST /api/users/logout
- * Stateless logout. Client removes stored token.
+ * End the current session. Its access and refresh tokens stop working.
  */
-export async function logoutUser(_req: Request, res: Response) {
+export async function logoutUser(req: Request, res: Response) {
+    if (req.user?.sid) revokeSession(req.user.sid);
+
     try {
         res.clearCookie('token');
     } catch (err) {
@@ -85,4 +300,15 @@ export async function logoutUser(_req: Request, res: Response) {
     return res.status(204).send();
 }
 
+/**
+ * POST /api/users/logout-others
+ * Sign out every other device, keeping the current session.
+ */
+export async function logoutOtherSessions(req: Request, res: Response) {
+    const user = req.user!;
+    const revoked = revokeUserSessions(user.id, user.sid);
+    info('Signed out other sessions', { username: user.username, revoked });
+    return res.status(200).json({ revoked });
+}
+
 
@@ -5,12 +5,28 @@ import { initializeDatabase, closeDatabase } from './config/db';
 import { initializeFilesModel } from './models/files';
 import { initializeFoldersModel } from './models/folders';
 import { initializeUsersModel } from './models/users';
+import { initializeRolesModel } from './models/roles';
+import { initializeShareLinksModel } from './models/shareLinks';
+import { initializeResumableUploadsModel } from './models/resumableUploads';
+import { initializeFileVersionsModel } from './models/fileVersions';
+import { initializeSessionsModel, deleteInactiveSessions } from './models/sessions';
+import { initializeLoginAttemptsModel } from './models/loginAttempts';
+import { initializeApiTokensModel } from './models/apiTokens';
+import { initializeInvitesModel } from './models/invites';
+import { initializeFolderGrantsModel } from './models/folderGrants';
+import { initializeDropLinksModel } from './models/dropLinks';
 import { initializeFirstUser } from './utils/initUser';
+import { purgeStaleUploads } from './utils/uploadStaging';
+import { purgeExpiredTrash } from './utils/trashRetention';
+import { purgeStaleLoginAttempts } from './utils/loginThrottle';
 import routes from './routes';
+import publicShareRoutes from './routes/publicShareRoutes';
+import publicDropRoutes from './routes/publicDropRoutes';
 import cors from 'cors';
 import { NotFoundError } from './middleware/errors';
 import { errorHandler } from './middleware/errorHandler';
 import { requestLogger, info } from './utils/logger';
+import { isFrontendOrigin } from './utils/frontendOrigin';
 
 // TODO: Add middleware for CORS, parsing, authentication and RBAC
 // e.g., app.use(cors()), app.use(express.json()) and custom `authenticate` middleware
@@ -29,21 +45,23 @@ app.use(cors({
         // Allow requests without an origin (curl/postman)
         if (!origin) return callback(null, true as any);
 
-        try {
-            const url = new URL(origin);
-            const port = url.port ? Number(url.port) : (url.protocol === 'https:' ? 443 : 80);
-
-            // Allow if port matches frontend port (works for any hostname)
-            if (port === FRONTEND_PORT) {
-                return callback(null, true as any);
-            }
-        } catch { }
+        // Allow if port matches frontend port (works for any hostname)
+        if (isFrontendOrigin(origin)) {
+            return callback(null, true as any);
+        }
 
         callback(new Error(`CORS: Origin ${origin} not allowed`));
     },
     credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-    allowedHeaders: ['Content-Type', 'Authorization']
+    methods: ['GET', 'HEAD', 'POST', 'PUT', 'DELETE', 'PATCH'],
+    allowedHeaders: [
+        'Content-Type', 'Authorization', 'X-Share-Password', 'Upload-Offset',
+        'Range', 'If-Range', 'If-None-Match', 'If-Modified-Since',
+    ],
+    exposedHeaders: [
+        'Location', 'Upload-Offset', 'Upload-Length',
+        'Accept-Ranges', 'Content-Range', 'Content-Disposition', 'ETag', 'Last-Modified', 'Retry-After',
+    ]
 }));
 // Log incoming requests and their outcome
 app.use(requestLogger);
@@ -51,6 +69,12 @@ app.use(requestLogger);
 // Mount API routes 
 app.use('/api', routes);
 
+// Public share links live outside /api so the URLs stay short
+app.use('/s', publicShareRoutes);
+
+// Public drop links (anonymous upload-only) live next to them
+app.use('/d', publicDropRoutes);
+
 // Handle Non existing API routes.
 app.use('/api', (_req, _res, next) => next(new NotFoundError('API route not found')));
 
@@ -68,12 +92,58 @@ initializeDatabase();
 initializeFilesModel();
 initializeFoldersModel();
 initializeUsersModel();
+initializeRolesModel();
+initializeShareLinksModel();
+initializeResumableUploadsModel();
+initializeFileVersionsModel();
+initializeSessionsModel();
+initializeLoginAttemptsModel();
+initializeApiTokensModel();
+initializeInvitesModel();
+initializeFolderGrantsModel();
+initializeDropLinksModel();
 // Initialize first admin user if database is empty
 initializeFirstUser().catch(err => {
     console.error('Failed to initialize first user:', err);
     process.exit(1);
 });
 
+// Discard abandoned resumable uploads at startup and then hourly
+const purgeUploads = () => {
+    purgeStaleUploads().catch(err => console.error('Failed to purge stale uploads:', err));
+};
+purgeUploads();
+setInterval(purgeUploads, 60 * 60 * 1000).unref();
+
+// Permanently delete files past the trash retention period at startup and then hourly
+const purgeTrash = () => {
+    purgeExpiredTrash().catch(err => console.error('Failed to purge expired trash:', err));
+};
+purgeTrash();
+setInterval(purgeTrash, 60 * 60 * 1000).unref();
+
+// Drop expired and revoked sessions at startup and then hourly
+const purgeSessions = () => {
+    try {
+        deleteInactiveSessions();
+    } catch (err) {
+        console.error('Failed to purge inactive sessions:', err);
+    }
+};
+purgeSessions();
+setInterval(purgeSessions, 60 * 60 * 1000).unref();
+
+// Forget old failed sign-in attempts at startup and then hourly
+const purgeLoginAttempts = () => {
+    try {
+        purgeStaleLoginAttempts();
+    } catch (err) {
+        console.error('Failed to purge login attempts:', err);
+    }
+};
+purgeLoginAttempts();
+setInterval(purgeLoginAttempts, 60 * 60 * 1000).unref();
+
 const server = app.listen(config.port, HOST, () => {
     info(`Server listening on 0.0.0.0:${config.port} — http://localhost:${config.port}/`);
 });
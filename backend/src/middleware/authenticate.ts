@@ -1,13 +1,16 @@
 import { NextFunction, Request, Response } from 'express';
-import { AuthenticationError } from './errors';
+import { AuthenticationError, AuthorizationError } from './errors';
 import { verifyToken } from '../utils/token';
+import { isAllowedForScope, isApiToken, verifyApiToken } from '../utils/apiTokens';
 import type { UserClaim } from '../types/auth';
 
 /**
  * authenticate middleware
- * - Verifies a Bearer token provided via the Authorization header
+ * - Verifies a Bearer token provided via the Authorization header: a JWT
+ *   access token or a personal API token (`mxb_...`)
  * - Ensures token contains required claims and attaches `req.user`
- * - Throws `AuthenticationError` on invalid/missing tokens
+ * - Throws `AuthenticationError` on invalid/missing tokens, and
+ *   `AuthorizationError` when an API token's scope doesn't cover the request
  */
 export default function authenticate(req: Request, _res: Response, next: NextFunction): void {
     const authHeader = req.headers.authorization || req.headers.Authorization as string | undefined;
@@ -23,13 +26,31 @@ export default function authenticate(req: Request, _res: Response, next: NextFun
     const token = parts[1];
     let payload: UserClaim;
     try {
-        payload = verifyToken(token);
+        payload = isApiToken(token) ? verifyApiToken(token) : verifyToken(token);
     } catch (err) {
         // Wrap and rethrow as AuthenticationError so the centralized error handler can map status codes.
         throw new AuthenticationError((err as Error).message || 'Invalid token');
     }
 
+    if (payload.scope && !isAllowedForScope(payload.scope, req.method, req.originalUrl.split('?')[0])) {
+        throw new AuthorizationError(`This API token (${payload.scope}) cannot be used for this request`);
+    }
+
     // Attach user claims to request for downstream use..
     req.user = payload;
     next();
 }
+
+/**
+ * requireSession middleware
+ * - Use after `authenticate` on routes that manage the account itself
+ *   (password, 2FA, sessions, API tokens, sign-out)
+ * - Throws `AuthorizationError` for API tokens of any scope, so a leaked
+ *   token can't mint more tokens or take over the account's sessions
+ */
+export function requireSession(req: Request, _res: Response, next: NextFunction): void {
+    if (req.user?.tid) {
+        throw new AuthorizationError('API tokens cannot manage the account; sign in instead');
+    }
+    next();
+}
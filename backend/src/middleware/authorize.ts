@@ -0,0 +1,185 @@
+import { NextFunction, Request, Response } from 'express';
+import path from 'path';
+import { AuthenticationError, AuthorizationError, NotFoundError, ValidationError } from './errors';
+import { getFileById, type FileRecord } from '../models/files';
+import { findGoverningFolder } from '../models/folders';
+import { findFolderGrant, type FolderPermission } from '../models/folderGrants';
+import { ADMIN_ROLE, getRoleById, type Capability } from '../models/roles';
+import type { UserClaim } from '../types/auth';
+
+/**
+ * Authorization policy
+ * ====================
+ * Resource-level access checks built on `req.user`, the `owner_id`
+ * columns of the `files` and `folders` tables and folder grants (see
+ * `models/folderGrants`), plus role capabilities (see `models/roles`)
+ * checked by the `authorize(capability)` middleware.
+ *
+ * Rules:
+ * - Admins may act on any file or folder
+ * - Other users may only act on rows they own (rows without an owner are admin-only)
+ * - A folder path is governed by the nearest ancestor that has a DB record;
+ *   paths with no record anywhere above them fall under the shared root
+ * - A folder owner may grant another user view, upload or edit access to a
+ *   folder and everything below it; the nearest grant decides
+ * - Files inside a folder are accessible to the folder's owner and grantees,
+ *   not just to the file's owner; root-level files stay private
+ *
+ * - Actions beyond listing and downloading need a capability of the
+ *   user's role (upload, edit, delete, delete-permanent, share, admin)
+ *
+ * Denied lookups surface as 404s so callers can't probe for other users' data.
+ */
+
+/**
+ * Access to a folder, from least to most: a grant's permission, or full
+ * `owner` access (own folder, admin, or the shared root).
+ * - view: list and download
+ * - upload: also add files and subfolders
+ * - edit: also rename, move and trash
+ * - owner: also share, grant access and delete permanently
+ */
+export type FolderAccess = FolderPermission | 'owner';
+
+const ACCESS_ORDER: FolderAccess[] = ['view', 'upload', 'edit', 'owner'];
+
+/** True when `access` is at least `required`. */
+export function meetsAccess(access: FolderAccess | null, required: FolderAccess): boolean {
+    return access !== null && ACCESS_ORDER.indexOf(access) >= ACCESS_ORDER.indexOf(required);
+}
+
+/** Folder a file lives in ('' for the root). */
+function folderOf(file: FileRecord): string {
+    const folder = path.posix.dirname(file.storage_path);
+    return folder === '.' ? '' : folder;
+}
+
+/** True when the user carries the `admin` role claim. */
+export function isAdmin(user?: UserClaim | null): boolean {
+    return user?.role === ADMIN_ROLE;
+}
+
+/**
+ * True when the user's role grants the capability. Roles are read from the
+ * DB on every check so capability changes apply without signing in again.
+ */
+export function hasCapability(user: UserClaim | undefined | null, capability: Capability): boolean {
+    if (!user) return false;
+    if (isAdmin(user)) return true;
+    return getRoleById(user.role)?.capabilities.includes(capability) ?? false;
+}
+
+/** True when the user owns the row (or is an admin). */
+export function canAccessOwner(user: UserClaim | undefined | null, ownerId?: string | null): boolean {
+    if (!user) return false;
+    if (isAdmin(user)) return true;
+    return !!ownerId && ownerId === user.id;
+}
+
+/**
+ * The user's access to a folder path, or null for none.
+ * Walks up from the folder itself; the first folder record found decides.
+ * Grants only count while they sit in the same owner's tree, so a grant on
+ * a parent doesn't reach into a subfolder someone else owns.
+ */
+export function getFolderAccess(user: UserClaim | undefined | null, folderPath: string): FolderAccess | null {
+    if (!user) return null;
+    if (isAdmin(user)) return 'owner';
+
+    const folder = findGoverningFolder(folderPath);
+
+    // Root level is shared; individual entries are filtered by owner
+    if (!folder) return 'owner';
+    if (canAccessOwner(user, folder.owner_id)) return 'owner';
+
+    const grant = findFolderGrant(user.id, folderPath);
+    if (!grant || !folder.owner_id) return null;
+    return findGoverningFolder(grant.folder_path)?.owner_id === folder.owner_id ? grant.permission : null;
+}
+
+/**
+ * True when the user has at least `access` to the given file record: they
+ * own it, or have that access to the folder it lives in.
+ */
+export function canAccessFile(user: UserClaim | undefined | null, file: FileRecord, access: FolderAccess = 'owner'): boolean {
+    if (canAccessOwner(user, file.owner_id)) return true;
+
+    // Root-level files are private to their owner
+    const folderPath = folderOf(file);
+    if (!findGoverningFolder(folderPath)) return false;
+
+    return canAccessFolder(user, folderPath, access);
+}
+
+/** True when the user has at least `access` inside the given folder path. */
+export function canAccessFolder(user: UserClaim | undefined | null, folderPath: string, access: FolderAccess = 'owner'): boolean {
+    return meetsAccess(getFolderAccess(user, folderPath), access);
+}
+
+/**
+ * Throws NotFoundError when the user lacks `access` to the folder path.
+ * Use inside controllers after the path has been sanitized.
+ */
+export function assertFolderAccess(
+    user: UserClaim | undefined | null,
+    folderPath: string,
+    access: FolderAccess = 'owner',
+    message = 'Folder not found'
+): void {
+    if (!canAccessFolder(user, folderPath, access)) {
+        throw new NotFoundError(message);
+    }
+}
+
+/**
+ * authorize(capability) middleware factory
+ * - Allows the request through only when the user's role grants `capability`
+ * - Responds 403 otherwise; must be placed AFTER `authenticate`
+ *
+ * Example: router.post('/', authenticate, authorize('share'), handler)
+ */
+export function authorize(capability: Capability) {
+    return (req: Request, _res: Response, next: NextFunction): void => {
+        if (!req.user) throw new AuthenticationError('Authentication required');
+        if (!hasCapability(req.user, capability)) {
+            throw new AuthorizationError(
+                capability === 'admin'
+                    ? 'Admin access required'
+                    : `Your role does not allow this action (requires '${capability}')`
+            );
+        }
+        next();
+    };
+}
+
+/**
+ * requireAdmin middleware
+ * - Shorthand for `authorize('admin')`
+ * - Must be placed AFTER `authenticate`
+ */
+export const requireAdmin = authorize('admin');
+
+/**
+ * authorizeFile(access) middleware factory
+ * - Loads the file referenced by `req.params.id`
+ * - Responds 404 when the file doesn't exist or the user lacks `access`
+ *   (see canAccessFile)
+ * - Must be placed AFTER `authenticate`
+ *
+ * Example: router.get('/id/:id', authenticate, authorizeFile('view'), handler)
+ */
+export function authorizeFile(access: FolderAccess = 'owner') {
+    return (req: Request, _res: Response, next: NextFunction): void => {
+        const id = req.params.id;
+        if (!id) throw new ValidationError('File id is required');
+
+        const file = getFileById(id);
+        if (!file || !canAccessFile(req.user, file, access)) {
+            throw new NotFoundError('File not found');
+        }
+
+        next();
+    };
+}
+
+export default authorizeFile;
@@ -1,6 +1,6 @@
 import { NextFunction, Request, Response } from 'express';
 import { ZodError } from 'zod';
-import { AppError } from './errors';
+import { AppError, TooManyRequestsError } from './errors';
 import { error as logError } from '../utils/logger';
 
 /**
@@ -9,6 +9,7 @@ import { error as logError } from '../utils/logger';
  * - Accepts both operational AppError instances and unexpected errors
  * - Converts Zod validation errors into ValidationError responses
  * - Detects token errors from `jsonwebtoken` and maps to 401
+ * - Sends `Retry-After` for rate-limited (429) requests
  */
 export const errorHandler = (
     err: unknown,
@@ -87,6 +88,11 @@ export const errorHandler = (
         }
     }
 
+    // Tell rate-limited clients when they may try again
+    if (err instanceof TooManyRequestsError) {
+        res.setHeader('Retry-After', String(err.retryAfter));
+    }
+
     // Set content type explicitly and send JSON
     res.status(statusCode).json(responseBody);
 };
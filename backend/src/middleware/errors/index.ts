@@ -16,6 +16,10 @@ export { default as FileStorageError } from './fileStorageError';
 export { FileStorageError as _FileStorageError } from './fileStorageError';
 export { default as FileNotFoundError } from './fileNotFoundError';
 export { FileNotFoundError as _FileNotFoundError } from './fileNotFoundError';
+export { default as TooManyRequestsError } from './tooManyRequestsError';
+export { TooManyRequestsError as _TooManyRequestsError } from './tooManyRequestsError';
+export { default as QuotaExceededError } from './quotaExceededError';
+export { QuotaExceededError as _QuotaExceededError } from './quotaExceededError';
 
 // Local imports used to build a friendly default export object below.
 import AppError from './appError';
@@ -25,6 +29,8 @@ import AuthorizationError from './authorizationError';
 import NotFoundError from './notFoundError';
 import FileStorageError from './fileStorageError';
 import FileNotFoundError from './fileNotFoundError';
+import TooManyRequestsError from './tooManyRequestsError';
+import QuotaExceededError from './quotaExceededError';
 
 export default {
     AppError,
@@ -34,4 +40,6 @@ export default {
     NotFoundError,
     FileStorageError,
     FileNotFoundError,
+    TooManyRequestsError,
+    QuotaExceededError,
 };
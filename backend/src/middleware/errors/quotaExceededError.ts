@@ -0,0 +1,14 @@
+import AppError from './appError';
+
+/**
+ * QuotaExceededError — thrown when an upload would take a user past their
+ * storage quota. `details` carries the current usage and the quota in bytes
+ * so clients can show how much room is left.
+ */
+export class QuotaExceededError extends AppError {
+    constructor(message = 'Storage quota exceeded', usedBytes = 0, quotaBytes = 0) {
+        super(message, 413, 'QUOTA_EXCEEDED', { usedBytes, quotaBytes });
+    }
+}
+
+export default QuotaExceededError;
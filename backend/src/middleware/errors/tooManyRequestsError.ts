@@ -0,0 +1,17 @@
+import AppError from './appError';
+
+/**
+ * TooManyRequestsError — thrown when a client must wait before retrying
+ * (e.g., after repeated failed sign-ins). `retryAfter` is sent to the client
+ * as the `Retry-After` header, in seconds.
+ */
+export class TooManyRequestsError extends AppError {
+    public retryAfter: number;
+
+    constructor(message = 'Too many requests', retryAfter = 60) {
+        super(message, 429, 'TOO_MANY_REQUESTS', { retryAfter });
+        this.retryAfter = retryAfter;
+    }
+}
+
+export default TooManyRequestsError;
@@ -1,12 +1,14 @@
 import multer, { FileFilterCallback } from 'multer';
 import { info } from '../utils/logger';
-import { Request } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { FILES_DIR, UPLOAD_MAX_FILE_SIZE, UPLOAD_DISALLOWED_MIME_TYPES } from '../config/env';
-import { ValidationError } from './errors';
+import { ValidationError, NotFoundError } from './errors';
+import { canAccessFolder } from './authorize';
 import path from 'path';
 import crypto from 'crypto';
 import fs from 'fs';
 import { sanitizeFolderPath, resolveSecurePath } from '../utils/pathSanitizer';
+import { assertQuotaAvailable } from '../utils/storageQuota';
 
 /**
  * MIME type mapper for extensions that Multer doesn't recognize by default.
@@ -22,6 +24,60 @@ const MIME_TYPE_MAP: Record<string, string> = {
     '.markdown': 'text/markdown',
 };
 
+/**
+ * Common extensions for files that arrive without a browser-supplied MIME
+ * type (e.g. imported straight from FILES_DIR). MIME_TYPE_MAP still wins.
+ */
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+    '.txt': 'text/plain',
+    '.log': 'text/plain',
+    '.csv': 'text/csv',
+    '.json': 'application/json',
+    '.xml': 'application/xml',
+    '.yaml': 'application/yaml',
+    '.yml': 'application/yaml',
+    '.html': 'text/html',
+    '.htm': 'text/html',
+    '.css': 'text/css',
+    '.py': 'text/x-python',
+    '.sh': 'application/x-sh',
+    '.pdf': 'application/pdf',
+    '.doc': 'application/msword',
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    '.xls': 'application/vnd.ms-excel',
+    '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    '.ppt': 'application/vnd.ms-powerpoint',
+    '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    '.odt': 'application/vnd.oasis.opendocument.text',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.bmp': 'image/bmp',
+    '.svg': 'image/svg+xml',
+    '.ico': 'image/x-icon',
+    '.heic': 'image/heic',
+    '.mp4': 'video/mp4',
+    '.m4v': 'video/mp4',
+    '.mkv': 'video/x-matroska',
+    '.mov': 'video/quicktime',
+    '.webm': 'video/webm',
+    '.avi': 'video/x-msvideo',
+    '.mp3': 'audio/mpeg',
+    '.wav': 'audio/wav',
+    '.flac': 'audio/flac',
+    '.aac': 'audio/aac',
+    '.ogg': 'audio/ogg',
+    '.m4a': 'audio/mp4',
+    '.zip': 'application/zip',
+    '.rar': 'application/vnd.rar',
+    '.7z': 'application/x-7z-compressed',
+    '.tar': 'application/x-tar',
+    '.gz': 'application/gzip',
+    '.iso': 'application/x-iso9660-image',
+};
+
 /**
  * multerHandler middleware
  * - Configures multer for local disk storage with subdirectory support
@@ -31,6 +87,7 @@ const MIME_TYPE_MAP: Record<string, string> = {
  * - Stores files in FILES_DIR or subdirectories within it
  * - Generates unique filenames with UUID to avoid collisions
  * - Multi-file uploads preserve client-side folder structure via relativePath field
+ * - `req.pinnedUploadFolder` (set by earlier middleware) overrides the client's folder fields
  * - Corrects MIME types for unrecognized extensions (e.g., .ts, .md)
  */
 
@@ -38,11 +95,20 @@ const MIME_TYPE_MAP: Record<string, string> = {
  * Corrects or assigns MIME type based on file extension.
  * Handles cases where Multer's default MIME detection fails.
  */
-function correctMimeType(mimeType: string, filename: string): string {
+export function correctMimeType(mimeType: string, filename: string): string {
     const ext = path.extname(filename).toLowerCase();
     return MIME_TYPE_MAP[ext] || mimeType;
 }
 
+/**
+ * Detects a MIME type from the file extension alone, for files that were
+ * not uploaded through a browser. Falls back to application/octet-stream.
+ */
+export function detectMimeType(filename: string): string {
+    const ext = path.extname(filename).toLowerCase();
+    return correctMimeType(EXTENSION_MIME_TYPES[ext] || 'application/octet-stream', filename);
+}
+
 /**
  * Extracts the folder portion from a relative path (e.g., "docs/notes/file.txt" -> "docs/notes").
  * Used for multi-file uploads where client sends file.webkitRelativePath.
@@ -75,7 +141,13 @@ const storage = multer.diskStorage({
 
             let rawFolder: string | undefined;
 
-            if (Array.isArray(relativePaths) && relativePaths[fileIndex]) {
+            // A destination pinned by earlier middleware (drop links) wins;
+            // client-supplied folder fields are ignored
+            const pinnedFolder = (req as any).pinnedUploadFolder as string | undefined;
+
+            if (pinnedFolder !== undefined) {
+                rawFolder = pinnedFolder;
+            } else if (Array.isArray(relativePaths) && relativePaths[fileIndex]) {
                 // Multi-file upload: extract folder from relativePath
                 rawFolder = extractFolderFromRelativePath(relativePaths[fileIndex]);
                 // Combine with base folder if provided
@@ -96,6 +168,11 @@ const storage = multer.diskStorage({
 
             const sanitizedFolder = sanitizeFolderPath(rawFolder);
 
+            // Reject uploads into folders the user may not add files to
+            if (!canAccessFolder(req.user, sanitizedFolder, 'upload')) {
+                throw new NotFoundError('Folder not found');
+            }
+
             // Resolve and validate destination path
             const destPath = sanitizedFolder
                 ? resolveSecurePath(FILES_DIR, sanitizedFolder)
@@ -173,6 +250,27 @@ const fileFilter = (
     }
 };
 
+/**
+ * Allowance for multipart boundaries and form fields when comparing the
+ * request's Content-Length with the remaining quota.
+ */
+export const MULTIPART_OVERHEAD_BYTES = 16 * 1024;
+
+/**
+ * Quota pre-check, mounted before multer so an upload that cannot fit is
+ * refused before any data is written. Uses the request's Content-Length
+ * (less multipart overhead); the controllers re-check exact file sizes.
+ */
+export function enforceQuota(req: Request, _res: Response, next: NextFunction): void {
+    try {
+        const contentLength = Number(req.headers['content-length']) || 0;
+        assertQuotaAvailable(req.user?.id, Math.max(1, contentLength - MULTIPART_OVERHEAD_BYTES));
+        next();
+    } catch (err) {
+        next(err);
+    }
+}
+
 /**
  * Multer instance configured with:
  * - Local disk storage
@@ -0,0 +1,139 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+import crypto from 'crypto';
+
+/**
+ * apiTokens.helper.ts
+ * - Model helpers for CRUD operations against the `api_tokens` table.
+ * - Mirrors the pattern used in sessions.helper.ts for consistency.
+ */
+
+/** What a token may be used for. */
+export type ApiTokenScope = 'read' | 'upload' | 'full';
+
+/**
+ * ApiTokenRecord
+ * - A named personal access token. `token_prefix` holds the first
+ *   characters of the token so users can tell their tokens apart.
+ */
+export interface ApiTokenRecord {
+    id: string;
+    user_id: string;
+    name: string;
+    scope: ApiTokenScope;
+    token_hash: string;
+    token_prefix: string;
+    created_at: string;
+    last_used_at?: string | null;
+}
+
+/**
+ * nowIso()
+ * - Helper that returns the current timestamp in ISO 8601 format.
+ */
+function nowIso() {
+    return new Date().toISOString();
+}
+
+/**
+ * createApiToken
+ * - Persist a new token for a user.
+ * - Returns: the created `ApiTokenRecord` on success.
+ */
+export function createApiToken(params: {
+    userId: string;
+    name: string;
+    scope: ApiTokenScope;
+    tokenHash: string;
+    tokenPrefix: string;
+}): ApiTokenRecord {
+    const db: DatabaseType = getDatabase();
+    const id = crypto.randomUUID();
+
+    const stmt = db.prepare(`
+        INSERT INTO api_tokens (id, user_id, name, scope, token_hash, token_prefix, created_at, last_used_at)
+        VALUES (@id, @user_id, @name, @scope, @token_hash, @token_prefix, @created_at, NULL);
+    `);
+
+    stmt.run({
+        id,
+        user_id: params.userId,
+        name: params.name,
+        scope: params.scope,
+        token_hash: params.tokenHash,
+        token_prefix: params.tokenPrefix,
+        created_at: nowIso(),
+    });
+
+    return getApiTokenById(id)!;
+}
+
+function normalizeRow(row: any): ApiTokenRecord | null {
+    if (!row) return null;
+    return row as ApiTokenRecord;
+}
+
+export function getApiTokenById(id: string): ApiTokenRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM api_tokens WHERE id = ? LIMIT 1;');
+    return normalizeRow(stmt.get(id));
+}
+
+export function getApiTokenByHash(hash: string): ApiTokenRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM api_tokens WHERE token_hash = ? LIMIT 1;');
+    return normalizeRow(stmt.get(hash));
+}
+
+/**
+ * listUserApiTokens
+ * - Tokens of a user, newest first.
+ */
+export function listUserApiTokens(userId: string): ApiTokenRecord[] {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM api_tokens WHERE user_id = ? ORDER BY created_at DESC;');
+    return stmt.all(userId) as ApiTokenRecord[];
+}
+
+/**
+ * touchApiToken
+ * - Record that a token was just used. Writes at most once a minute
+ *   per token so authenticated requests stay cheap.
+ */
+export function touchApiToken(id: string): void {
+    const db = getDatabase();
+    const now = Date.now();
+    const stmt = db.prepare(`
+        UPDATE api_tokens SET last_used_at = ?
+        WHERE id = ? AND (last_used_at IS NULL OR last_used_at < ?);
+    `);
+    stmt.run(new Date(now).toISOString(), id, new Date(now - 60 * 1000).toISOString());
+}
+
+/**
+ * deleteApiToken
+ * - Revoke a token by removing it. Returns true when a row was deleted.
+ */
+export function deleteApiToken(id: string): boolean {
+    const db = getDatabase();
+    return db.prepare('DELETE FROM api_tokens WHERE id = ?;').run(id).changes > 0;
+}
+
+/**
+ * deleteUserApiTokens
+ * - Remove all tokens of a user (used when the account is deleted).
+ */
+export function deleteUserApiTokens(userId: string): void {
+    const db = getDatabase();
+    db.prepare('DELETE FROM api_tokens WHERE user_id = ?;').run(userId);
+}
+
+export default {
+    createApiToken,
+    getApiTokenById,
+    getApiTokenByHash,
+    listUserApiTokens,
+    touchApiToken,
+    deleteApiToken,
+    deleteUserApiTokens,
+};
@@ -0,0 +1,32 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+
+/**
+ * apiTokens.schema.ts
+ * - Responsible for schema (table + indexes) creation for the `api_tokens` table
+ * - Personal access tokens for scripts; only SHA-256 hashes are stored
+ *
+ * NOTE: Call `initializeApiTokensModel()` after `initializeDatabase()` at startup
+ */
+
+export function initializeApiTokensModel(): void {
+    const db: DatabaseType = getDatabase();
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS api_tokens (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL,
+            name TEXT NOT NULL,
+            scope TEXT NOT NULL,
+            token_hash TEXT NOT NULL UNIQUE,
+            token_prefix TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            last_used_at TEXT
+        );
+    `);
+
+    // Index for per-user listings
+    db.exec(`CREATE INDEX IF NOT EXISTS api_tokens_user_idx ON api_tokens(user_id);`);
+}
+
+export default { initializeApiTokensModel };
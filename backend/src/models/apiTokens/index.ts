@@ -0,0 +1,4 @@
+// Re-export module split into schema + helper to keep single import path
+export * from './apiTokens.schema';
+export * from './apiTokens.helper';
+export { default } from './apiTokens.helper';
@@ -0,0 +1,219 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+import crypto from 'crypto';
+
+/**
+ * dropLinks.helper.ts
+ * - Model helpers for CRUD operations against the `drop_links` table.
+ * - Mirrors the pattern used in shareLinks.helper.ts for consistency.
+ */
+
+/**
+ * DropLinkRecord
+ * - Represents a tokenized upload-only link into a folder ("file request").
+ * - `max_bytes` caps the total size of everything uploaded through it.
+ */
+export interface DropLinkRecord {
+    id: string;
+    token: string;
+    owner_id: string;
+    folder_path: string;
+    password_hash?: string | null;
+    require_uploader_name: number; // 0 or 1
+    expires_at?: string | null;
+    max_bytes?: number | null;
+    bytes_received: number;
+    upload_count: number;
+    created_at: string;
+    revoked_at?: string | null;
+}
+
+/**
+ * nowIso()
+ * - Helper that returns the current timestamp in ISO 8601 format.
+ */
+function nowIso() {
+    return new Date().toISOString();
+}
+
+/**
+ * generateToken()
+ * - URL-safe random token used in `/d/:token` links.
+ */
+function generateToken(): string {
+    return crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * createDropLink
+ * - Create and persist a drop link for a folder.
+ * - Returns: the created `DropLinkRecord` on success.
+ */
+export function createDropLink(params: {
+    ownerId: string;
+    folderPath: string;
+    passwordHash?: string | null;
+    requireUploaderName?: boolean;
+    expiresAt?: string | null;
+    maxBytes?: number | null;
+}): DropLinkRecord {
+    const db: DatabaseType = getDatabase();
+    const id = crypto.randomUUID();
+
+    const stmt = db.prepare(`
+        INSERT INTO drop_links (
+            id, token, owner_id, folder_path, password_hash, require_uploader_name,
+            expires_at, max_bytes, bytes_received, upload_count, created_at, revoked_at
+        ) VALUES (
+            @id, @token, @owner_id, @folder_path, @password_hash, @require_uploader_name,
+            @expires_at, @max_bytes, 0, 0, @created_at, NULL
+        );
+    `);
+
+    stmt.run({
+        id,
+        token: generateToken(),
+        owner_id: params.ownerId,
+        folder_path: params.folderPath,
+        password_hash: params.passwordHash ?? null,
+        require_uploader_name: params.requireUploaderName ? 1 : 0,
+        expires_at: params.expiresAt ?? null,
+        max_bytes: params.maxBytes ?? null,
+        created_at: nowIso(),
+    });
+
+    return getDropLinkById(id)!;
+}
+
+function normalizeRow(row: any): DropLinkRecord | null {
+    if (!row) return null;
+    return row as DropLinkRecord;
+}
+
+export function getDropLinkById(id: string): DropLinkRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM drop_links WHERE id = ? LIMIT 1;');
+    return normalizeRow(stmt.get(id));
+}
+
+export function getDropLinkByToken(token: string): DropLinkRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM drop_links WHERE token = ? LIMIT 1;');
+    return normalizeRow(stmt.get(token));
+}
+
+/**
+ * listDropLinks
+ * - List links, newest first. Revoked links are excluded unless requested.
+ */
+export function listDropLinks(options?: {
+    ownerId?: string;
+    folderPath?: string;
+    includeRevoked?: boolean;
+}): DropLinkRecord[] {
+    const db = getDatabase();
+    let sql = 'SELECT * FROM drop_links WHERE 1 = 1';
+    const params: any[] = [];
+
+    if (options?.ownerId) {
+        sql += ' AND owner_id = ?';
+        params.push(options.ownerId);
+    }
+    if (options?.folderPath) {
+        sql += ' AND folder_path = ?';
+        params.push(options.folderPath);
+    }
+    if (!options?.includeRevoked) {
+        sql += ' AND revoked_at IS NULL';
+    }
+
+    sql += ' ORDER BY created_at DESC';
+    return db.prepare(sql + ';').all(...params) as DropLinkRecord[];
+}
+
+/**
+ * revokeDropLink
+ * - Mark a link as revoked; the row is kept so the token is never reused.
+ */
+export function revokeDropLink(id: string): DropLinkRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('UPDATE drop_links SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL;');
+    stmt.run(nowIso(), id);
+    return getDropLinkById(id);
+}
+
+/**
+ * revokeOwnerDropLinks
+ * - Revoke every active link of a user. Returns the number revoked.
+ */
+export function revokeOwnerDropLinks(ownerId: string): number {
+    const db = getDatabase();
+    const stmt = db.prepare('UPDATE drop_links SET revoked_at = ? WHERE owner_id = ? AND revoked_at IS NULL;');
+    return stmt.run(nowIso(), ownerId).changes;
+}
+
+/**
+ * reassignDropLinkOwner
+ * - Hand every link of one user to another (links keep working).
+ */
+export function reassignDropLinkOwner(fromOwnerId: string, toOwnerId: string): number {
+    const db = getDatabase();
+    return db.prepare('UPDATE drop_links SET owner_id = ? WHERE owner_id = ?;').run(toOwnerId, fromOwnerId).changes;
+}
+
+/**
+ * reserveDropLinkBytes
+ * - Atomically count one upload of `bytes` against the link's size limit.
+ * - Returns false when the upload would exceed `max_bytes`.
+ */
+export function reserveDropLinkBytes(id: string, bytes: number): boolean {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        UPDATE drop_links
+        SET bytes_received = bytes_received + @bytes, upload_count = upload_count + 1
+        WHERE id = @id AND (max_bytes IS NULL OR bytes_received + @bytes <= max_bytes);
+    `);
+    return stmt.run({ id, bytes }).changes > 0;
+}
+
+/**
+ * releaseDropLinkBytes
+ * - Undo a reservation when the upload could not be stored after all.
+ */
+export function releaseDropLinkBytes(id: string, bytes: number): void {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        UPDATE drop_links
+        SET bytes_received = MAX(bytes_received - @bytes, 0), upload_count = MAX(upload_count - 1, 0)
+        WHERE id = @id;
+    `);
+    stmt.run({ id, bytes });
+}
+
+/**
+ * renameDropLinkFolderPaths
+ * - Keep links pointing at the right place after a folder rename/move.
+ * - Rewrites the folder itself and any nested folder paths.
+ */
+export function renameDropLinkFolderPaths(oldPath: string, newPath: string): void {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        UPDATE drop_links
+        SET folder_path = @new_path || substr(folder_path, length(@old_path) + 1)
+        WHERE folder_path = @old_path OR substr(folder_path, 1, length(@old_path) + 1) = @old_path || '/';
+    `);
+    stmt.run({ old_path: oldPath, new_path: newPath });
+}
+
+export default {
+    createDropLink,
+    getDropLinkById,
+    getDropLinkByToken,
+    listDropLinks,
+    revokeDropLink,
+    revokeOwnerDropLinks,
+    reassignDropLinkOwner,
+    reserveDropLinkBytes,
+    releaseDropLinkBytes,
+    renameDropLinkFolderPaths,
+};
@@ -0,0 +1,37 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+
+/**
+ * dropLinks.schema.ts
+ * - Responsible for schema (table + indexes) creation for the `drop_links` table
+ * - A drop link lets anyone holding the token upload into one folder
+ *
+ * NOTE: Call `initializeDropLinksModel()` after `initializeDatabase()` at startup
+ */
+
+export function initializeDropLinksModel(): void {
+    const db: DatabaseType = getDatabase();
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS drop_links (
+            id TEXT PRIMARY KEY,
+            token TEXT NOT NULL UNIQUE,
+            owner_id TEXT NOT NULL,
+            folder_path TEXT NOT NULL,
+            password_hash TEXT,
+            require_uploader_name INTEGER NOT NULL DEFAULT 0,
+            expires_at TEXT,
+            max_bytes INTEGER,
+            bytes_received INTEGER NOT NULL DEFAULT 0,
+            upload_count INTEGER NOT NULL DEFAULT 0,
+            created_at TEXT NOT NULL,
+            revoked_at TEXT
+        );
+    `);
+
+    // Indexes for token lookups and per-owner listings
+    db.exec(`CREATE INDEX IF NOT EXISTS drop_links_token_idx ON drop_links(token);`);
+    db.exec(`CREATE INDEX IF NOT EXISTS drop_links_owner_idx ON drop_links(owner_id);`);
+}
+
+export default { initializeDropLinksModel };
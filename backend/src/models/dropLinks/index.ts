@@ -0,0 +1,4 @@
+// Re-export module split into schema + helper to keep single import path
+export * from './dropLinks.schema';
+export * from './dropLinks.helper';
+export { default } from './dropLinks.helper';
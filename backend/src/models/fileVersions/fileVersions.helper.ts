@@ -0,0 +1,144 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+import crypto from 'crypto';
+
+/**
+ * fileVersions.helper.ts
+ * - Model helpers for CRUD operations against the `file_versions` table.
+ * - Mirrors the pattern used in files.helper.ts for consistency.
+ */
+
+/**
+ * FileVersionRecord
+ * - A previous content of a file.
+ * - `uploaded_at` is when that content was uploaded; `created_at` / `created_by`
+ *   record when and by whom it was replaced (i.e. became a version).
+ */
+export interface FileVersionRecord {
+    id: string;
+    file_id: string;
+    original_name: string;
+    stored_name: string;
+    mime_type?: string | null;
+    size?: number | null;
+    hash_sha256?: string | null;
+    storage_provider: string;
+    storage_path: string;
+    uploaded_at: string;
+    created_by?: string | null;
+    created_at: string;
+}
+
+/**
+ * nowIso()
+ * - Helper that returns the current timestamp in ISO 8601 format.
+ */
+function nowIso() {
+    return new Date().toISOString();
+}
+
+/**
+ * createFileVersion
+ * - Persist a version row for content that has already been moved to
+ *   its version storage path.
+ * - Returns: the created `FileVersionRecord` on success.
+ */
+export function createFileVersion(params: {
+    fileId: string;
+    originalName: string;
+    storedName: string;
+    mimeType?: string | null;
+    size?: number | null;
+    hashSha256?: string | null;
+    storageProvider: string;
+    storagePath: string;
+    uploadedAt: string;
+    createdBy?: string | null;
+}): FileVersionRecord {
+    const db: DatabaseType = getDatabase();
+    const id = crypto.randomUUID();
+
+    const stmt = db.prepare(`
+        INSERT INTO file_versions (
+            id, file_id, original_name, stored_name, mime_type, size, hash_sha256,
+            storage_provider, storage_path, uploaded_at, created_by, created_at
+        ) VALUES (
+            @id, @file_id, @original_name, @stored_name, @mime_type, @size, @hash_sha256,
+            @storage_provider, @storage_path, @uploaded_at, @created_by, @created_at
+        );
+    `);
+
+    stmt.run({
+        id,
+        file_id: params.fileId,
+        original_name: params.originalName,
+        stored_name: params.storedName,
+        mime_type: params.mimeType ?? null,
+        size: params.size ?? null,
+        hash_sha256: params.hashSha256 ?? null,
+        storage_provider: params.storageProvider,
+        storage_path: params.storagePath,
+        uploaded_at: params.uploadedAt,
+        created_by: params.createdBy ?? null,
+        created_at: nowIso(),
+    });
+
+    return getFileVersionById(id)!;
+}
+
+function normalizeRow(row: any): FileVersionRecord | null {
+    if (!row) return null;
+    return row as FileVersionRecord;
+}
+
+export function getFileVersionById(id: string): FileVersionRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM file_versions WHERE id = ? LIMIT 1;');
+    return normalizeRow(stmt.get(id));
+}
+
+/**
+ * listFileVersions
+ * - All versions of a file, newest first.
+ */
+export function listFileVersions(fileId: string): FileVersionRecord[] {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM file_versions WHERE file_id = ? ORDER BY created_at DESC, rowid DESC;');
+    return stmt.all(fileId) as FileVersionRecord[];
+}
+
+/**
+ * listAllFileVersions
+ * - Every stored version (used by the storage consistency check).
+ */
+export function listAllFileVersions(): FileVersionRecord[] {
+    const db = getDatabase();
+    return db.prepare('SELECT * FROM file_versions ORDER BY storage_path ASC;').all() as FileVersionRecord[];
+}
+
+/**
+ * reassignFileVersions
+ * - Move a file's history onto another file (used when one file replaces another).
+ */
+export function reassignFileVersions(fromFileId: string, toFileId: string): void {
+    const db = getDatabase();
+    db.prepare('UPDATE file_versions SET file_id = ? WHERE file_id = ?;').run(toFileId, fromFileId);
+}
+
+/**
+ * deleteFileVersion
+ * - Remove a version row. The caller is responsible for the stored content.
+ */
+export function deleteFileVersion(id: string): void {
+    const db = getDatabase();
+    db.prepare('DELETE FROM file_versions WHERE id = ?;').run(id);
+}
+
+export default {
+    createFileVersion,
+    getFileVersionById,
+    listFileVersions,
+    listAllFileVersions,
+    reassignFileVersions,
+    deleteFileVersion,
+};
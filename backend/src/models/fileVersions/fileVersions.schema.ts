@@ -0,0 +1,36 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+
+/**
+ * fileVersions.schema.ts
+ * - Responsible for schema (table + indexes) creation for the `file_versions` table
+ * - Each row is a previous content of a file, kept when the file is replaced
+ *
+ * NOTE: Call `initializeFileVersionsModel()` after `initializeDatabase()` at startup
+ */
+
+export function initializeFileVersionsModel(): void {
+    const db: DatabaseType = getDatabase();
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS file_versions (
+            id TEXT PRIMARY KEY,
+            file_id TEXT NOT NULL,
+            original_name TEXT NOT NULL,
+            stored_name TEXT NOT NULL,
+            mime_type TEXT,
+            size INTEGER,
+            hash_sha256 TEXT,
+            storage_provider TEXT NOT NULL DEFAULT 'local',
+            storage_path TEXT NOT NULL,
+            uploaded_at TEXT NOT NULL,
+            created_by TEXT,
+            created_at TEXT NOT NULL
+        );
+    `);
+
+    // Index for per-file history listings (newest first)
+    db.exec(`CREATE INDEX IF NOT EXISTS file_versions_file_idx ON file_versions(file_id, created_at);`);
+}
+
+export default { initializeFileVersionsModel };
@@ -0,0 +1,4 @@
+// Re-export module split into schema + helper to keep single import path
+export * from './fileVersions.schema';
+export * from './fileVersions.helper';
+export { default } from './fileVersions.helper';
@@ -28,6 +28,8 @@ export interface FileRecord {
     access_count?: number;
     last_accessed?: string | null;
     status?: string;
+    /** When the file was moved to Trash (null while active) */
+    deleted_at?: string | null;
     metadata_json?: string | null;
 }
 
@@ -145,63 +147,75 @@ export function getFileByStoredName(storedName: string): FileRecord | null {
 }
 
 /**
- * getDeletedFileByOriginalNameAndFolder
- * - Find a trashed (soft-deleted) file by the display/original filename
- *   and the folder it lives in. This is used by the upload flow to detect
- *   potential conflicts where a user attempts to upload a file that already
- *   exists in the Trash. We intentionally do not check owner_id here so the
- *   behavior is solely based on filename + location.
+ * findFileByOriginalNameInFolder
+ * - Shared lookup behind the trashed/active name checks below.
+ * - Root folder: storage_path must not contain any '/'.
+ * - Nested folder: storage_path must start with 'folder/'.
+ * - `ownerId` (when provided) scopes the lookup to a single user's files.
  */
-export function getDeletedFileByOriginalNameAndFolder(originalName: string, folder?: string | null): FileRecord | null {
+function findFileByOriginalNameInFolder(
+    status: 'active' | 'deleted',
+    originalName: string,
+    folder?: string | null,
+    options?: { excludeId?: string; ownerId?: string | null },
+): FileRecord | null {
     const db = getDatabase();
+    let sql = 'SELECT * FROM files WHERE original_name = ? AND status = ?';
+    const params: any[] = [originalName, status];
+
     if (!folder) {
-        // Root folder: storage_path should not contain any '/'
-        const stmt = db.prepare('SELECT * FROM files WHERE original_name = ? AND status = ? AND storage_path NOT LIKE ? LIMIT 1;');
-        const row = stmt.get(originalName, 'deleted', '%/%');
-        return normalizeRow(row);
+        sql += ' AND storage_path NOT LIKE ?';
+        params.push('%/%');
+    } else {
+        sql += ' AND storage_path LIKE ?';
+        params.push(`${folder}/%`);
+    }
+    if (options?.excludeId) {
+        sql += ' AND id != ?';
+        params.push(options.excludeId);
+    }
+    if (options?.ownerId !== undefined) {
+        sql += ' AND owner_id IS ?';
+        params.push(options.ownerId);
     }
 
-    // Folder has been provided; match storage_path prefix 'folder/%'
-    const stmt = db.prepare(`SELECT * FROM files WHERE original_name = ? AND status = 'deleted' AND storage_path LIKE ? LIMIT 1;`);
-    const row = stmt.get(originalName, `${folder}/%`);
+    const row = db.prepare(sql + ' LIMIT 1;').get(...params);
     return normalizeRow(row);
 }
 
+/**
+ * getDeletedFileByOriginalNameAndFolder
+ * - Find a trashed (soft-deleted) file by the display/original filename
+ *   and the folder it lives in. This is used by the upload flow to detect
+ *   potential conflicts where a user attempts to upload a file that already
+ *   exists in the Trash.
+ * - Pass `ownerId` to only consider that user's files, so one user's Trash
+ *   never blocks (or reveals itself to) another user's upload.
+ */
+export function getDeletedFileByOriginalNameAndFolder(originalName: string, folder?: string | null, ownerId?: string | null): FileRecord | null {
+    return findFileByOriginalNameInFolder('deleted', originalName, folder, { ownerId });
+}
+
 /**
  * getActiveFileByOriginalNameAndFolder
  * - Find an active file by the display/original filename and the folder it lives in.
  * - Mirrors the trashed lookup but only for active files.
  * - Optionally excludes a specific file by ID (useful for move conflicts).
+ * - Optionally scoped to a single owner (see getDeletedFileByOriginalNameAndFolder).
  */
-export function getActiveFileByOriginalNameAndFolder(originalName: string, folder?: string | null, excludeId?: string): FileRecord | null {
-    const db = getDatabase();
-    if (!folder) {
-        const stmt = excludeId
-            ? db.prepare('SELECT * FROM files WHERE original_name = ? AND status = ? AND storage_path NOT LIKE ? AND id != ? LIMIT 1;')
-            : db.prepare('SELECT * FROM files WHERE original_name = ? AND status = ? AND storage_path NOT LIKE ? LIMIT 1;');
-        const row = excludeId
-            ? stmt.get(originalName, 'active', '%/%', excludeId)
-            : stmt.get(originalName, 'active', '%/%');
-        return normalizeRow(row);
-    }
-
-    const stmt = excludeId
-        ? db.prepare(`SELECT * FROM files WHERE original_name = ? AND status = 'active' AND storage_path LIKE ? AND id != ? LIMIT 1;`)
-        : db.prepare(`SELECT * FROM files WHERE original_name = ? AND status = 'active' AND storage_path LIKE ? LIMIT 1;`);
-    const row = excludeId
-        ? stmt.get(originalName, `${folder}/%`, excludeId)
-        : stmt.get(originalName, `${folder}/%`);
-    return normalizeRow(row);
+export function getActiveFileByOriginalNameAndFolder(originalName: string, folder?: string | null, excludeId?: string, ownerId?: string | null): FileRecord | null {
+    return findFileByOriginalNameInFolder('active', originalName, folder, { excludeId, ownerId });
 }
 
 /**
  * generateUniqueOriginalNameInFolder
  * - If the originalName already exists in the target folder (active), generate a unique
  *   display name by appending a numbered suffix like " (1)", " (2)", etc.
+ * - `ownerId` scopes uniqueness to one user's files, matching the conflict lookups.
  */
-export function generateUniqueOriginalNameInFolder(originalName: string, folder?: string | null): string {
+export function generateUniqueOriginalNameInFolder(originalName: string, folder?: string | null, ownerId?: string | null): string {
     // If there is no conflict, return original
-    if (!getActiveFileByOriginalNameAndFolder(originalName, folder)) return originalName;
+    if (!getActiveFileByOriginalNameAndFolder(originalName, folder, undefined, ownerId)) return originalName;
 
     // Split name into base and extension
     const ext = originalName.includes('.') ? `.${originalName.split('.').pop()}` : '';
@@ -210,7 +224,7 @@ export function generateUniqueOriginalNameInFolder(originalName: string, folder?
     // Try suffixes until a free name is found
     for (let i = 1; i < 1000; i++) {
         const candidate = `${base} (${i})${ext}`;
-        if (!getActiveFileByOriginalNameAndFolder(candidate, folder)) return candidate;
+        if (!getActiveFileByOriginalNameAndFolder(candidate, folder, undefined, ownerId)) return candidate;
     }
 
     // Fallback: append timestamp
@@ -222,9 +236,11 @@ export function generateUniqueOriginalNameInFolder(originalName: string, folder?
  * - List files with optional filters and pagination.
  * - Supports filtering by status ('active' or 'deleted') for trash feature.
  * - Defaults to 'active' if no status is provided.
+ * - `folder` limits results to files directly inside that folder ('' = root).
  */
 export function listFiles(options?: {
     ownerId?: string;
+    folder?: string;
     isPublic?: boolean;
     status?: 'active' | 'deleted';
     limit?: number;
@@ -238,6 +254,15 @@ export function listFiles(options?: {
         sql += ' AND owner_id = ?';
         params.push(options.ownerId);
     }
+    if (options?.folder !== undefined) {
+        if (options.folder) {
+            const prefix = `${options.folder}/`;
+            sql += " AND substr(storage_path, 1, length(?)) = ? AND instr(substr(storage_path, length(?) + 1), '/') = 0";
+            params.push(prefix, prefix, prefix);
+        } else {
+            sql += " AND instr(storage_path, '/') = 0";
+        }
+    }
     if (options?.isPublic !== undefined) {
         sql += ' AND is_public = ?';
         params.push(options.isPublic ? 1 : 0);
@@ -257,6 +282,27 @@ export function listFiles(options?: {
     return rows.map(normalizeRow);
 }
 
+/**
+ * listFilesUnderFolder
+ * - List files stored anywhere beneath a folder path (including subfolders).
+ * - Pass an empty folder to list everything from the root.
+ */
+export function listFilesUnderFolder(folder: string, status: 'active' | 'deleted' = 'active'): FileRecord[] {
+    const db = getDatabase();
+    let sql = 'SELECT * FROM files WHERE status = ?';
+    const params: any[] = [status];
+    if (folder) {
+        // Exact prefix match: LIKE would treat '_' in folder names as a wildcard
+        const prefix = `${folder}/`;
+        sql += ' AND substr(storage_path, 1, length(?)) = ?';
+        params.push(prefix, prefix);
+    }
+    sql += ' ORDER BY storage_path ASC';
+
+    const rows = db.prepare(sql + ';').all(...params);
+    return rows.map(normalizeRow) as FileRecord[];
+}
+
 /**
  * updateFile
  * - Update fields on a file record.
@@ -277,6 +323,7 @@ export function updateFile(id: string, patch: Partial<Omit<FileRecord, 'id'>>) {
     const stmt = db.prepare(`
         UPDATE files SET
             original_name = @original_name,
+            stored_name = @stored_name,
             mime_type = @mime_type,
             size = @size,
             hash_sha256 = @hash_sha256,
@@ -288,6 +335,7 @@ export function updateFile(id: string, patch: Partial<Omit<FileRecord, 'id'>>) {
             access_count = @access_count,
             last_accessed = @last_accessed,
             status = @status,
+            deleted_at = @deleted_at,
             metadata_json = @metadata_json
         WHERE id = @id;
     `);
@@ -295,6 +343,7 @@ export function updateFile(id: string, patch: Partial<Omit<FileRecord, 'id'>>) {
     stmt.run({
         id,
         original_name: updated.original_name,
+        stored_name: updated.stored_name,
         mime_type: updated.mime_type,
         size: updated.size,
         hash_sha256: updated.hash_sha256,
@@ -306,6 +355,7 @@ export function updateFile(id: string, patch: Partial<Omit<FileRecord, 'id'>>) {
         access_count: updated.access_count ?? 0,
         last_accessed: updated.last_accessed ?? null,
         status: updated.status ?? 'active',
+        deleted_at: updated.deleted_at ?? null,
         metadata_json: updated.metadata_json ?? null,
     });
 
@@ -316,9 +366,35 @@ export function updateFile(id: string, patch: Partial<Omit<FileRecord, 'id'>>) {
  * markFileDeleted
  * - Soft-delete a file by updating the `status` field to 'deleted'. This keeps
  *   the row for audit and allows physical cleanup later.
+ * - Records `deleted_at` so trash retention knows when to purge it.
  */
 export function markFileDeleted(id: string) {
-    return updateFile(id, { status: 'deleted' });
+    return updateFile(id, { status: 'deleted', deleted_at: nowIso() });
+}
+
+/**
+ * markFileRestored
+ * - Bring a soft-deleted file back (status = 'active', clears `deleted_at`).
+ */
+export function markFileRestored(id: string) {
+    return updateFile(id, { status: 'active', deleted_at: null });
+}
+
+/**
+ * listExpiredTrashedFiles
+ * - List soft-deleted files moved to Trash before `before` (ISO timestamp).
+ * - Rows trashed before `deleted_at` existed fall back to `updated_at`,
+ *   which soft-delete also set.
+ */
+export function listExpiredTrashedFiles(before: string): FileRecord[] {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        SELECT * FROM files
+        WHERE status = 'deleted'
+        AND COALESCE(deleted_at, updated_at, created_at) < ?
+        ORDER BY storage_path ASC;
+    `);
+    return stmt.all(before).map(normalizeRow) as FileRecord[];
 }
 
 /**
@@ -337,6 +413,23 @@ export function deleteFilePermanent(id: string): { storagePath: string | null }
     return { storagePath };
 }
 
+/**
+ * getOwnerStorageUsage
+ * - Total bytes stored for an owner: active and trashed files plus the
+ *   previous versions kept for them. Used for storage quotas.
+ */
+export function getOwnerStorageUsage(ownerId: string): number {
+    const db = getDatabase();
+    const row = db.prepare(`
+        SELECT
+            (SELECT COALESCE(SUM(size), 0) FROM files WHERE owner_id = ?) +
+            (SELECT COALESCE(SUM(v.size), 0) FROM file_versions v
+             JOIN files f ON f.id = v.file_id
+             WHERE f.owner_id = ?) AS total;
+    `).get(ownerId, ownerId) as { total: number };
+    return row.total;
+}
+
 /**
  * bumpAccess
  * - Increment download/access count and update `last_accessed` timestamp.
@@ -356,8 +449,12 @@ export default {
     getFileById,
     getFileByStoredName,
     listFiles,
+    listFilesUnderFolder,
     updateFile,
     markFileDeleted,
+    markFileRestored,
+    listExpiredTrashedFiles,
     deleteFilePermanent,
+    getOwnerStorageUsage,
     bumpAccess,
 };
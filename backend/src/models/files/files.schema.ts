@@ -29,14 +29,22 @@ export function initializeFilesModel(): void {
             access_count INTEGER NOT NULL DEFAULT 0,
             last_accessed TEXT,
             status TEXT NOT NULL DEFAULT 'active',
+            deleted_at TEXT,
             metadata_json TEXT
         );
     `);
 
+    // Databases created before trash retention existed lack the column
+    const columns = db.prepare('PRAGMA table_info(files);').all() as { name: string }[];
+    if (!columns.some((col) => col.name === 'deleted_at')) {
+        db.exec('ALTER TABLE files ADD COLUMN deleted_at TEXT;');
+    }
+
     // Suggested indexes for common queries
     db.exec(`CREATE INDEX IF NOT EXISTS files_owner_idx ON files(owner_id);`);
     db.exec(`CREATE INDEX IF NOT EXISTS files_created_idx ON files(created_at);`);
     db.exec(`CREATE INDEX IF NOT EXISTS files_hash_idx ON files(hash_sha256);`);
+    db.exec(`CREATE INDEX IF NOT EXISTS files_trash_idx ON files(status, deleted_at);`);
 }
 
 export default { initializeFilesModel };
@@ -0,0 +1,192 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+import crypto from 'crypto';
+
+/**
+ * folderGrants.helper.ts
+ * - Model helpers for CRUD operations against the `folder_grants` table.
+ * - Mirrors the pattern used in shareLinks.helper.ts for consistency.
+ */
+
+/** What a grant allows, from least to most. */
+export const FOLDER_PERMISSIONS = ['view', 'upload', 'edit'] as const;
+export type FolderPermission = typeof FOLDER_PERMISSIONS[number];
+
+/**
+ * FolderGrantRecord
+ * - Gives `user_id` access to `folder_path` and everything below it.
+ * - `created_by` is the user who granted it (the folder owner or an admin).
+ */
+export interface FolderGrantRecord {
+    id: string;
+    folder_path: string;
+    user_id: string;
+    permission: FolderPermission;
+    created_by?: string | null;
+    created_at: string;
+}
+
+/**
+ * nowIso()
+ * - Helper that returns the current timestamp in ISO 8601 format.
+ */
+function nowIso() {
+    return new Date().toISOString();
+}
+
+/**
+ * normalizeRow
+ * - Convert a raw DB row into a `FolderGrantRecord` typed object.
+ */
+function normalizeRow(row: any): FolderGrantRecord | null {
+    if (!row) return null;
+    return row as FolderGrantRecord;
+}
+
+/**
+ * setFolderGrant
+ * - Grant a user access to a folder, replacing any existing permission
+ *   they have on that exact path.
+ * - Returns: the stored `FolderGrantRecord`.
+ */
+export function setFolderGrant(params: {
+    folderPath: string;
+    userId: string;
+    permission: FolderPermission;
+    createdBy: string | null;
+}): FolderGrantRecord {
+    const db: DatabaseType = getDatabase();
+
+    const stmt = db.prepare(`
+        INSERT INTO folder_grants (id, folder_path, user_id, permission, created_by, created_at)
+        VALUES (@id, @folder_path, @user_id, @permission, @created_by, @created_at)
+        ON CONFLICT (folder_path, user_id) DO UPDATE SET permission = excluded.permission;
+    `);
+
+    stmt.run({
+        id: crypto.randomUUID(),
+        folder_path: params.folderPath,
+        user_id: params.userId,
+        permission: params.permission,
+        created_by: params.createdBy,
+        created_at: nowIso(),
+    });
+
+    const row = db.prepare('SELECT * FROM folder_grants WHERE folder_path = ? AND user_id = ? LIMIT 1;')
+        .get(params.folderPath, params.userId);
+    return normalizeRow(row)!;
+}
+
+/**
+ * getFolderGrantById
+ * - Find a grant by its primary `id`.
+ */
+export function getFolderGrantById(id: string): FolderGrantRecord | null {
+    const db = getDatabase();
+    const row = db.prepare('SELECT * FROM folder_grants WHERE id = ? LIMIT 1;').get(id);
+    return normalizeRow(row);
+}
+
+/**
+ * findFolderGrant
+ * - The grant that decides a user's access to `folderPath`: the one on the
+ *   folder itself or its nearest granted ancestor.
+ */
+export function findFolderGrant(userId: string, folderPath: string): FolderGrantRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        SELECT * FROM folder_grants
+        WHERE user_id = @user_id
+          AND (folder_path = @path OR substr(@path, 1, length(folder_path) + 1) = folder_path || '/')
+        ORDER BY length(folder_path) DESC
+        LIMIT 1;
+    `);
+    return normalizeRow(stmt.get({ user_id: userId, path: folderPath }));
+}
+
+/**
+ * listFolderGrants
+ * - List grants with optional filters (one folder, or one grantee).
+ */
+export function listFolderGrants(options?: {
+    folderPath?: string;
+    userId?: string;
+}): FolderGrantRecord[] {
+    const db = getDatabase();
+    let sql = 'SELECT * FROM folder_grants WHERE 1 = 1';
+    const params: any[] = [];
+
+    if (options?.folderPath !== undefined) {
+        sql += ' AND folder_path = ?';
+        params.push(options.folderPath);
+    }
+    if (options?.userId) {
+        sql += ' AND user_id = ?';
+        params.push(options.userId);
+    }
+
+    sql += ' ORDER BY folder_path ASC, created_at ASC';
+
+    const rows = db.prepare(sql + ';').all(...params);
+    return rows.map(normalizeRow).filter((r): r is FolderGrantRecord => r !== null);
+}
+
+/**
+ * deleteFolderGrant
+ * - Remove a single grant.
+ */
+export function deleteFolderGrant(id: string): void {
+    const db = getDatabase();
+    db.prepare('DELETE FROM folder_grants WHERE id = ?;').run(id);
+}
+
+/**
+ * deleteFolderGrantsUnder
+ * - Remove grants on a folder and any nested folder paths (folder deleted).
+ * - Returns: number of grants removed.
+ */
+export function deleteFolderGrantsUnder(folderPath: string): number {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        DELETE FROM folder_grants
+        WHERE folder_path = @path OR substr(folder_path, 1, length(@prefix)) = @prefix;
+    `);
+    return stmt.run({ path: folderPath, prefix: `${folderPath}/` }).changes;
+}
+
+/**
+ * deleteUserFolderGrants
+ * - Remove every grant given to a user (account deleted).
+ * - Returns: number of grants removed.
+ */
+export function deleteUserFolderGrants(userId: string): number {
+    const db = getDatabase();
+    return db.prepare('DELETE FROM folder_grants WHERE user_id = ?;').run(userId).changes;
+}
+
+/**
+ * renameFolderGrantPaths
+ * - Keep grants pointing at the right place after a folder rename/move.
+ * - Rewrites the folder itself and any nested folder paths; a grant already
+ *   on the destination path is replaced.
+ */
+export function renameFolderGrantPaths(oldPath: string, newPath: string): void {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        UPDATE OR REPLACE folder_grants
+        SET folder_path = @new_path || substr(folder_path, length(@old_path) + 1)
+        WHERE folder_path = @old_path OR substr(folder_path, 1, length(@old_prefix)) = @old_prefix;
+    `);
+    stmt.run({ old_path: oldPath, new_path: newPath, old_prefix: `${oldPath}/` });
+}
+
+export default {
+    setFolderGrant,
+    getFolderGrantById,
+    findFolderGrant,
+    listFolderGrants,
+    deleteFolderGrant,
+    deleteFolderGrantsUnder,
+    deleteUserFolderGrants,
+    renameFolderGrantPaths,
+};
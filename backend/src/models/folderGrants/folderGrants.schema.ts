@@ -0,0 +1,31 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+
+/**
+ * folderGrants.schema.ts
+ * - Responsible for schema (table + indexes) creation for the `folder_grants` table
+ * - A grant lets another user view, upload to or edit a folder (and everything below it)
+ *
+ * NOTE: Call `initializeFolderGrantsModel()` after `initializeDatabase()` at startup
+ */
+
+export function initializeFolderGrantsModel(): void {
+    const db: DatabaseType = getDatabase();
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS folder_grants (
+            id TEXT PRIMARY KEY,
+            folder_path TEXT NOT NULL,
+            user_id TEXT NOT NULL,
+            permission TEXT NOT NULL,
+            created_by TEXT,
+            created_at TEXT NOT NULL,
+            UNIQUE (folder_path, user_id)
+        );
+    `);
+
+    // Index for "shared with me" listings and access checks
+    db.exec(`CREATE INDEX IF NOT EXISTS folder_grants_user_idx ON folder_grants(user_id);`);
+}
+
+export default { initializeFolderGrantsModel };
@@ -0,0 +1,4 @@
+// Re-export module split into schema + helper to keep single import path
+export * from './folderGrants.schema';
+export * from './folderGrants.helper';
+export { default } from './folderGrants.helper';
@@ -93,6 +93,21 @@ export function getFolderByPath(path: string): FolderRecord | null {
     return normalizeRow(row);
 }
 
+/**
+ * findGoverningFolder
+ * - The record that governs a folder path: the folder's own record or the
+ *   one of its nearest ancestor that has a record.
+ * - Returns `null` when nothing at or above the path has a record (shared root).
+ */
+export function findGoverningFolder(folderPath: string): FolderRecord | null {
+    const parts = folderPath.split('/').filter(Boolean);
+    for (let i = parts.length; i > 0; i--) {
+        const folder = getFolderByPath(parts.slice(0, i).join('/'));
+        if (folder) return folder;
+    }
+    return null;
+}
+
 /**
  * updateFolderSize
  * - Update the cached size of a folder in the database.
@@ -116,6 +131,17 @@ export function updateFolderSize(folderId: string, newSize: number): FolderRecor
     return getFolderById(folderId);
 }
 
+/**
+ * reassignFolderOwner
+ * - Hand every folder of one user to another (null leaves them admin-only).
+ * - Returns: number of folders updated.
+ */
+export function reassignFolderOwner(fromOwnerId: string, toOwnerId: string | null): number {
+    const db = getDatabase();
+    const stmt = db.prepare('UPDATE folders SET owner_id = ?, updated_at = ? WHERE owner_id = ?;');
+    return stmt.run(toOwnerId, nowIso(), fromOwnerId).changes;
+}
+
 /**
  * deleteFolder
  * - Delete a folder record from the database.
@@ -177,7 +203,9 @@ export default {
     createFolder,
     getFolderById,
     getFolderByPath,
+    findGoverningFolder,
     updateFolderSize,
+    reassignFolderOwner,
     deleteFolder,
     deleteFolderByPath,
     listFolders,
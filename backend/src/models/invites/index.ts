@@ -0,0 +1,4 @@
+// Re-export module split into schema + helper to keep single import path
+export * from './invites.schema';
+export * from './invites.helper';
+export { default } from './invites.helper';
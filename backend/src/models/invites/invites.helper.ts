@@ -0,0 +1,145 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+import crypto from 'crypto';
+
+/**
+ * invites.helper.ts
+ * - Model helpers for CRUD operations against the `invites` table.
+ * - Mirrors the pattern used in shareLinks.helper.ts for consistency.
+ */
+
+/**
+ * InviteRecord
+ * - A registration code usable `max_uses` times until `expires_at`.
+ * - `role` / `quota_bytes` preset the new account (NULL = defaults).
+ */
+export interface InviteRecord {
+    id: string;
+    code: string;
+    created_by?: string | null;
+    max_uses: number;
+    use_count: number;
+    expires_at?: string | null;
+    role?: string | null;
+    quota_bytes?: number | null;
+    created_at: string;
+}
+
+/**
+ * nowIso()
+ * - Helper that returns the current timestamp in ISO 8601 format.
+ */
+function nowIso() {
+    return new Date().toISOString();
+}
+
+/**
+ * generateCode()
+ * - Short URL-safe random code that is still easy to paste or type.
+ */
+function generateCode(): string {
+    return crypto.randomBytes(12).toString('base64url');
+}
+
+/**
+ * createInvite
+ * - Persist a new invite with a freshly generated code.
+ * - Returns: the created `InviteRecord` on success.
+ */
+export function createInvite(params: {
+    createdBy: string | null;
+    maxUses: number;
+    expiresAt: string | null;
+    role: string | null;
+    quotaBytes: number | null;
+}): InviteRecord {
+    const db: DatabaseType = getDatabase();
+    const id = crypto.randomUUID();
+
+    const stmt = db.prepare(`
+        INSERT INTO invites (id, code, created_by, max_uses, use_count, expires_at, role, quota_bytes, created_at)
+        VALUES (@id, @code, @created_by, @max_uses, 0, @expires_at, @role, @quota_bytes, @created_at);
+    `);
+
+    stmt.run({
+        id,
+        code: generateCode(),
+        created_by: params.createdBy,
+        max_uses: params.maxUses,
+        expires_at: params.expiresAt,
+        role: params.role,
+        quota_bytes: params.quotaBytes,
+        created_at: nowIso(),
+    });
+
+    return getInviteById(id)!;
+}
+
+function normalizeRow(row: any): InviteRecord | null {
+    if (!row) return null;
+    return row as InviteRecord;
+}
+
+export function getInviteById(id: string): InviteRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM invites WHERE id = ? LIMIT 1;');
+    return normalizeRow(stmt.get(id));
+}
+
+export function getInviteByCode(code: string): InviteRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM invites WHERE code = ? LIMIT 1;');
+    return normalizeRow(stmt.get(code));
+}
+
+/**
+ * listInvites
+ * - All invites, newest first (used up and expired ones included).
+ */
+export function listInvites(): InviteRecord[] {
+    const db = getDatabase();
+    return db.prepare('SELECT * FROM invites ORDER BY created_at DESC;').all() as InviteRecord[];
+}
+
+/**
+ * isInviteUsable
+ * - True while an invite has registrations left and hasn't expired.
+ */
+export function isInviteUsable(invite: InviteRecord): boolean {
+    if (invite.use_count >= invite.max_uses) return false;
+    return !invite.expires_at || new Date(invite.expires_at).getTime() > Date.now();
+}
+
+/**
+ * consumeInvite
+ * - Use up one registration of an invite. Returns false when the invite
+ *   is gone, expired or has no uses left, so concurrent registrations
+ *   can't exceed `max_uses`.
+ */
+export function consumeInvite(id: string): boolean {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        UPDATE invites SET use_count = use_count + 1
+        WHERE id = ? AND use_count < max_uses AND (expires_at IS NULL OR expires_at > ?);
+    `);
+    return stmt.run(id, nowIso()).changes > 0;
+}
+
+/**
+ * deleteInvite
+ * - Revoke an invite by removing it. Returns true when a row was deleted.
+ */
+export function deleteInvite(id: string): boolean {
+    const db = getDatabase();
+    return db.prepare('DELETE FROM invites WHERE id = ?;').run(id).changes > 0;
+}
+
+export default {
+    createInvite,
+    getInviteById,
+    getInviteByCode,
+    listInvites,
+    isInviteUsable,
+    consumeInvite,
+    deleteInvite,
+};
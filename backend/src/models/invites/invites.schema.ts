@@ -0,0 +1,33 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+
+/**
+ * invites.schema.ts
+ * - Responsible for schema (table + indexes) creation for the `invites` table
+ * - Admin-issued codes that let people create their own account
+ *
+ * NOTE: Call `initializeInvitesModel()` after `initializeDatabase()` at startup
+ */
+
+export function initializeInvitesModel(): void {
+    const db: DatabaseType = getDatabase();
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS invites (
+            id TEXT PRIMARY KEY,
+            code TEXT NOT NULL UNIQUE,
+            created_by TEXT,
+            max_uses INTEGER NOT NULL DEFAULT 1,
+            use_count INTEGER NOT NULL DEFAULT 0,
+            expires_at TEXT,
+            role TEXT,
+            quota_bytes INTEGER,
+            created_at TEXT NOT NULL
+        );
+    `);
+
+    // Index for code lookups during registration
+    db.exec(`CREATE INDEX IF NOT EXISTS invites_code_idx ON invites(code);`);
+}
+
+export default { initializeInvitesModel };
@@ -0,0 +1,4 @@
+// Re-export module split into schema + helper to keep single import path
+export * from './loginAttempts.schema';
+export * from './loginAttempts.helper';
+export { default } from './loginAttempts.helper';
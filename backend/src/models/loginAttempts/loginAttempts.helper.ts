@@ -0,0 +1,139 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+import crypto from 'crypto';
+
+/**
+ * loginAttempts.helper.ts
+ * - Model helpers for CRUD operations against the `login_attempts` table.
+ * - Mirrors the pattern used in sessions.helper.ts for consistency.
+ */
+
+/** What a row counts failures for ('link': a share/drop link password from one IP). */
+export type LoginAttemptKind = 'username' | 'ip' | 'link';
+
+/**
+ * LoginAttemptRecord
+ * - Failed sign-ins for one username or client IP since the counter was
+ *   last reset.
+ */
+export interface LoginAttemptRecord {
+    id: string;
+    kind: LoginAttemptKind;
+    identifier: string;
+    failures: number;
+    first_failure_at: string;
+    last_failure_at: string;
+    locked_until?: string | null;
+}
+
+/**
+ * nowIso()
+ * - Helper that returns the current timestamp in ISO 8601 format.
+ */
+function nowIso() {
+    return new Date().toISOString();
+}
+
+function normalizeRow(row: any): LoginAttemptRecord | null {
+    if (!row) return null;
+    return row as LoginAttemptRecord;
+}
+
+export function getLoginAttemptById(id: string): LoginAttemptRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM login_attempts WHERE id = ? LIMIT 1;');
+    return normalizeRow(stmt.get(id));
+}
+
+export function getLoginAttempt(kind: LoginAttemptKind, identifier: string): LoginAttemptRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM login_attempts WHERE kind = ? AND identifier = ? LIMIT 1;');
+    return normalizeRow(stmt.get(kind, identifier));
+}
+
+/**
+ * incrementLoginFailures
+ * - Count one more failed sign-in. A counter whose last failure is older
+ *   than `resetBefore` starts over from one.
+ * - Returns: the updated record.
+ */
+export function incrementLoginFailures(kind: LoginAttemptKind, identifier: string, resetBefore: string): LoginAttemptRecord {
+    const db: DatabaseType = getDatabase();
+    const now = nowIso();
+
+    const stmt = db.prepare(`
+        INSERT INTO login_attempts (id, kind, identifier, failures, first_failure_at, last_failure_at, locked_until)
+        VALUES (@id, @kind, @identifier, 1, @now, @now, NULL)
+        ON CONFLICT(kind, identifier) DO UPDATE SET
+            failures = CASE WHEN last_failure_at < @reset_before THEN 1 ELSE failures + 1 END,
+            first_failure_at = CASE WHEN last_failure_at < @reset_before THEN @now ELSE first_failure_at END,
+            locked_until = CASE WHEN last_failure_at < @reset_before THEN NULL ELSE locked_until END,
+            last_failure_at = @now;
+    `);
+    stmt.run({ id: crypto.randomUUID(), kind, identifier, now, reset_before: resetBefore });
+
+    return getLoginAttempt(kind, identifier)!;
+}
+
+/**
+ * setLoginLockedUntil
+ * - Block sign-ins for this row until the given time.
+ */
+export function setLoginLockedUntil(id: string, lockedUntil: string): void {
+    const db = getDatabase();
+    db.prepare('UPDATE login_attempts SET locked_until = ? WHERE id = ?;').run(lockedUntil, id);
+}
+
+/**
+ * listActiveLockouts
+ * - Rows currently blocking sign-ins, the longest lockout first.
+ */
+export function listActiveLockouts(): LoginAttemptRecord[] {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        SELECT * FROM login_attempts
+        WHERE locked_until IS NOT NULL AND locked_until > ?
+        ORDER BY locked_until DESC;
+    `);
+    return stmt.all(nowIso()) as LoginAttemptRecord[];
+}
+
+/**
+ * clearLoginAttempts
+ * - Forget the failures of a username or IP (successful sign-in or unlock).
+ * - Returns: true when a row was removed.
+ */
+export function clearLoginAttempts(kind: LoginAttemptKind, identifier: string): boolean {
+    const db = getDatabase();
+    return db.prepare('DELETE FROM login_attempts WHERE kind = ? AND identifier = ?;').run(kind, identifier).changes > 0;
+}
+
+export function deleteLoginAttempt(id: string): boolean {
+    const db = getDatabase();
+    return db.prepare('DELETE FROM login_attempts WHERE id = ?;').run(id).changes > 0;
+}
+
+/**
+ * deleteStaleLoginAttempts
+ * - Remove rows with no failure since `before` and no lockout still running.
+ * - Returns: the number of rows deleted.
+ */
+export function deleteStaleLoginAttempts(before: string): number {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        DELETE FROM login_attempts
+        WHERE last_failure_at < ? AND (locked_until IS NULL OR locked_until <= ?);
+    `);
+    return stmt.run(before, nowIso()).changes;
+}
+
+export default {
+    getLoginAttemptById,
+    getLoginAttempt,
+    incrementLoginFailures,
+    setLoginLockedUntil,
+    listActiveLockouts,
+    clearLoginAttempts,
+    deleteLoginAttempt,
+    deleteStaleLoginAttempts,
+};
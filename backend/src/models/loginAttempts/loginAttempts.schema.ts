@@ -0,0 +1,33 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+
+/**
+ * loginAttempts.schema.ts
+ * - Responsible for schema (table + indexes) creation for the `login_attempts` table
+ * - One row per username, client IP or link + IP with recent failed attempts
+ * - `locked_until` is set once the failures exceed the allowed attempts
+ *
+ * NOTE: Call `initializeLoginAttemptsModel()` after `initializeDatabase()` at startup
+ */
+
+export function initializeLoginAttemptsModel(): void {
+    const db: DatabaseType = getDatabase();
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS login_attempts (
+            id TEXT PRIMARY KEY,
+            kind TEXT NOT NULL,
+            identifier TEXT NOT NULL,
+            failures INTEGER NOT NULL DEFAULT 0,
+            first_failure_at TEXT NOT NULL,
+            last_failure_at TEXT NOT NULL,
+            locked_until TEXT,
+            UNIQUE(kind, identifier)
+        );
+    `);
+
+    // Index for listing active lockouts
+    db.exec(`CREATE INDEX IF NOT EXISTS login_attempts_locked_idx ON login_attempts(locked_until);`);
+}
+
+export default { initializeLoginAttemptsModel };
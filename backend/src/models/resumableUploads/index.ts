@@ -0,0 +1,4 @@
+// Re-export module split into schema + helper to keep single import path
+export * from './resumableUploads.schema';
+export * from './resumableUploads.helper';
+export { default } from './resumableUploads.helper';
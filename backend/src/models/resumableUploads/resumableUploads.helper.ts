@@ -0,0 +1,145 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+import crypto from 'crypto';
+
+/**
+ * resumableUploads.helper.ts
+ * - Model helpers for CRUD operations against the `resumable_uploads` table.
+ * - Mirrors the pattern used in files.helper.ts for consistency.
+ */
+
+/**
+ * ResumableUploadRecord
+ * - Represents a resumable upload that has not been finalized yet.
+ * - `stored_name` is the UUID-based name the file will get once complete.
+ */
+export interface ResumableUploadRecord {
+    id: string;
+    owner_id: string;
+    original_name: string;
+    stored_name: string;
+    mime_type: string;
+    folder: string;
+    total_size: number;
+    offset: number;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * nowIso()
+ * - Helper that returns the current timestamp in ISO 8601 format.
+ */
+function nowIso() {
+    return new Date().toISOString();
+}
+
+/**
+ * createUpload
+ * - Register a new resumable upload with zero bytes received.
+ * - Returns: the created `ResumableUploadRecord` on success.
+ */
+export function createUpload(params: {
+    ownerId: string;
+    originalName: string;
+    storedName: string;
+    mimeType: string;
+    folder: string;
+    totalSize: number;
+}): ResumableUploadRecord {
+    const db: DatabaseType = getDatabase();
+    const id = crypto.randomUUID();
+    const now = nowIso();
+
+    const stmt = db.prepare(`
+        INSERT INTO resumable_uploads (
+            id, owner_id, original_name, stored_name, mime_type, folder,
+            total_size, "offset", created_at, updated_at
+        ) VALUES (
+            @id, @owner_id, @original_name, @stored_name, @mime_type, @folder,
+            @total_size, 0, @created_at, @updated_at
+        );
+    `);
+
+    stmt.run({
+        id,
+        owner_id: params.ownerId,
+        original_name: params.originalName,
+        stored_name: params.storedName,
+        mime_type: params.mimeType,
+        folder: params.folder,
+        total_size: params.totalSize,
+        created_at: now,
+        updated_at: now,
+    });
+
+    return getUploadById(id)!;
+}
+
+function normalizeRow(row: any): ResumableUploadRecord | null {
+    if (!row) return null;
+    return row as ResumableUploadRecord;
+}
+
+export function getUploadById(id: string): ResumableUploadRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM resumable_uploads WHERE id = ? LIMIT 1;');
+    return normalizeRow(stmt.get(id));
+}
+
+/**
+ * listUploads
+ * - List unfinished uploads, newest first.
+ */
+export function listUploads(options?: { ownerId?: string }): ResumableUploadRecord[] {
+    const db = getDatabase();
+    let sql = 'SELECT * FROM resumable_uploads WHERE 1 = 1';
+    const params: any[] = [];
+
+    if (options?.ownerId) {
+        sql += ' AND owner_id = ?';
+        params.push(options.ownerId);
+    }
+
+    sql += ' ORDER BY created_at DESC';
+    return db.prepare(sql + ';').all(...params) as ResumableUploadRecord[];
+}
+
+/**
+ * listStaleUploads
+ * - Uploads that have not received any data since `before` (ISO timestamp).
+ */
+export function listStaleUploads(before: string): ResumableUploadRecord[] {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM resumable_uploads WHERE updated_at < ? ORDER BY updated_at ASC;');
+    return stmt.all(before) as ResumableUploadRecord[];
+}
+
+/**
+ * updateUploadOffset
+ * - Persist the number of bytes received so far and touch `updated_at`.
+ */
+export function updateUploadOffset(id: string, offset: number): ResumableUploadRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('UPDATE resumable_uploads SET "offset" = ?, updated_at = ? WHERE id = ?;');
+    stmt.run(offset, nowIso(), id);
+    return getUploadById(id);
+}
+
+/**
+ * deleteUpload
+ * - Remove the upload row. The caller is responsible for the staged bytes.
+ */
+export function deleteUpload(id: string): void {
+    const db = getDatabase();
+    db.prepare('DELETE FROM resumable_uploads WHERE id = ?;').run(id);
+}
+
+export default {
+    createUpload,
+    getUploadById,
+    listUploads,
+    listStaleUploads,
+    updateUploadOffset,
+    deleteUpload,
+};
@@ -0,0 +1,36 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+
+/**
+ * resumableUploads.schema.ts
+ * - Responsible for schema (table + indexes) creation for the `resumable_uploads` table
+ * - Each row is an in-progress resumable upload; the partial bytes live in the
+ *   staging directory and `offset` records how many of them have been received
+ *
+ * NOTE: Call `initializeResumableUploadsModel()` after `initializeDatabase()` at startup
+ */
+
+export function initializeResumableUploadsModel(): void {
+    const db: DatabaseType = getDatabase();
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS resumable_uploads (
+            id TEXT PRIMARY KEY,
+            owner_id TEXT NOT NULL,
+            original_name TEXT NOT NULL,
+            stored_name TEXT NOT NULL,
+            mime_type TEXT NOT NULL,
+            folder TEXT NOT NULL DEFAULT '',
+            total_size INTEGER NOT NULL,
+            "offset" INTEGER NOT NULL DEFAULT 0,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+        );
+    `);
+
+    // Indexes for per-owner listings and stale-upload cleanup
+    db.exec(`CREATE INDEX IF NOT EXISTS resumable_uploads_owner_idx ON resumable_uploads(owner_id);`);
+    db.exec(`CREATE INDEX IF NOT EXISTS resumable_uploads_updated_at_idx ON resumable_uploads(updated_at);`);
+}
+
+export default { initializeResumableUploadsModel };
@@ -0,0 +1,4 @@
+// Re-export module split into schema + helper to keep single import path
+export * from './roles.schema';
+export * from './roles.helper';
+export { default } from './roles.helper';
@@ -0,0 +1,177 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+
+/**
+ * roles.helper.ts
+ * - Model helpers for CRUD operations against the `roles` table.
+ * - Mirrors the pattern used in apiTokens.helper.ts for consistency.
+ */
+
+/**
+ * Everything a role can be allowed to do. Listing and downloading what a
+ * user may see needs no capability; every change does.
+ */
+export const ROLE_CAPABILITIES = [
+    'upload',           // upload files and create folders
+    'edit',             // rename, move, and restore previous versions
+    'delete',           // move to Trash and restore from it
+    'delete-permanent', // delete permanently / purge from Trash
+    'share',            // create share links
+    'admin',            // user management and storage maintenance
+] as const;
+
+export type Capability = typeof ROLE_CAPABILITIES[number];
+
+/** Built-in role ids; these roles cannot be deleted. */
+export const ADMIN_ROLE = 'admin';
+export const USER_ROLE = 'user';
+export const GUEST_ROLE = 'guest';
+
+/**
+ * Roles created on first start. `admin` always holds every capability and
+ * is the only role that may hold `admin`.
+ */
+export const BUILT_IN_ROLES: { id: string; name: string; description: string; capabilities: Capability[] }[] = [
+    {
+        id: ADMIN_ROLE,
+        name: 'Admin',
+        description: 'Full access, including user management',
+        capabilities: [...ROLE_CAPABILITIES],
+    },
+    {
+        id: USER_ROLE,
+        name: 'User',
+        description: 'Manages their own files and folders',
+        capabilities: ['upload', 'edit', 'delete', 'delete-permanent', 'share'],
+    },
+    {
+        id: GUEST_ROLE,
+        name: 'Guest',
+        description: 'Read-only: can browse and download',
+        capabilities: [],
+    },
+];
+
+/**
+ * RoleRecord
+ * - A named set of capabilities. `capabilities` is stored as a JSON array
+ *   and parsed on read.
+ */
+export interface RoleRecord {
+    id: string;
+    name: string;
+    description?: string | null;
+    capabilities: Capability[];
+    built_in: number;
+    created_at: string;
+    updated_at?: string | null;
+}
+
+/**
+ * nowIso()
+ * - Helper that returns the current timestamp in ISO 8601 format.
+ */
+function nowIso() {
+    return new Date().toISOString();
+}
+
+/** Keep only known capabilities, in canonical order. */
+function normalizeCapabilities(capabilities: readonly string[]): Capability[] {
+    return ROLE_CAPABILITIES.filter((capability) => capabilities.includes(capability));
+}
+
+function normalizeRow(row: any): RoleRecord | null {
+    if (!row) return null;
+    let capabilities: string[] = [];
+    try {
+        const parsed = JSON.parse(row.capabilities ?? '[]');
+        if (Array.isArray(parsed)) capabilities = parsed;
+    } catch {
+        // Treat a damaged column as "no capabilities"
+    }
+    return { ...row, capabilities: normalizeCapabilities(capabilities) } as RoleRecord;
+}
+
+/**
+ * createRole
+ * - Persist a new custom role.
+ * - Returns: the created `RoleRecord` on success.
+ */
+export function createRole(params: {
+    id: string;
+    name: string;
+    description?: string | null;
+    capabilities: readonly string[];
+}): RoleRecord {
+    const db: DatabaseType = getDatabase();
+
+    const stmt = db.prepare(`
+        INSERT INTO roles (id, name, description, capabilities, built_in, created_at)
+        VALUES (@id, @name, @description, @capabilities, 0, @created_at);
+    `);
+
+    stmt.run({
+        id: params.id,
+        name: params.name,
+        description: params.description ?? null,
+        capabilities: JSON.stringify(normalizeCapabilities(params.capabilities)),
+        created_at: nowIso(),
+    });
+
+    return getRoleById(params.id)!;
+}
+
+export function getRoleById(id: string): RoleRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM roles WHERE id = ? LIMIT 1;');
+    return normalizeRow(stmt.get(id));
+}
+
+/** Built-in roles first (admin, user, guest), then custom roles by creation. */
+export function listRoles(): RoleRecord[] {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM roles ORDER BY built_in DESC, created_at ASC, rowid ASC;');
+    return stmt.all().map(normalizeRow) as RoleRecord[];
+}
+
+/**
+ * updateRole
+ * - Change a role's name, description and/or capabilities.
+ */
+export function updateRole(id: string, patch: {
+    name?: string;
+    description?: string | null;
+    capabilities?: readonly string[];
+}): RoleRecord | null {
+    const existing = getRoleById(id);
+    if (!existing) return null;
+
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        UPDATE roles SET name = @name, description = @description, capabilities = @capabilities, updated_at = @updated_at
+        WHERE id = @id;
+    `);
+
+    stmt.run({
+        id,
+        name: patch.name ?? existing.name,
+        description: patch.description !== undefined ? patch.description : existing.description ?? null,
+        capabilities: JSON.stringify(normalizeCapabilities(patch.capabilities ?? existing.capabilities)),
+        updated_at: nowIso(),
+    });
+
+    return getRoleById(id);
+}
+
+export function deleteRole(id: string): void {
+    const db = getDatabase();
+    db.prepare('DELETE FROM roles WHERE id = ? AND built_in = 0;').run(id);
+}
+
+export default {
+    createRole,
+    getRoleById,
+    listRoles,
+    updateRole,
+    deleteRole,
+};
@@ -0,0 +1,42 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+import { ADMIN_ROLE, BUILT_IN_ROLES, ROLE_CAPABILITIES } from './roles.helper';
+
+/**
+ * roles.schema.ts
+ * - Responsible for schema (table + indexes) creation for the `roles` table
+ * - Seeds the built-in admin, user and guest roles
+ *
+ * NOTE: Call `initializeRolesModel()` after `initializeDatabase()` at startup
+ */
+
+export function initializeRolesModel(): void {
+    const db: DatabaseType = getDatabase();
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS roles (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            description TEXT,
+            capabilities TEXT NOT NULL DEFAULT '[]',
+            built_in INTEGER NOT NULL DEFAULT 0,
+            created_at TEXT NOT NULL,
+            updated_at TEXT
+        );
+    `);
+
+    // Seed built-in roles; existing rows keep any capability changes made by admins
+    const now = new Date().toISOString();
+    const insert = db.prepare(`
+        INSERT OR IGNORE INTO roles (id, name, description, capabilities, built_in, created_at)
+        VALUES (@id, @name, @description, @capabilities, 1, @created_at);
+    `);
+    for (const role of BUILT_IN_ROLES) {
+        insert.run({ ...role, capabilities: JSON.stringify(role.capabilities), created_at: now });
+    }
+
+    // The admin role always holds every capability, including ones added later
+    db.prepare('UPDATE roles SET capabilities = ? WHERE id = ?;').run(JSON.stringify(ROLE_CAPABILITIES), ADMIN_ROLE);
+}
+
+export default { initializeRolesModel };
@@ -0,0 +1,4 @@
+// Re-export module split into schema + helper to keep single import path
+export * from './sessions.schema';
+export * from './sessions.helper';
+export { default } from './sessions.helper';
@@ -0,0 +1,229 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+import crypto from 'crypto';
+
+/**
+ * sessions.helper.ts
+ * - Model helpers for CRUD operations against the `sessions` table.
+ * - Mirrors the pattern used in shareLinks.helper.ts for consistency.
+ */
+
+/**
+ * SessionRecord
+ * - A signed-in device. The refresh token rotates on every use; the
+ *   previous hash is kept so a replayed token can be recognised.
+ */
+export interface SessionRecord {
+    id: string;
+    user_id: string;
+    refresh_token_hash: string;
+    previous_token_hash?: string | null;
+    rotated_at?: string | null;
+    user_agent?: string | null;
+    ip_address?: string | null;
+    created_at: string;
+    last_used_at: string;
+    expires_at: string;
+    revoked_at?: string | null;
+}
+
+/**
+ * nowIso()
+ * - Helper that returns the current timestamp in ISO 8601 format.
+ */
+function nowIso() {
+    return new Date().toISOString();
+}
+
+/**
+ * createSession
+ * - Persist a new session for a user.
+ * - Returns: the created `SessionRecord` on success.
+ */
+export function createSession(params: {
+    userId: string;
+    refreshTokenHash: string;
+    expiresAt: string;
+    userAgent?: string | null;
+    ipAddress?: string | null;
+}): SessionRecord {
+    const db: DatabaseType = getDatabase();
+    const id = crypto.randomUUID();
+    const now = nowIso();
+
+    const stmt = db.prepare(`
+        INSERT INTO sessions (
+            id, user_id, refresh_token_hash, previous_token_hash, rotated_at,
+            user_agent, ip_address, created_at, last_used_at, expires_at, revoked_at
+        ) VALUES (
+            @id, @user_id, @refresh_token_hash, NULL, NULL,
+            @user_agent, @ip_address, @created_at, @created_at, @expires_at, NULL
+        );
+    `);
+
+    stmt.run({
+        id,
+        user_id: params.userId,
+        refresh_token_hash: params.refreshTokenHash,
+        user_agent: params.userAgent ?? null,
+        ip_address: params.ipAddress ?? null,
+        created_at: now,
+        expires_at: params.expiresAt,
+    });
+
+    return getSessionById(id)!;
+}
+
+function normalizeRow(row: any): SessionRecord | null {
+    if (!row) return null;
+    return row as SessionRecord;
+}
+
+export function getSessionById(id: string): SessionRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM sessions WHERE id = ? LIMIT 1;');
+    return normalizeRow(stmt.get(id));
+}
+
+export function getSessionByTokenHash(hash: string): SessionRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM sessions WHERE refresh_token_hash = ? LIMIT 1;');
+    return normalizeRow(stmt.get(hash));
+}
+
+export function getSessionByPreviousTokenHash(hash: string): SessionRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM sessions WHERE previous_token_hash = ? LIMIT 1;');
+    return normalizeRow(stmt.get(hash));
+}
+
+/**
+ * isSessionActive
+ * - True when the session is neither revoked nor expired.
+ */
+export function isSessionActive(session: SessionRecord): boolean {
+    return !session.revoked_at && new Date(session.expires_at).getTime() > Date.now();
+}
+
+/**
+ * listUserSessions
+ * - Active (not revoked, not expired) sessions of a user, most recently used first.
+ */
+export function listUserSessions(userId: string): SessionRecord[] {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        SELECT * FROM sessions
+        WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+        ORDER BY last_used_at DESC;
+    `);
+    return stmt.all(userId, nowIso()) as SessionRecord[];
+}
+
+/**
+ * rotateSessionToken
+ * - Replace the refresh token of an active session, keeping the old hash,
+ *   and extend its expiry.
+ * - Only succeeds if `currentHash` is still the session's token, so two
+ *   concurrent refreshes with the same token can't both win.
+ * - Returns: the updated record, or null if the token was already rotated.
+ */
+export function rotateSessionToken(
+    id: string,
+    currentHash: string,
+    nextHash: string,
+    update: { expiresAt: string; userAgent?: string | null; ipAddress?: string | null }
+): SessionRecord | null {
+    const db = getDatabase();
+    const now = nowIso();
+    const stmt = db.prepare(`
+        UPDATE sessions
+        SET previous_token_hash = refresh_token_hash,
+            refresh_token_hash = @next_hash,
+            rotated_at = @now,
+            last_used_at = @now,
+            expires_at = @expires_at,
+            user_agent = COALESCE(@user_agent, user_agent),
+            ip_address = COALESCE(@ip_address, ip_address)
+        WHERE id = @id AND refresh_token_hash = @current_hash AND revoked_at IS NULL;
+    `);
+    const result = stmt.run({
+        id,
+        current_hash: currentHash,
+        next_hash: nextHash,
+        now,
+        expires_at: update.expiresAt,
+        user_agent: update.userAgent ?? null,
+        ip_address: update.ipAddress ?? null,
+    });
+    return result.changes > 0 ? getSessionById(id) : null;
+}
+
+/**
+ * touchSession
+ * - Record that a session was just used. Writes at most once a minute
+ *   per session so authenticated requests stay cheap.
+ */
+export function touchSession(id: string): void {
+    const db = getDatabase();
+    const now = Date.now();
+    const stmt = db.prepare('UPDATE sessions SET last_used_at = ? WHERE id = ? AND last_used_at < ?;');
+    stmt.run(new Date(now).toISOString(), id, new Date(now - 60 * 1000).toISOString());
+}
+
+/**
+ * revokeSession
+ * - Mark a session as revoked; access tokens carrying its id stop working.
+ */
+export function revokeSession(id: string): boolean {
+    const db = getDatabase();
+    const stmt = db.prepare('UPDATE sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL;');
+    return stmt.run(nowIso(), id).changes > 0;
+}
+
+/**
+ * revokeUserSessions
+ * - Revoke every active session of a user, optionally keeping one.
+ * - Returns: number of sessions revoked.
+ */
+export function revokeUserSessions(userId: string, exceptSessionId?: string): number {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        UPDATE sessions SET revoked_at = ?
+        WHERE user_id = ? AND revoked_at IS NULL AND id != ?;
+    `);
+    return stmt.run(nowIso(), userId, exceptSessionId ?? '').changes;
+}
+
+/**
+ * deleteUserSessions
+ * - Remove all session rows of a user (used when the account is deleted).
+ */
+export function deleteUserSessions(userId: string): void {
+    const db = getDatabase();
+    db.prepare('DELETE FROM sessions WHERE user_id = ?;').run(userId);
+}
+
+/**
+ * deleteInactiveSessions
+ * - Remove expired and revoked sessions. Returns the number of rows deleted.
+ */
+export function deleteInactiveSessions(): number {
+    const db = getDatabase();
+    const stmt = db.prepare('DELETE FROM sessions WHERE expires_at <= ? OR revoked_at IS NOT NULL;');
+    return stmt.run(nowIso()).changes;
+}
+
+export default {
+    createSession,
+    getSessionById,
+    getSessionByTokenHash,
+    getSessionByPreviousTokenHash,
+    isSessionActive,
+    listUserSessions,
+    rotateSessionToken,
+    touchSession,
+    revokeSession,
+    revokeUserSessions,
+    deleteUserSessions,
+    deleteInactiveSessions,
+};
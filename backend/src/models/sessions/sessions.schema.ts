@@ -0,0 +1,37 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+
+/**
+ * sessions.schema.ts
+ * - Responsible for schema (table + indexes) creation for the `sessions` table
+ * - One row per signed-in device; access tokens carry the session id (`sid`)
+ * - Only SHA-256 hashes of refresh tokens are stored
+ *
+ * NOTE: Call `initializeSessionsModel()` after `initializeDatabase()` at startup
+ */
+
+export function initializeSessionsModel(): void {
+    const db: DatabaseType = getDatabase();
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL,
+            refresh_token_hash TEXT NOT NULL UNIQUE,
+            previous_token_hash TEXT,
+            rotated_at TEXT,
+            user_agent TEXT,
+            ip_address TEXT,
+            created_at TEXT NOT NULL,
+            last_used_at TEXT NOT NULL,
+            expires_at TEXT NOT NULL,
+            revoked_at TEXT
+        );
+    `);
+
+    // Indexes for refresh lookups (current and previous token) and per-user listings
+    db.exec(`CREATE INDEX IF NOT EXISTS sessions_previous_token_idx ON sessions(previous_token_hash);`);
+    db.exec(`CREATE INDEX IF NOT EXISTS sessions_user_idx ON sessions(user_id);`);
+}
+
+export default { initializeSessionsModel };
@@ -0,0 +1,4 @@
+// Re-export module split into schema + helper to keep single import path
+export * from './shareLinks.schema';
+export * from './shareLinks.helper';
+export { default } from './shareLinks.helper';
@@ -0,0 +1,202 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+import crypto from 'crypto';
+
+/**
+ * shareLinks.helper.ts
+ * - Model helpers for CRUD operations against the `share_links` table.
+ * - Mirrors the pattern used in files.helper.ts for consistency.
+ */
+
+/**
+ * ShareLinkRecord
+ * - Represents a tokenized public link to a file or folder.
+ * - Exactly one of `file_id` / `folder_path` is set.
+ */
+export interface ShareLinkRecord {
+    id: string;
+    token: string;
+    owner_id: string;
+    file_id?: string | null;
+    folder_path?: string | null;
+    password_hash?: string | null;
+    expires_at?: string | null;
+    max_downloads?: number | null;
+    download_count: number;
+    created_at: string;
+    revoked_at?: string | null;
+}
+
+/**
+ * nowIso()
+ * - Helper that returns the current timestamp in ISO 8601 format.
+ */
+function nowIso() {
+    return new Date().toISOString();
+}
+
+/**
+ * generateToken()
+ * - URL-safe random token used in `/s/:token` links.
+ */
+function generateToken(): string {
+    return crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * createShareLink
+ * - Create and persist a share link for a file or folder.
+ * - Returns: the created `ShareLinkRecord` on success.
+ */
+export function createShareLink(params: {
+    ownerId: string;
+    fileId?: string | null;
+    folderPath?: string | null;
+    passwordHash?: string | null;
+    expiresAt?: string | null;
+    maxDownloads?: number | null;
+}): ShareLinkRecord {
+    const db: DatabaseType = getDatabase();
+    const id = crypto.randomUUID();
+
+    const stmt = db.prepare(`
+        INSERT INTO share_links (
+            id, token, owner_id, file_id, folder_path, password_hash,
+            expires_at, max_downloads, download_count, created_at, revoked_at
+        ) VALUES (
+            @id, @token, @owner_id, @file_id, @folder_path, @password_hash,
+            @expires_at, @max_downloads, 0, @created_at, NULL
+        );
+    `);
+
+    stmt.run({
+        id,
+        token: generateToken(),
+        owner_id: params.ownerId,
+        file_id: params.fileId ?? null,
+        folder_path: params.folderPath ?? null,
+        password_hash: params.passwordHash ?? null,
+        expires_at: params.expiresAt ?? null,
+        max_downloads: params.maxDownloads ?? null,
+        created_at: nowIso(),
+    });
+
+    return getShareLinkById(id)!;
+}
+
+function normalizeRow(row: any): ShareLinkRecord | null {
+    if (!row) return null;
+    return row as ShareLinkRecord;
+}
+
+export function getShareLinkById(id: string): ShareLinkRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM share_links WHERE id = ? LIMIT 1;');
+    return normalizeRow(stmt.get(id));
+}
+
+export function getShareLinkByToken(token: string): ShareLinkRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM share_links WHERE token = ? LIMIT 1;');
+    return normalizeRow(stmt.get(token));
+}
+
+/**
+ * listShareLinks
+ * - List links, newest first. Revoked links are excluded unless requested.
+ */
+export function listShareLinks(options?: {
+    ownerId?: string;
+    fileId?: string;
+    includeRevoked?: boolean;
+}): ShareLinkRecord[] {
+    const db = getDatabase();
+    let sql = 'SELECT * FROM share_links WHERE 1 = 1';
+    const params: any[] = [];
+
+    if (options?.ownerId) {
+        sql += ' AND owner_id = ?';
+        params.push(options.ownerId);
+    }
+    if (options?.fileId) {
+        sql += ' AND file_id = ?';
+        params.push(options.fileId);
+    }
+    if (!options?.includeRevoked) {
+        sql += ' AND revoked_at IS NULL';
+    }
+
+    sql += ' ORDER BY created_at DESC';
+    return db.prepare(sql + ';').all(...params) as ShareLinkRecord[];
+}
+
+/**
+ * revokeShareLink
+ * - Mark a link as revoked; the row is kept so the token is never reused.
+ */
+export function revokeShareLink(id: string): ShareLinkRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('UPDATE share_links SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL;');
+    stmt.run(nowIso(), id);
+    return getShareLinkById(id);
+}
+
+/**
+ * revokeOwnerShareLinks
+ * - Revoke every active link of a user. Returns the number revoked.
+ */
+export function revokeOwnerShareLinks(ownerId: string): number {
+    const db = getDatabase();
+    const stmt = db.prepare('UPDATE share_links SET revoked_at = ? WHERE owner_id = ? AND revoked_at IS NULL;');
+    return stmt.run(nowIso(), ownerId).changes;
+}
+
+/**
+ * reassignShareLinkOwner
+ * - Hand every link of one user to another (links keep working).
+ */
+export function reassignShareLinkOwner(fromOwnerId: string, toOwnerId: string): number {
+    const db = getDatabase();
+    return db.prepare('UPDATE share_links SET owner_id = ? WHERE owner_id = ?;').run(toOwnerId, fromOwnerId).changes;
+}
+
+/**
+ * consumeShareLinkDownload
+ * - Atomically count one download against the link's limit.
+ * - Returns false when the limit has already been reached.
+ */
+export function consumeShareLinkDownload(id: string): boolean {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        UPDATE share_links SET download_count = download_count + 1
+        WHERE id = ? AND (max_downloads IS NULL OR download_count < max_downloads);
+    `);
+    return stmt.run(id).changes > 0;
+}
+
+/**
+ * renameShareLinkFolderPaths
+ * - Keep folder links pointing at the right place after a folder rename/move.
+ * - Rewrites the folder itself and any nested folder paths.
+ */
+export function renameShareLinkFolderPaths(oldPath: string, newPath: string): void {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        UPDATE share_links
+        SET folder_path = @new_path || substr(folder_path, length(@old_path) + 1)
+        WHERE folder_path = @old_path OR substr(folder_path, 1, length(@old_prefix)) = @old_prefix;
+    `);
+    stmt.run({ old_path: oldPath, new_path: newPath, old_prefix: `${oldPath}/` });
+}
+
+export default {
+    createShareLink,
+    getShareLinkById,
+    getShareLinkByToken,
+    listShareLinks,
+    revokeShareLink,
+    revokeOwnerShareLinks,
+    reassignShareLinkOwner,
+    consumeShareLinkDownload,
+    renameShareLinkFolderPaths,
+};
@@ -0,0 +1,37 @@
+import { Database as DatabaseType } from 'better-sqlite3';
+import { getDatabase } from '../../config/db';
+
+/**
+ * shareLinks.schema.ts
+ * - Responsible for schema (table + indexes) creation for the `share_links` table
+ * - A link targets either a single file (`file_id`) or a folder (`folder_path`)
+ *
+ * NOTE: Call `initializeShareLinksModel()` after `initializeDatabase()` at startup
+ */
+
+export function initializeShareLinksModel(): void {
+    const db: DatabaseType = getDatabase();
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS share_links (
+            id TEXT PRIMARY KEY,
+            token TEXT NOT NULL UNIQUE,
+            owner_id TEXT NOT NULL,
+            file_id TEXT,
+            folder_path TEXT,
+            password_hash TEXT,
+            expires_at TEXT,
+            max_downloads INTEGER,
+            download_count INTEGER NOT NULL DEFAULT 0,
+            created_at TEXT NOT NULL,
+            revoked_at TEXT
+        );
+    `);
+
+    // Indexes for token lookups and per-owner listings
+    db.exec(`CREATE INDEX IF NOT EXISTS share_links_token_idx ON share_links(token);`);
+    db.exec(`CREATE INDEX IF NOT EXISTS share_links_owner_idx ON share_links(owner_id);`);
+    db.exec(`CREATE INDEX IF NOT EXISTS share_links_file_idx ON share_links(file_id);`);
+}
+
+export default { initializeShareLinksModel };
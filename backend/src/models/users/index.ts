@@ -4,7 +4,9 @@
  */
 
 export { initializeUsersModel } from './users.schema';
-export { createUser, getUserById, getUserByUsername, updatePassword, listUsers } from './users.helper';
+export { createUser, getUserById, getUserByUsername, updatePassword, listUsers, setUserAdmin, setUserRole, setUserDisabled, setUserQuota, deleteUser, countActiveAdmins, countUsersWithRole } from './users.helper';
+export { getUserByOidcSubject, setUserOidcSubject } from './users.helper';
+export { setPendingTotpSecret, enableTotp, disableTotp, setTotpLastStep, setRecoveryCodeHashes } from './users.helper';
 export type { UserRecord } from './users.helper';
 
 export default {};
@@ -12,7 +12,22 @@ export interface UserRecord {
     id: string;
     username: string;
     password_hash: string;
+    /** Mirrors `role === 'admin'`; kept for admin counts and older code paths */
     is_admin: number;
+    /** Role id from the `roles` table (admin, user, guest or a custom role) */
+    role: string;
+    disabled: number;
+    /** Base32 TOTP secret; set during setup, before 2FA is enabled */
+    totp_secret?: string | null;
+    totp_enabled: number;
+    /** Last accepted TOTP time step (prevents code reuse) */
+    totp_last_step?: number | null;
+    /** JSON array of SHA-256 hashes of unused recovery codes */
+    totp_recovery_codes?: string | null;
+    /** Storage quota in bytes; null uses USER_QUOTA_DEFAULT, 0 is unlimited */
+    quota_bytes?: number | null;
+    /** `sub` claim of the OpenID Connect identity linked to this account */
+    oidc_subject?: string | null;
     created_at: string;
     updated_at?: string | null;
 }
@@ -21,25 +36,34 @@ function nowIso() {
     return new Date().toISOString();
 }
 
+/**
+ * Create a user. `role` wins over `isAdmin`; without either the user gets
+ * the default `user` role.
+ */
 export function createUser(params: {
     username: string;
     passwordHash: string;
     isAdmin?: boolean;
+    role?: string;
+    quotaBytes?: number | null;
 }): UserRecord {
     const db: DatabaseType = getDatabase();
     const id = crypto.randomUUID();
     const now = nowIso();
+    const role = params.role ?? (params.isAdmin ? 'admin' : 'user');
 
     const stmt = db.prepare(`
-        INSERT INTO users (id, username, password_hash, is_admin, created_at)
-        VALUES (@id, @username, @password_hash, @is_admin, @created_at);
+        INSERT INTO users (id, username, password_hash, is_admin, role, quota_bytes, created_at)
+        VALUES (@id, @username, @password_hash, @is_admin, @role, @quota_bytes, @created_at);
     `);
 
     stmt.run({
         id,
         username: params.username,
         password_hash: params.passwordHash,
-        is_admin: params.isAdmin ? 1 : 0,
+        is_admin: role === 'admin' ? 1 : 0,
+        role,
+        quota_bytes: params.quotaBytes ?? null,
         created_at: now,
     });
 
@@ -89,10 +113,155 @@ export function listUsers(): UserRecord[] {
     return stmt.all() as UserRecord[];
 }
 
+/**
+ * Grant or revoke admin rights (switches between the admin and user roles).
+ * Bumps `updated_at` so tokens carrying the old role are invalidated.
+ */
+export function setUserAdmin(userId: string, isAdmin: boolean): UserRecord | null {
+    return setUserRole(userId, isAdmin ? 'admin' : 'user');
+}
+
+/**
+ * Assign a role, keeping `is_admin` in step.
+ * Bumps `updated_at` so tokens carrying the old role are invalidated.
+ */
+export function setUserRole(userId: string, role: string): UserRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        UPDATE users SET role = @role, is_admin = @is_admin, updated_at = @updated_at
+        WHERE id = @id;
+    `);
+
+    stmt.run({ id: userId, role, is_admin: role === 'admin' ? 1 : 0, updated_at: nowIso() });
+    return getUserById(userId);
+}
+
+/** Number of users (enabled or not) assigned to a role. */
+export function countUsersWithRole(role: string): number {
+    const db = getDatabase();
+    const row = db.prepare('SELECT COUNT(*) AS count FROM users WHERE role = ?;').get(role) as { count: number };
+    return row.count;
+}
+
+/**
+ * Disable or re-enable a user account.
+ * Disabled users cannot log in and their existing tokens stop verifying.
+ */
+export function setUserDisabled(userId: string, disabled: boolean): UserRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        UPDATE users SET disabled = @disabled, updated_at = @updated_at
+        WHERE id = @id;
+    `);
+
+    stmt.run({ id: userId, disabled: disabled ? 1 : 0, updated_at: nowIso() });
+    return getUserById(userId);
+}
+
+/**
+ * Set a user's storage quota (null falls back to the global default).
+ * Leaves `updated_at` alone so existing tokens stay valid.
+ */
+export function setUserQuota(userId: string, quotaBytes: number | null): UserRecord | null {
+    const db = getDatabase();
+    db.prepare('UPDATE users SET quota_bytes = ? WHERE id = ?;').run(quotaBytes, userId);
+    return getUserById(userId);
+}
+
+export function getUserByOidcSubject(subject: string): UserRecord | null {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM users WHERE oidc_subject = ? LIMIT 1;');
+    return normalizeRow(stmt.get(subject));
+}
+
+/**
+ * Link an account to an OpenID Connect identity (SSO sign-in).
+ * Leaves `updated_at` alone so existing tokens stay valid.
+ */
+export function setUserOidcSubject(userId: string, subject: string | null): UserRecord | null {
+    const db = getDatabase();
+    db.prepare('UPDATE users SET oidc_subject = ? WHERE id = ?;').run(subject, userId);
+    return getUserById(userId);
+}
+
+export function deleteUser(userId: string): void {
+    const db = getDatabase();
+    const stmt = db.prepare('DELETE FROM users WHERE id = ?;');
+    stmt.run(userId);
+}
+
+/**
+ * Store a new TOTP secret while 2FA is being set up (not yet enabled).
+ */
+export function setPendingTotpSecret(userId: string, secret: string): void {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        UPDATE users SET totp_secret = ?, totp_enabled = 0, totp_last_step = NULL, totp_recovery_codes = NULL
+        WHERE id = ?;
+    `);
+    stmt.run(secret, userId);
+}
+
+/**
+ * Turn on 2FA for the pending secret, storing the recovery code hashes
+ * and the time step of the code that confirmed setup.
+ */
+export function enableTotp(userId: string, recoveryCodeHashes: string[], step: number): void {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        UPDATE users SET totp_enabled = 1, totp_last_step = ?, totp_recovery_codes = ?
+        WHERE id = ? AND totp_secret IS NOT NULL;
+    `);
+    stmt.run(step, JSON.stringify(recoveryCodeHashes), userId);
+}
+
+/** Turn off 2FA and forget the secret and recovery codes. */
+export function disableTotp(userId: string): void {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+        UPDATE users SET totp_secret = NULL, totp_enabled = 0, totp_last_step = NULL, totp_recovery_codes = NULL
+        WHERE id = ?;
+    `);
+    stmt.run(userId);
+}
+
+/** Remember the last accepted TOTP time step. */
+export function setTotpLastStep(userId: string, step: number): void {
+    const db = getDatabase();
+    db.prepare('UPDATE users SET totp_last_step = ? WHERE id = ?;').run(step, userId);
+}
+
+/** Replace the stored recovery code hashes. */
+export function setRecoveryCodeHashes(userId: string, hashes: string[]): void {
+    const db = getDatabase();
+    db.prepare('UPDATE users SET totp_recovery_codes = ? WHERE id = ?;').run(JSON.stringify(hashes), userId);
+}
+
+/** Number of enabled admin accounts — used to avoid locking everyone out. */
+export function countActiveAdmins(): number {
+    const db = getDatabase();
+    const row = db.prepare('SELECT COUNT(*) AS count FROM users WHERE is_admin = 1 AND disabled = 0;').get() as { count: number };
+    return row.count;
+}
+
 export default {
     createUser,
     getUserById,
     getUserByUsername,
     updatePassword,
     listUsers,
+    setUserAdmin,
+    setUserRole,
+    setUserDisabled,
+    setUserQuota,
+    getUserByOidcSubject,
+    setUserOidcSubject,
+    deleteUser,
+    setPendingTotpSecret,
+    enableTotp,
+    disableTotp,
+    setTotpLastStep,
+    setRecoveryCodeHashes,
+    countActiveAdmins,
+    countUsersWithRole,
 };
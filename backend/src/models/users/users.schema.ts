@@ -18,13 +18,54 @@ export function initializeUsersModel(): void {
             username TEXT NOT NULL UNIQUE,
             password_hash TEXT NOT NULL,
             is_admin INTEGER NOT NULL DEFAULT 0,
+            role TEXT NOT NULL DEFAULT 'user',
+            disabled INTEGER NOT NULL DEFAULT 0,
+            totp_secret TEXT,
+            totp_enabled INTEGER NOT NULL DEFAULT 0,
+            totp_last_step INTEGER,
+            totp_recovery_codes TEXT,
+            quota_bytes INTEGER,
+            oidc_subject TEXT,
             created_at TEXT NOT NULL,
             updated_at TEXT
         );
     `);
 
+    // Databases created before account disabling existed lack the column
+    const columns = db.prepare('PRAGMA table_info(users);').all() as { name: string }[];
+    if (!columns.some((col) => col.name === 'disabled')) {
+        db.exec('ALTER TABLE users ADD COLUMN disabled INTEGER NOT NULL DEFAULT 0;');
+    }
+
+    // Two-factor authentication columns (added later)
+    if (!columns.some((col) => col.name === 'totp_secret')) {
+        db.exec('ALTER TABLE users ADD COLUMN totp_secret TEXT;');
+        db.exec('ALTER TABLE users ADD COLUMN totp_enabled INTEGER NOT NULL DEFAULT 0;');
+        db.exec('ALTER TABLE users ADD COLUMN totp_last_step INTEGER;');
+        db.exec('ALTER TABLE users ADD COLUMN totp_recovery_codes TEXT;');
+    }
+
+    // Role-based access control: existing admins keep the admin role
+    if (!columns.some((col) => col.name === 'role')) {
+        db.exec(`ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'user';`);
+        db.exec(`UPDATE users SET role = 'admin' WHERE is_admin = 1;`);
+    }
+
+    // Per-user storage quota (NULL = global default)
+    if (!columns.some((col) => col.name === 'quota_bytes')) {
+        db.exec('ALTER TABLE users ADD COLUMN quota_bytes INTEGER;');
+    }
+
+    // OpenID Connect subject (SSO sign-in) of linked accounts
+    if (!columns.some((col) => col.name === 'oidc_subject')) {
+        db.exec('ALTER TABLE users ADD COLUMN oidc_subject TEXT;');
+    }
+
     // Index for username lookups during login
     db.exec(`CREATE INDEX IF NOT EXISTS users_username_idx ON users(username);`);
+
+    // One account per SSO identity
+    db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS users_oidc_subject_idx ON users(oidc_subject) WHERE oidc_subject IS NOT NULL;`);
 }
 
 export default { initializeUsersModel };
@@ -1,20 +1,77 @@
 import express, { Request, Response, NextFunction } from 'express';
 import asyncHandler from '../middleware/asyncHandler';
-import authenticate from '../middleware/authenticate';
+import authenticate, { requireSession } from '../middleware/authenticate';
 import { z } from 'zod';
-import { getUserById, updatePassword } from '../models/users';
+import {
+    countActiveAdmins,
+    disableTotp,
+    enableTotp,
+    getUserById,
+    getUserByUsername,
+    setPendingTotpSecret,
+    setRecoveryCodeHashes,
+    updatePassword,
+    type UserRecord,
+} from '../models/users';
+import { getSessionById, listUserSessions, revokeSession, revokeUserSessions, type SessionRecord } from '../models/sessions';
+import { deleteApiToken, getApiTokenById, listUserApiTokens, type ApiTokenRecord } from '../models/apiTokens';
+import { issueApiToken } from '../utils/apiTokens';
+import { deleteAccount } from '../utils/accountDeletion';
+import { getStorageUsage } from '../utils/storageQuota';
 import { hashPassword, verifyPassword } from '../utils/passwordHash';
-import { ValidationError, AuthenticationError } from '../middleware/errors';
+import {
+    buildOtpauthUri,
+    countRecoveryCodes,
+    generateRecoveryCodes,
+    generateTotpSecret,
+    verifySecondFactor,
+    verifyTotpCode,
+} from '../utils/totp';
+import { ValidationError, AuthenticationError, NotFoundError } from '../middleware/errors';
 import type { UserClaim } from '../types/auth';
 
 const router = express.Router();
 
+/** Load the authenticated user's record or throw AuthenticationError. */
+function requireAccount(req: Request): UserRecord {
+    const userRecord = getUserById(req.user!.id);
+    if (!userRecord) {
+        throw new AuthenticationError('User not found');
+    }
+    return userRecord;
+}
+
+/** Public shape of a session — never expose token hashes. */
+function toAccountSession(session: SessionRecord, currentSessionId?: string) {
+    return {
+        id: session.id,
+        userAgent: session.user_agent ?? null,
+        ipAddress: session.ip_address ?? null,
+        createdAt: session.created_at,
+        lastSeenAt: session.last_used_at,
+        expiresAt: session.expires_at,
+        current: session.id === currentSessionId,
+    };
+}
+
+/** Public shape of an API token — never expose the hash. */
+function toAccountToken(token: ApiTokenRecord) {
+    return {
+        id: token.id,
+        name: token.name,
+        scope: token.scope,
+        prefix: token.token_prefix,
+        createdAt: token.created_at,
+        lastUsedAt: token.last_used_at ?? null,
+    };
+}
+
 /**
  * GET /api/account
  * Return authenticated user's account info.
  * Access: Private (requires authentication)
  */
-router.get('/', authenticate, asyncHandler(async (req: Request, res: Response) => {
+router.get('/', authenticate, requireSession, asyncHandler(async (req: Request, res: Response) => {
     const user = (req as any).user as UserClaim;
     const userRecord = getUserById(user.id);
 
@@ -26,17 +83,18 @@ router.get('/', authenticate, asyncHandler(async (req: Request, res: Response) =
         id: userRecord.id,
         username: userRecord.username,
         isAdmin: userRecord.is_admin === 1,
+        role: userRecord.role,
         createdAt: userRecord.created_at,
     });
 }));
 
 /**
  * PATCH /api/account
- * Change the authenticated user's password.
+ * Change the authenticated user's password. Other sessions are signed out.
  * Body: { currentPassword: string, newPassword: string }
  * Access: Private (requires authentication)
  */
-router.patch('/', authenticate, asyncHandler(async (req: Request, res: Response) => {
+router.patch('/', authenticate, requireSession, asyncHandler(async (req: Request, res: Response) => {
     const user = (req as any).user as UserClaim;
     const schema = z.object({
         currentPassword: z.string().min(1),
@@ -65,18 +123,287 @@ router.patch('/', authenticate, asyncHandler(async (req: Request, res: Response)
     // Hash and update new password
     const newHash = await hashPassword(newPassword);
     updatePassword(user.id, newHash);
+    revokeUserSessions(user.id, user.sid);
 
     res.status(200).json({ message: 'Password updated successfully' });
 }));
 
 /**
- * DELETE /api/account
- * Delete the authenticated user's account.
- * Currently not implemented; requires careful consideration.
+ * GET /api/account/storage
+ * Bytes stored by the authenticated user (including trash and versions)
+ * and their storage quota (null when unlimited).
+ * Access: Private (requires authentication)
+ */
+router.get('/storage', authenticate, requireSession, asyncHandler(async (req: Request, res: Response) => {
+    const { usedBytes, quotaBytes } = getStorageUsage(requireAccount(req).id);
+    res.status(200).json({ usedBytes, quotaBytes });
+}));
+
+/**
+ * GET /api/account/sessions
+ * List the devices the authenticated user is signed in on, most recently
+ * used first. The session making the request is flagged `current`.
+ * Access: Private (requires authentication)
+ */
+router.get('/sessions', authenticate, requireSession, asyncHandler(async (req: Request, res: Response) => {
+    const user = req.user!;
+    const sessions = listUserSessions(user.id).map((session) => toAccountSession(session, user.sid));
+    res.status(200).json({ sessions });
+}));
+
+/**
+ * DELETE /api/account/sessions/:id
+ * Sign out one of the authenticated user's sessions (may be the current one).
+ * Access: Private (requires authentication)
+ */
+router.delete('/sessions/:id', authenticate, requireSession, asyncHandler(async (req: Request, res: Response) => {
+    const user = req.user!;
+    const session = getSessionById(req.params.id);
+
+    // Other users' sessions are reported as missing
+    if (!session || session.user_id !== user.id || session.revoked_at) {
+        throw new NotFoundError('Session not found');
+    }
+
+    revokeSession(session.id);
+    res.status(200).json({ message: 'Session signed out', id: session.id });
+}));
+
+/**
+ * GET /api/account/2fa
+ * Two-factor authentication status of the authenticated user.
+ * Access: Private (requires authentication)
+ */
+router.get('/2fa', authenticate, requireSession, asyncHandler(async (req: Request, res: Response) => {
+    const userRecord = requireAccount(req);
+    res.status(200).json({
+        enabled: userRecord.totp_enabled === 1,
+        pendingSetup: userRecord.totp_enabled === 0 && !!userRecord.totp_secret,
+        recoveryCodesRemaining: countRecoveryCodes(userRecord),
+    });
+}));
+
+/**
+ * POST /api/account/2fa/setup
+ * Start 2FA enrollment: generate a secret for the authenticator app.
+ * 2FA is only turned on once a code is confirmed at /2fa/enable.
+ * Body: { password: string }
  * Access: Private (requires authentication)
  */
-router.delete('/', authenticate, asyncHandler(async (req: Request, res: Response) => {
-    res.status(501).json({ message: 'Account deletion not yet implemented' });
+router.post('/2fa/setup', authenticate, requireSession, asyncHandler(async (req: Request, res: Response) => {
+    const schema = z.object({ password: z.string().min(1) });
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid 2FA setup payload', z.treeifyError(parsed.error));
+    }
+
+    const userRecord = requireAccount(req);
+    if (userRecord.totp_enabled) {
+        return res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+    }
+
+    // 400 rather than 401 so clients don't treat it as an expired session
+    if (!(await verifyPassword(parsed.data.password, userRecord.password_hash))) {
+        throw new ValidationError('Password is incorrect');
+    }
+
+    const secret = generateTotpSecret();
+    setPendingTotpSecret(userRecord.id, secret);
+
+    res.status(200).json({ secret, otpauthUri: buildOtpauthUri(userRecord.username, secret) });
+}));
+
+/**
+ * POST /api/account/2fa/enable
+ * Finish enrollment by confirming a code from the authenticator app.
+ * Returns recovery codes; they are shown only this once.
+ * Body: { code: string }
+ * Access: Private (requires authentication)
+ */
+router.post('/2fa/enable', authenticate, requireSession, asyncHandler(async (req: Request, res: Response) => {
+    const schema = z.object({ code: z.string().trim().min(1) });
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid 2FA payload', z.treeifyError(parsed.error));
+    }
+
+    const userRecord = requireAccount(req);
+    if (userRecord.totp_enabled) {
+        return res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+    }
+    if (!userRecord.totp_secret) {
+        throw new ValidationError('Start two-factor setup first');
+    }
+
+    const step = verifyTotpCode(userRecord.totp_secret, parsed.data.code);
+    if (step === null) {
+        throw new ValidationError('Invalid authentication code');
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    enableTotp(userRecord.id, hashes, step);
+
+    res.status(200).json({ message: 'Two-factor authentication enabled', recoveryCodes: codes });
+}));
+
+/**
+ * POST /api/account/2fa/disable
+ * Turn off two-factor authentication.
+ * Body: { password: string, code: string } - code may be a recovery code
+ * Access: Private (requires authentication)
+ */
+router.post('/2fa/disable', authenticate, requireSession, asyncHandler(async (req: Request, res: Response) => {
+    const schema = z.object({ password: z.string().min(1), code: z.string().trim().min(1) });
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid 2FA payload', z.treeifyError(parsed.error));
+    }
+
+    const userRecord = requireAccount(req);
+    if (!userRecord.totp_enabled) {
+        // Abandon an unfinished setup, if any
+        disableTotp(userRecord.id);
+        return res.status(200).json({ message: 'Two-factor authentication disabled' });
+    }
+
+    if (!(await verifyPassword(parsed.data.password, userRecord.password_hash))) {
+        throw new ValidationError('Password is incorrect');
+    }
+    if (!verifySecondFactor(userRecord, parsed.data.code)) {
+        throw new ValidationError('Invalid authentication code');
+    }
+
+    disableTotp(userRecord.id);
+    res.status(200).json({ message: 'Two-factor authentication disabled' });
+}));
+
+/**
+ * POST /api/account/2fa/recovery-codes
+ * Replace all recovery codes with a new set (old ones stop working).
+ * Body: { code: string } - current TOTP or recovery code
+ * Access: Private (requires authentication)
+ */
+router.post('/2fa/recovery-codes', authenticate, requireSession, asyncHandler(async (req: Request, res: Response) => {
+    const schema = z.object({ code: z.string().trim().min(1) });
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid 2FA payload', z.treeifyError(parsed.error));
+    }
+
+    const userRecord = requireAccount(req);
+    if (!userRecord.totp_enabled) {
+        throw new ValidationError('Two-factor authentication is not enabled');
+    }
+    if (!verifySecondFactor(userRecord, parsed.data.code)) {
+        throw new ValidationError('Invalid authentication code');
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    setRecoveryCodeHashes(userRecord.id, hashes);
+
+    res.status(200).json({ recoveryCodes: codes });
+}));
+
+/**
+ * GET /api/account/tokens
+ * List the authenticated user's personal access tokens, newest first.
+ * Access: Private (requires a signed-in session; API tokens can't manage tokens)
+ */
+router.get('/tokens', authenticate, requireSession, asyncHandler(async (req: Request, res: Response) => {
+    const tokens = listUserApiTokens(req.user!.id).map(toAccountToken);
+    res.status(200).json({ tokens });
+}));
+
+/**
+ * POST /api/account/tokens
+ * Create a personal access token for scripts. The token is returned only
+ * in this response; send it as `Authorization: Bearer <token>`.
+ * Body: { name: string, scope: 'read' | 'upload' | 'full' }
+ * Access: Private (requires a signed-in session)
+ */
+router.post('/tokens', authenticate, requireSession, asyncHandler(async (req: Request, res: Response) => {
+    const schema = z.object({
+        name: z.string().trim().min(1).max(100),
+        scope: z.enum(['read', 'upload', 'full']),
+    });
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid token payload', z.treeifyError(parsed.error));
+    }
+
+    const { record, token } = issueApiToken(req.user!.id, parsed.data.name, parsed.data.scope);
+    res.status(201).json({ token: toAccountToken(record), secret: token });
+}));
+
+/**
+ * DELETE /api/account/tokens/:id
+ * Revoke one of the authenticated user's personal access tokens.
+ * Access: Private (requires a signed-in session)
+ */
+router.delete('/tokens/:id', authenticate, requireSession, asyncHandler(async (req: Request, res: Response) => {
+    const token = getApiTokenById(req.params.id);
+
+    // Other users' tokens are reported as missing
+    if (!token || token.user_id !== req.user!.id) {
+        throw new NotFoundError('Token not found');
+    }
+
+    deleteApiToken(token.id);
+    res.status(200).json({ message: 'Token revoked', id: token.id });
+}));
+
+/**
+ * DELETE /api/account
+ * Delete the authenticated user's account. Owned files and folders are
+ * either deleted permanently or transferred to another user.
+ * Body: { password: string, files: 'delete' | 'transfer', transferTo?: string (username),
+ *         code?: string (required when 2FA is enabled) }
+ * Access: Private (requires a signed-in session)
+ */
+router.delete('/', authenticate, requireSession, asyncHandler(async (req: Request, res: Response) => {
+    const schema = z.object({
+        password: z.string().min(1),
+        files: z.enum(['delete', 'transfer']),
+        transferTo: z.string().trim().min(1).optional(),
+        code: z.string().trim().min(1).optional(),
+    });
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid account deletion payload', z.treeifyError(parsed.error));
+    }
+
+    const { password, files, transferTo, code } = parsed.data;
+    const userRecord = requireAccount(req);
+
+    if (!(await verifyPassword(password, userRecord.password_hash))) {
+        throw new ValidationError('Password is incorrect');
+    }
+    if (userRecord.totp_enabled && (!code || !verifySecondFactor(userRecord, code))) {
+        throw new ValidationError('Invalid authentication code');
+    }
+    if (userRecord.is_admin && !userRecord.disabled && countActiveAdmins() <= 1) {
+        throw new ValidationError('At least one active admin is required. Make another user an admin first.');
+    }
+
+    let recipient: UserRecord | null = null;
+    if (files === 'transfer') {
+        if (!transferTo) throw new ValidationError('transferTo is required to transfer files');
+        recipient = getUserByUsername(transferTo);
+        if (!recipient || recipient.disabled) throw new ValidationError('Recipient not found');
+        if (recipient.id === userRecord.id) throw new ValidationError('Cannot transfer files to yourself');
+    }
+
+    const report = await deleteAccount(
+        userRecord,
+        recipient ? { action: 'transfer', toUserId: recipient.id } : { action: 'delete' },
+    );
+
+    res.status(200).json({
+        message: 'Account deleted',
+        ...(recipient ? { transferredTo: recipient.username } : {}),
+        files: report.files,
+        folders: report.folders,
+    });
 }));
 
 export default router;
@@ -0,0 +1,173 @@
+import express from 'express';
+import asyncHandler from '../middleware/asyncHandler';
+import authenticate from '../middleware/authenticate';
+import { authorize } from '../middleware/authorize';
+import {
+    listUsers,
+    createUser,
+    resetUserPassword,
+    updateUser,
+    deleteUser,
+    unlockUser,
+    listRoles,
+    createRole,
+    updateRole,
+    deleteRole,
+    listInvites,
+    createInvite,
+    deleteInvite,
+    listLockouts,
+    clearLockout,
+    checkStorage,
+    importFiles,
+} from '../controllers/adminController';
+
+const router = express.Router();
+
+/**
+ * Admin Routes
+ * - User management, invite codes and storage maintenance for administrators
+ * - Every route requires an authenticated user whose role has the `admin` capability
+ */
+router.use(authenticate, authorize('admin'));
+
+/**
+ * @route   GET /api/admin/users
+ * @desc    List all users
+ * @access  Private (admin)
+ */
+router.get('/users', asyncHandler(listUsers));
+
+/**
+ * @route   POST /api/admin/users
+ * @desc    Create a new user
+ * @access  Private (admin)
+ * @body    { username: string, password: string, isAdmin?: boolean, role?: string }
+ */
+router.post('/users', asyncHandler(createUser));
+
+/**
+ * @route   PUT /api/admin/users/:id/password
+ * @desc    Reset a user's password (invalidates their existing tokens)
+ * @access  Private (admin)
+ * @body    { password: string }
+ */
+router.put('/users/:id/password', asyncHandler(resetUserPassword));
+
+/**
+ * @route   PATCH /api/admin/users/:id
+ * @desc    Assign a role (or toggle admin), disable the account and/or set its storage quota
+ * @access  Private (admin)
+ * @body    { isAdmin?: boolean, role?: string, disabled?: boolean, quotaBytes?: number | null }
+ * @note    quotaBytes: 0 = unlimited, null = USER_QUOTA_DEFAULT
+ */
+router.patch('/users/:id', asyncHandler(updateUser));
+
+/**
+ * @route   DELETE /api/admin/users/:id
+ * @desc    Delete a user (their files are kept and stay admin-accessible)
+ * @access  Private (admin)
+ */
+router.delete('/users/:id', asyncHandler(deleteUser));
+
+/**
+ * @route   POST /api/admin/users/:id/unlock
+ * @desc    Clear a user's failed sign-in attempts and lift any lockout
+ * @access  Private (admin)
+ */
+router.post('/users/:id/unlock', asyncHandler(unlockUser));
+
+/**
+ * @route   GET /api/admin/roles
+ * @desc    List roles (built-in and custom) with capabilities and user counts
+ * @access  Private (admin)
+ * @returns { roles[], capabilities[] }
+ */
+router.get('/roles', asyncHandler(listRoles));
+
+/**
+ * @route   POST /api/admin/roles
+ * @desc    Create a custom role
+ * @access  Private (admin)
+ * @body    { name: string, description?: string, capabilities: string[] }
+ * @note    Capabilities: upload, edit, delete, delete-permanent, share.
+ *          'admin' is reserved for the built-in admin role.
+ */
+router.post('/roles', asyncHandler(createRole));
+
+/**
+ * @route   PATCH /api/admin/roles/:id
+ * @desc    Rename a role or replace its capabilities (not the admin role)
+ * @access  Private (admin)
+ * @body    { name?: string, description?: string | null, capabilities?: string[] }
+ */
+router.patch('/roles/:id', asyncHandler(updateRole));
+
+/**
+ * @route   DELETE /api/admin/roles/:id
+ * @desc    Delete a custom role that is not assigned to anyone
+ * @access  Private (admin)
+ */
+router.delete('/roles/:id', asyncHandler(deleteRole));
+
+/**
+ * @route   GET /api/admin/invites
+ * @desc    List invite codes for self-service registration
+ * @access  Private (admin)
+ * @returns { invites[] } - each with code, useCount/maxUses, expiresAt, role, quotaBytes, usable
+ */
+router.get('/invites', asyncHandler(listInvites));
+
+/**
+ * @route   POST /api/admin/invites
+ * @desc    Create an invite code
+ * @access  Private (admin)
+ * @body    { maxUses?: number, expiresAt?: string, role?: string, quotaBytes?: number | null }
+ * @note    Single-use unless maxUses is given. role presets the new
+ *          accounts' role (never 'admin'); quotaBytes their storage quota.
+ */
+router.post('/invites', asyncHandler(createInvite));
+
+/**
+ * @route   DELETE /api/admin/invites/:id
+ * @desc    Revoke an invite code
+ * @access  Private (admin)
+ */
+router.delete('/invites/:id', asyncHandler(deleteInvite));
+
+/**
+ * @route   GET /api/admin/lockouts
+ * @desc    List running lockouts by username, client IP and link password
+ * @access  Private (admin)
+ */
+router.get('/lockouts', asyncHandler(listLockouts));
+
+/**
+ * @route   DELETE /api/admin/lockouts/:id
+ * @desc    Lift a sign-in lockout (username or client IP)
+ * @access  Private (admin)
+ */
+router.delete('/lockouts/:id', asyncHandler(clearLockout));
+
+/**
+ * @route   POST /api/admin/fsck
+ * @desc    Check the catalog against stored content (missing content, orphans,
+ *          hash mismatches, stale folder sizes), optionally repairing it
+ * @access  Private (admin)
+ * @body    { repair?: boolean, deleteOrphans?: boolean, verifyHashes?: boolean }
+ * @note    Also available from the command line: `pnpm fsck [--repair]`
+ */
+router.post('/fsck', asyncHandler(checkStorage));
+
+/**
+ * @route   POST /api/admin/import
+ * @desc    Register untracked files already present in FILES_DIR (files keep their folder
+ *          and are renamed to generated stored names; the old name is shown)
+ * @access  Private (admin)
+ * @body    { username?: string, folder?: string, dryRun?: boolean }
+ * @note    Owner defaults to the calling admin. Also available from the
+ *          command line: `pnpm import-files --owner <username>`
+ */
+router.post('/import', asyncHandler(importFiles));
+
+export default router;
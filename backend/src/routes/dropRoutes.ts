@@ -0,0 +1,42 @@
+import express from 'express';
+import asyncHandler from '../middleware/asyncHandler';
+import authenticate from '../middleware/authenticate';
+import { authorize } from '../middleware/authorize';
+import {
+    createDropLink,
+    listDropLinks,
+    revokeDropLink,
+} from '../controllers/dropLinkController';
+
+const router = express.Router();
+
+/**
+ * Drop Link Routes
+ * - Manage upload-only links ("file requests") into a folder
+ * - Uploaders use the public `/d/:token` routes (see publicDropRoutes)
+ */
+
+/**
+ * @route   GET /api/drops
+ * @desc    List the current user's active drop links
+ * @access  Private (authenticated users)
+ * @query   ?folderPath=a/b - Only links into this folder
+ */
+router.get('/', authenticate, asyncHandler(listDropLinks));
+
+/**
+ * @route   POST /api/drops
+ * @desc    Create a drop link into a folder
+ * @access  Private (owner of the folder, grantee with 'upload', or admin; role with 'upload' and 'share')
+ * @body    { folderPath: string, expiresAt?: ISO string, password?: string, maxBytes?: number, requireUploaderName?: boolean }
+ */
+router.post('/', authenticate, authorize('upload'), authorize('share'), asyncHandler(createDropLink));
+
+/**
+ * @route   DELETE /api/drops/:id
+ * @desc    Revoke a drop link
+ * @access  Private (link creator or admin)
+ */
+router.delete('/:id', authenticate, asyncHandler(revokeDropLink));
+
+export default router;
@@ -1,18 +1,29 @@
 import express from 'express';
 import asyncHandler from '../middleware/asyncHandler';
 import authenticate from '../middleware/authenticate';
-import upload from '../middleware/multerHandler';
+import { authorize, authorizeFile } from '../middleware/authorize';
+import upload, { enforceQuota } from '../middleware/multerHandler';
 import { uploadTracker } from '../middleware/uploadTracker';
 import {
     uploadFile,
     uploadFiles,
+    createResumableUpload,
+    listResumableUploads,
+    getResumableUpload,
+    appendResumableUpload,
+    completeResumableUpload,
+    cancelResumableUpload,
     listFiles,
     downloadFileById,
+    downloadFilesArchive,
     updateFileMetadata,
     softDeleteFile,
     restoreFile,
     permanentDeleteById,
     moveFile,
+    listFileVersions,
+    downloadFileVersion,
+    restoreFileVersion,
 } from '../controllers/files';
 
 const router = express.Router();
@@ -27,82 +38,177 @@ const router = express.Router();
 /**
  * @route   POST /api/files/upload
  * @desc    Upload a new file to storage (optionally into a subdirectory)
- * @access  Private (authenticated users)
+ * @access  Private (owner of the target folder, grantee with 'upload', or admin; role with 'upload')
  * @middleware multer - Handles multipart/form-data, validates file size/type
  * @middleware uploadTracker - Cleans up files if request is aborted
+ * @middleware enforceQuota - Refuses uploads that cannot fit in the user's storage quota (413)
  * @body    file - The file to upload (multipart)
  * @body    folder - Optional subdirectory path (e.g., "projects/2024")
  * @body    action - Optional upload action when a duplicate exists: 'replace'|'keep_both'
+ * @body    extract - 'true' to unpack a .zip/.tar/.tar.gz into the folder instead of storing it;
+ *          responds like /upload/batch (409 with `conflicts` unless `action` is given)
  */
-router.post('/upload', authenticate, uploadTracker, upload.single('file'), asyncHandler(uploadFile));
+router.post('/upload', authenticate, authorize('upload'), uploadTracker, enforceQuota, upload.single('file'), asyncHandler(uploadFile));
 
 /**
  * @route   POST /api/files/upload/batch
  * @desc    Upload multiple files at once, preserving folder structure
- * @access  Private (authenticated users)
+ * @access  Private (owner of the target folder, grantee with 'upload', or admin; role with 'upload')
  * @middleware multer.array - Handles multiple files in multipart/form-data
  * @middleware uploadTracker - Cleans up files if request is aborted
+ * @middleware enforceQuota - Refuses uploads that cannot fit in the user's storage quota (413)
  * @body    file[] - Array of files to upload
  * @body    relativePath[] - Array of relative paths (from webkitRelativePath) matching file order
  * @body    folder - Optional base folder to upload into
  * @returns { message, totalCount, successCount, failureCount, results[] }
  */
-router.post('/upload/batch', authenticate, uploadTracker, upload.array('file'), asyncHandler(uploadFiles));
+router.post('/upload/batch', authenticate, authorize('upload'), uploadTracker, enforceQuota, upload.array('file'), asyncHandler(uploadFiles));
+
+/**
+ * @route   POST /api/files/uploads
+ * @desc    Start a resumable (chunked) upload
+ * @access  Private (owner of the target folder, grantee with 'upload', or admin; role with 'upload')
+ * @body    filename - Original file name
+ * @body    size - Total size in bytes
+ * @body    mimeType - Optional MIME type (corrected by extension)
+ * @body    folder - Optional subdirectory path
+ * @returns 201 { upload } with Location, Upload-Offset and Upload-Length headers
+ */
+router.post('/uploads', authenticate, authorize('upload'), asyncHandler(createResumableUpload));
+
+/**
+ * @route   GET /api/files/uploads
+ * @desc    List the current user's unfinished resumable uploads
+ * @access  Private (authenticated users)
+ */
+router.get('/uploads', authenticate, asyncHandler(listResumableUploads));
+
+/**
+ * @route   GET|HEAD /api/files/uploads/:id
+ * @desc    Get the received offset of a resumable upload
+ * @access  Private (upload owner or admin)
+ * @returns { upload } with Upload-Offset and Upload-Length headers
+ */
+router.get('/uploads/:id', authenticate, asyncHandler(getResumableUpload));
+
+/**
+ * @route   PATCH /api/files/uploads/:id
+ * @desc    Append a chunk to a resumable upload
+ * @access  Private (upload owner or admin; role with 'upload')
+ * @header  Content-Type - application/offset+octet-stream
+ * @header  Upload-Offset - Byte offset of this chunk; must equal the received offset
+ * @body    Raw chunk bytes
+ * @returns { upload } with the new Upload-Offset, or 409 { offset } on mismatch
+ */
+router.patch('/uploads/:id', authenticate, authorize('upload'), asyncHandler(appendResumableUpload));
+
+/**
+ * @route   POST /api/files/uploads/:id/complete
+ * @desc    Finalize a fully received upload into a file record
+ * @access  Private (upload owner or admin; role with 'upload')
+ * @body    action - Optional upload action when a duplicate exists: 'replace'|'keep_both'
+ * @returns 201 { file } (200 when replaced), or 409 { conflict } keeping the upload for a retry
+ */
+router.post('/uploads/:id/complete', authenticate, authorize('upload'), asyncHandler(completeResumableUpload));
+
+/**
+ * @route   DELETE /api/files/uploads/:id
+ * @desc    Cancel a resumable upload and discard its data
+ * @access  Private (upload owner or admin)
+ */
+router.delete('/uploads/:id', authenticate, asyncHandler(cancelResumableUpload));
 
 /**
  * @route   GET /api/files
  * @desc    List file metadata from DB (owned by user)
  * @access  Private (authenticated users)
- * @query   ?ownerId=xyz - Filter by owner (defaults to current user)
+ * @query   ?ownerId=xyz - Filter by owner (admins only; defaults to current user)
  * @query   ?isPublic=true - Filter by public visibility
  * @query   ?limit=10&offset=0 - Pagination
  */
 router.get('/', authenticate, asyncHandler(listFiles));
 
+/**
+ * @route   POST /api/files/archive
+ * @desc    Download a selection of files as one ZIP (streamed, not buffered)
+ * @access  Private (each file: owner, folder owner or grantee with 'view', or admin)
+ * @body    fileIds - Ids of the files to include (1–1000)
+ * @note    Entries keep their folders relative to the deepest folder the files share
+ */
+router.post('/archive', authenticate, asyncHandler(downloadFilesArchive));
+
 /**
  * @route   GET /api/files/id/:id
  * @desc    Download/stream a file by DB id (UUID)
- * @access  Private (authenticated users)
+ * @access  Private (file owner, folder owner or grantee with 'view', or admin)
+ * @query   ?disposition=attachment|inline - Content-Disposition type (default inline)
+ * @header  Range, If-None-Match, If-Modified-Since, If-Range - Partial and conditional requests
  * @note    Files may be in subdirectories; path resolved from DB storage_path
  */
-router.get('/id/:id', authenticate, asyncHandler(downloadFileById));
+router.get('/id/:id', authenticate, authorizeFile('view'), asyncHandler(downloadFileById));
 
 /**
  * @route   PATCH /api/files/id/:id
  * @desc    Update file metadata (original_name, is_public, metadata_json)
- * @access  Private (authenticated users)
+ * @access  Private (file owner, folder owner or grantee with 'edit', or admin; role with 'edit')
+ * @note    is_public (listing in the owner's public gallery) needs the file owner or an admin, with 'share'
  */
-router.patch('/id/:id', authenticate, asyncHandler(updateFileMetadata));
+router.patch('/id/:id', authenticate, authorize('edit'), authorizeFile('edit'), asyncHandler(updateFileMetadata));
 
 /**
  * @route   POST /api/files/id/:id/soft-delete
  * @desc    Soft-delete a file (mark DB record status = 'deleted')
- * @access  Private (authenticated users)
+ * @access  Private (file owner, folder owner or grantee with 'edit', or admin; role with 'delete')
  */
-router.post('/id/:id/soft-delete', authenticate, asyncHandler(softDeleteFile));
+router.post('/id/:id/soft-delete', authenticate, authorize('delete'), authorizeFile('edit'), asyncHandler(softDeleteFile));
 
 /**
  * @route   POST /api/files/id/:id/restore
  * @desc    Restore a soft-deleted file (set status = 'active')
- * @access  Private (authenticated users)
+ * @access  Private (file owner, folder owner or grantee with 'edit', or admin; role with 'delete')
  */
-router.post('/id/:id/restore', authenticate, asyncHandler(restoreFile));
+router.post('/id/:id/restore', authenticate, authorize('delete'), authorizeFile('edit'), asyncHandler(restoreFile));
 
 /**
  * @route   DELETE /api/files/id/:id/permanent
  * @desc    Permanently delete file from DB and storage (supports subdirectories)
- * @access  Private (authenticated users)
+ * @access  Private (file owner, folder owner or admin; role with 'delete-permanent')
  */
-router.delete('/id/:id/permanent', authenticate, asyncHandler(permanentDeleteById));
+router.delete('/id/:id/permanent', authenticate, authorize('delete-permanent'), authorizeFile('owner'), asyncHandler(permanentDeleteById));
 
 /**
  * @route   POST /api/files/id/:id/move
  * @desc    Move a file from its current folder to a destination folder
- * @access  Private (authenticated users)
+ * @access  Private (file owner, folder owner or grantee with 'edit', or admin; role with 'edit')
  * @body    destinationPath - Target folder path (e.g., "projects/2024"); empty string for root
  * @body    action - Optional conflict resolution: 'replace'|'keep_both'
  * @returns Updated file object with new storage_path
  */
-router.post('/id/:id/move', authenticate, asyncHandler(moveFile));
+router.post('/id/:id/move', authenticate, authorize('edit'), authorizeFile('edit'), asyncHandler(moveFile));
+
+/**
+ * @route   GET /api/files/id/:id/versions
+ * @desc    List previous versions of a file (kept when it is replaced), newest first
+ * @access  Private (file owner, folder owner or grantee with 'view', or admin)
+ * @note    Only the newest FILE_VERSION_RETENTION versions are kept
+ */
+router.get('/id/:id/versions', authenticate, authorizeFile('view'), asyncHandler(listFileVersions));
+
+/**
+ * @route   GET /api/files/id/:id/versions/:versionId
+ * @desc    Download/stream a previous version of a file
+ * @access  Private (file owner, folder owner or grantee with 'view', or admin)
+ * @query   ?disposition=attachment|inline - Content-Disposition type (default inline)
+ * @header  Range, If-None-Match, If-Modified-Since, If-Range - Partial and conditional requests
+ */
+router.get('/id/:id/versions/:versionId', authenticate, authorizeFile('view'), asyncHandler(downloadFileVersion));
+
+/**
+ * @route   POST /api/files/id/:id/versions/:versionId/restore
+ * @desc    Make a previous version the current content (the replaced content becomes a version)
+ * @access  Private (file owner, folder owner or grantee with 'edit', or admin; role with 'edit')
+ * @returns Updated file object
+ */
+router.post('/id/:id/versions/:versionId/restore', authenticate, authorize('edit'), authorizeFile('edit'), asyncHandler(restoreFileVersion));
 
 export default router;
@@ -1,13 +1,21 @@
 import express from 'express';
 import asyncHandler from '../middleware/asyncHandler';
 import authenticate from '../middleware/authenticate';
+import { authorize } from '../middleware/authorize';
 import {
     createFolder,
     renameFolder,
     deleteFolder,
     getRootFolderInfo,
     listFolderContents,
+    downloadFolderArchive,
 } from '../controllers/folderController';
+import {
+    listFolderGrants,
+    grantFolderAccess,
+    revokeFolderGrant,
+    listSharedWithMe,
+} from '../controllers/folderGrantController';
 
 const router = express.Router();
 
@@ -15,6 +23,7 @@ const router = express.Router();
  * Folder Routes
  * - Manage directories within FILES_DIR
  * - All paths are relative to FILES_DIR root
+ * - Share folders with other accounts through grants (view/upload/edit)
  */
 
 /**
@@ -27,33 +36,74 @@ router.get('/root', authenticate, asyncHandler(getRootFolderInfo));
 /**
  * @route   POST /api/folders
  * @desc    Create a new folder
- * @access  Private (authenticated users)
+ * @access  Private (owner of the parent folder, grantee with 'upload', or admin; role with 'upload')
+ * @note    Folders created inside a shared folder belong to that folder's owner
  * @body    { path: "relative/folder/path" }
  */
-router.post('/', authenticate, asyncHandler(createFolder));
+router.post('/', authenticate, authorize('upload'), asyncHandler(createFolder));
 
 /**
  * @route   PATCH /api/folders/rename
  * @desc    Rename (move) a folder
- * @access  Private (authenticated users)
+ * @access  Private (folder owner, grantee with 'edit', or admin; role with 'edit')
  * @body    { oldPath: "old/path", newPath: "new/path" }
  */
-router.patch('/rename', authenticate, asyncHandler(renameFolder));
+router.patch('/rename', authenticate, authorize('edit'), asyncHandler(renameFolder));
 
 /**
  * @route   DELETE /api/folders
  * @desc    Delete an empty folder
- * @access  Private (authenticated users)
+ * @access  Private (folder owner, grantee with 'edit', or admin; role with 'delete')
  * @body    { path: "relative/folder/path" }
  */
-router.delete('/', authenticate, asyncHandler(deleteFolder));
+router.delete('/', authenticate, authorize('delete'), asyncHandler(deleteFolder));
 
 /**
  * @route   GET /api/folders/list
  * @desc    List files and subfolders in a directory
- * @access  Private (authenticated users)
+ * @access  Private (folder owner, grantee, or admin)
  * @query   ?path=relative/folder/path (optional, defaults to root)
+ * @returns { path, access: 'view'|'upload'|'edit'|'owner', contents[] }
  */
 router.get('/list', authenticate, asyncHandler(listFolderContents));
 
+/**
+ * @route   GET /api/folders/archive
+ * @desc    Download a folder and its contents as a ZIP (streamed, not buffered)
+ * @access  Private (folder owner, grantee with 'view', or admin)
+ * @query   ?path=relative/folder/path (optional, defaults to root)
+ * @note    Only files and subfolders the caller may view are included
+ */
+router.get('/archive', authenticate, asyncHandler(downloadFolderArchive));
+
+/**
+ * @route   GET /api/folders/shared
+ * @desc    List folders other users have shared with the current user
+ * @access  Private (authenticated users)
+ */
+router.get('/shared', authenticate, asyncHandler(listSharedWithMe));
+
+/**
+ * @route   GET /api/folders/grants
+ * @desc    List who a folder is shared with
+ * @access  Private (folder owner or admin)
+ * @query   ?path=relative/folder/path
+ */
+router.get('/grants', authenticate, asyncHandler(listFolderGrants));
+
+/**
+ * @route   POST /api/folders/grants
+ * @desc    Share a folder with another user (or change their permission)
+ * @access  Private (folder owner or admin; role with 'share')
+ * @body    { path: "relative/folder/path", username: string, permission: 'view'|'upload'|'edit' }
+ */
+router.post('/grants', authenticate, authorize('share'), asyncHandler(grantFolderAccess));
+
+/**
+ * @route   DELETE /api/folders/grants/:id
+ * @desc    Stop sharing a folder with a user
+ * @access  Private (folder owner, the grantee themselves, or admin)
+ */
+router.delete('/grants/:id', authenticate, asyncHandler(revokeFolderGrant));
+
 export default router;
@@ -3,6 +3,10 @@ import userRoutes from './userRoutes';
 import fileRoutes from './fileRoutes';
 import folderRoutes from './folderRoutes';
 import accountRoutes from './accountRoutes';
+import adminRoutes from './adminRoutes';
+import shareRoutes from './shareRoutes';
+import dropRoutes from './dropRoutes';
+import publicRoutes from './publicRoutes';
 
 const router = express.Router();
 
@@ -12,6 +16,10 @@ router.use('/users', userRoutes);
 router.use('/files', fileRoutes);
 router.use('/folders', folderRoutes);
 router.use('/account', accountRoutes);
+router.use('/admin', adminRoutes);
+router.use('/shares', shareRoutes);
+router.use('/drops', dropRoutes);
+router.use('/public', publicRoutes);
 
 // API root — returns high-level info about the API
 router.get('/', (req, res) => {
@@ -24,6 +32,10 @@ router.get('/', (req, res) => {
             files: '/api/files',
             folders: '/api/folders',
             account: '/api/account',
+            admin: '/api/admin',
+            shares: '/api/shares',
+            drops: '/api/drops',
+            public: '/api/public',
         },
     });
 });
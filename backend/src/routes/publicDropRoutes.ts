@@ -0,0 +1,36 @@
+import express from 'express';
+import asyncHandler from '../middleware/asyncHandler';
+import upload, { enforceQuota } from '../middleware/multerHandler';
+import { getDropLink, openDropLink, uploadToDropLink } from '../controllers/dropLinkController';
+
+const router = express.Router();
+
+/**
+ * Public Drop Routes (mounted at /d)
+ * - Unauthenticated, upload-only access to drop links by token
+ * - Nothing can be listed or downloaded through these routes
+ * - Password-protected links expect `X-Share-Password`; repeated wrong
+ *   passwords lock the client out of the link for a while (429)
+ */
+
+/**
+ * @route   GET /d/:token
+ * @desc    Landing info for a drop link (folder name, limits, whether a password/name is needed)
+ * @access  Public
+ */
+router.get('/:token', asyncHandler(getDropLink));
+
+/**
+ * @route   POST /d/:token/upload
+ * @desc    Upload one file into the link's folder (name clashes keep both)
+ * @access  Public
+ * @middleware openDropLink - Validates the link and password, pins the destination folder
+ * @middleware enforceQuota - Refuses uploads that cannot fit in the link creator's storage quota (413)
+ * @body    file - The file to upload (multipart)
+ * @body    uploaderName - Who is sending the file (required when the link asks for it)
+ * @note    uploadTracker is left out: its abort cleanup removes the destination folder,
+ *          which anonymous uploaders must never be able to trigger. Multer drops partial files itself.
+ */
+router.post('/:token/upload', asyncHandler(openDropLink), enforceQuota, upload.single('file'), asyncHandler(uploadToDropLink));
+
+export default router;
@@ -0,0 +1,30 @@
+import express from 'express';
+import asyncHandler from '../middleware/asyncHandler';
+import { listPublicFiles, downloadPublicFile } from '../controllers/publicGalleryController';
+
+const router = express.Router();
+
+/**
+ * Public Gallery Routes
+ * - Unauthenticated, read-only access to the files a user has published
+ * - Files are published by setting `is_public` (PATCH /api/files/id/:id)
+ */
+
+/**
+ * @route   GET /api/public/:username
+ * @desc    List a user's published files
+ * @access  Public
+ * @returns { username, files: [{ id, name, size, mimeType, createdAt }] }
+ */
+router.get('/:username', asyncHandler(listPublicFiles));
+
+/**
+ * @route   GET /api/public/:username/files/:id
+ * @desc    Download/stream a published file
+ * @access  Public
+ * @query   ?disposition=attachment|inline - Content-Disposition type (default inline)
+ * @header  Range, If-None-Match, If-Modified-Since, If-Range - Partial and conditional requests
+ */
+router.get('/:username/files/:id', asyncHandler(downloadPublicFile));
+
+export default router;
@@ -0,0 +1,32 @@
+import express from 'express';
+import asyncHandler from '../middleware/asyncHandler';
+import { getSharedLink, downloadSharedLink } from '../controllers/shareController';
+
+const router = express.Router();
+
+/**
+ * Public Share Routes (mounted at /s)
+ * - Unauthenticated access to share links by token
+ * - Password-protected links expect `X-Share-Password`; repeated wrong
+ *   passwords lock the client out of the link for a while (429)
+ */
+
+/**
+ * @route   GET /s/:token
+ * @desc    Landing info for a share link (name, type, limits, contents once unlocked)
+ * @access  Public
+ */
+router.get('/:token', asyncHandler(getSharedLink));
+
+/**
+ * @route   GET /s/:token/download
+ * @desc    Download the shared file (folder links: `?fileId=` picks a file inside)
+ * @access  Public
+ * @query   ?disposition=attachment|inline - Content-Disposition type (default inline)
+ * @note    Supports Range and conditional requests. Responses from byte 0 count toward the
+ *          limit and set a grant cookie that lets later ranges of the file through for free;
+ *          304 revalidations don't count
+ */
+router.get('/:token/download', asyncHandler(downloadSharedLink));
+
+export default router;
@@ -0,0 +1,42 @@
+import express from 'express';
+import asyncHandler from '../middleware/asyncHandler';
+import authenticate from '../middleware/authenticate';
+import { authorize } from '../middleware/authorize';
+import {
+    createShareLink,
+    listShareLinks,
+    revokeShareLink,
+} from '../controllers/shareController';
+
+const router = express.Router();
+
+/**
+ * Share Link Routes
+ * - Manage tokenized public links to files and folders
+ * - Visitors use the public `/s/:token` routes (see publicShareRoutes)
+ */
+
+/**
+ * @route   GET /api/shares
+ * @desc    List the current user's active share links
+ * @access  Private (authenticated users)
+ * @query   ?fileId=xyz - Only links for this file
+ */
+router.get('/', authenticate, asyncHandler(listShareLinks));
+
+/**
+ * @route   POST /api/shares
+ * @desc    Create a share link for a file or folder
+ * @access  Private (owner of the file/folder or admin; role with 'share')
+ * @body    { fileId?: string, folderPath?: string, expiresAt?: ISO string, password?: string, maxDownloads?: number }
+ */
+router.post('/', authenticate, authorize('share'), asyncHandler(createShareLink));
+
+/**
+ * @route   DELETE /api/shares/:id
+ * @desc    Revoke a share link
+ * @access  Private (link creator or admin)
+ */
+router.delete('/:id', authenticate, asyncHandler(revokeShareLink));
+
+export default router;
@@ -1,7 +1,19 @@
 import express, { Request, Response, NextFunction } from 'express';
 import asyncHandler from '../middleware/asyncHandler';
-import authenticate from '../middleware/authenticate';
-import { loginUser, getCurrentUser, logoutUser } from '../controllers';
+import authenticate, { requireSession } from '../middleware/authenticate';
+import {
+    loginUser,
+    registerUser,
+    loginTwoFactor,
+    refreshToken,
+    getOidcConfig,
+    startOidcLogin,
+    oidcCallback,
+    exchangeOidcCode,
+    getCurrentUser,
+    logoutUser,
+    logoutOtherSessions,
+} from '../controllers';
 
 const router = express.Router();
 
@@ -11,13 +23,86 @@ const router = express.Router();
  * @access  Public
  * @todo    Implement single-user authentication using env variables (e.g. ADMIN_USERNAME, ADMIN_PASSWORD)
  * @todo    Replace with DB-based user management later
+ * @note    Repeated failures lock the username / client IP out for a while:
+ *          429 with a Retry-After header (seconds).
  */
 router.post('/login', asyncHandler(loginUser));
 
+/**
+ * @route   POST /api/users/register
+ * @desc    Create an account with an admin-issued invite code
+ * @access  Public (the invite code is the credential)
+ * @body    { code: string, username: string, password: string } - password min 6 chars
+ * @returns { token, refreshToken, user } - the new account is signed in
+ * @note    Invites are created at /api/admin/invites and may preset the
+ *          account's role and storage quota.
+ */
+router.post('/register', asyncHandler(registerUser));
+
+/**
+ * @route   POST /api/users/login/2fa
+ * @desc    Complete sign-in for accounts with two-factor authentication
+ * @access  Public (requires the challenge token from /login)
+ * @body    { challengeToken: string, code: string } - TOTP or recovery code
+ * @returns { token, refreshToken, user }
+ * @note    /login answers { twoFactorRequired: true, challengeToken } for
+ *          these accounts; the challenge token is valid for 5 minutes.
+ */
+router.post('/login/2fa', asyncHandler(loginTwoFactor));
+
+/**
+ * @route   POST /api/users/refresh
+ * @desc    Exchange a refresh token for a new access token
+ * @access  Public (the refresh token is the credential)
+ * @body    { refreshToken: string }
+ * @returns { token, refreshToken, user }
+ * @note    Refresh tokens rotate: the token sent is invalid afterwards.
+ *          Replaying an old token revokes the whole session.
+ */
+router.post('/refresh', asyncHandler(refreshToken));
+
+/**
+ * @route   GET /api/users/oidc
+ * @desc    Whether OpenID Connect single sign-on is configured
+ * @access  Public
+ * @returns { enabled: boolean }
+ */
+router.get('/oidc', asyncHandler(getOidcConfig));
+
+/**
+ * @route   GET /api/users/oidc/login
+ * @desc    Start SSO: redirects to the identity provider (authorization code + PKCE)
+ * @access  Public
+ * @query   returnTo - Frontend origin to return to (must be in OIDC_FRONTEND_ORIGINS)
+ */
+router.get('/oidc/login', asyncHandler(startOidcLogin));
+
+/**
+ * @route   GET /api/users/oidc/callback
+ * @desc    Redirect URI for the identity provider (set OIDC_REDIRECT_URI to it)
+ * @access  Public (validated by the state parameter)
+ * @note    Redirects to <returnTo>/login?sso=<code> or ?ssoError=<message>.
+ *          Users are matched by IdP subject; same-named non-admin local
+ *          accounts are linked only with OIDC_LINK_EXISTING=true, and
+ *          unknown users are created only with OIDC_AUTO_PROVISION=true.
+ */
+router.get('/oidc/callback', asyncHandler(oidcCallback));
+
+/**
+ * @route   POST /api/users/oidc/exchange
+ * @desc    Trade the one-time code from the callback for a session
+ * @access  Public (the code is the credential; single use, valid 60 seconds)
+ * @body    { code: string }
+ * @returns { token, refreshToken, user } or, with 2FA enabled,
+ *          { twoFactorRequired: true, challengeToken } for /login/2fa
+ */
+router.post('/oidc/exchange', asyncHandler(exchangeOidcCode));
+
 /**
  * @route   GET /api/users/me
- * @desc    Return authenticated user
+ * @desc    Return authenticated user with their role's capabilities
  * @access  Private
+ * @returns { user: { id, username, role, capabilities[] } }
  * @todo    Implement authentication middleware that decodes/validates JWT
  * @todo    For now, read user info from env vars and return
  */
@@ -25,19 +110,25 @@ router.get('/me', authenticate, asyncHandler(getCurrentUser));
 
 /**
  * @route   POST /api/users/logout
- * @desc    Stateless logout route. Instructs the client to delete any stored
- *          access token (client-side) and attempts to clear a cookie named
- *          `token` if present
- * @access  Private
- * @todo    Implement token revocation or other server-side logout flow if
- *          immediate invalidation is required.
+ * @desc    Revoke the current session; its access and refresh tokens stop
+ *          working immediately. Also clears a cookie named `token` if present
+ * @access  Private (signed-in session; API tokens are refused)
+ */
+router.post('/logout', authenticate, requireSession, asyncHandler(logoutUser));
+
+/**
+ * @route   POST /api/users/logout-others
+ * @desc    Sign out all other devices (revoke every session but the current one)
+ * @access  Private (signed-in session; API tokens are refused)
+ * @returns { revoked: number }
  */
-router.post('/logout', authenticate, asyncHandler(logoutUser));
+router.post('/logout-others', authenticate, requireSession, asyncHandler(logoutOtherSessions));
 
 /**
- * RBAC (Role-based access control) notes for user routes
- * @todo Implement a middleware (e.g., `authorize(role)`) that checks `req.user.role`
- * @todo For single-user mode, consider setting a role via env var (e.g., ADMIN_ROLE)
+ * RBAC (Role-based access control)
+ * - Roles and their capabilities live in the `roles` table (see models/roles)
+ * - Other routers guard actions with `authorize(capability)` from
+ *   middleware/authorize; the user routes only need `authenticate`
  */
 
 export default router;
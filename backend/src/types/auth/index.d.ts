@@ -11,6 +11,9 @@ export interface UserClaim {
     username: string;
     role: string;
     v?: string; // Used to invalidate tokens when user record changes
+    sid?: string; // Session the token was issued for (revocable)
+    tid?: string; // API token used for the request (personal access tokens only)
+    scope?: 'read' | 'upload' | 'full'; // What that API token may do
     iat?: number;
     exp?: number;
 }
@@ -0,0 +1,174 @@
+import path from 'path';
+import { deleteUser, type UserRecord } from '../models/users';
+import {
+    deleteFilePermanent,
+    generateUniqueOriginalNameInFolder,
+    listFiles,
+    listFilesUnderFolder,
+    updateFile,
+    type FileRecord,
+} from '../models/files';
+import { deleteFolderByPath, listFolders, reassignFolderOwner } from '../models/folders';
+import { reassignShareLinkOwner, revokeOwnerShareLinks } from '../models/shareLinks';
+import { reassignDropLinkOwner, revokeOwnerDropLinks } from '../models/dropLinks';
+import { deleteFolderGrantsUnder, deleteUserFolderGrants } from '../models/folderGrants';
+import { listUploads } from '../models/resumableUploads';
+import { deleteUserSessions } from '../models/sessions';
+import { deleteUserApiTokens } from '../models/apiTokens';
+import { FileNotFoundError, FileStorageError } from '../middleware/errors';
+import * as fileStorage from './fileStorage';
+import { purgeFileVersions } from './fileVersioning';
+import { recalculateParentFolderSizes } from './folderSizeUtil';
+import { discardUpload } from './uploadStaging';
+import { unlockAccount } from './loginThrottle';
+import { info, error as logError } from './logger';
+
+/**
+ * Account Deletion
+ * ================
+ * Removes a user together with everything tied to the account. Their files
+ * and folders are either deleted for good (content, versions and rows, with
+ * folder sizes recalculated) or handed to another user.
+ *
+ * Unfinished uploads, sessions, API tokens, folders shared with the user
+ * and sign-in counters are always removed. Callers are responsible for
+ * permission checks and the last-admin guard.
+ */
+
+/** What happens to the files and folders of a deleted account. */
+export type OwnedDataHandling = { action: 'delete' } | { action: 'transfer'; toUserId: string };
+
+/** Files and folders deleted or transferred. */
+export interface AccountDeletionReport {
+    files: number;
+    folders: number;
+}
+
+/** Folder a file lives in ('' for the root). */
+function folderOf(file: FileRecord): string {
+    const folder = path.posix.dirname(file.storage_path);
+    return folder === '.' ? '' : folder;
+}
+
+/** Every file of a user, active and in Trash. */
+function listOwnedFiles(userId: string): FileRecord[] {
+    return [
+        ...listFiles({ ownerId: userId, status: 'active' }),
+        ...listFiles({ ownerId: userId, status: 'deleted' }),
+    ] as FileRecord[];
+}
+
+/**
+ * Permanently delete a user's files (content, versions, rows) and the
+ * folders they own once empty. Folders still holding other users' files
+ * are kept and become admin-only.
+ * @throws {FileStorageError} If some file content could not be deleted;
+ *   the remaining files, folders and links are left for a retry
+ */
+async function deleteOwnedData(userId: string): Promise<AccountDeletionReport> {
+    const touched = new Set<string>();
+    let files = 0;
+    let failed = 0;
+
+    for (const file of listOwnedFiles(userId)) {
+        try {
+            await fileStorage.deleteFile(file.storage_path, file.storage_provider);
+        } catch (err) {
+            // Content already gone — still drop the row
+            if (!(err instanceof FileNotFoundError)) {
+                logError('Failed to delete file of deleted account', { id: file.id, err });
+                failed++;
+                continue;
+            }
+        }
+
+        await purgeFileVersions(file.id);
+        deleteFilePermanent(file.id);
+        touched.add(folderOf(file));
+        files++;
+    }
+
+    if (failed > 0) {
+        for (const folderPath of touched) {
+            recalculateParentFolderSizes(folderPath);
+        }
+        throw new FileStorageError(`Could not delete ${failed} file(s) of this account. The account was kept; please try again.`);
+    }
+
+    // Deepest folders first so parents are empty by the time we reach them
+    const owned = listFolders({ ownerId: userId }).sort((a, b) => b.path.split('/').length - a.path.split('/').length);
+    let folders = 0;
+
+    for (const folder of owned) {
+        if (listFilesUnderFolder(folder.path, 'active').length > 0 || listFilesUnderFolder(folder.path, 'deleted').length > 0) {
+            continue;
+        }
+        try {
+            await fileStorage.deleteFolder(folder.path);
+        } catch (err) {
+            // Missing on disk is fine; anything else (e.g. other users' subfolders) keeps it
+            if (!(err instanceof FileNotFoundError)) continue;
+        }
+        deleteFolderByPath(folder.path);
+        deleteFolderGrantsUnder(folder.path);
+        touched.add(path.posix.dirname(folder.path) === '.' ? '' : path.posix.dirname(folder.path));
+        folders++;
+    }
+
+    reassignFolderOwner(userId, null);
+    revokeOwnerShareLinks(userId);
+    revokeOwnerDropLinks(userId);
+
+    for (const folderPath of touched) {
+        recalculateParentFolderSizes(folderPath);
+    }
+
+    return { files, folders };
+}
+
+/**
+ * Hand a user's files, folders, share links and drop links to another user. Active
+ * files whose name the recipient already uses in that folder are renamed
+ * with a numbered suffix.
+ */
+function transferOwnedData(fromUserId: string, toUserId: string): AccountDeletionReport {
+    const files = listOwnedFiles(fromUserId);
+
+    for (const file of files) {
+        const originalName = file.status === 'active'
+            ? generateUniqueOriginalNameInFolder(file.original_name, folderOf(file), toUserId)
+            : file.original_name;
+        updateFile(file.id, { owner_id: toUserId, original_name: originalName });
+    }
+
+    const folders = reassignFolderOwner(fromUserId, toUserId);
+    reassignShareLinkOwner(fromUserId, toUserId);
+    reassignDropLinkOwner(fromUserId, toUserId);
+
+    return { files: files.length, folders };
+}
+
+/**
+ * Delete a user account and handle the data it owns. The user is only
+ * removed once all of it has been deleted or transferred.
+ * @returns How many files and folders were deleted or transferred
+ * @throws {FileStorageError} If some of the user's files could not be deleted
+ */
+export async function deleteAccount(user: UserRecord, handling: OwnedDataHandling): Promise<AccountDeletionReport> {
+    for (const upload of listUploads({ ownerId: user.id })) {
+        await discardUpload(upload.id);
+    }
+
+    const report = handling.action === 'transfer'
+        ? transferOwnedData(user.id, handling.toUserId)
+        : await deleteOwnedData(user.id);
+
+    deleteUserSessions(user.id);
+    deleteUserApiTokens(user.id);
+    deleteUserFolderGrants(user.id);
+    unlockAccount(user.username);
+    deleteUser(user.id);
+
+    info('Account deleted', { username: user.username, action: handling.action, ...report });
+    return report;
+}
@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import { getUserById } from '../models/users';
+import { createApiToken, getApiTokenByHash, touchApiToken, type ApiTokenRecord, type ApiTokenScope } from '../models/apiTokens';
+import type { UserClaim } from '../types/auth';
+import { buildUserClaim } from './session';
+
+/**
+ * API Tokens
+ * ==========
+ * Personal access tokens for scripts and CLI use. They are sent like access
+ * tokens (`Authorization: Bearer mxb_...`) but never expire; users revoke
+ * them from their account. Only SHA-256 hashes are stored.
+ *
+ * Scopes:
+ * - read:   GET/HEAD requests only
+ * - upload: uploads (single, batch, resumable) and folder creation
+ * - full:   everything the user can do
+ *
+ * No token may manage the account itself (password, 2FA, sessions, tokens);
+ * those routes use the `requireSession` middleware.
+ */
+
+/** Marks a bearer token as an API token rather than a JWT. */
+export const API_TOKEN_PREFIX = 'mxb_';
+
+/** Characters of the token kept in clear for display. */
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+/** Read-only endpoints that take a POST body; a `read` token may call them too. */
+const READ_POST_PATHS = ['/api/files/archive'];
+
+/** Endpoints an `upload` token may call (any method). */
+const UPLOAD_PATHS = ['/api/files/upload', '/api/files/upload/batch', '/api/files/uploads'];
+
+function hashApiToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Routing ignores case and repeated slashes; compare paths the same way
+ * so `/API//files/upload` can't slip past the lists above.
+ */
+function normalizePath(path: string): string {
+    return path.toLowerCase().replace(/\/{2,}/g, '/');
+}
+
+/** True when `path` is `base` or lies beneath it. */
+function isUnder(path: string, base: string): boolean {
+    return path === base || path.startsWith(`${base}/`);
+}
+
+/** True when a bearer token looks like an API token. */
+export function isApiToken(token: string): boolean {
+    return token.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * Create a token for a user.
+ * @returns The stored record and the token itself (shown to the user once)
+ */
+export function issueApiToken(userId: string, name: string, scope: ApiTokenScope): { record: ApiTokenRecord; token: string } {
+    const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const record = createApiToken({
+        userId,
+        name,
+        scope,
+        tokenHash: hashApiToken(token),
+        tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+    });
+    return { record, token };
+}
+
+/**
+ * Resolve an API token to the claim of its user, carrying the token id
+ * (`tid`) and scope.
+ * @throws Error if the token is unknown or the account can't sign in
+ */
+export function verifyApiToken(token: string): UserClaim {
+    const record = getApiTokenByHash(hashApiToken(token));
+    if (!record) {
+        throw new Error('Invalid API token');
+    }
+
+    const user = getUserById(record.user_id);
+    if (!user) {
+        throw new Error('Token invalid: user no longer exists');
+    }
+    if (user.disabled) {
+        throw new Error('Token invalid: account is disabled');
+    }
+
+    touchApiToken(record.id);
+    return { ...buildUserClaim(user), tid: record.id, scope: record.scope };
+}
+
+/**
+ * True when a token with `scope` may make this request.
+ * @param method - HTTP method
+ * @param path - Full request path without query string (e.g. /api/files/upload)
+ */
+export function isAllowedForScope(scope: ApiTokenScope, method: string, requestPath: string): boolean {
+    const path = normalizePath(requestPath);
+
+    switch (scope) {
+        case 'full':
+            return true;
+        case 'read':
+            return method === 'GET' || method === 'HEAD' || (method === 'POST' && READ_POST_PATHS.includes(path));
+        case 'upload':
+            return UPLOAD_PATHS.some((base) => isUnder(path, base)) || (method === 'POST' && path === '/api/folders');
+        default:
+            return false;
+    }
+}
@@ -0,0 +1,518 @@
+import { once } from 'events';
+import fs from 'fs';
+import { PassThrough, Readable, Transform } from 'stream';
+import zlib from 'zlib';
+import { ValidationError } from '../middleware/errors';
+
+/**
+ * Archive Reader
+ * ==============
+ * Reads ZIP, tar and gzip-compressed tar archives from disk without
+ * extracting them first, so uploads can be unpacked entry by entry.
+ *
+ * - ZIP: central directory (incl. ZIP64), stored and deflated entries;
+ *   actual sizes and CRCs are verified while reading since declared sizes
+ *   can't be trusted
+ * - tar: ustar/pax/GNU long names; links and devices are reported as
+ *   unsupported
+ * - Entry names are returned as stored: callers must validate them (zip
+ *   slip) before using them as paths
+ * - `limits` are checked from the headers before any content is read
+ */
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+/** An entry as described by the archive's headers. */
+export interface ArchiveEntry {
+    /** Path inside the archive, '/'-separated as stored */
+    name: string;
+    /** 'unsupported' covers links, devices, encrypted and unknown compression */
+    type: 'file' | 'directory' | 'unsupported';
+    /** Uncompressed size in bytes (0 for directories) */
+    size: number;
+    modifiedAt: Date | null;
+}
+
+/** Refuse archives with more entries or file bytes than this. */
+export interface ArchiveLimits {
+    maxEntries: number;
+    maxTotalSize: number;
+}
+
+/**
+ * Called for each file entry while extracting. `open()` returns the
+ * entry's content and may be called at most once; entries that are not
+ * opened are skipped. Errors thrown here stop the extraction.
+ */
+export type ArchiveFileHandler = (entry: ArchiveEntry, open: () => Promise<Readable>) => Promise<void>;
+
+/** Archive format from a file name, or null when it isn't a supported archive. */
+export function detectArchiveFormat(filename: string): ArchiveFormat | null {
+    const lower = filename.toLowerCase();
+    if (lower.endsWith('.zip')) return 'zip';
+    if (lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) return 'tar.gz';
+    if (lower.endsWith('.tar')) return 'tar';
+    return null;
+}
+
+/** Running entry and size totals checked against the limits. */
+function createLimitTracker(limits: ArchiveLimits) {
+    let entries = 0;
+    let totalSize = 0;
+    return (entry: ArchiveEntry) => {
+        entries++;
+        totalSize += entry.type === 'file' ? entry.size : 0;
+        if (entries > limits.maxEntries) {
+            throw new ValidationError(`Archive has more than ${limits.maxEntries} entries`);
+        }
+        if (totalSize > limits.maxTotalSize) {
+            throw new ValidationError(`Archive extracts to more than ${limits.maxTotalSize} bytes`);
+        }
+    };
+}
+
+// ============================================
+// ZIP
+// ============================================
+
+/** A central directory record with what's needed to read the entry. */
+interface ZipRecord {
+    entry: ArchiveEntry;
+    method: number;
+    crc: number;
+    compressedSize: number;
+    localHeaderOffset: number;
+}
+
+const UINT32_MAX = 0xffffffff;
+
+/** MS-DOS date and time fields to a Date (local time). */
+function fromDosDateTime(date: number, time: number): Date | null {
+    if (date === 0) return null;
+    return new Date(
+        (date >> 9) + 1980, ((date >> 5) & 0x0f) - 1, date & 0x1f,
+        time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2
+    );
+}
+
+/** Names without the UTF-8 flag are usually UTF-8 anyway; otherwise read them as Latin-1. */
+function decodeZipName(raw: Buffer, utf8: boolean): string {
+    const decoded = raw.toString('utf8');
+    if (utf8 || Buffer.from(decoded, 'utf8').equals(raw)) return decoded;
+    return raw.toString('latin1');
+}
+
+async function readAt(handle: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, position);
+    if (bytesRead !== length) throw new ValidationError('Invalid ZIP archive: unexpected end of file');
+    return buffer;
+}
+
+/** Locate and parse the central directory. */
+async function readZipRecords(handle: fs.promises.FileHandle, limits: ArchiveLimits): Promise<ZipRecord[]> {
+    const { size: fileSize } = await handle.stat();
+
+    // End of central directory: 22 bytes plus a comment of up to 64 KB
+    const tailLength = Math.min(fileSize, 22 + 0xffff);
+    const tail = await readAt(handle, fileSize - tailLength, tailLength);
+    let eocd = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+        if (tail.readUInt32LE(i) === 0x06054b50) { eocd = i; break; }
+    }
+    if (eocd < 0) throw new ValidationError('Invalid ZIP archive: end of central directory not found');
+
+    let entryCount = tail.readUInt16LE(eocd + 10);
+    let directorySize = tail.readUInt32LE(eocd + 12);
+    let directoryOffset = tail.readUInt32LE(eocd + 16);
+
+    // ZIP64 end of central directory, found through the locator just before
+    if (entryCount === 0xffff || directorySize === UINT32_MAX || directoryOffset === UINT32_MAX) {
+        const locatorAt = fileSize - tailLength + eocd - 20;
+        const locator = locatorAt >= 0 ? await readAt(handle, locatorAt, 20) : null;
+        if (!locator || locator.readUInt32LE(0) !== 0x07064b50) {
+            throw new ValidationError('Invalid ZIP archive: ZIP64 locator not found');
+        }
+        const record = await readAt(handle, Number(locator.readBigUInt64LE(8)), 56);
+        if (record.readUInt32LE(0) !== 0x06064b50) {
+            throw new ValidationError('Invalid ZIP archive: ZIP64 end of central directory not found');
+        }
+        entryCount = Number(record.readBigUInt64LE(32));
+        directorySize = Number(record.readBigUInt64LE(40));
+        directoryOffset = Number(record.readBigUInt64LE(48));
+    }
+
+    if (entryCount > limits.maxEntries) {
+        throw new ValidationError(`Archive has more than ${limits.maxEntries} entries`);
+    }
+    if (directoryOffset + directorySize > fileSize) {
+        throw new ValidationError('Invalid ZIP archive: central directory out of range');
+    }
+
+    const directory = await readAt(handle, directoryOffset, directorySize);
+    const track = createLimitTracker(limits);
+    const records: ZipRecord[] = [];
+    let pos = 0;
+
+    for (let i = 0; i < entryCount; i++) {
+        if (pos + 46 > directory.length || directory.readUInt32LE(pos) !== 0x02014b50) {
+            throw new ValidationError('Invalid ZIP archive: corrupt central directory');
+        }
+        const flags = directory.readUInt16LE(pos + 8);
+        const method = directory.readUInt16LE(pos + 10);
+        const time = directory.readUInt16LE(pos + 12);
+        const date = directory.readUInt16LE(pos + 14);
+        const crc = directory.readUInt32LE(pos + 16);
+        let compressedSize = directory.readUInt32LE(pos + 20);
+        let size = directory.readUInt32LE(pos + 24);
+        const nameLength = directory.readUInt16LE(pos + 28);
+        const extraLength = directory.readUInt16LE(pos + 30);
+        const commentLength = directory.readUInt16LE(pos + 32);
+        const externalAttributes = directory.readUInt32LE(pos + 38);
+        let localHeaderOffset = directory.readUInt32LE(pos + 42);
+
+        const nameStart = pos + 46;
+        const extraStart = nameStart + nameLength;
+        const next = extraStart + extraLength + commentLength;
+        if (next > directory.length) throw new ValidationError('Invalid ZIP archive: corrupt central directory');
+
+        const name = decodeZipName(directory.subarray(nameStart, extraStart), (flags & 0x0800) !== 0);
+
+        // ZIP64 extra field holds whichever values overflowed, in this order
+        for (let at = extraStart; at + 4 <= extraStart + extraLength;) {
+            const id = directory.readUInt16LE(at);
+            const length = directory.readUInt16LE(at + 2);
+            if (id === 0x0001) {
+                let field = at + 4;
+                if (size === UINT32_MAX) { size = Number(directory.readBigUInt64LE(field)); field += 8; }
+                if (compressedSize === UINT32_MAX) { compressedSize = Number(directory.readBigUInt64LE(field)); field += 8; }
+                if (localHeaderOffset === UINT32_MAX) { localHeaderOffset = Number(directory.readBigUInt64LE(field)); }
+            }
+            at += 4 + length;
+        }
+
+        const unixType = (externalAttributes >>> 16) & 0o170000;
+        const isDirectory = name.endsWith('/');
+        const supported = (flags & 0x0001) === 0 // not encrypted
+            && (method === 0 || method === 8)
+            && (unixType === 0 || unixType === 0o100000 || unixType === 0o040000);
+
+        const entry: ArchiveEntry = {
+            name,
+            type: !supported ? 'unsupported' : isDirectory ? 'directory' : 'file',
+            size: isDirectory ? 0 : size,
+            modifiedAt: fromDosDateTime(date, time),
+        };
+        track(entry);
+        records.push({ entry, method, crc, compressedSize, localHeaderOffset });
+        pos = next;
+    }
+
+    return records;
+}
+
+/**
+ * Check an entry's actual content against its central directory record:
+ * more bytes than declared fails immediately (no inflating bombs), fewer
+ * bytes or a different CRC fails at the end.
+ */
+function createZipVerifier(record: ZipRecord): Transform {
+    let received = 0;
+    let crc = 0;
+    return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            received += chunk.length;
+            if (received > record.entry.size) {
+                callback(new ValidationError(`Archive entry is larger than declared: ${record.entry.name}`));
+                return;
+            }
+            crc = zlib.crc32(chunk, crc);
+            callback(null, chunk);
+        },
+        flush(callback) {
+            if (received !== record.entry.size || crc !== record.crc) {
+                callback(new ValidationError(`Archive entry is corrupt: ${record.entry.name}`));
+                return;
+            }
+            callback();
+        },
+    });
+}
+
+/** Open the content of one ZIP entry. */
+async function openZipEntry(handle: fs.promises.FileHandle, absolutePath: string, record: ZipRecord): Promise<Readable> {
+    const local = await readAt(handle, record.localHeaderOffset, 30);
+    if (local.readUInt32LE(0) !== 0x04034b50) {
+        throw new ValidationError(`Invalid ZIP archive: bad local header for ${record.entry.name}`);
+    }
+    const dataStart = record.localHeaderOffset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+
+    const verifier = createZipVerifier(record);
+    const raw = record.compressedSize > 0
+        ? fs.createReadStream(absolutePath, { start: dataStart, end: dataStart + record.compressedSize - 1 })
+        : Readable.from([]);
+    const decoded = record.method === 8 ? raw.pipe(zlib.createInflateRaw()) : raw;
+
+    // pipe() doesn't forward errors; surface them on the returned stream
+    raw.on('error', (err: Error) => verifier.destroy(err));
+    if (decoded !== raw) decoded.on('error', (err: Error) => verifier.destroy(err));
+    verifier.on('close', () => raw.destroy());
+    return decoded.pipe(verifier);
+}
+
+// ============================================
+// tar
+// ============================================
+
+const TAR_BLOCK = 512;
+
+/** Pull-based reader over a byte stream. */
+function createByteReader(source: Readable) {
+    const iterator = source[Symbol.asyncIterator]() as AsyncIterator<Buffer>;
+    let pending: Buffer = Buffer.alloc(0);
+
+    async function pull(): Promise<boolean> {
+        const { value, done } = await iterator.next();
+        if (done) return false;
+        pending = pending.length > 0 ? Buffer.concat([pending, value]) : value;
+        return true;
+    }
+
+    return {
+        /** Exactly `length` bytes, or null at the end of the stream. */
+        async read(length: number): Promise<Buffer | null> {
+            while (pending.length < length) {
+                if (!(await pull())) return null;
+            }
+            const out = pending.subarray(0, length);
+            pending = pending.subarray(length);
+            return out;
+        },
+        /** The next `length` bytes in chunks as they arrive. */
+        async *take(length: number): AsyncGenerator<Buffer> {
+            let left = length;
+            while (left > 0) {
+                if (pending.length === 0 && !(await pull())) {
+                    throw new ValidationError('Invalid tar archive: unexpected end of file');
+                }
+                const chunk = pending.subarray(0, Math.min(left, pending.length));
+                pending = pending.subarray(chunk.length);
+                left -= chunk.length;
+                yield chunk;
+            }
+        },
+        close() {
+            source.destroy();
+        },
+    };
+}
+
+/** NUL-terminated string field. */
+function readTarString(block: Buffer, offset: number, length: number): string {
+    const field = block.subarray(offset, offset + length);
+    const end = field.indexOf(0);
+    return field.subarray(0, end < 0 ? field.length : end).toString('utf8');
+}
+
+/** Octal number field, or GNU base-256 when the high bit is set. */
+function readTarNumber(block: Buffer, offset: number, length: number): number {
+    const field = block.subarray(offset, offset + length);
+    if (field[0] & 0x80) {
+        let value = 0;
+        for (let i = 1; i < field.length; i++) value = value * 256 + field[i];
+        return value;
+    }
+    const text = field.toString('ascii').replace(/\0.*$/, '').trim();
+    return text ? parseInt(text, 8) : 0;
+}
+
+function isValidTarHeader(block: Buffer): boolean {
+    const expected = readTarNumber(block, 148, 8);
+    let sum = 0;
+    for (let i = 0; i < TAR_BLOCK; i++) {
+        sum += i >= 148 && i < 156 ? 0x20 : block[i];
+    }
+    return sum === expected;
+}
+
+/** `key=value` records of a pax extended header. */
+function parsePaxHeader(data: Buffer): Record<string, string> {
+    const fields: Record<string, string> = {};
+    let pos = 0;
+    while (pos < data.length) {
+        const space = data.indexOf(0x20, pos);
+        if (space < 0) break;
+        const length = parseInt(data.subarray(pos, space).toString('ascii'), 10);
+        if (!length || length <= 0) break;
+        const record = data.subarray(space + 1, pos + length - 1).toString('utf8');
+        const eq = record.indexOf('=');
+        if (eq > 0) fields[record.slice(0, eq)] = record.slice(eq + 1);
+        pos += length;
+    }
+    return fields;
+}
+
+function openTarSource(absolutePath: string, format: ArchiveFormat): Readable {
+    const file = fs.createReadStream(absolutePath);
+    if (format !== 'tar.gz') return file;
+    const gunzip = zlib.createGunzip();
+    file.on('error', (err) => gunzip.destroy(err));
+    gunzip.on('close', () => file.destroy());
+    return file.pipe(gunzip);
+}
+
+/** Copy an entry's bytes into `out` while the consumer reads; discard them once it stops. */
+async function feedTarEntry(chunks: AsyncGenerator<Buffer>, out: PassThrough): Promise<void> {
+    for await (const chunk of chunks) {
+        if (out.destroyed) continue;
+        if (!out.write(chunk)) {
+            await Promise.race([once(out, 'drain'), once(out, 'close')]).catch(() => undefined);
+        }
+    }
+    if (!out.destroyed) out.end();
+}
+
+/**
+ * Walk a tar archive's headers, calling `onFile` for each file entry.
+ * Without a handler entry contents are skipped.
+ */
+async function walkTar(
+    absolutePath: string,
+    format: ArchiveFormat,
+    limits: ArchiveLimits,
+    onEntry: (entry: ArchiveEntry) => void,
+    onFile?: ArchiveFileHandler
+): Promise<void> {
+    const reader = createByteReader(openTarSource(absolutePath, format));
+    const track = createLimitTracker(limits);
+    let longName: string | null = null;
+    let pax: Record<string, string> = {};
+
+    try {
+        for (;;) {
+            const block = await reader.read(TAR_BLOCK);
+            // A zero block (or a truncated tail) ends the archive
+            if (!block || block.every((byte) => byte === 0)) break;
+            if (!isValidTarHeader(block)) throw new ValidationError('Invalid tar archive: bad header checksum');
+
+            const typeFlag = String.fromCharCode(block[156] || 0x30);
+            const headerSize = readTarNumber(block, 124, 12);
+            const size = pax.size !== undefined ? Number(pax.size) : headerSize;
+            const padded = Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+            // Metadata entries describe the next header
+            if (typeFlag === 'x' || typeFlag === 'g' || typeFlag === 'L' || typeFlag === 'K') {
+                if (size > 1024 * 1024) throw new ValidationError('Invalid tar archive: oversized extended header');
+                const data = await reader.read(padded);
+                if (!data) throw new ValidationError('Invalid tar archive: unexpected end of file');
+                if (typeFlag === 'x') pax = { ...pax, ...parsePaxHeader(data.subarray(0, size)) };
+                if (typeFlag === 'L') longName = readTarString(data, 0, size);
+                continue;
+            }
+
+            const prefix = readTarString(block, 257, 6).startsWith('ustar') ? readTarString(block, 345, 155) : '';
+            const headerName = readTarString(block, 0, 100);
+            const name = pax.path ?? longName ?? (prefix ? `${prefix}/${headerName}` : headerName);
+            const mtime = pax.mtime !== undefined ? Number(pax.mtime) : readTarNumber(block, 136, 12);
+            longName = null;
+            pax = {};
+
+            const isFile = typeFlag === '0' || typeFlag === '7' || typeFlag === '\0';
+            const entry: ArchiveEntry = {
+                name,
+                type: isFile ? (name.endsWith('/') ? 'directory' : 'file') : typeFlag === '5' ? 'directory' : 'unsupported',
+                size: isFile ? size : 0,
+                modifiedAt: mtime ? new Date(mtime * 1000) : null,
+            };
+            track(entry);
+            onEntry(entry);
+
+            if (entry.type === 'file' && onFile) {
+                // Content is fed once the handler opens the entry; an entry
+                // it finishes (or fails) without opening is skipped
+                let opened: PassThrough | null = null;
+                let signalOpened: (out: PassThrough) => void = () => undefined;
+                const openedSignal = new Promise<PassThrough>((resolve) => { signalOpened = resolve; });
+
+                const handled = onFile(entry, async () => {
+                    if (opened) throw new Error('Archive entry already opened');
+                    opened = new PassThrough();
+                    signalOpened(opened);
+                    return opened;
+                });
+                const settled = handled.then(() => null, () => null);
+                // A handler that stops early must not leave the feed waiting
+                void settled.then(() => opened?.destroy());
+
+                const out = await Promise.race([openedSignal, settled]);
+                if (out) {
+                    await feedTarEntry(reader.take(size), out);
+                } else {
+                    for await (const chunk of reader.take(size)) void chunk;
+                }
+                await handled;
+                await reader.read(padded - size);
+            } else {
+                for await (const chunk of reader.take(padded)) void chunk;
+            }
+        }
+    } finally {
+        reader.close();
+    }
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * List an archive's entries from its headers.
+ * @throws ValidationError when the archive is malformed or exceeds `limits`
+ */
+export async function listArchiveEntries(
+    absolutePath: string,
+    format: ArchiveFormat,
+    limits: ArchiveLimits
+): Promise<ArchiveEntry[]> {
+    if (format === 'zip') {
+        const handle = await fs.promises.open(absolutePath, 'r');
+        try {
+            return (await readZipRecords(handle, limits)).map((record) => record.entry);
+        } finally {
+            await handle.close();
+        }
+    }
+
+    const entries: ArchiveEntry[] = [];
+    await walkTar(absolutePath, format, limits, (entry) => entries.push(entry));
+    return entries;
+}
+
+/**
+ * Visit every file entry in archive order with a way to read its content.
+ * Directories and unsupported entries are not passed to `onFile`.
+ * @throws ValidationError when the archive is malformed or exceeds `limits`
+ */
+export async function extractArchiveEntries(
+    absolutePath: string,
+    format: ArchiveFormat,
+    limits: ArchiveLimits,
+    onFile: ArchiveFileHandler
+): Promise<void> {
+    if (format === 'zip') {
+        const handle = await fs.promises.open(absolutePath, 'r');
+        try {
+            for (const record of await readZipRecords(handle, limits)) {
+                if (record.entry.type !== 'file') continue;
+                await onFile(record.entry, () => openZipEntry(handle, absolutePath, record));
+            }
+        } finally {
+            await handle.close();
+        }
+        return;
+    }
+
+    await walkTar(absolutePath, format, limits, () => undefined, onFile);
+}
+
+export default { detectArchiveFormat, listArchiveEntries, extractArchiveEntries };
@@ -1,4 +1,5 @@
 import { createReadStream } from 'fs';
+import { Readable } from 'stream';
 import crypto from 'crypto';
 
 /**
@@ -6,8 +7,14 @@ import crypto from 'crypto';
  * Uses streaming to handle large files efficiently.
  */
 export async function computeSha256(absolutePath: string): Promise<string> {
+    return computeStreamSha256(createReadStream(absolutePath));
+}
+
+/**
+ * Computes SHA256 hash of a readable stream (e.g. from a storage provider).
+ */
+export async function computeStreamSha256(stream: Readable): Promise<string> {
     const hash = crypto.createHash('sha256');
-    const stream = createReadStream(absolutePath);
     for await (const chunk of stream) {
         hash.update(chunk);
     }
@@ -4,12 +4,15 @@ import { FILES_DIR } from '../config/env';
 import { FileStorageError, FileNotFoundError, ValidationError } from '../middleware/errors';
 import * as logger from './logger';
 import { resolveSecurePath } from './pathSanitizer';
+import { getStorageProvider } from './storage';
 
 /**
  * fileStorage utility
  * - Manages file operations in the configured FILES_DIR
  * - Provides methods for listing, retrieving, and deleting files
  * - Supports subdirectories within FILES_DIR
+ * - File contents go through the storage provider recorded on the file
+ *   (see utils/storage); folders always live on local disk
  */
 
 /**
@@ -24,6 +27,40 @@ export function getFilePath(storagePath: string): string {
     return resolveSecurePath(FILES_DIR, storagePath);
 }
 
+/**
+ * Hidden directory inside FILES_DIR where resumable uploads are staged.
+ * Kept on the same filesystem so finished uploads can be renamed into place.
+ * Folder names can't start with a dot, so users can never address it directly.
+ */
+export const UPLOAD_STAGING_DIR = '.uploads';
+
+/**
+ * Get the relative storage path of a resumable upload's partial data.
+ *
+ * @param uploadId - Upload id from the `resumable_uploads` table
+ * @returns Relative path (e.g., ".uploads/<id>.part")
+ */
+export function getStagingPath(uploadId: string): string {
+    return path.posix.join(UPLOAD_STAGING_DIR, `${uploadId}.part`);
+}
+
+/**
+ * Hidden directory (or key prefix on remote providers) holding previous
+ * versions of replaced files, grouped per file id.
+ */
+export const VERSIONS_DIR = '.versions';
+
+/**
+ * Get the relative storage path for a previous version of a file.
+ *
+ * @param fileId - Id of the file the version belongs to
+ * @param storedName - Stored name of the replaced content
+ * @returns Relative path (e.g., ".versions/<fileId>/<storedName>")
+ */
+export function getVersionPath(fileId: string, storedName: string): string {
+    return path.posix.join(VERSIONS_DIR, fileId, storedName);
+}
+
 /**
  * Ensure a directory exists within FILES_DIR.
  * Creates the directory recursively if it doesn't exist.
@@ -91,55 +128,27 @@ export async function listFiles(filter?: { pattern?: string }): Promise<string[]
 
 /**
  * Delete a file from storage by its relative storage path.
- * 
+ *
  * @param storagePath - Relative path to the file (e.g., "folder/file.txt")
+ * @param provider - Storage provider holding the file (`files.storage_provider`)
  * @throws {FileNotFoundError} If the file does not exist
  * @throws {FileStorageError} If unable to delete the file
  */
-export async function deleteFile(storagePath: string): Promise<void> {
-    const filePath = getFilePath(storagePath);
-
-    try {
-        // Check if file exists before attempting deletion
-        await fs.access(filePath);
-    } catch {
-        throw new FileNotFoundError(`File not found: ${storagePath}`);
-    }
-
-    try {
-        await fs.unlink(filePath);
-    } catch (err) {
-        logger.error(`Failed to delete file: ${storagePath}`, err);
-        throw new FileStorageError(`Failed to delete file: ${err instanceof Error ? err.message : 'Unknown error'}`);
-    }
+export async function deleteFile(storagePath: string, provider: string = 'local'): Promise<void> {
+    await getStorageProvider(provider).delete(storagePath);
 }
 
 /**
- * Rename (move) a file within FILES_DIR.
+ * Rename (move) a file within its storage provider.
  *
  * @param oldPath - Current relative file path
  * @param newPath - New relative file path
+ * @param provider - Storage provider holding the file (`files.storage_provider`)
  * @throws {FileNotFoundError} If old file does not exist
  * @throws {FileStorageError} If rename fails
  */
-export async function renameFile(oldPath: string, newPath: string): Promise<void> {
-    const oldAbs = resolveSecurePath(FILES_DIR, oldPath);
-    const newAbs = resolveSecurePath(FILES_DIR, newPath);
-
-    try {
-        await fs.access(oldAbs);
-    } catch {
-        throw new FileNotFoundError(`File not found: ${oldPath}`);
-    }
-
-    try {
-        await fs.rename(oldAbs, newAbs);
-    } catch (err) {
-        logger.error(`Failed to rename file: ${oldPath} -> ${newPath}`, err);
-        throw new FileStorageError(
-            `Failed to rename file: ${err instanceof Error ? err.message : 'Unknown error'}`
-        );
-    }
+export async function renameFile(oldPath: string, newPath: string, provider: string = 'local'): Promise<void> {
+    await getStorageProvider(provider).rename(oldPath, newPath);
 }
 
 /**
@@ -237,6 +246,9 @@ export async function listDirectoryContents(folderPath: string): Promise<Directo
         const results: DirectoryEntry[] = [];
 
         for (const entry of entries) {
+            // Never expose staged resumable uploads or stored versions
+            if (!folderPath && (entry.name === UPLOAD_STAGING_DIR || entry.name === VERSIONS_DIR)) continue;
+
             if (entry.isFile()) {
                 const filePath = path.join(absPath, entry.name);
                 const stats = await fs.stat(filePath);
@@ -274,6 +286,8 @@ export async function listDirectoryContents(folderPath: string): Promise<Directo
 
 export default {
     getFilePath,
+    getStagingPath,
+    getVersionPath,
     ensureDirectory,
     listFiles,
     deleteFile,
@@ -0,0 +1,88 @@
+import { FILE_VERSION_RETENTION } from '../config/env';
+import type { FileRecord } from '../models/files';
+import {
+    createFileVersion,
+    deleteFileVersion,
+    listFileVersions,
+    type FileVersionRecord,
+} from '../models/fileVersions';
+import * as fileStorage from './fileStorage';
+import { error as logError } from './logger';
+
+/**
+ * File Versioning
+ * ===============
+ * Keeps the previous content of a file when it is replaced (upload or move
+ * with `action: 'replace'`, or restoring an older version).
+ * Versions stay on the provider that held the content, under VERSIONS_DIR,
+ * and only the newest FILE_VERSION_RETENTION are kept.
+ */
+
+/** Delete a version's stored content and its row (best effort on content). */
+async function removeVersion(version: FileVersionRecord): Promise<void> {
+    try {
+        await fileStorage.deleteFile(version.storage_path, version.storage_provider);
+    } catch (err) {
+        logError('Failed to delete file version content', { id: version.id, err });
+    }
+    deleteFileVersion(version.id);
+}
+
+/**
+ * Drop the oldest versions of a file beyond FILE_VERSION_RETENTION.
+ */
+export async function pruneFileVersions(fileId: string): Promise<void> {
+    const versions = listFileVersions(fileId);
+    for (const version of versions.slice(FILE_VERSION_RETENTION)) {
+        await removeVersion(version);
+    }
+}
+
+/**
+ * Delete every version of a file (used when the file itself is deleted).
+ */
+export async function purgeFileVersions(fileId: string): Promise<void> {
+    for (const version of listFileVersions(fileId)) {
+        await removeVersion(version);
+    }
+}
+
+/**
+ * Preserve a file's current content as a version before it is overwritten.
+ * Call before updating the row; with retention disabled the content is
+ * deleted instead, as before versioning existed.
+ *
+ * @param file - File row as it is now (content about to be replaced)
+ * @param replacedBy - Id of the user replacing the content
+ */
+export async function archiveFileVersion(file: FileRecord, replacedBy?: string | null): Promise<FileVersionRecord | null> {
+    if (FILE_VERSION_RETENTION <= 0) {
+        try { await fileStorage.deleteFile(file.storage_path, file.storage_provider); } catch { /* ignore */ }
+        return null;
+    }
+
+    // Content already missing from storage — nothing to keep, don't block the replace
+    const versionPath = fileStorage.getVersionPath(file.id, file.stored_name);
+    try {
+        await fileStorage.renameFile(file.storage_path, versionPath, file.storage_provider);
+    } catch (err) {
+        logError('Failed to archive file version', { id: file.id, err });
+        return null;
+    }
+
+    const version = createFileVersion({
+        fileId: file.id,
+        originalName: file.original_name,
+        storedName: file.stored_name,
+        mimeType: file.mime_type,
+        size: file.size,
+        hashSha256: file.hash_sha256,
+        storageProvider: file.storage_provider,
+        storagePath: versionPath,
+        uploadedAt: file.updated_at ?? file.created_at,
+        createdBy: replacedBy,
+    });
+
+    await pruneFileVersions(file.id);
+    return version;
+}
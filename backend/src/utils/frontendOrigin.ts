@@ -0,0 +1,34 @@
+import { FRONTEND_PORT, OIDC_FRONTEND_ORIGINS } from '../config/env';
+
+/**
+ * True when `origin` is a frontend this server serves: any host on
+ * FRONTEND_PORT (localhost, 192.168.x.x, Tailscale IPs, etc.). Only for
+ * CORS — the host is not checked, so never redirect to such an origin.
+ */
+export function isFrontendOrigin(origin: string): boolean {
+    try {
+        const url = new URL(origin);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+        const port = url.port ? Number(url.port) : (url.protocol === 'https:' ? 443 : 80);
+        return port === FRONTEND_PORT;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * The OIDC_FRONTEND_ORIGINS entry matching `requested` exactly, or the
+ * first configured one. SSO sign-ins carry a login code back to this
+ * origin, so only explicitly configured frontends are accepted.
+ */
+export function resolveSsoReturnOrigin(requested: string): string {
+    try {
+        const origin = new URL(requested).origin;
+        if (OIDC_FRONTEND_ORIGINS.includes(origin)) return origin;
+    } catch {
+        // Not a URL; use the default
+    }
+    return OIDC_FRONTEND_ORIGINS[0];
+}
+
+export default { isFrontendOrigin, resolveSsoReturnOrigin };
@@ -0,0 +1,168 @@
+import { LOGIN_IP_MAX_ATTEMPTS, LOGIN_LOCKOUT_MINUTES, LOGIN_MAX_ATTEMPTS } from '../config/env';
+import {
+    clearLoginAttempts,
+    deleteStaleLoginAttempts,
+    getLoginAttempt,
+    incrementLoginFailures,
+    setLoginLockedUntil,
+    type LoginAttemptKind,
+    type LoginAttemptRecord,
+} from '../models/loginAttempts';
+import { TooManyRequestsError } from '../middleware/errors';
+import { info } from './logger';
+
+/**
+ * Login Throttle
+ * ==============
+ * Brute-force protection for sign-in. Failed attempts are counted per
+ * username and per client IP. Once a counter passes its allowance, further
+ * attempts are refused for a lockout that starts at 30 seconds and doubles
+ * with each failure, up to LOGIN_LOCKOUT_MINUTES.
+ *
+ * Counters reset after a successful sign-in (username only — an attacker
+ * with one valid account must not be able to clear their IP) or after a
+ * day without failures.
+ *
+ * Share and drop link passwords use the same lockouts, counted per link and
+ * client IP.
+ */
+
+const FIRST_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = LOGIN_LOCKOUT_MINUTES * 60 * 1000;
+
+/** Failures older than this no longer count. */
+const ATTEMPT_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+/** Client details used to key the counters. */
+export interface LoginClient {
+    username: string;
+    ipAddress?: string | null;
+}
+
+/** Client details used to key link password counters. */
+export interface LinkPasswordClient {
+    linkId: string;
+    ipAddress?: string | null;
+}
+
+type Counter = [LoginAttemptKind, string, number];
+
+/** Usernames are matched case-insensitively so variants share a counter. */
+function usernameKey(username: string): string {
+    return username.trim().toLowerCase();
+}
+
+function counters(client: LoginClient): Counter[] {
+    const keys: Counter[] = [['username', usernameKey(client.username), LOGIN_MAX_ATTEMPTS]];
+    if (client.ipAddress) keys.push(['ip', client.ipAddress, LOGIN_IP_MAX_ATTEMPTS]);
+    return keys;
+}
+
+function linkCounter(client: LinkPasswordClient): Counter {
+    return ['link', `${client.linkId}:${client.ipAddress ?? 'unknown'}`, LOGIN_MAX_ATTEMPTS];
+}
+
+/** Lockout length after `failures` failed attempts against an allowance. */
+function lockoutMs(failures: number, allowed: number): number {
+    if (failures < allowed) return 0;
+    return Math.min(FIRST_LOCKOUT_MS * 2 ** (failures - allowed), MAX_LOCKOUT_MS);
+}
+
+/** Milliseconds until a record's lockout ends (0 if not locked). */
+function remainingMs(record: LoginAttemptRecord | null): number {
+    if (!record?.locked_until) return 0;
+    return Math.max(0, new Date(record.locked_until).getTime() - Date.now());
+}
+
+function describeWait(seconds: number): string {
+    if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+/**
+ * Throw TooManyRequestsError while the username or IP is locked out.
+ * Call before checking credentials so a locked account can't be probed.
+ */
+export function assertLoginAllowed(client: LoginClient): void {
+    assertCountersAllowed(counters(client), 'sign-in attempts');
+}
+
+/** Count a failed sign-in and start or extend lockouts as needed. */
+export function recordLoginFailure(client: LoginClient): void {
+    recordFailures(counters(client));
+}
+
+/**
+ * Throw TooManyRequestsError while this client is locked out of a link's
+ * password. Call before checking the password.
+ */
+export function assertLinkPasswordAllowed(client: LinkPasswordClient): void {
+    assertCountersAllowed([linkCounter(client)], 'password attempts');
+}
+
+/** Count a wrong link password and start or extend the lockout as needed. */
+export function recordLinkPasswordFailure(client: LinkPasswordClient): void {
+    recordFailures([linkCounter(client)]);
+}
+
+/** Reset a client's counter for a link after the right password. */
+export function recordLinkPasswordSuccess(client: LinkPasswordClient): void {
+    const [kind, identifier] = linkCounter(client);
+    clearLoginAttempts(kind, identifier);
+}
+
+function assertCountersAllowed(keys: Counter[], what: string): void {
+    const waitMs = Math.max(...keys.map(([kind, identifier]) => remainingMs(getLoginAttempt(kind, identifier))));
+    if (waitMs <= 0) return;
+
+    const retryAfter = Math.ceil(waitMs / 1000);
+    throw new TooManyRequestsError(
+        `Too many failed ${what}. Try again in ${describeWait(retryAfter)}.`,
+        retryAfter,
+    );
+}
+
+function recordFailures(keys: Counter[]): void {
+    const resetBefore = new Date(Date.now() - ATTEMPT_MEMORY_MS).toISOString();
+
+    for (const [kind, identifier, allowed] of keys) {
+        const record = incrementLoginFailures(kind, identifier, resetBefore);
+        const lockMs = lockoutMs(record.failures, allowed);
+        if (lockMs > 0) {
+            setLoginLockedUntil(record.id, new Date(Date.now() + lockMs).toISOString());
+            info('Sign-in locked after repeated failures', { kind, identifier, failures: record.failures, seconds: lockMs / 1000 });
+        }
+    }
+}
+
+/** Reset the username counter after a successful sign-in. */
+export function recordLoginSuccess(username: string): void {
+    clearLoginAttempts('username', usernameKey(username));
+}
+
+/**
+ * Failed attempts and lockout of an account, for admin views.
+ * `lockedUntil` is null unless a lockout is currently running.
+ */
+export function getAccountLockout(username: string): { failedAttempts: number; lockedUntil: string | null } {
+    const record = getLoginAttempt('username', usernameKey(username));
+    const lastFailure = record ? new Date(record.last_failure_at).getTime() : 0;
+    if (!record || lastFailure < Date.now() - ATTEMPT_MEMORY_MS) {
+        return { failedAttempts: 0, lockedUntil: null };
+    }
+    return {
+        failedAttempts: record.failures,
+        lockedUntil: remainingMs(record) > 0 ? record.locked_until! : null,
+    };
+}
+
+/** Clear an account's failures and lockout. Returns true if there were any. */
+export function unlockAccount(username: string): boolean {
+    return clearLoginAttempts('username', usernameKey(username));
+}
+
+/** Remove counters that no longer affect sign-in. */
+export function purgeStaleLoginAttempts(): number {
+    return deleteStaleLoginAttempts(new Date(Date.now() - ATTEMPT_MEMORY_MS).toISOString());
+}
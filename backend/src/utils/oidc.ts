@@ -0,0 +1,328 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import {
+    OIDC_AUTO_PROVISION,
+    OIDC_CLIENT_ID,
+    OIDC_CLIENT_SECRET,
+    OIDC_ISSUER,
+    OIDC_LINK_EXISTING,
+    OIDC_REDIRECT_URI,
+    OIDC_SCOPES,
+    OIDC_USERNAME_CLAIM,
+} from '../config/env';
+import {
+    createUser,
+    getUserById,
+    getUserByOidcSubject,
+    getUserByUsername,
+    setUserOidcSubject,
+    type UserRecord,
+} from '../models/users';
+import { AuthenticationError, AuthorizationError } from '../middleware/errors';
+import { hashPassword } from './passwordHash';
+import { info } from './logger';
+
+/**
+ * OpenID Connect
+ * ==============
+ * Single sign-on against an external identity provider using the
+ * authorization code flow with PKCE:
+ *
+ *   1. `createOidcLogin` remembers a state/nonce/code verifier and returns
+ *      the IdP's authorization URL.
+ *   2. The IdP redirects back to OIDC_REDIRECT_URI; `completeOidcLogin`
+ *      exchanges the code, verifies the ID token against the IdP's JWKS
+ *      and maps its subject to a `users` row.
+ *   3. The browser is sent back to the frontend with a one-time code that
+ *      it trades for normal session tokens (`redeemOidcLoginCode`), so no
+ *      tokens ever appear in a URL.
+ *
+ * Pending sign-ins live in memory: a restart only cancels logins that are
+ * in progress.
+ */
+
+/** Time allowed at the identity provider before a sign-in is abandoned. */
+const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+
+/** Lifetime of the one-time code handed to the frontend. */
+const LOGIN_CODE_TTL_MS = 60 * 1000;
+
+/** Upper bound on remembered sign-ins (the start endpoint is public). */
+const MAX_PENDING_LOGINS = 1000;
+
+const FETCH_TIMEOUT_MS = 10 * 1000;
+
+/** Unknown key ids trigger a JWKS refetch at most this often. */
+const JWKS_REFETCH_MS = 60 * 1000;
+
+/** Asymmetric algorithms accepted for ID token signatures. */
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+/** The parts of the IdP's discovery document we rely on. */
+interface ProviderMetadata {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+    token_endpoint_auth_methods_supported?: string[];
+}
+
+type Jwk = crypto.JsonWebKey & { kid?: string; use?: string };
+
+interface PendingLogin {
+    codeVerifier: string;
+    nonce: string;
+    returnTo: string;
+    expiresAt: number;
+}
+
+const pendingLogins = new Map<string, PendingLogin>();
+const loginCodes = new Map<string, { userId: string; expiresAt: number }>();
+
+let metadataPromise: Promise<ProviderMetadata> | null = null;
+let jwks: Jwk[] = [];
+let jwksFetchedAt = 0;
+
+function randomToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+}
+
+/** Drop expired entries from an in-memory store. */
+function prune(store: Map<string, { expiresAt: number }>): void {
+    const now = Date.now();
+    for (const [key, value] of store) {
+        if (value.expiresAt <= now) store.delete(key);
+    }
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+    const response = await fetch(url, { ...init, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+        const detail = body?.error_description || body?.error;
+        throw new Error(`${url} answered ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+    return body;
+}
+
+/** Discovery document of OIDC_ISSUER (cached; retried after a failure). */
+function getProviderMetadata(): Promise<ProviderMetadata> {
+    if (!metadataPromise) {
+        metadataPromise = fetchJson(`${OIDC_ISSUER}/.well-known/openid-configuration`)
+            .then((meta: Partial<ProviderMetadata> | null) => {
+                if (!meta?.issuer || !meta.authorization_endpoint || !meta.token_endpoint || !meta.jwks_uri) {
+                    throw new Error('OIDC discovery document is incomplete');
+                }
+                return meta as ProviderMetadata;
+            })
+            .catch((err) => {
+                metadataPromise = null;
+                throw err;
+            });
+    }
+    return metadataPromise;
+}
+
+/** Public key for an ID token signature, refetching the JWKS on key rotation. */
+async function getSigningKey(kid: string | undefined): Promise<crypto.KeyObject> {
+    const find = () => jwks.find((key) => (!kid || key.kid === kid) && (key.use ?? 'sig') === 'sig');
+
+    let jwk = find();
+    if (!jwk && Date.now() - jwksFetchedAt > JWKS_REFETCH_MS) {
+        const meta = await getProviderMetadata();
+        const data = await fetchJson(meta.jwks_uri);
+        jwks = Array.isArray(data?.keys) ? data.keys : [];
+        jwksFetchedAt = Date.now();
+        jwk = find();
+    }
+    if (!jwk) throw new Error('No matching ID token signing key');
+
+    return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+/** Verify signature, issuer, audience, expiry and nonce of an ID token. */
+async function verifyIdToken(idToken: string, nonce: string, meta: ProviderMetadata): Promise<jwt.JwtPayload> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') throw new Error('Malformed ID token');
+
+    const key = await getSigningKey(decoded.header.kid);
+    const claims = jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: meta.issuer,
+        audience: OIDC_CLIENT_ID,
+    }) as jwt.JwtPayload;
+
+    if (claims.nonce !== nonce) throw new Error('ID token nonce mismatch');
+    if (typeof claims.sub !== 'string' || !claims.sub) throw new Error('ID token has no subject');
+    return claims;
+}
+
+/** Exchange the authorization code for tokens at the IdP's token endpoint. */
+async function exchangeCode(code: string, codeVerifier: string, meta: ProviderMetadata): Promise<{ id_token?: string }> {
+    const body = new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: OIDC_REDIRECT_URI,
+        code_verifier: codeVerifier,
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+    // Confidential clients use client_secret_basic unless the IdP only offers _post
+    const authMethods = meta.token_endpoint_auth_methods_supported ?? ['client_secret_basic'];
+    if (OIDC_CLIENT_SECRET && authMethods.includes('client_secret_basic')) {
+        const credentials = `${encodeURIComponent(OIDC_CLIENT_ID)}:${encodeURIComponent(OIDC_CLIENT_SECRET)}`;
+        headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+        body.set('client_id', OIDC_CLIENT_ID);
+        if (OIDC_CLIENT_SECRET) body.set('client_secret', OIDC_CLIENT_SECRET);
+    }
+
+    return fetchJson(meta.token_endpoint, { method: 'POST', headers, body });
+}
+
+/**
+ * Username for an SSO identity: OIDC_USERNAME_CLAIM, then preferred_username,
+ * then email. Also returns the claim it came from.
+ */
+function usernameFromClaims(claims: jwt.JwtPayload): { username: string; claim: string } | null {
+    for (const claim of [OIDC_USERNAME_CLAIM, 'preferred_username', 'email']) {
+        const value = claims[claim];
+        if (typeof value === 'string' && value.trim()) return { username: value.trim().slice(0, 64), claim };
+    }
+    return null;
+}
+
+/**
+ * Find the account for an SSO identity. Accounts are matched by subject.
+ * With OIDC_LINK_EXISTING, an unlinked non-admin local account with the
+ * same username is linked on first use (never by the email claim).
+ * Unknown users are created only with OIDC_AUTO_PROVISION.
+ */
+async function resolveOidcUser(claims: jwt.JwtPayload): Promise<UserRecord> {
+    const subject = claims.sub as string;
+    const linked = getUserByOidcSubject(subject);
+    if (linked) return linked;
+
+    const fromClaims = usernameFromClaims(claims);
+    if (!fromClaims) {
+        throw new AuthenticationError(`The identity provider did not send a '${OIDC_USERNAME_CLAIM}' claim`);
+    }
+    const { username, claim } = fromClaims;
+
+    const existing = getUserByUsername(username);
+    if (existing) {
+        if (existing.oidc_subject) {
+            throw new AuthorizationError(`The account '${username}' is linked to another SSO identity`);
+        }
+        // Whoever controls the claim at the IdP would get the account
+        if (!OIDC_LINK_EXISTING || claim === 'email' || existing.is_admin) {
+            throw new AuthorizationError(`The account '${username}' is not linked to SSO. Sign in with its password.`);
+        }
+        info('Linked account to SSO identity', { username, claim });
+        return setUserOidcSubject(existing.id, subject)!;
+    }
+
+    if (!OIDC_AUTO_PROVISION) {
+        throw new AuthorizationError(`No account exists for '${username}'. Ask an admin to create one.`);
+    }
+
+    // SSO users get an unusable random password; an admin can set a real one
+    const passwordHash = await hashPassword(randomToken());
+    if (getUserByUsername(username)) {
+        throw new AuthorizationError(`The account '${username}' was just created; please sign in again`);
+    }
+    const user = createUser({ username, passwordHash });
+    info('Provisioned account for SSO user', { username });
+    return setUserOidcSubject(user.id, subject)!;
+}
+
+/**
+ * Start an SSO sign-in.
+ *
+ * @param returnTo - Frontend origin to send the browser back to afterwards
+ * @returns The identity provider's authorization URL
+ */
+export async function createOidcLogin(returnTo: string): Promise<string> {
+    const meta = await getProviderMetadata();
+
+    prune(pendingLogins);
+    if (pendingLogins.size >= MAX_PENDING_LOGINS) {
+        // Maps iterate in insertion order: forget the oldest attempt
+        pendingLogins.delete(pendingLogins.keys().next().value!);
+    }
+
+    const state = randomToken();
+    const nonce = randomToken();
+    const codeVerifier = randomToken();
+    pendingLogins.set(state, { codeVerifier, nonce, returnTo, expiresAt: Date.now() + PENDING_LOGIN_TTL_MS });
+
+    const url = new URL(meta.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', OIDC_CLIENT_ID);
+    url.searchParams.set('redirect_uri', OIDC_REDIRECT_URI);
+    url.searchParams.set('scope', OIDC_SCOPES);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', crypto.createHash('sha256').update(codeVerifier).digest('base64url'));
+    url.searchParams.set('code_challenge_method', 'S256');
+    return url.toString();
+}
+
+/**
+ * Look up and forget the sign-in started with `state`.
+ * Returns null for unknown or expired states.
+ */
+export function takeOidcLogin(state: string): PendingLogin | null {
+    const pending = pendingLogins.get(state);
+    pendingLogins.delete(state);
+    if (!pending || pending.expiresAt <= Date.now()) return null;
+    return pending;
+}
+
+/**
+ * Finish an SSO sign-in at the redirect URI: exchange the code, verify the
+ * ID token and resolve the account.
+ *
+ * @throws AuthenticationError / AuthorizationError with a user-facing message
+ */
+export async function completeOidcLogin(pending: PendingLogin, code: string): Promise<UserRecord> {
+    const meta = await getProviderMetadata();
+
+    let claims: jwt.JwtPayload;
+    try {
+        const tokens = await exchangeCode(code, pending.codeVerifier, meta);
+        if (!tokens?.id_token) throw new Error('Token response has no id_token');
+        claims = await verifyIdToken(tokens.id_token, pending.nonce, meta);
+    } catch (err) {
+        info('SSO sign-in failed', { reason: (err as Error).message });
+        throw new AuthenticationError('Single sign-on failed. Please try again.');
+    }
+
+    const user = await resolveOidcUser(claims);
+    if (user.disabled) throw new AuthenticationError('Account is disabled');
+    return user;
+}
+
+/** One-time code the frontend trades for session tokens. */
+export function issueOidcLoginCode(userId: string): string {
+    prune(loginCodes);
+    const code = randomToken();
+    loginCodes.set(code, { userId, expiresAt: Date.now() + LOGIN_CODE_TTL_MS });
+    return code;
+}
+
+/**
+ * Redeem a code from `issueOidcLoginCode` (single use).
+ * Returns the account, or null when the code is unknown, expired or the
+ * account was disabled meanwhile.
+ */
+export function redeemOidcLoginCode(code: string): UserRecord | null {
+    const entry = loginCodes.get(code);
+    loginCodes.delete(code);
+    if (!entry || entry.expiresAt <= Date.now()) return null;
+
+    const user = getUserById(entry.userId);
+    return user && !user.disabled ? user : null;
+}
+
+export default { createOidcLogin, takeOidcLogin, completeOidcLogin, issueOidcLoginCode, redeemOidcLoginCode };
@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import type { Request } from 'express';
+import { ACCESS_TOKEN_TTL, SESSION_TTL_DAYS } from '../config/env';
+import { getUserById, type UserRecord } from '../models/users';
+import {
+    createSession,
+    getSessionByPreviousTokenHash,
+    getSessionByTokenHash,
+    isSessionActive,
+    revokeSession,
+    rotateSessionToken,
+} from '../models/sessions';
+import type { UserClaim } from '../types/auth';
+import { AuthenticationError } from '../middleware/errors';
+import { signToken } from './token';
+import { info } from './logger';
+
+/**
+ * Sessions
+ * ========
+ * Short-lived access tokens (JWT) paired with long-lived refresh tokens.
+ * Each sign-in creates a `sessions` row; the access token carries its id
+ * (`sid`) so revoking the session cuts off the token immediately.
+ *
+ * Refresh tokens rotate on every use. Presenting an already-rotated token
+ * again (outside a short grace period for concurrent tabs) is treated as
+ * token theft and revokes the session.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How long a just-rotated refresh token is rejected without revoking the session. */
+const REFRESH_REUSE_GRACE_MS = 60 * 1000;
+
+/** Tokens returned by sign-in and refresh. */
+export interface SessionTokens {
+    token: string;
+    refreshToken: string;
+    sessionId: string;
+    user: { id: string; username: string; role: string };
+}
+
+/** Device details recorded with a session. */
+export interface SessionClient {
+    userAgent?: string | null;
+    ipAddress?: string | null;
+}
+
+/** SHA-256 hex digest of a refresh token (only hashes are stored). */
+function hashRefreshToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function generateRefreshToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+}
+
+function sessionExpiry(): string {
+    return new Date(Date.now() + SESSION_TTL_DAYS * DAY_MS).toISOString();
+}
+
+/** Read the device details of a request. */
+export function getSessionClient(req: Request): SessionClient {
+    return {
+        userAgent: req.get('user-agent')?.slice(0, 512) ?? null,
+        ipAddress: req.ip ?? null,
+    };
+}
+
+/**
+ * Build the JWT claim for a user. The version field is derived from the
+ * user's timestamps so tokens become invalid when the record changes
+ * (password reset, role change, etc.).
+ */
+export function buildUserClaim(user: UserRecord, sessionId?: string): UserClaim {
+    return {
+        id: user.id,
+        username: user.username,
+        role: user.role,
+        v: user.updated_at ?? user.created_at,
+        ...(sessionId ? { sid: sessionId } : {}),
+    };
+}
+
+function issueTokens(user: UserRecord, sessionId: string, refreshToken: string): SessionTokens {
+    const claim = buildUserClaim(user, sessionId);
+    return {
+        token: signToken(claim, ACCESS_TOKEN_TTL),
+        refreshToken,
+        sessionId,
+        user: { id: claim.id, username: claim.username, role: claim.role },
+    };
+}
+
+/**
+ * Create a session for a user who just signed in.
+ */
+export function startSession(user: UserRecord, client: SessionClient): SessionTokens {
+    const refreshToken = generateRefreshToken();
+    const session = createSession({
+        userId: user.id,
+        refreshTokenHash: hashRefreshToken(refreshToken),
+        expiresAt: sessionExpiry(),
+        userAgent: client.userAgent,
+        ipAddress: client.ipAddress,
+    });
+    return issueTokens(user, session.id, refreshToken);
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token.
+ * @throws AuthenticationError when the token is unknown, reused, expired
+ *         or the account can no longer sign in
+ */
+export function refreshSession(refreshToken: string, client: SessionClient): SessionTokens {
+    const hash = hashRefreshToken(refreshToken);
+    const session = getSessionByTokenHash(hash);
+
+    if (!session) {
+        const replayed = getSessionByPreviousTokenHash(hash);
+        if (replayed && !replayed.revoked_at) {
+            const rotatedAt = replayed.rotated_at ? new Date(replayed.rotated_at).getTime() : 0;
+            if (Date.now() - rotatedAt > REFRESH_REUSE_GRACE_MS) {
+                revokeSession(replayed.id);
+                info('Refresh token reuse detected, session revoked', { sessionId: replayed.id, userId: replayed.user_id });
+            }
+        }
+        throw new AuthenticationError('Invalid refresh token');
+    }
+
+    if (!isSessionActive(session)) {
+        throw new AuthenticationError('Session has ended. Please log in again.');
+    }
+
+    const user = getUserById(session.user_id);
+    if (!user || user.disabled) {
+        revokeSession(session.id);
+        throw new AuthenticationError(user ? 'Account is disabled' : 'Invalid refresh token');
+    }
+
+    const nextToken = generateRefreshToken();
+    const rotated = rotateSessionToken(session.id, hash, hashRefreshToken(nextToken), {
+        expiresAt: sessionExpiry(),
+        userAgent: client.userAgent,
+        ipAddress: client.ipAddress,
+    });
+    // Another request rotated the same token first
+    if (!rotated) throw new AuthenticationError('Invalid refresh token');
+
+    return issueTokens(user, session.id, nextToken);
+}
@@ -0,0 +1,89 @@
+import {
+    FILES_DIR,
+    STORAGE_PROVIDER,
+    S3_ENDPOINT,
+    S3_REGION,
+    S3_BUCKET,
+    S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY,
+    S3_PREFIX,
+    S3_FORCE_PATH_STYLE,
+} from '../../config/env';
+import { FileStorageError } from '../../middleware/errors';
+import { createLocalStorageProvider } from './localStorageProvider';
+import { createS3StorageProvider } from './s3StorageProvider';
+import type { StorageProvider, StorageProviderName } from './types';
+
+/**
+ * Storage providers
+ * =================
+ * Resolves the provider for a file (by its `storage_provider` column) or for
+ * new uploads (STORAGE_PROVIDER). Uploads are always received on local disk
+ * first — hashing and conflict checks work on the local copy — and are then
+ * committed to the configured provider.
+ */
+
+export * from './types';
+export { createLocalStorageProvider } from './localStorageProvider';
+export { createS3StorageProvider, signS3Request, type S3StorageOptions } from './s3StorageProvider';
+
+const providers = new Map<StorageProviderName, StorageProvider>();
+
+/** Build a provider from config on first use. */
+function createProvider(name: StorageProviderName): StorageProvider {
+    if (name === 's3') {
+        if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+            throw new FileStorageError(
+                'S3 storage is not configured: set S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY'
+            );
+        }
+        return createS3StorageProvider({
+            endpoint: S3_ENDPOINT,
+            region: S3_REGION,
+            bucket: S3_BUCKET,
+            accessKeyId: S3_ACCESS_KEY_ID,
+            secretAccessKey: S3_SECRET_ACCESS_KEY,
+            prefix: S3_PREFIX,
+            forcePathStyle: S3_FORCE_PATH_STYLE,
+        });
+    }
+    return createLocalStorageProvider(FILES_DIR);
+}
+
+/**
+ * Get a storage provider by name (defaults to local for unknown values,
+ * matching the column default).
+ */
+export function getStorageProvider(name: string = 'local'): StorageProvider {
+    const key: StorageProviderName = name === 's3' ? 's3' : 'local';
+    let provider = providers.get(key);
+    if (!provider) {
+        provider = createProvider(key);
+        providers.set(key, provider);
+    }
+    return provider;
+}
+
+/** The provider that receives new uploads (STORAGE_PROVIDER). */
+export function getDefaultStorageProvider(): StorageProvider {
+    return getStorageProvider(STORAGE_PROVIDER);
+}
+
+/**
+ * Move a freshly received local file (at `storagePath` under FILES_DIR) to
+ * the default provider. A no-op for local storage.
+ * Returns the provider name to record in `files.storage_provider`.
+ */
+export async function commitToStorage(storagePath: string): Promise<StorageProviderName> {
+    const provider = getDefaultStorageProvider();
+    if (provider.name === 'local') return 'local';
+
+    const local = getStorageProvider('local');
+    const stats = await local.stat(storagePath);
+    if (!stats) throw new FileStorageError(`Uploaded file missing: ${storagePath}`);
+
+    await provider.put(storagePath, await local.getStream(storagePath), stats.size);
+    try { await local.delete(storagePath); } catch { /* ignore */ }
+
+    return provider.name;
+}
@@ -0,0 +1,124 @@
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
+import { FileStorageError, FileNotFoundError } from '../../middleware/errors';
+import * as logger from '../logger';
+import { resolveSecurePath } from '../pathSanitizer';
+import type { ByteRange, StorageObject, StorageObjectStat, StorageProvider } from './types';
+
+/**
+ * Local disk storage provider
+ * - Stores objects as regular files under `rootDir` (FILES_DIR)
+ * - Keys map directly to relative paths, so folders are real directories
+ * - Hidden entries (dot-prefixed, e.g. the resumable upload staging dir)
+ *   are never listed; folder names and stored names can't start with a dot
+ */
+export function createLocalStorageProvider(rootDir: string): StorageProvider {
+    const resolve = (key: string) => resolveSecurePath(rootDir, key);
+
+    async function put(key: string, body: Readable): Promise<void> {
+        const target = resolve(key);
+        try {
+            await fs.mkdir(path.dirname(target), { recursive: true });
+            await pipeline(body, createWriteStream(target));
+        } catch (err) {
+            logger.error(`Failed to write file: ${key}`, err);
+            throw new FileStorageError(`Failed to write file: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+    }
+
+    async function getStream(key: string, range?: ByteRange): Promise<Readable> {
+        const target = resolve(key);
+        try {
+            await fs.access(target);
+        } catch {
+            throw new FileNotFoundError(`File not found: ${key}`);
+        }
+        return createReadStream(target, range ? { start: range.start, end: range.end } : undefined);
+    }
+
+    async function stat(key: string): Promise<StorageObjectStat | null> {
+        try {
+            const stats = await fs.stat(resolve(key));
+            return stats.isFile() ? { size: stats.size, modifiedAt: stats.mtime } : null;
+        } catch {
+            return null;
+        }
+    }
+
+    async function remove(key: string): Promise<void> {
+        const target = resolve(key);
+
+        try {
+            // Check if file exists before attempting deletion
+            await fs.access(target);
+        } catch {
+            throw new FileNotFoundError(`File not found: ${key}`);
+        }
+
+        try {
+            await fs.unlink(target);
+        } catch (err) {
+            logger.error(`Failed to delete file: ${key}`, err);
+            throw new FileStorageError(`Failed to delete file: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+    }
+
+    async function rename(fromKey: string, toKey: string): Promise<void> {
+        const fromAbs = resolve(fromKey);
+        const toAbs = resolve(toKey);
+
+        try {
+            await fs.access(fromAbs);
+        } catch {
+            throw new FileNotFoundError(`File not found: ${fromKey}`);
+        }
+
+        try {
+            await fs.mkdir(path.dirname(toAbs), { recursive: true });
+            await fs.rename(fromAbs, toAbs);
+        } catch (err) {
+            logger.error(`Failed to rename file: ${fromKey} -> ${toKey}`, err);
+            throw new FileStorageError(
+                `Failed to rename file: ${err instanceof Error ? err.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    async function list(prefix = ''): Promise<StorageObject[]> {
+        const results: StorageObject[] = [];
+
+        // Walk from the deepest directory fully covered by the prefix
+        const baseDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+
+        async function walk(relDir: string): Promise<void> {
+            let entries;
+            try {
+                entries = await fs.readdir(resolve(relDir), { withFileTypes: true });
+            } catch {
+                return;
+            }
+
+            for (const entry of entries) {
+                if (entry.name.startsWith('.')) continue;
+
+                const key = relDir ? `${relDir}/${entry.name}` : entry.name;
+                if (entry.isDirectory()) {
+                    if (key.startsWith(prefix) || prefix.startsWith(`${key}/`)) await walk(key);
+                } else if (entry.isFile() && key.startsWith(prefix)) {
+                    const stats = await fs.stat(resolve(key));
+                    results.push({ key, size: stats.size, modifiedAt: stats.mtime });
+                }
+            }
+        }
+
+        await walk(baseDir);
+        return results;
+    }
+
+    return { name: 'local', put, getStream, stat, delete: remove, rename, list };
+}
+
+export default createLocalStorageProvider;
@@ -0,0 +1,304 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import { Readable } from 'stream';
+import { FileStorageError, FileNotFoundError } from '../../middleware/errors';
+import * as logger from '../logger';
+import type { ByteRange, StorageObject, StorageObjectStat, StorageProvider } from './types';
+
+/**
+ * S3-compatible storage provider
+ * - Talks to AWS S3, MinIO, Garage, etc. over the plain REST API
+ * - Requests are signed with AWS Signature V4 (payload left unsigned so
+ *   uploads can be streamed without buffering)
+ * - Keys are `storage_path` values, optionally under a fixed `prefix`
+ * - Path-style addressing by default, as most self-hosted servers expect
+ */
+
+/** Connection settings for an S3-compatible endpoint. */
+export interface S3StorageOptions {
+    /** Base URL, e.g. "https://s3.amazonaws.com" or "http://minio.lan:9000" */
+    endpoint: string;
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    /** Optional key prefix, e.g. "moxbox/" */
+    prefix?: string;
+    /** Use `endpoint/bucket/key` instead of `bucket.endpoint/key` (default true) */
+    forcePathStyle?: boolean;
+}
+
+/** A request to sign and send. */
+interface S3Request {
+    method: 'GET' | 'PUT' | 'HEAD' | 'DELETE';
+    key?: string;
+    query?: Record<string, string>;
+    headers?: Record<string, string>;
+    body?: Readable;
+}
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+/** RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone). */
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256Hex(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function hmac(key: crypto.BinaryLike, value: string): Buffer {
+    return crypto.createHmac('sha256', key).update(value).digest();
+}
+
+/** Decode the handful of XML entities S3 uses in keys. */
+function decodeXml(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_m, code) => String.fromCharCode(Number(code)))
+        .replace(/&amp;/g, '&');
+}
+
+/** Read a whole response body (used for error messages and XML listings). */
+async function readBody(stream: Readable): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Build the SigV4 `Authorization` header for a request.
+ * Exported for verification against the published AWS signing examples.
+ */
+export function signS3Request(params: {
+    method: string;
+    host: string;
+    path: string;
+    query: Record<string, string>;
+    headers: Record<string, string>;
+    payloadHash: string;
+    amzDate: string;
+    region: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+}): string {
+    const date = params.amzDate.slice(0, 8);
+    const scope = `${date}/${params.region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = { host: params.host };
+    for (const [name, value] of Object.entries(params.headers)) {
+        headers[name.toLowerCase()] = value.trim();
+    }
+    const headerNames = Object.keys(headers).sort();
+    const canonicalHeaders = headerNames.map((name) => `${name}:${headers[name]}\n`).join('');
+    const signedHeaders = headerNames.join(';');
+
+    const canonicalQuery = Object.keys(params.query)
+        .sort()
+        .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(params.query[name])}`)
+        .join('&');
+
+    const canonicalRequest = [
+        params.method,
+        params.path,
+        canonicalQuery,
+        canonicalHeaders,
+        signedHeaders,
+        params.payloadHash,
+    ].join('\n');
+
+    const stringToSign = ['AWS4-HMAC-SHA256', params.amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const kDate = hmac(`AWS4${params.secretAccessKey}`, date);
+    const kRegion = hmac(kDate, params.region);
+    const kService = hmac(kRegion, 's3');
+    const kSigning = hmac(kService, 'aws4_request');
+    const signature = crypto.createHmac('sha256', kSigning).update(stringToSign).digest('hex');
+
+    return `AWS4-HMAC-SHA256 Credential=${params.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+export function createS3StorageProvider(options: S3StorageOptions): StorageProvider {
+    const endpoint = new URL(options.endpoint);
+    const pathStyle = options.forcePathStyle ?? true;
+    const prefix = options.prefix ?? '';
+    const transport = endpoint.protocol === 'https:' ? https : http;
+    const host = pathStyle ? endpoint.host : `${options.bucket}.${endpoint.host}`;
+    const basePath = endpoint.pathname.replace(/\/+$/, '');
+
+    /** Path of an object (or the bucket when `key` is undefined). */
+    function objectPath(key?: string): string {
+        const bucketPath = pathStyle ? `${basePath}/${encodeRfc3986(options.bucket)}` : basePath;
+        if (key === undefined) return bucketPath || '/';
+        const encodedKey = `${prefix}${key}`.split('/').map(encodeRfc3986).join('/');
+        return `${bucketPath}/${encodedKey}`;
+    }
+
+    /** Sign and send a request, resolving with the raw response. */
+    function send(req: S3Request): Promise<http.IncomingMessage> {
+        const query = req.query ?? {};
+        const reqPath = objectPath(req.key);
+        const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const headers: Record<string, string> = {
+            ...req.headers,
+            'x-amz-content-sha256': UNSIGNED_PAYLOAD,
+            'x-amz-date': amzDate,
+        };
+        headers.Authorization = signS3Request({
+            method: req.method,
+            host,
+            path: reqPath,
+            query,
+            headers,
+            payloadHash: UNSIGNED_PAYLOAD,
+            amzDate,
+            region: options.region,
+            accessKeyId: options.accessKeyId,
+            secretAccessKey: options.secretAccessKey,
+        });
+
+        const search = new URLSearchParams(query).toString().replace(/\+/g, '%20');
+
+        return new Promise((resolve, reject) => {
+            const request = transport.request({
+                protocol: endpoint.protocol,
+                hostname: pathStyle ? endpoint.hostname : `${options.bucket}.${endpoint.hostname}`,
+                port: endpoint.port || undefined,
+                method: req.method,
+                path: search ? `${reqPath}?${search}` : reqPath,
+                headers,
+            }, resolve);
+
+            request.on('error', reject);
+            if (req.body) {
+                req.body.on('error', (err) => request.destroy(err));
+                req.body.pipe(request);
+            } else {
+                request.end();
+            }
+        });
+    }
+
+    /** Send a request and fail with FileStorageError on unexpected statuses. */
+    async function sendExpecting(req: S3Request, ok: number[]): Promise<http.IncomingMessage> {
+        let response: http.IncomingMessage;
+        try {
+            response = await send(req);
+        } catch (err) {
+            logger.error(`S3 ${req.method} request failed`, err);
+            throw new FileStorageError(`Storage request failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+
+        const status = response.statusCode ?? 0;
+        if (ok.includes(status)) return response;
+
+        const body = req.method === 'HEAD' ? '' : await readBody(response).catch(() => '');
+        response.resume();
+        if (status === 404) {
+            throw new FileNotFoundError(`File not found: ${req.key ?? options.bucket}`);
+        }
+
+        const code = body.match(/<Code>([^<]*)<\/Code>/)?.[1];
+        logger.error(`S3 ${req.method} ${req.key ?? ''} returned ${status}`, { code });
+        throw new FileStorageError(`Storage request failed (${status}${code ? ` ${code}` : ''})`);
+    }
+
+    async function put(key: string, body: Readable, size: number): Promise<void> {
+        const response = await sendExpecting({
+            method: 'PUT',
+            key,
+            headers: { 'Content-Length': String(size) },
+            body,
+        }, [200]);
+        response.resume();
+    }
+
+    async function getStream(key: string, range?: ByteRange): Promise<Readable> {
+        return sendExpecting({
+            method: 'GET',
+            key,
+            headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined,
+        }, range ? [206, 200] : [200]);
+    }
+
+    async function stat(key: string): Promise<StorageObjectStat | null> {
+        try {
+            const response = await sendExpecting({ method: 'HEAD', key }, [200]);
+            response.resume();
+            const lastModified = response.headers['last-modified'];
+            return {
+                size: Number(response.headers['content-length'] ?? 0),
+                modifiedAt: lastModified ? new Date(lastModified) : new Date(0),
+            };
+        } catch (err) {
+            if (err instanceof FileNotFoundError) return null;
+            throw err;
+        }
+    }
+
+    async function remove(key: string): Promise<void> {
+        // S3 deletes are idempotent; check first to keep the local semantics
+        if (!(await stat(key))) throw new FileNotFoundError(`File not found: ${key}`);
+        const response = await sendExpecting({ method: 'DELETE', key }, [200, 204]);
+        response.resume();
+    }
+
+    async function rename(fromKey: string, toKey: string): Promise<void> {
+        // No native move — server-side copy, then delete the source
+        const copySource = `/${options.bucket}/${`${prefix}${fromKey}`.split('/').map(encodeRfc3986).join('/')}`;
+        const response = await sendExpecting({
+            method: 'PUT',
+            key: toKey,
+            headers: { 'x-amz-copy-source': copySource },
+        }, [200]);
+
+        // CopyObject can report failure inside a 200 response
+        const body = await readBody(response);
+        if (body.includes('<Error>')) {
+            logger.error(`S3 copy ${fromKey} -> ${toKey} failed`, { body });
+            throw new FileStorageError('Failed to rename file in storage');
+        }
+
+        await remove(fromKey);
+    }
+
+    async function list(listPrefix = ''): Promise<StorageObject[]> {
+        const results: StorageObject[] = [];
+        let continuationToken: string | undefined;
+
+        do {
+            const query: Record<string, string> = { 'list-type': '2', prefix: `${prefix}${listPrefix}` };
+            if (continuationToken) query['continuation-token'] = continuationToken;
+
+            const response = await sendExpecting({ method: 'GET', query }, [200]);
+            const xml = await readBody(response);
+
+            for (const match of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+                const entry = match[1];
+                const key = decodeXml(entry.match(/<Key>([\s\S]*?)<\/Key>/)?.[1] ?? '');
+                if (!key.startsWith(prefix)) continue;
+                results.push({
+                    key: key.slice(prefix.length),
+                    size: Number(entry.match(/<Size>(\d+)<\/Size>/)?.[1] ?? 0),
+                    modifiedAt: new Date(entry.match(/<LastModified>([^<]*)<\/LastModified>/)?.[1] ?? 0),
+                });
+            }
+
+            const truncated = /<IsTruncated>true<\/IsTruncated>/.test(xml);
+            continuationToken = truncated
+                ? decodeXml(xml.match(/<NextContinuationToken>([\s\S]*?)<\/NextContinuationToken>/)?.[1] ?? '')
+                : undefined;
+        } while (continuationToken);
+
+        return results;
+    }
+
+    return { name: 's3', put, getStream, stat, delete: remove, rename, list };
+}
+
+export default createS3StorageProvider;
@@ -0,0 +1,45 @@
+import type { Readable } from 'stream';
+
+/**
+ * Storage Provider Types
+ * ======================
+ * Contract for the backends that hold file contents. Keys are the relative
+ * `storage_path` values stored in the DB (e.g., "folder/uuid.ext"); the DB
+ * records which provider holds a file in `files.storage_provider`.
+ */
+
+/** Names accepted by STORAGE_PROVIDER and stored in `files.storage_provider`. */
+export type StorageProviderName = 'local' | 's3';
+
+/** Inclusive byte range, as used by HTTP Range requests. */
+export interface ByteRange {
+    start: number;
+    end: number;
+}
+
+/** Size and modification time of a stored object. */
+export interface StorageObjectStat {
+    size: number;
+    modifiedAt: Date;
+}
+
+/** A stored object returned by `list`. */
+export interface StorageObject extends StorageObjectStat {
+    key: string;
+}
+
+export interface StorageProvider {
+    readonly name: StorageProviderName;
+    /** Store `body` (exactly `size` bytes) under `key`, overwriting any existing object. */
+    put(key: string, body: Readable, size: number): Promise<void>;
+    /** Open a read stream for the whole object or an inclusive byte range. */
+    getStream(key: string, range?: ByteRange): Promise<Readable>;
+    /** Object size and mtime, or null when the key doesn't exist. */
+    stat(key: string): Promise<StorageObjectStat | null>;
+    /** Remove an object. @throws FileNotFoundError when it doesn't exist */
+    delete(key: string): Promise<void>;
+    /** Move an object to a new key. @throws FileNotFoundError when it doesn't exist */
+    rename(fromKey: string, toKey: string): Promise<void>;
+    /** List every object whose key starts with `prefix` (recursively). */
+    list(prefix?: string): Promise<StorageObject[]>;
+}
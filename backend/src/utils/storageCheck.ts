@@ -0,0 +1,289 @@
+import path from 'path';
+import { STORAGE_PROVIDER } from '../config/env';
+import { deleteFilePermanent, listFilesUnderFolder, updateFile, type FileRecord } from '../models/files';
+import { deleteFileVersion, listAllFileVersions } from '../models/fileVersions';
+import { listFolders, updateFolderSize } from '../models/folders';
+import { getStorageProvider, type StorageObject, type StorageProviderName } from './storage';
+import { computeStreamSha256 } from './fileHash';
+import { purgeFileVersions } from './fileVersioning';
+import { calculateFolderSizeFromFiles, recalculateParentFolderSizes } from './folderSizeUtil';
+import { info, error as logError } from './logger';
+
+/**
+ * Storage Consistency Check (fsck)
+ * ================================
+ * Reconciles the `files`, `file_versions` and `folders` tables with what the
+ * storage providers actually hold:
+ * - rows whose content is missing
+ * - stored objects no row refers to (orphans)
+ * - content whose SHA-256 / size no longer matches the row
+ * - `folders.size` values that differ from the sum of their files
+ *
+ * Repair mode fixes the catalog: rows with missing content are removed,
+ * hashes and sizes are updated from the stored content and folder sizes are
+ * recalculated. Orphans are only deleted when explicitly requested, since
+ * they may be files copied onto the storage mount by hand.
+ */
+
+/** Objects modified this recently are skipped as orphans (may be mid-upload). */
+export const ORPHAN_GRACE_MS = 10 * 60 * 1000;
+
+export interface StorageCheckOptions {
+    /** Fix the catalog instead of only reporting */
+    repair?: boolean;
+    /** Also delete orphaned objects (requires `repair`) */
+    deleteOrphans?: boolean;
+    /** Re-hash stored content and compare with `hash_sha256` (default true) */
+    verifyHashes?: boolean;
+}
+
+/** A row whose stored content is missing. */
+export interface MissingContent {
+    kind: 'file' | 'version';
+    id: string;
+    fileId: string;
+    originalName: string;
+    storageProvider: string;
+    storagePath: string;
+    status?: string;
+}
+
+/** A stored object with no row referring to it. */
+export interface OrphanObject {
+    storageProvider: StorageProviderName;
+    storagePath: string;
+    size: number;
+    modifiedAt: string;
+}
+
+/** A file whose stored content differs from its recorded hash or size. */
+export interface ContentMismatch {
+    fileId: string;
+    originalName: string;
+    storageProvider: string;
+    storagePath: string;
+    expectedHash: string | null;
+    actualHash: string | null;
+    expectedSize: number | null;
+    actualSize: number;
+}
+
+/** A folder whose recorded size differs from the sum of its files. */
+export interface StaleFolderSize {
+    path: string;
+    recordedSize: number;
+    actualSize: number;
+}
+
+export interface StorageCheckReport {
+    startedAt: string;
+    finishedAt: string;
+    repaired: boolean;
+    checkedFiles: number;
+    checkedVersions: number;
+    checkedObjects: number;
+    missingContent: MissingContent[];
+    orphanObjects: OrphanObject[];
+    hashMismatches: ContentMismatch[];
+    staleFolderSizes: StaleFolderSize[];
+}
+
+/** True for keys under a hidden directory (staged uploads, versions). */
+export function isHiddenKey(key: string): boolean {
+    return key.split('/').some((segment) => segment.startsWith('.'));
+}
+
+/** Folder part of a storage path ('' for root). */
+function folderOf(storagePath: string): string {
+    const dir = path.posix.dirname(storagePath);
+    return dir === '.' ? '' : dir;
+}
+
+/** List every visible object of the providers in use, keyed by path. */
+async function listObjects(providerNames: Set<StorageProviderName>): Promise<Map<string, StorageObject & { provider: StorageProviderName }>> {
+    const objects = new Map<string, StorageObject & { provider: StorageProviderName }>();
+    for (const name of providerNames) {
+        for (const object of await getStorageProvider(name).list()) {
+            if (isHiddenKey(object.key)) continue;
+            objects.set(`${name}:${object.key}`, { ...object, provider: name });
+        }
+    }
+    return objects;
+}
+
+/** Compare a file's stored content with its row. */
+async function checkContent(file: FileRecord, size: number, verifyHashes: boolean): Promise<ContentMismatch | null> {
+    let actualHash: string | null = file.hash_sha256 ?? null;
+    if (verifyHashes && file.hash_sha256) {
+        const stream = await getStorageProvider(file.storage_provider).getStream(file.storage_path);
+        actualHash = await computeStreamSha256(stream);
+    }
+
+    if (actualHash === (file.hash_sha256 ?? null) && size === file.size) return null;
+    return {
+        fileId: file.id,
+        originalName: file.original_name,
+        storageProvider: file.storage_provider,
+        storagePath: file.storage_path,
+        expectedHash: file.hash_sha256 ?? null,
+        actualHash,
+        expectedSize: file.size ?? null,
+        actualSize: size,
+    };
+}
+
+let running = false;
+
+/** True while a check is in progress (only one may run at a time). */
+export function isStorageCheckRunning(): boolean {
+    return running;
+}
+
+/**
+ * Run the consistency check, optionally repairing what it finds.
+ * Findings are reported as they were before any repair.
+ */
+export async function runStorageCheck(options: StorageCheckOptions = {}): Promise<StorageCheckReport> {
+    if (running) throw new Error('A storage check is already running');
+    running = true;
+
+    try {
+        const { repair = false, deleteOrphans = false, verifyHashes = true } = options;
+        const startedAt = new Date().toISOString();
+
+        const files = [...listFilesUnderFolder('', 'active'), ...listFilesUnderFolder('', 'deleted')];
+        const versions = listAllFileVersions();
+
+        // Only talk to remote providers that are configured or referenced
+        const providerNames = new Set<StorageProviderName>(['local']);
+        if (STORAGE_PROVIDER === 's3' || files.some((f) => f.storage_provider === 's3') || versions.some((v) => v.storage_provider === 's3')) {
+            providerNames.add('s3');
+        }
+        const objects = await listObjects(providerNames);
+
+        const missingContent: MissingContent[] = [];
+        const hashMismatches: ContentMismatch[] = [];
+        const referenced = new Set<string>();
+
+        for (const file of files) {
+            const key = `${file.storage_provider === 's3' ? 's3' : 'local'}:${file.storage_path}`;
+            referenced.add(key);
+
+            const object = objects.get(key);
+            const stat = object ?? await getStorageProvider(file.storage_provider).stat(file.storage_path);
+            if (!stat) {
+                missingContent.push({
+                    kind: 'file',
+                    id: file.id,
+                    fileId: file.id,
+                    originalName: file.original_name,
+                    storageProvider: file.storage_provider,
+                    storagePath: file.storage_path,
+                    status: file.status,
+                });
+                continue;
+            }
+
+            try {
+                const mismatch = await checkContent(file, stat.size, verifyHashes);
+                if (mismatch) hashMismatches.push(mismatch);
+            } catch (err) {
+                logError('Failed to verify file content', { id: file.id, err });
+            }
+        }
+
+        // Versions live under a hidden directory, so check them one by one
+        for (const version of versions) {
+            const stat = await getStorageProvider(version.storage_provider).stat(version.storage_path);
+            if (stat) continue;
+            missingContent.push({
+                kind: 'version',
+                id: version.id,
+                fileId: version.file_id,
+                originalName: version.original_name,
+                storageProvider: version.storage_provider,
+                storagePath: version.storage_path,
+            });
+        }
+
+        const graceCutoff = Date.now() - ORPHAN_GRACE_MS;
+        const orphanObjects: OrphanObject[] = [];
+        for (const [key, object] of objects) {
+            if (referenced.has(key) || object.modifiedAt.getTime() > graceCutoff) continue;
+            orphanObjects.push({
+                storageProvider: object.provider,
+                storagePath: object.key,
+                size: object.size,
+                modifiedAt: object.modifiedAt.toISOString(),
+            });
+        }
+
+        const staleFolderSizes: StaleFolderSize[] = [];
+        const staleFolderIds: string[] = [];
+        for (const folder of listFolders()) {
+            const actualSize = calculateFolderSizeFromFiles(folder.path);
+            if (actualSize !== folder.size) {
+                staleFolderSizes.push({ path: folder.path, recordedSize: folder.size, actualSize });
+                staleFolderIds.push(folder.id);
+            }
+        }
+
+        if (repair) {
+            const touchedFolders = new Set<string>();
+
+            for (const missing of missingContent) {
+                if (missing.kind === 'version') {
+                    deleteFileVersion(missing.id);
+                } else {
+                    await purgeFileVersions(missing.id);
+                    deleteFilePermanent(missing.id);
+                    touchedFolders.add(folderOf(missing.storagePath));
+                }
+            }
+
+            for (const mismatch of hashMismatches) {
+                updateFile(mismatch.fileId, { hash_sha256: mismatch.actualHash, size: mismatch.actualSize });
+                touchedFolders.add(folderOf(mismatch.storagePath));
+            }
+
+            if (deleteOrphans) {
+                for (const orphan of orphanObjects) {
+                    try {
+                        await getStorageProvider(orphan.storageProvider).delete(orphan.storagePath);
+                    } catch (err) {
+                        logError('Failed to delete orphaned object', { path: orphan.storagePath, err });
+                    }
+                }
+            }
+
+            for (const folderPath of touchedFolders) recalculateParentFolderSizes(folderPath);
+            staleFolderSizes.forEach((stale, i) => {
+                updateFolderSize(staleFolderIds[i], calculateFolderSizeFromFiles(stale.path));
+            });
+        }
+
+        const report: StorageCheckReport = {
+            startedAt,
+            finishedAt: new Date().toISOString(),
+            repaired: repair,
+            checkedFiles: files.length,
+            checkedVersions: versions.length,
+            checkedObjects: objects.size,
+            missingContent,
+            orphanObjects,
+            hashMismatches,
+            staleFolderSizes,
+        };
+
+        info('Storage check finished', {
+            repair,
+            missing: missingContent.length,
+            orphans: orphanObjects.length,
+            mismatches: hashMismatches.length,
+            staleFolders: staleFolderSizes.length,
+        });
+        return report;
+    } finally {
+        running = false;
+    }
+}
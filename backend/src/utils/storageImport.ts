@@ -0,0 +1,174 @@
+import path from 'path';
+import crypto from 'crypto';
+import { UPLOAD_DISALLOWED_MIME_TYPES } from '../config/env';
+import {
+    createFile,
+    generateUniqueOriginalNameInFolder,
+    listFilesUnderFolder,
+} from '../models/files';
+import { listAllFileVersions } from '../models/fileVersions';
+import { detectMimeType } from '../middleware/multerHandler';
+import { getStorageProvider } from './storage';
+import { computeSha256 } from './fileHash';
+import * as fileStorage from './fileStorage';
+import { ensureAndRecalculateFolderSizes } from './folderSizeUtil';
+import { sanitizeFolderPath } from './pathSanitizer';
+import { ORPHAN_GRACE_MS, isHiddenKey } from './storageCheck';
+import { info, error as logError } from './logger';
+
+/**
+ * Storage Import
+ * ==============
+ * Registers files that exist in FILES_DIR but not in the `files` table
+ * (e.g. a storage mount that predates Moxbox, or files copied in by hand),
+ * so they can be downloaded, moved and trashed through the API.
+ * Files stay in their folder but are renamed to a generated stored name,
+ * as uploads are; the name they had becomes their display name.
+ */
+
+export interface StorageImportOptions {
+    /** Owner of the imported files */
+    ownerId: string;
+    /** Only import beneath this folder ('' or omitted for everything) */
+    folder?: string;
+    /** Report what would be imported without creating rows */
+    dryRun?: boolean;
+}
+
+/** A file registered (or, in a dry run, that would be registered). */
+export interface ImportedFile {
+    id: string | null;
+    originalName: string;
+    /** Where the file was found */
+    sourcePath: string;
+    /** Where it is stored now (same as `sourcePath` in a dry run) */
+    storagePath: string;
+    mimeType: string;
+    size: number;
+}
+
+/** A file that was found but left untracked. */
+export interface SkippedFile {
+    storagePath: string;
+    reason: string;
+}
+
+export interface StorageImportReport {
+    dryRun: boolean;
+    folder: string;
+    imported: ImportedFile[];
+    skipped: SkippedFile[];
+}
+
+let running = false;
+
+/** True while an import is in progress (only one may run at a time). */
+export function isStorageImportRunning(): boolean {
+    return running;
+}
+
+/**
+ * Find untracked files in FILES_DIR and register them under `ownerId`,
+ * creating folder rows and recalculating folder sizes as needed.
+ * Files in folders the API can't address (names outside the allowed
+ * character set), with blocked MIME types or still being written are skipped.
+ */
+export async function importUntrackedFiles(options: StorageImportOptions): Promise<StorageImportReport> {
+    if (running) throw new Error('A storage import is already running');
+    running = true;
+
+    try {
+        const folder = sanitizeFolderPath(options.folder);
+        const dryRun = options.dryRun ?? false;
+
+        // Everything the catalog already knows about on local storage
+        const tracked = new Set<string>();
+        for (const file of [...listFilesUnderFolder('', 'active'), ...listFilesUnderFolder('', 'deleted')]) {
+            if (file.storage_provider === 'local') tracked.add(file.storage_path);
+        }
+        for (const version of listAllFileVersions()) {
+            if (version.storage_provider === 'local') tracked.add(version.storage_path);
+        }
+
+        const objects = await getStorageProvider('local').list(folder ? `${folder}/` : '');
+        const graceCutoff = Date.now() - ORPHAN_GRACE_MS;
+        const imported: ImportedFile[] = [];
+        const skipped: SkippedFile[] = [];
+        const touchedFolders = new Set<string>();
+
+        for (const object of objects) {
+            if (tracked.has(object.key) || isHiddenKey(object.key)) continue;
+
+            const dir = path.posix.dirname(object.key);
+            const fileFolder = dir === '.' ? '' : dir;
+            const name = path.posix.basename(object.key);
+
+            let addressable: boolean;
+            try {
+                addressable = sanitizeFolderPath(fileFolder) === fileFolder;
+            } catch {
+                addressable = false;
+            }
+            if (!addressable) {
+                skipped.push({ storagePath: object.key, reason: 'Folder name not supported' });
+                continue;
+            }
+            if (object.modifiedAt.getTime() > graceCutoff) {
+                skipped.push({ storagePath: object.key, reason: 'Modified too recently (may still be uploading)' });
+                continue;
+            }
+
+            const mimeType = detectMimeType(name);
+            if (UPLOAD_DISALLOWED_MIME_TYPES.includes(mimeType.toLowerCase())) {
+                skipped.push({ storagePath: object.key, reason: `File type not allowed: ${mimeType}` });
+                continue;
+            }
+
+            if (dryRun) {
+                imported.push({ id: null, originalName: name, sourcePath: object.key, storagePath: object.key, mimeType, size: object.size });
+                continue;
+            }
+
+            // Rename to a generated stored name so `stored_name` matches the
+            // file on disk, like every other row
+            const storedName = `${crypto.randomUUID()}${path.extname(name)}`;
+            const storagePath = fileFolder ? `${fileFolder}/${storedName}` : storedName;
+            let renamed = false;
+            try {
+                const hash = await computeSha256(fileStorage.getFilePath(object.key));
+                await fileStorage.renameFile(object.key, storagePath);
+                renamed = true;
+
+                const file = createFile({
+                    // Keep the on-disk name visible; resolve clashes with tracked files
+                    originalName: generateUniqueOriginalNameInFolder(name, fileFolder || null, options.ownerId),
+                    storedName,
+                    mimeType,
+                    size: object.size,
+                    hashSha256: hash,
+                    storageProvider: 'local',
+                    storagePath,
+                    ownerId: options.ownerId,
+                    metadata: { importedAt: new Date().toISOString(), importedFrom: object.key },
+                });
+                imported.push({ id: file.id, originalName: file.original_name, sourcePath: object.key, storagePath, mimeType, size: object.size });
+                touchedFolders.add(fileFolder);
+            } catch (err) {
+                logError('Failed to import file', { path: object.key, err });
+                if (renamed) {
+                    try { await fileStorage.renameFile(storagePath, object.key); } catch { /* ignore */ }
+                }
+                skipped.push({ storagePath: object.key, reason: 'Import failed' });
+            }
+        }
+
+        for (const folderPath of touchedFolders) {
+            ensureAndRecalculateFolderSizes(folderPath, options.ownerId);
+        }
+
+        info('Storage import finished', { dryRun, folder: folder || '(root)', imported: imported.length, skipped: skipped.length });
+        return { dryRun, folder, imported, skipped };
+    } finally {
+        running = false;
+    }
+}
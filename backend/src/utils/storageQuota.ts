@@ -0,0 +1,66 @@
+import { USER_QUOTA_DEFAULT } from '../config/env';
+import { getOwnerStorageUsage } from '../models/files';
+import { getUserById, type UserRecord } from '../models/users';
+import { QuotaExceededError } from '../middleware/errors';
+
+/**
+ * Storage Quota
+ * =============
+ * Per-user storage limits. A user's own `quota_bytes` wins; without one
+ * the USER_QUOTA_DEFAULT applies. A quota of 0 means unlimited.
+ *
+ * Usage counts everything the user owns: active and trashed files plus
+ * the previous versions kept for them.
+ */
+
+/** Current usage and effective quota (null = unlimited), in bytes. */
+export interface StorageUsage {
+    usedBytes: number;
+    quotaBytes: number | null;
+}
+
+/** Effective quota for a user in bytes, or null when unlimited. */
+export function getEffectiveQuota(user: Pick<UserRecord, 'quota_bytes'>): number | null {
+    const quota = user.quota_bytes ?? USER_QUOTA_DEFAULT;
+    return quota > 0 ? quota : null;
+}
+
+/** Usage and quota for a user; unknown users are treated as unlimited. */
+export function getStorageUsage(userId: string): StorageUsage {
+    const user = getUserById(userId);
+    return {
+        usedBytes: getOwnerStorageUsage(userId),
+        quotaBytes: user ? getEffectiveQuota(user) : null,
+    };
+}
+
+/** Human-readable size for error messages (binary units, like the env parser). */
+function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Throws QuotaExceededError when storing `incomingBytes` more would take
+ * the user past their quota.
+ */
+export function assertQuotaAvailable(userId: string | null | undefined, incomingBytes: number): void {
+    if (!userId) return;
+
+    const { usedBytes, quotaBytes } = getStorageUsage(userId);
+    if (quotaBytes === null || usedBytes + incomingBytes <= quotaBytes) return;
+
+    const remaining = Math.max(0, quotaBytes - usedBytes);
+    throw new QuotaExceededError(
+        `Storage quota exceeded: ${formatBytes(usedBytes)} of ${formatBytes(quotaBytes)} used, ` +
+        `${formatBytes(remaining)} left but this upload needs ${formatBytes(incomingBytes)}.`,
+        usedBytes,
+        quotaBytes
+    );
+}
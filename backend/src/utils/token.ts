@@ -2,6 +2,7 @@ import jwt from 'jsonwebtoken';
 import config from '../config/env';
 import type { UserClaim } from '../types/auth';
 import { getUserById } from '../models/users';
+import { getSessionById, isSessionActive, touchSession } from '../models/sessions';
 
 /*
  * Utilities to sign and verify JWT tokens for this application.
@@ -69,6 +70,9 @@ export function verifyToken(token: string): UserClaim {
         if (!userRecord) {
             throw new Error('Token invalid: user no longer exists');
         }
+        if (userRecord.disabled) {
+            throw new Error('Token invalid: account is disabled');
+        }
 
         // If a version field is present in the token, ensure it matches the
         // current user record version (created_at/updated_at). This allows
@@ -77,6 +81,15 @@ export function verifyToken(token: string): UserClaim {
         if (obj.v && obj.v !== currentVersion) {
             throw new Error('Token invalidated: user record changed');
         }
+
+        // Tokens issued for a session stop working once it is revoked
+        if (obj.sid) {
+            const session = getSessionById(obj.sid);
+            if (!session || session.user_id !== obj.id || !isSessionActive(session)) {
+                throw new Error('Token invalid: session has ended');
+            }
+            touchSession(session.id);
+        }
     } catch (err) {
         // Re-throw as a generic error so middleware can translate to auth error
         throw new Error((err as Error).message || 'Invalid token');
@@ -84,4 +97,78 @@ export function verifyToken(token: string): UserClaim {
     return obj as UserClaim;
 }
 
-export default { signToken, verifyToken };
+/** Lifetime of the token bridging the password and 2FA login steps. */
+const CHALLENGE_TOKEN_TTL = '5m';
+
+/**
+ * Sign a short-lived token proving the password step of a 2FA login
+ * succeeded. It lacks the `UserClaim` fields, so `verifyToken` (and thus
+ * `authenticate`) rejects it as an access token.
+ *
+ * @param userId - User who passed the password check
+ * @param version - User record version (`updated_at ?? created_at`)
+ */
+export function signChallengeToken(userId: string, version: string): string {
+    const secret = config.jwtSecret;
+    if (!secret) {
+        throw new Error('JWT_SECRET is not configured');
+    }
+    return jwt.sign({ sub: userId, v: version, purpose: '2fa' }, secret as jwt.Secret, { expiresIn: CHALLENGE_TOKEN_TTL });
+}
+
+/**
+ * Verify a 2FA challenge token.
+ *
+ * @returns The user id and record version it was issued for
+ * @throws Error if the token is invalid, expired or not a challenge token
+ */
+export function verifyChallengeToken(token: string): { userId: string; version: string } {
+    const secret = config.jwtSecret;
+    if (!secret) {
+        throw new Error('JWT_SECRET is not configured');
+    }
+    const decoded = jwt.verify(token, secret as jwt.Secret) as jwt.JwtPayload;
+    if (decoded.purpose !== '2fa' || typeof decoded.sub !== 'string' || typeof decoded.v !== 'string') {
+        throw new Error('Invalid challenge token');
+    }
+    return { userId: decoded.sub, version: decoded.v };
+}
+
+/** Lifetime of a share link download grant (resuming and seeking). */
+const SHARE_GRANT_TTL = '6h';
+
+/**
+ * Sign a grant for a share link download that was already counted, so
+ * follow-up range requests for the same file don't count again. Like
+ * challenge tokens, it can't pass as an access token.
+ *
+ * @param linkId - Share link the download was made through
+ * @param fileId - File that was downloaded
+ */
+export function signShareGrant(linkId: string, fileId: string): string {
+    const secret = config.jwtSecret;
+    if (!secret) {
+        throw new Error('JWT_SECRET is not configured');
+    }
+    return jwt.sign({ sub: linkId, fid: fileId, purpose: 'share' }, secret as jwt.Secret, { expiresIn: SHARE_GRANT_TTL });
+}
+
+/**
+ * Verify a share link download grant.
+ *
+ * @returns The link and file ids it was issued for
+ * @throws Error if the token is invalid, expired or not a share grant
+ */
+export function verifyShareGrant(token: string): { linkId: string; fileId: string } {
+    const secret = config.jwtSecret;
+    if (!secret) {
+        throw new Error('JWT_SECRET is not configured');
+    }
+    const decoded = jwt.verify(token, secret as jwt.Secret) as jwt.JwtPayload;
+    if (decoded.purpose !== 'share' || typeof decoded.sub !== 'string' || typeof decoded.fid !== 'string') {
+        throw new Error('Invalid share grant');
+    }
+    return { linkId: decoded.sub, fileId: decoded.fid };
+}
+
+export default { signToken, verifyToken, signChallengeToken, verifyChallengeToken, signShareGrant, verifyShareGrant };
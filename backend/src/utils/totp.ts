@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import { setRecoveryCodeHashes, setTotpLastStep, type UserRecord } from '../models/users';
+
+/**
+ * TOTP Two-Factor Authentication
+ * ==============================
+ * Time-based one-time passwords (RFC 6238: HMAC-SHA1, 30 s steps,
+ * 6 digits) as produced by common authenticator apps, plus single-use
+ * recovery codes for when the device is lost.
+ *
+ * Secrets are stored base32-encoded; recovery codes only as SHA-256 hashes.
+ * Each accepted TOTP step is recorded so a code can't be used twice.
+ */
+
+const ISSUER = 'Moxbox';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+/** Steps accepted either side of the current one (clock drift) */
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return output;
+}
+
+function base32Decode(input: string): Buffer {
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of input.replace(/=+$/, '').toUpperCase()) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error('Invalid base32 secret');
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+/** HOTP value (RFC 4226) of a counter. */
+function generateCode(secret: Buffer, counter: number): string {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+    const hmac = crypto.createHmac('sha1', secret).update(message).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+/** Generate a new random TOTP secret (160 bits, base32). */
+export function generateTotpSecret(): string {
+    return base32Encode(crypto.randomBytes(20));
+}
+
+/** `otpauth://` URI for authenticator apps (usually shown as a QR code). */
+export function buildOtpauthUri(username: string, secret: string): string {
+    const label = encodeURIComponent(`${ISSUER}:${username}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: ISSUER,
+        algorithm: 'SHA1',
+        digits: String(DIGITS),
+        period: String(STEP_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Check a TOTP code against a secret.
+ * @param lastStep - Last accepted step; it and earlier steps are rejected
+ * @returns The matched time step, or null if the code is invalid
+ */
+export function verifyTotpCode(secret: string, code: string, lastStep?: number | null): number | null {
+    const normalized = code.replace(/\s+/g, '');
+    if (!new RegExp(`^\\d{${DIGITS}}$`).test(normalized)) return null;
+
+    const key = base32Decode(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+    for (let step = currentStep - DRIFT_STEPS; step <= currentStep + DRIFT_STEPS; step++) {
+        if (lastStep != null && step <= lastStep) continue;
+        const expected = generateCode(key, step);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) return step;
+    }
+    return null;
+}
+
+/** Hash a recovery code for storage (case and dashes are ignored). */
+function hashRecoveryCode(code: string): string {
+    const normalized = code.replace(/[\s-]+/g, '').toLowerCase();
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * Generate a fresh set of recovery codes.
+ * @returns Plain codes (shown to the user once) and their hashes (stored)
+ */
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const hex = crypto.randomBytes(5).toString('hex');
+        return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+    return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/** Stored recovery code hashes of a user. */
+function getRecoveryCodeHashes(user: UserRecord): string[] {
+    try {
+        const parsed = JSON.parse(user.totp_recovery_codes ?? '[]');
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+/** Number of unused recovery codes a user has left. */
+export function countRecoveryCodes(user: UserRecord): number {
+    return getRecoveryCodeHashes(user).length;
+}
+
+/**
+ * Verify the second factor of a user with 2FA enabled: either a TOTP code
+ * or an unused recovery code. Accepted codes are consumed.
+ * @returns True if the code was accepted
+ */
+export function verifySecondFactor(user: UserRecord, code: string): boolean {
+    if (!user.totp_enabled || !user.totp_secret) return false;
+
+    const step = verifyTotpCode(user.totp_secret, code, user.totp_last_step);
+    if (step !== null) {
+        setTotpLastStep(user.id, step);
+        return true;
+    }
+
+    const hash = hashRecoveryCode(code);
+    const hashes = getRecoveryCodeHashes(user);
+    if (!hashes.includes(hash)) return false;
+    setRecoveryCodeHashes(user.id, hashes.filter((h) => h !== hash));
+    return true;
+}
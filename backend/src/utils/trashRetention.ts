@@ -0,0 +1,69 @@
+import path from 'path';
+import { TRASH_RETENTION_DAYS } from '../config/env';
+import { deleteFilePermanent, listExpiredTrashedFiles, type FileRecord } from '../models/files';
+import { FileNotFoundError } from '../middleware/errors';
+import * as fileStorage from './fileStorage';
+import { purgeFileVersions } from './fileVersioning';
+import { recalculateParentFolderSizes } from './folderSizeUtil';
+import { info, error as logError } from './logger';
+
+/**
+ * Trash Retention
+ * ===============
+ * Permanently deletes files that have been in Trash longer than
+ * TRASH_RETENTION_DAYS. Runs at startup and on a schedule (see index.ts).
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When a trashed file will be purged, or null when retention is disabled.
+ */
+export function getTrashPurgeDate(file: FileRecord): Date | null {
+    if (TRASH_RETENTION_DAYS <= 0) return null;
+    const deletedAt = file.deleted_at ?? file.updated_at ?? file.created_at;
+    return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Permanently delete trashed files past the retention period, along with
+ * their stored versions, and recalculate the affected folder sizes.
+ *
+ * @returns Number of files purged
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+    if (TRASH_RETENTION_DAYS <= 0) return 0;
+
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_MS).toISOString();
+    const expired = listExpiredTrashedFiles(cutoff);
+    const folders = new Set<string>();
+    let purged = 0;
+
+    for (const file of expired) {
+        try {
+            await fileStorage.deleteFile(file.storage_path, file.storage_provider);
+        } catch (err) {
+            // Content already gone — still drop the row
+            if (!(err instanceof FileNotFoundError)) {
+                logError('Failed to purge trashed file', { id: file.id, err });
+                continue;
+            }
+        }
+
+        await purgeFileVersions(file.id);
+        deleteFilePermanent(file.id);
+        purged++;
+
+        const folderPath = path.posix.dirname(file.storage_path);
+        folders.add(folderPath === '.' ? '' : folderPath);
+    }
+
+    for (const folderPath of folders) {
+        recalculateParentFolderSizes(folderPath);
+    }
+
+    if (purged > 0) {
+        info('Expired trash purged', { count: purged, retentionDays: TRASH_RETENTION_DAYS });
+    }
+    return purged;
+}
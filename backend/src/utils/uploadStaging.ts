@@ -0,0 +1,73 @@
+import fs from 'fs/promises';
+import { UPLOAD_RESUMABLE_TTL_HOURS } from '../config/env';
+import { deleteUpload, listStaleUploads, updateUploadOffset, type ResumableUploadRecord } from '../models/resumableUploads';
+import * as fileStorage from './fileStorage';
+import { info, error as logError } from './logger';
+
+/**
+ * Upload Staging
+ * ==============
+ * Manages the partial data of resumable uploads in the staging directory.
+ * The staged file on disk is the source of truth for how many bytes were
+ * received; the `offset` column is kept in sync with it so progress survives
+ * restarts and interrupted requests.
+ */
+
+/** Absolute path of an upload's staged data. */
+export function getStagedFilePath(uploadId: string): string {
+    return fileStorage.getFilePath(fileStorage.getStagingPath(uploadId));
+}
+
+/**
+ * Create the (empty) staged file for a new upload.
+ * Creates the staging directory on first use.
+ */
+export async function createStagedFile(uploadId: string): Promise<void> {
+    await fileStorage.ensureDirectory(fileStorage.UPLOAD_STAGING_DIR);
+    await fs.writeFile(getStagedFilePath(uploadId), '');
+}
+
+/**
+ * Read the staged file size and persist it as the upload offset.
+ * A missing staged file counts as zero bytes received.
+ */
+export async function syncUploadOffset(upload: ResumableUploadRecord): Promise<ResumableUploadRecord> {
+    let size = 0;
+    try {
+        size = (await fs.stat(getStagedFilePath(upload.id))).size;
+    } catch {
+        // Staged data lost (e.g., cleared by hand) — start over from zero
+        await createStagedFile(upload.id);
+    }
+
+    if (size === upload.offset) return upload;
+    return updateUploadOffset(upload.id, size) ?? upload;
+}
+
+/** Remove an upload row together with its staged data. */
+export async function discardUpload(uploadId: string): Promise<void> {
+    try { await fs.unlink(getStagedFilePath(uploadId)); } catch { /* ignore */ }
+    deleteUpload(uploadId);
+}
+
+/**
+ * Discard uploads that haven't received data within UPLOAD_RESUMABLE_TTL_HOURS.
+ * Returns the number of uploads removed.
+ */
+export async function purgeStaleUploads(): Promise<number> {
+    const cutoff = new Date(Date.now() - UPLOAD_RESUMABLE_TTL_HOURS * 60 * 60 * 1000).toISOString();
+    const stale = listStaleUploads(cutoff);
+
+    for (const upload of stale) {
+        try {
+            await discardUpload(upload.id);
+        } catch (err) {
+            logError('Failed to discard stale upload', { id: upload.id, err });
+        }
+    }
+
+    if (stale.length > 0) {
+        info('Stale resumable uploads discarded', { count: stale.length });
+    }
+    return stale.length;
+}
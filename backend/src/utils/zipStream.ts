@@ -0,0 +1,291 @@
+import { once } from 'events';
+import { Transform, type Readable, type Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+
+/**
+ * Streaming ZIP writer
+ * ====================
+ * Writes a ZIP archive straight to a writable stream (e.g. an HTTP
+ * response) one entry at a time, so nothing is buffered in memory or on
+ * disk beyond a single chunk.
+ *
+ * - Entries are deflated; CRC and sizes follow each entry in a data
+ *   descriptor because they are only known once the entry has been read
+ * - Names are stored as UTF-8 (general purpose flag bit 11)
+ * - ZIP64 records are used for entries of 4 GB or more and when the
+ *   archive itself grows past 4 GB or 65535 entries
+ */
+
+/** Options for a file entry. */
+export interface ZipFileOptions {
+    /** Uncompressed size if known; large entries are written as ZIP64 */
+    size?: number;
+    /** Modification time stored in the entry (defaults to now) */
+    modifiedAt?: Date;
+}
+
+export interface ZipWriter {
+    /** Add a file entry whose content is read from `source`. */
+    addFile(name: string, source: Readable, options?: ZipFileOptions): Promise<void>;
+    /** Add an (empty) directory entry; a trailing slash is added if missing. */
+    addDirectory(name: string, modifiedAt?: Date): Promise<void>;
+    /** Write the central directory and end the output stream. */
+    finish(): Promise<void>;
+}
+
+/** A written entry, kept for the central directory. */
+interface CentralEntry {
+    name: Buffer;
+    flags: number;
+    method: number;
+    time: number;
+    date: number;
+    crc: number;
+    compressedSize: number;
+    uncompressedSize: number;
+    offset: number;
+    isDirectory: boolean;
+    zip64: boolean;
+}
+
+const UINT32_MAX = 0xffffffff;
+const UINT16_MAX = 0xffff;
+
+/**
+ * Entries at least this large use ZIP64 sizes. Kept below 4 GB because
+ * deflating incompressible data can make the output slightly larger.
+ */
+const ZIP64_ENTRY_THRESHOLD = 0xf0000000;
+
+/** General purpose flags: sizes in data descriptor (bit 3), UTF-8 names (bit 11). */
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+/** "Version made by": UNIX host, spec 4.5 (so external attributes carry permissions). */
+const VERSION_MADE_BY = (3 << 8) | 45;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+/** MS-DOS date and time fields (2-second resolution, years from 1980). */
+function toDosDateTime(value: Date): { time: number; date: number } {
+    const year = Math.max(value.getFullYear(), 1980);
+    return {
+        time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+    };
+}
+
+/** ZIP64 extended information extra field holding the given 64-bit values. */
+function zip64Extra(values: number[]): Buffer {
+    const extra = Buffer.alloc(4 + values.length * 8);
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(values.length * 8, 2);
+    values.forEach((value, i) => extra.writeBigUInt64LE(BigInt(value), 4 + i * 8));
+    return extra;
+}
+
+/**
+ * Create a ZIP writer on top of `output`. Entries must be added one at a
+ * time (await each call). Fails fast once the output has been closed,
+ * e.g. when the client disconnects.
+ */
+export function createZipWriter(output: Writable): ZipWriter {
+    const entries: CentralEntry[] = [];
+    let offset = 0;
+
+    /** Write a chunk, waiting for the output to drain when it is full. */
+    async function write(chunk: Buffer): Promise<void> {
+        if (output.destroyed || output.writableEnded) {
+            throw new Error('Archive output closed');
+        }
+        offset += chunk.length;
+        if (!output.write(chunk)) {
+            await Promise.race([
+                once(output, 'drain'),
+                once(output, 'close').then(() => { throw new Error('Archive output closed'); }),
+            ]);
+        }
+    }
+
+    function localHeader(entry: CentralEntry): Buffer {
+        const extra = entry.zip64 ? zip64Extra([0, 0]) : Buffer.alloc(0);
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);
+        header.writeUInt16LE(entry.zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 4);
+        header.writeUInt16LE(entry.flags, 6);
+        header.writeUInt16LE(entry.method, 8);
+        header.writeUInt16LE(entry.time, 10);
+        header.writeUInt16LE(entry.date, 12);
+        // CRC and sizes live in the data descriptor (or are 0 for directories)
+        header.writeUInt32LE(0, 14);
+        header.writeUInt32LE(entry.zip64 ? UINT32_MAX : 0, 18);
+        header.writeUInt32LE(entry.zip64 ? UINT32_MAX : 0, 22);
+        header.writeUInt16LE(entry.name.length, 26);
+        header.writeUInt16LE(extra.length, 28);
+        return Buffer.concat([header, entry.name, extra]);
+    }
+
+    function dataDescriptor(entry: CentralEntry): Buffer {
+        if (entry.zip64) {
+            const descriptor = Buffer.alloc(24);
+            descriptor.writeUInt32LE(0x08074b50, 0);
+            descriptor.writeUInt32LE(entry.crc, 4);
+            descriptor.writeBigUInt64LE(BigInt(entry.compressedSize), 8);
+            descriptor.writeBigUInt64LE(BigInt(entry.uncompressedSize), 16);
+            return descriptor;
+        }
+        const descriptor = Buffer.alloc(16);
+        descriptor.writeUInt32LE(0x08074b50, 0);
+        descriptor.writeUInt32LE(entry.crc, 4);
+        descriptor.writeUInt32LE(entry.compressedSize, 8);
+        descriptor.writeUInt32LE(entry.uncompressedSize, 12);
+        return descriptor;
+    }
+
+    function centralHeader(entry: CentralEntry): Buffer {
+        const needsZip64 = entry.zip64 || entry.offset >= UINT32_MAX;
+        const extra = needsZip64
+            ? zip64Extra([entry.uncompressedSize, entry.compressedSize, entry.offset])
+            : Buffer.alloc(0);
+        const attributes = entry.isDirectory ? ((0o40755 << 16) | 0x10) : (0o100644 << 16);
+
+        const header = Buffer.alloc(46);
+        header.writeUInt32LE(0x02014b50, 0);
+        header.writeUInt16LE(VERSION_MADE_BY, 4);
+        header.writeUInt16LE(needsZip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 6);
+        header.writeUInt16LE(entry.flags, 8);
+        header.writeUInt16LE(entry.method, 10);
+        header.writeUInt16LE(entry.time, 12);
+        header.writeUInt16LE(entry.date, 14);
+        header.writeUInt32LE(entry.crc, 16);
+        header.writeUInt32LE(needsZip64 ? UINT32_MAX : entry.compressedSize, 20);
+        header.writeUInt32LE(needsZip64 ? UINT32_MAX : entry.uncompressedSize, 24);
+        header.writeUInt16LE(entry.name.length, 28);
+        header.writeUInt16LE(extra.length, 30);
+        header.writeUInt16LE(0, 32); // comment length
+        header.writeUInt16LE(0, 34); // disk number start
+        header.writeUInt16LE(0, 36); // internal attributes
+        header.writeUInt32LE(attributes >>> 0, 38);
+        header.writeUInt32LE(needsZip64 ? UINT32_MAX : entry.offset, 42);
+        return Buffer.concat([header, entry.name, extra]);
+    }
+
+    async function addFile(name: string, source: Readable, options: ZipFileOptions = {}): Promise<void> {
+        const { time, date } = toDosDateTime(options.modifiedAt ?? new Date());
+        const entry: CentralEntry = {
+            name: Buffer.from(name, 'utf8'),
+            flags: FLAG_DATA_DESCRIPTOR | FLAG_UTF8,
+            method: METHOD_DEFLATE,
+            time,
+            date,
+            crc: 0,
+            compressedSize: 0,
+            uncompressedSize: 0,
+            offset,
+            isDirectory: false,
+            zip64: (options.size ?? 0) >= ZIP64_ENTRY_THRESHOLD,
+        };
+
+        try {
+            await write(localHeader(entry));
+
+            // Checksum and count the raw bytes on their way into the compressor
+            const measure = new Transform({
+                transform(chunk: Buffer, _encoding, callback) {
+                    entry.crc = zlib.crc32(chunk, entry.crc);
+                    entry.uncompressedSize += chunk.length;
+                    callback(null, chunk);
+                },
+            });
+
+            await pipeline(source, measure, zlib.createDeflateRaw(), async (compressed: AsyncIterable<Buffer>) => {
+                for await (const chunk of compressed) {
+                    entry.compressedSize += chunk.length;
+                    await write(chunk);
+                }
+            });
+        } finally {
+            source.destroy();
+        }
+
+        if (!entry.zip64 && (entry.compressedSize >= UINT32_MAX || entry.uncompressedSize >= UINT32_MAX)) {
+            throw new Error(`Archive entry too large without ZIP64: ${name}`);
+        }
+
+        await write(dataDescriptor(entry));
+        entries.push(entry);
+    }
+
+    async function addDirectory(name: string, modifiedAt: Date = new Date()): Promise<void> {
+        const { time, date } = toDosDateTime(modifiedAt);
+        const entry: CentralEntry = {
+            name: Buffer.from(name.endsWith('/') ? name : `${name}/`, 'utf8'),
+            flags: FLAG_UTF8,
+            method: METHOD_STORE,
+            time,
+            date,
+            crc: 0,
+            compressedSize: 0,
+            uncompressedSize: 0,
+            offset,
+            isDirectory: true,
+            zip64: false,
+        };
+        await write(localHeader(entry));
+        entries.push(entry);
+    }
+
+    async function finish(): Promise<void> {
+        const centralStart = offset;
+        for (const entry of entries) {
+            await write(centralHeader(entry));
+        }
+        const centralSize = offset - centralStart;
+
+        const needsZip64 = entries.length >= UINT16_MAX || centralStart >= UINT32_MAX || centralSize >= UINT32_MAX;
+        if (needsZip64) {
+            const zip64EndOffset = offset;
+
+            const record = Buffer.alloc(56);
+            record.writeUInt32LE(0x06064b50, 0);
+            record.writeBigUInt64LE(44n, 4); // size of the remaining record
+            record.writeUInt16LE(VERSION_MADE_BY, 12);
+            record.writeUInt16LE(VERSION_ZIP64, 14);
+            record.writeUInt32LE(0, 16); // this disk
+            record.writeUInt32LE(0, 20); // disk with the central directory
+            record.writeBigUInt64LE(BigInt(entries.length), 24);
+            record.writeBigUInt64LE(BigInt(entries.length), 32);
+            record.writeBigUInt64LE(BigInt(centralSize), 40);
+            record.writeBigUInt64LE(BigInt(centralStart), 48);
+            await write(record);
+
+            const locator = Buffer.alloc(20);
+            locator.writeUInt32LE(0x07064b50, 0);
+            locator.writeUInt32LE(0, 4);
+            locator.writeBigUInt64LE(BigInt(zip64EndOffset), 8);
+            locator.writeUInt32LE(1, 16); // total disks
+            await write(locator);
+        }
+
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(0x06054b50, 0);
+        end.writeUInt16LE(0, 4);
+        end.writeUInt16LE(0, 6);
+        end.writeUInt16LE(Math.min(entries.length, UINT16_MAX), 8);
+        end.writeUInt16LE(Math.min(entries.length, UINT16_MAX), 10);
+        end.writeUInt32LE(Math.min(centralSize, UINT32_MAX), 12);
+        end.writeUInt32LE(Math.min(centralStart, UINT32_MAX), 16);
+        end.writeUInt16LE(0, 20); // comment length
+        await write(end);
+
+        output.end();
+    }
+
+    return { addFile, addDirectory, finish };
+}
+
+export default { createZipWriter };
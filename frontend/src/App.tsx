@@ -2,6 +2,12 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthPage } from "./pages/Auth";
 import { FileDashboard } from "./pages/FileDashboard";
 import { Trash } from "./pages/Trash";
+import { Admin } from "./pages/Admin";
+import { Account } from "./pages/Account";
+import { SharedLink } from "./pages/SharedLink";
+import { DropUpload } from "./pages/DropUpload";
+import { PublicGallery } from "./pages/PublicGallery";
+import { SharedWithMe } from "./pages/SharedWithMe";
 import { ProtectedRoute } from "./components/ProtectedRoute";
 
 /**
@@ -10,15 +16,24 @@ import { ProtectedRoute } from "./components/ProtectedRoute";
  * Main application router with protected routes.
  * Routes:
  *   /login    - Authentication page
+ *   /s/:token - Public share link landing page
+ *   /d/:token - Public upload page for drop links (file requests)
+ *   /u/:username - Public gallery of a user's published files
  *   /files    - File dashboard (protected)
  *   /trash    - Trash bin for deleted files (protected)
+ *   /shared   - Folders other users shared with you (protected)
+ *   /admin    - User management (protected, admins only)
+ *   /account  - Account settings and active sessions (protected)
  */
 function App() {
   return (
     <BrowserRouter>
       <Routes>
-        {/* Public route */}
+        {/* Public routes */}
         <Route path="/login" element={<AuthPage />} />
+        <Route path="/s/:token" element={<SharedLink />} />
+        <Route path="/d/:token" element={<DropUpload />} />
+        <Route path="/u/:username" element={<PublicGallery />} />
 
         {/* Protected routes */}
         <Route
@@ -37,6 +52,30 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/shared"
+          element={
+            <ProtectedRoute>
+              <SharedWithMe />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin"
+          element={
+            <ProtectedRoute>
+              <Admin />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/account"
+          element={
+            <ProtectedRoute>
+              <Account />
+            </ProtectedRoute>
+          }
+        />
 
         {/* Redirects */}
         <Route path="/dashboard" element={<Navigate to="/files" replace />} />
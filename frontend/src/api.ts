@@ -5,6 +5,8 @@
  * Import and use in feature services (authService, fileService, etc.)
  */
 
+import { clearToken, getRefreshToken, getToken, setTokens } from './features/auth/services/tokenStorage';
+
 /**
  * Backend server URL construction
  * ===============================
@@ -59,10 +61,122 @@ export const getApiUrl = (endpoint: string): string => {
     return `${normalizedBase}${API_PREFIX}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`;
 };
 
+// ============================================
+// Token Refresh
+// ============================================
+
+/** Renew the access token when it expires within this window */
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+/** Refresh shared by concurrent callers (refresh tokens are single-use) */
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Reads the expiry (ms since epoch) from a JWT without verifying it.
+ * @returns Expiry time, or null if the token can't be decoded
+ */
+const getTokenExpiry = (token: string): number | null => {
+    try {
+        const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+        const { exp } = JSON.parse(atob(payload)) as { exp?: number };
+        return typeof exp === 'number' ? exp * 1000 : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Exchanges the stored refresh token for a new token pair.
+ * Network errors keep the current tokens; a rejected refresh token
+ * clears them (the session has ended).
+ */
+const requestTokenRefresh = async (): Promise<string | null> => {
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) return null;
+
+    let response: Response;
+    try {
+        response = await fetch(getApiUrl('/users/refresh'), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken }),
+        });
+    } catch {
+        return null;
+    }
+
+    if (response.ok) {
+        const data: { token: string; refreshToken: string } = await response.json();
+        setTokens(data.token, data.refreshToken);
+        return data.token;
+    }
+
+    // Another tab may have rotated the refresh token in the meantime
+    if (getRefreshToken() !== refreshToken) {
+        return getToken();
+    }
+    if (response.status === 401) {
+        clearToken();
+    }
+    return null;
+};
+
+/**
+ * Renews the access token using the stored refresh token.
+ * Concurrent calls share a single request.
+ *
+ * @returns The new access token, or null if the session could not be renewed
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+    if (!refreshInFlight) {
+        refreshInFlight = requestTokenRefresh().finally(() => {
+            refreshInFlight = null;
+        });
+    }
+    return refreshInFlight;
+};
+
+/**
+ * Returns the stored access token, renewing it first if it is about to expire.
+ * Call before requests that can't be retried cheaply (e.g. XHR uploads).
+ *
+ * @returns The access token, or null if not logged in
+ */
+export const ensureFreshToken = async (): Promise<string | null> => {
+    const token = getToken();
+    if (!token) return null;
+
+    const expiry = getTokenExpiry(token);
+    if (expiry !== null && expiry - Date.now() < REFRESH_MARGIN_MS) {
+        return (await refreshAccessToken()) ?? token;
+    }
+    return token;
+};
+
+/** True when the request carries a Bearer token. */
+const hasBearerToken = (options?: RequestInit): boolean => {
+    return new Headers(options?.headers).get('Authorization')?.startsWith('Bearer ') ?? false;
+};
+
+/** Copy of the request options using the given access token. */
+const withToken = (options: RequestInit | undefined, token: string): RequestInit => {
+    const headers = new Headers(options?.headers);
+    headers.set('Authorization', `Bearer ${token}`);
+    return { ...options, headers };
+};
+
+// ============================================
+// Fetch
+// ============================================
+
 /**
  * Base fetch function that uses the API URL builder.
  * Services can use this directly or wrap it with additional logic.
  *
+ * Requests sent with a Bearer token are kept signed in: the access token is
+ * renewed shortly before it expires, and a 401 response triggers one
+ * refresh and retry.
+ *
  * @param endpoint - The API endpoint path
  * @param options - Standard fetch RequestInit options
  * @returns Promise resolving to the fetch Response
@@ -79,9 +193,21 @@ export const getApiUrl = (endpoint: string): string => {
  *   body: JSON.stringify({ username, password }),
  * });
  */
-export const apiFetch = (
+export const apiFetch = async (
     endpoint: string,
     options?: RequestInit
 ): Promise<Response> => {
-    return fetch(getApiUrl(endpoint), options);
+    const url = getApiUrl(endpoint);
+    if (!hasBearerToken(options)) {
+        return fetch(url, options);
+    }
+
+    const token = await ensureFreshToken();
+    const response = await fetch(url, token ? withToken(options, token) : options);
+    if (response.status !== 401) {
+        return response;
+    }
+
+    const refreshed = await refreshAccessToken();
+    return refreshed ? fetch(url, withToken(options, refreshed)) : response;
 };
@@ -1,7 +1,7 @@
 import { useRef, type FC, type ChangeEvent } from 'react';
 import type { ConflictPayload, BatchUploadResponse } from '../features/files/types/file.types';
 import { isApiError } from '../utils';
-import { UploadCloud, FolderUp } from 'lucide-react';
+import { UploadCloud, FolderUp, FileArchive } from 'lucide-react';
 
 /**
  * UploadButton Props
@@ -23,6 +23,8 @@ interface UploadButtonProps {
     onDuplicate?: (data: { conflict: ConflictPayload | null; file: File }) => void;
     /** Enable folder upload mode (uses webkitdirectory) */
     allowFolderUpload?: boolean;
+    /** Callback for an archive to extract server-side; shows an "Extract" button */
+    onUploadArchive?: (file: File) => Promise<BatchUploadResponse | null> | void;
 }
 
 /**
@@ -31,6 +33,7 @@ interface UploadButtonProps {
  * Reusable file upload button with hidden input.
  * Supports single file, multiple files, and folder uploads.
  * Folder uploads preserve directory structure via webkitRelativePath.
+ * Archives (.zip/.tar/.tar.gz) can be uploaded to be extracted server-side.
  *
  * Usage:
  *   <UploadButton onUpload={(file) => uploadFile(file)} />
@@ -45,9 +48,11 @@ export const UploadButton: FC<UploadButtonProps> = ({
     accept,
     onDuplicate,
     allowFolderUpload = false,
+    onUploadArchive,
 }) => {
     const fileInputRef = useRef<HTMLInputElement | null>(null);
     const folderInputRef = useRef<HTMLInputElement | null>(null);
+    const archiveInputRef = useRef<HTMLInputElement | null>(null);
 
     /**
      * Handle file input change event.
@@ -121,6 +126,23 @@ export const UploadButton: FC<UploadButtonProps> = ({
         }
     };
 
+    /**
+     * Handle archive input change event.
+     * The archive is extracted into the current folder by the server.
+     */
+    const handleArchiveChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        try {
+            await onUploadArchive?.(file);
+        } finally {
+            if (archiveInputRef.current) {
+                archiveInputRef.current.value = '';
+            }
+        }
+    };
+
     return (
         <div className={`flex items-center gap-2 ${className}`}>
             {/* Regular file upload button */}
@@ -166,6 +188,30 @@ export const UploadButton: FC<UploadButtonProps> = ({
                     />
                 </>
             )}
+
+            {/* Archive upload button (optional) */}
+            {onUploadArchive && (
+                <>
+                    <button
+                        type="button"
+                        className="flex items-center gap-2 px-3 py-1.5 rounded bg-[#30363D] hover:bg-[#3D444D] text-white text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        onClick={() => archiveInputRef.current?.click()}
+                        disabled={disabled}
+                        title="Upload a .zip, .tar or .tar.gz and extract it here"
+                    >
+                        <FileArchive className="w-4 h-4" />
+                        Extract
+                    </button>
+                    <input
+                        ref={archiveInputRef}
+                        type="file"
+                        className="hidden"
+                        onChange={handleArchiveChange}
+                        accept=".zip,.tar,.tar.gz,.tgz"
+                        disabled={disabled}
+                    />
+                </>
+            )}
         </div>
     );
 };
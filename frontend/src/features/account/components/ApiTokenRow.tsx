@@ -0,0 +1,61 @@
+import type { FC } from 'react';
+import { KeyRound, Trash2 } from 'lucide-react';
+import type { ApiToken } from '../types/account.types';
+import { formatLastSeen } from '../utils/userAgent';
+
+/** Short description of each scope */
+const SCOPE_LABELS: Record<ApiToken['scope'], string> = {
+    read: 'read-only',
+    upload: 'upload-only',
+    full: 'full access',
+};
+
+/**
+ * ApiTokenRow Props
+ */
+interface ApiTokenRowProps {
+    token: ApiToken;
+    onRevoke: (token: ApiToken) => void;
+}
+
+/**
+ * ApiTokenRow Component
+ * ======================
+ * One personal access token with its scope and when it was last used.
+ */
+export const ApiTokenRow: FC<ApiTokenRowProps> = ({ token, onRevoke }) => {
+    return (
+        <div className="flex items-center gap-3 p-3 bg-[#161B22] border border-[#30363D] rounded-lg">
+            <KeyRound className="w-5 h-5 text-slate-400 shrink-0" />
+            <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{token.name}</span>
+                    <span
+                        className={`text-xs px-1.5 py-0.5 rounded ${
+                            token.scope === 'full' ? 'bg-red-500/20 text-red-400' : 'bg-[#3D7BF0]/20 text-[#58A6FF]'
+                        }`}
+                    >
+                        {SCOPE_LABELS[token.scope]}
+                    </span>
+                </div>
+                <div className="text-xs text-slate-500">
+                    <span className="font-mono">{token.prefix}…</span>
+                    {' · '}
+                    {token.lastUsedAt ? `Last used ${formatLastSeen(token.lastUsedAt).toLowerCase()}` : 'Never used'}
+                    {' · '}
+                    Created {new Date(token.createdAt).toLocaleDateString()}
+                </div>
+            </div>
+
+            <button
+                onClick={() => onRevoke(token)}
+                className="p-2 rounded text-slate-400 hover:text-red-400 hover:bg-[#0D1117] transition-colors shrink-0"
+                title="Revoke token"
+            >
+                <Trash2 className="w-4 h-4" />
+            </button>
+        </div>
+    );
+};
+
+export default ApiTokenRow;
@@ -0,0 +1,155 @@
+import { useState, type FC, type FormEvent } from 'react';
+import { motion } from 'motion/react';
+import { Copy, KeyRound, Loader2 } from 'lucide-react';
+import { useApiTokens } from '../hooks/useApiTokens';
+import type { ApiTokenScope } from '../types/account.types';
+import { ApiTokenRow } from './ApiTokenRow';
+
+const inputClass =
+    'bg-[#0B1220] border border-[#30363D] px-3 py-2 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none';
+const primaryClass = 'px-3 py-1.5 rounded bg-[#238636] text-white hover:bg-[#2EA043] text-sm disabled:opacity-50';
+const secondaryClass = 'px-3 py-1.5 rounded bg-[#0F1724] text-slate-300 hover:bg-[#1C2128] text-sm';
+
+/**
+ * ApiTokensSection Component
+ * ===========================
+ * Personal access tokens for scripts and the command line: create a
+ * scoped token, copy it once, and revoke tokens no longer needed.
+ */
+export const ApiTokensSection: FC = () => {
+    const { tokens, createdSecret, isLoading, error: loadError, create, revoke, dismissSecret } = useApiTokens();
+
+    const [isCreating, setIsCreating] = useState(false);
+    const [name, setName] = useState('');
+    const [scope, setScope] = useState<ApiTokenScope>('read');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const closeForm = () => {
+        setIsCreating(false);
+        setName('');
+        setScope('read');
+        setError(null);
+    };
+
+    const handleCreate = async (e: FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setIsSaving(true);
+        try {
+            await create({ name: name.trim(), scope });
+            closeForm();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create token');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <section className="max-w-3xl mb-8">
+            <div className="mb-3 flex items-center justify-between gap-3">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <KeyRound className="w-5 h-5" />
+                    Access tokens
+                </h2>
+                {!isCreating && (
+                    <button onClick={() => setIsCreating(true)} className={primaryClass}>
+                        New token
+                    </button>
+                )}
+            </div>
+            <p className="text-sm text-slate-500 mb-3">
+                For scripts and the command line. Send as <code className="text-slate-400">Authorization: Bearer &lt;token&gt;</code>.
+            </p>
+
+            {loadError && <div className="mb-3 text-red-400 text-sm">{loadError}</div>}
+
+            {/* Create form */}
+            {isCreating && (
+                <form
+                    onSubmit={handleCreate}
+                    className="mb-3 p-4 bg-[#161B22] border border-[#30363D] rounded-lg flex flex-col gap-3"
+                >
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="Name, e.g. nightly backup"
+                            className={`${inputClass} flex-1`}
+                            autoFocus
+                            disabled={isSaving}
+                        />
+                        <select
+                            value={scope}
+                            onChange={(e) => setScope(e.target.value as ApiTokenScope)}
+                            className={inputClass}
+                            disabled={isSaving}
+                        >
+                            <option value="read">Read-only</option>
+                            <option value="upload">Upload-only</option>
+                            <option value="full">Full access</option>
+                        </select>
+                    </div>
+                    {error && <div className="text-red-400 text-sm">{error}</div>}
+                    <div className="flex gap-3 justify-end">
+                        <button type="button" onClick={closeForm} className={secondaryClass} disabled={isSaving}>
+                            Cancel
+                        </button>
+                        <button type="submit" className={primaryClass} disabled={isSaving || !name.trim()}>
+                            Create token
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {/* New token, shown once */}
+            {createdSecret && (
+                <motion.div
+                    className="mb-3 flex flex-col gap-3 p-3 rounded border border-[#6BCB77]/30 bg-[#6BCB77]/5"
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                >
+                    <p className="text-sm text-slate-300">
+                        Copy your new token now. It won&apos;t be shown again.
+                    </p>
+                    <code className="px-3 py-2 rounded bg-[#0D1117] border border-[#30363D] text-[#C9D1D9] break-all select-all">
+                        {createdSecret}
+                    </code>
+                    <div className="flex gap-3 justify-end">
+                        <button
+                            onClick={() => navigator.clipboard?.writeText(createdSecret)}
+                            className={`${secondaryClass} flex items-center gap-2`}
+                        >
+                            <Copy className="w-4 h-4" />
+                            Copy
+                        </button>
+                        <button onClick={dismissSecret} className={primaryClass}>
+                            Done
+                        </button>
+                    </div>
+                </motion.div>
+            )}
+
+            {/* Loading state */}
+            {isLoading && (
+                <div className="flex items-center justify-center py-6">
+                    <Loader2 className="w-6 h-6 text-[#3D7BF0] animate-spin" />
+                </div>
+            )}
+
+            {/* Token list */}
+            {!isLoading && (
+                <div className="flex flex-col gap-2">
+                    {tokens.map((token) => (
+                        <ApiTokenRow key={token.id} token={token} onRevoke={revoke} />
+                    ))}
+                    {tokens.length === 0 && <p className="text-sm text-slate-500">No access tokens.</p>}
+                </div>
+            )}
+        </section>
+    );
+};
+
+export default ApiTokensSection;
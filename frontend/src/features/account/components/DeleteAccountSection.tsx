@@ -0,0 +1,160 @@
+import { useState, type FC, type FormEvent } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { deleteAccount } from '../services/accountService';
+import type { DeleteAccountPayload } from '../types/account.types';
+
+/**
+ * DeleteAccountSection Props
+ */
+interface DeleteAccountSectionProps {
+    /** Called once the account is gone (sign out and leave the page) */
+    onDeleted: () => void;
+}
+
+const inputClass =
+    'w-full bg-[#0B1220] border border-[#30363D] px-3 py-2 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none';
+
+/**
+ * DeleteAccountSection Component
+ * ===============================
+ * Deletes the signed-in account after password confirmation. Owned files
+ * are either deleted permanently or transferred to another user.
+ */
+export const DeleteAccountSection: FC<DeleteAccountSectionProps> = ({ onDeleted }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [files, setFiles] = useState<DeleteAccountPayload['files']>('delete');
+    const [transferTo, setTransferTo] = useState('');
+    const [password, setPassword] = useState('');
+    const [code, setCode] = useState('');
+    const [isDeleting, setIsDeleting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const close = () => {
+        setIsOpen(false);
+        setFiles('delete');
+        setTransferTo('');
+        setPassword('');
+        setCode('');
+        setError(null);
+    };
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setIsDeleting(true);
+        try {
+            await deleteAccount({
+                password,
+                files,
+                ...(files === 'transfer' ? { transferTo: transferTo.trim() } : {}),
+                ...(code.trim() ? { code: code.trim() } : {}),
+            });
+            onDeleted();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete account');
+            setIsDeleting(false);
+        }
+    };
+
+    const canSubmit = !!password && (files === 'delete' || !!transferTo.trim());
+
+    return (
+        <section className="max-w-3xl mt-8">
+            <h2 className="text-lg font-semibold flex items-center gap-2 mb-3 text-red-400">
+                <AlertTriangle className="w-5 h-5" />
+                Delete account
+            </h2>
+
+            <div className="p-4 bg-[#161B22] border border-red-500/30 rounded-lg flex flex-col gap-4">
+                {!isOpen ? (
+                    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                        <p className="text-sm text-slate-400">
+                            Permanently remove your account. This cannot be undone.
+                        </p>
+                        <button
+                            onClick={() => setIsOpen(true)}
+                            className="px-3 py-1.5 rounded bg-red-500/10 text-red-400 hover:bg-red-500/20 text-sm shrink-0"
+                        >
+                            Delete account…
+                        </button>
+                    </div>
+                ) : (
+                    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+                        <fieldset className="flex flex-col gap-2 text-sm" disabled={isDeleting}>
+                            <legend className="text-slate-300 mb-1">Your files and folders</legend>
+                            <label className="flex items-center gap-2 text-slate-400">
+                                <input
+                                    type="radio"
+                                    name="files"
+                                    checked={files === 'delete'}
+                                    onChange={() => setFiles('delete')}
+                                />
+                                Delete them permanently (including Trash and old versions)
+                            </label>
+                            <label className="flex items-center gap-2 text-slate-400">
+                                <input
+                                    type="radio"
+                                    name="files"
+                                    checked={files === 'transfer'}
+                                    onChange={() => setFiles('transfer')}
+                                />
+                                Transfer them to another user
+                            </label>
+                        </fieldset>
+
+                        {files === 'transfer' && (
+                            <input
+                                type="text"
+                                value={transferTo}
+                                onChange={(e) => setTransferTo(e.target.value)}
+                                placeholder="Recipient username"
+                                className={inputClass}
+                                disabled={isDeleting}
+                            />
+                        )}
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            placeholder="Current password"
+                            autoComplete="current-password"
+                            className={inputClass}
+                            disabled={isDeleting}
+                        />
+                        <input
+                            type="text"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            placeholder="Authentication code (if two-factor is on)"
+                            autoComplete="one-time-code"
+                            className={inputClass}
+                            disabled={isDeleting}
+                        />
+
+                        {error && <div className="text-red-400 text-sm">{error}</div>}
+
+                        <div className="flex gap-3 justify-end">
+                            <button
+                                type="button"
+                                onClick={close}
+                                className="px-3 py-1.5 rounded bg-[#0F1724] text-slate-300 hover:bg-[#1C2128] text-sm"
+                                disabled={isDeleting}
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                className="px-3 py-1.5 rounded bg-red-500 text-white text-sm disabled:opacity-50"
+                                disabled={isDeleting || !canSubmit}
+                            >
+                                {isDeleting ? 'Deleting…' : 'Delete my account'}
+                            </button>
+                        </div>
+                    </form>
+                )}
+            </div>
+        </section>
+    );
+};
+
+export default DeleteAccountSection;
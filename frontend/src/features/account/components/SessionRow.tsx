@@ -0,0 +1,52 @@
+import type { FC } from 'react';
+import { LogOut, Monitor } from 'lucide-react';
+import type { AccountSession } from '../types/account.types';
+import { describeUserAgent, formatLastSeen } from '../utils/userAgent';
+
+/**
+ * SessionRow Props
+ */
+interface SessionRowProps {
+    session: AccountSession;
+    onRevoke: (session: AccountSession) => void;
+}
+
+/**
+ * SessionRow Component
+ * =====================
+ * One signed-in device with where and when it was last used.
+ */
+export const SessionRow: FC<SessionRowProps> = ({ session, onRevoke }) => {
+    return (
+        <div className="flex items-center gap-3 p-3 bg-[#161B22] border border-[#30363D] rounded-lg">
+            <Monitor className="w-5 h-5 text-slate-400 shrink-0" />
+            <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                    <span className="font-medium truncate" title={session.userAgent ?? undefined}>
+                        {describeUserAgent(session.userAgent)}
+                    </span>
+                    {session.current && (
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-[#6BCB77]/20 text-[#6BCB77]">this device</span>
+                    )}
+                </div>
+                <div className="text-xs text-slate-500">
+                    {session.ipAddress ?? 'Unknown IP'}
+                    {' · '}
+                    Last seen {formatLastSeen(session.lastSeenAt).toLowerCase()}
+                    {' · '}
+                    Signed in {new Date(session.createdAt).toLocaleDateString()}
+                </div>
+            </div>
+
+            <button
+                onClick={() => onRevoke(session)}
+                className="p-2 rounded text-slate-400 hover:text-red-400 hover:bg-[#0D1117] transition-colors shrink-0"
+                title={session.current ? 'Sign out' : 'Sign out this device'}
+            >
+                <LogOut className="w-4 h-4" />
+            </button>
+        </div>
+    );
+};
+
+export default SessionRow;
@@ -0,0 +1,303 @@
+import { useState, type FC, type FormEvent } from 'react';
+import { motion } from 'motion/react';
+import { Copy, KeyRound, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { useTwoFactor } from '../hooks/useTwoFactor';
+
+/** Which form is open below the status line */
+type Mode = 'idle' | 'setup' | 'disable' | 'regenerate';
+
+const inputClass =
+    'w-full bg-[#0B1220] border border-[#30363D] px-3 py-2 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none';
+const primaryClass = 'px-3 py-1.5 rounded bg-[#238636] text-white hover:bg-[#2EA043] text-sm disabled:opacity-50';
+const secondaryClass = 'px-3 py-1.5 rounded bg-[#0F1724] text-slate-300 hover:bg-[#1C2128] text-sm';
+
+/**
+ * TwoFactorSection Component
+ * ===========================
+ * Account settings for TOTP two-factor authentication: setup with an
+ * authenticator app, recovery codes, and turning it off again.
+ */
+export const TwoFactorSection: FC = () => {
+    const {
+        status,
+        setup,
+        recoveryCodes,
+        isLoading,
+        error: loadError,
+        startSetup,
+        enable,
+        disable,
+        regenerateCodes,
+        cancelSetup,
+        dismissRecoveryCodes,
+    } = useTwoFactor();
+
+    const [mode, setMode] = useState<Mode>('idle');
+    const [password, setPassword] = useState('');
+    const [code, setCode] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Close any open form and clear its fields
+    const closeForm = () => {
+        setMode('idle');
+        setPassword('');
+        setCode('');
+        setError(null);
+        cancelSetup();
+    };
+
+    // Run a form action, keeping the form open with the message on failure
+    const submit = (action: () => Promise<void>, fallback: string) => async (e: FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setIsSaving(true);
+        try {
+            await action();
+            setPassword('');
+            setCode('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : fallback);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleStart = submit(() => startSetup(password), 'Failed to start setup');
+    const handleEnable = submit(async () => {
+        await enable(code);
+        setMode('idle');
+    }, 'Failed to enable two-factor authentication');
+    const handleDisable = submit(async () => {
+        await disable(password, code);
+        setMode('idle');
+    }, 'Failed to disable two-factor authentication');
+    const handleRegenerate = submit(async () => {
+        await regenerateCodes(code);
+        setMode('idle');
+    }, 'Failed to create recovery codes');
+
+    const errorMessage = error && <div className="text-red-400 text-sm">{error}</div>;
+
+    return (
+        <section className="max-w-3xl mb-8">
+            <h2 className="text-lg font-semibold flex items-center gap-2 mb-3">
+                <ShieldCheck className="w-5 h-5" />
+                Two-factor authentication
+            </h2>
+
+            <div className="p-4 bg-[#161B22] border border-[#30363D] rounded-lg flex flex-col gap-4">
+                {isLoading && <Loader2 className="w-5 h-5 text-[#3D7BF0] animate-spin" />}
+                {loadError && <div className="text-red-400 text-sm">{loadError}</div>}
+
+                {/* Status and actions */}
+                {status && !setup && (
+                    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                        <div className="text-sm">
+                            {status.enabled ? (
+                                <>
+                                    <span className="text-[#6BCB77]">Enabled</span>
+                                    <span className="text-slate-500">
+                                        {' · '}
+                                        {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left
+                                    </span>
+                                </>
+                            ) : (
+                                <span className="text-slate-400">
+                                    Off. Sign-in asks only for your password.
+                                </span>
+                            )}
+                        </div>
+                        {mode === 'idle' && (
+                            <div className="flex items-center gap-2">
+                                {status.enabled ? (
+                                    <>
+                                        <button onClick={() => setMode('regenerate')} className={`${secondaryClass} flex items-center gap-2`}>
+                                            <KeyRound className="w-4 h-4" />
+                                            New recovery codes
+                                        </button>
+                                        <button
+                                            onClick={() => setMode('disable')}
+                                            className="flex items-center gap-2 px-3 py-1.5 rounded bg-red-500/10 text-red-400 hover:bg-red-500/20 text-sm"
+                                        >
+                                            <ShieldOff className="w-4 h-4" />
+                                            Turn off
+                                        </button>
+                                    </>
+                                ) : (
+                                    <button onClick={() => setMode('setup')} className={primaryClass}>
+                                        Set up
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Step 1: confirm password to generate a secret */}
+                {mode === 'setup' && !setup && (
+                    <form onSubmit={handleStart} className="flex flex-col gap-3">
+                        <p className="text-sm text-slate-400">Confirm your password to start setup.</p>
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            placeholder="Current password"
+                            autoComplete="current-password"
+                            className={inputClass}
+                            autoFocus
+                            disabled={isSaving}
+                        />
+                        {errorMessage}
+                        <div className="flex gap-3 justify-end">
+                            <button type="button" onClick={closeForm} className={secondaryClass} disabled={isSaving}>
+                                Cancel
+                            </button>
+                            <button type="submit" className={primaryClass} disabled={isSaving || !password}>
+                                Continue
+                            </button>
+                        </div>
+                    </form>
+                )}
+
+                {/* Step 2: add to the authenticator app and confirm a code */}
+                {setup && (
+                    <form onSubmit={handleEnable} className="flex flex-col gap-3">
+                        <p className="text-sm text-slate-400">
+                            Add this key to your authenticator app (or{' '}
+                            <a href={setup.otpauthUri} className="text-[#58A6FF] hover:underline">
+                                open it on this device
+                            </a>
+                            ), then enter the 6-digit code it shows.
+                        </p>
+                        <code className="px-3 py-2 rounded bg-[#0D1117] border border-[#30363D] text-[#C9D1D9] tracking-wider break-all select-all">
+                            {setup.secret.match(/.{1,4}/g)?.join(' ')}
+                        </code>
+                        <input
+                            type="text"
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            placeholder="123456"
+                            className={inputClass}
+                            autoFocus
+                            disabled={isSaving}
+                        />
+                        {errorMessage}
+                        <div className="flex gap-3 justify-end">
+                            <button type="button" onClick={closeForm} className={secondaryClass} disabled={isSaving}>
+                                Cancel
+                            </button>
+                            <button type="submit" className={primaryClass} disabled={isSaving || !code}>
+                                Turn on
+                            </button>
+                        </div>
+                    </form>
+                )}
+
+                {/* Turn off: password and a current code */}
+                {mode === 'disable' && (
+                    <form onSubmit={handleDisable} className="flex flex-col gap-3">
+                        <p className="text-sm text-slate-400">
+                            Confirm your password and enter a code from your authenticator app or a recovery code.
+                        </p>
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            placeholder="Current password"
+                            autoComplete="current-password"
+                            className={inputClass}
+                            autoFocus
+                            disabled={isSaving}
+                        />
+                        <input
+                            type="text"
+                            autoComplete="one-time-code"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            placeholder="Authentication code"
+                            className={inputClass}
+                            disabled={isSaving}
+                        />
+                        {errorMessage}
+                        <div className="flex gap-3 justify-end">
+                            <button type="button" onClick={closeForm} className={secondaryClass} disabled={isSaving}>
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                className="px-3 py-1.5 rounded bg-red-500 text-white text-sm disabled:opacity-50"
+                                disabled={isSaving || !password || !code}
+                            >
+                                Turn off
+                            </button>
+                        </div>
+                    </form>
+                )}
+
+                {/* New recovery codes: a current code */}
+                {mode === 'regenerate' && (
+                    <form onSubmit={handleRegenerate} className="flex flex-col gap-3">
+                        <p className="text-sm text-slate-400">
+                            Your existing recovery codes will stop working. Enter a code to continue.
+                        </p>
+                        <input
+                            type="text"
+                            autoComplete="one-time-code"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            placeholder="Authentication code"
+                            className={inputClass}
+                            autoFocus
+                            disabled={isSaving}
+                        />
+                        {errorMessage}
+                        <div className="flex gap-3 justify-end">
+                            <button type="button" onClick={closeForm} className={secondaryClass} disabled={isSaving}>
+                                Cancel
+                            </button>
+                            <button type="submit" className={primaryClass} disabled={isSaving || !code}>
+                                Create codes
+                            </button>
+                        </div>
+                    </form>
+                )}
+
+                {/* Recovery codes, shown once */}
+                {recoveryCodes && (
+                    <motion.div
+                        className="flex flex-col gap-3 p-3 rounded border border-[#6BCB77]/30 bg-[#6BCB77]/5"
+                        initial={{ opacity: 0, y: -10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                    >
+                        <p className="text-sm text-slate-300">
+                            Save these recovery codes somewhere safe. Each works once if you lose your
+                            authenticator, and they won&apos;t be shown again.
+                        </p>
+                        <div className="grid grid-cols-2 gap-2 font-mono text-sm text-[#C9D1D9]">
+                            {recoveryCodes.map((recoveryCode) => (
+                                <span key={recoveryCode}>{recoveryCode}</span>
+                            ))}
+                        </div>
+                        <div className="flex gap-3 justify-end">
+                            <button
+                                onClick={() => navigator.clipboard?.writeText(recoveryCodes.join('\n'))}
+                                className={`${secondaryClass} flex items-center gap-2`}
+                            >
+                                <Copy className="w-4 h-4" />
+                                Copy
+                            </button>
+                            <button onClick={dismissRecoveryCodes} className={primaryClass}>
+                                Done
+                            </button>
+                        </div>
+                    </motion.div>
+                )}
+            </div>
+        </section>
+    );
+};
+
+export default TwoFactorSection;
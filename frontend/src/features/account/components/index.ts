@@ -0,0 +1,6 @@
+// Re-export account UI components
+export { ApiTokenRow } from './ApiTokenRow';
+export { ApiTokensSection } from './ApiTokensSection';
+export { DeleteAccountSection } from './DeleteAccountSection';
+export { SessionRow } from './SessionRow';
+export { TwoFactorSection } from './TwoFactorSection';
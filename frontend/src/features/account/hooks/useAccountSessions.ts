@@ -0,0 +1,91 @@
+/**
+ * useAccountSessions Hook
+ * ========================
+ * State management for the signed-in user's active sessions.
+ * Handles fetching, signing out one session, and signing out all others.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { listSessions, revokeSession } from '../services/accountService';
+import { logoutOtherSessions } from '../../auth/services/authService';
+import { getErrorMessage } from '../../../utils';
+import type { AccountSession } from '../types/account.types';
+
+/** State shape returned by the hook */
+export interface UseAccountSessionsState {
+    sessions: AccountSession[];
+    isLoading: boolean;
+    error: string | null;
+}
+
+/** Actions returned by the hook */
+export interface UseAccountSessionsActions {
+    fetchSessions: () => Promise<void>;
+    revoke: (session: AccountSession) => Promise<void>;
+    revokeOthers: () => Promise<void>;
+    clearError: () => void;
+}
+
+/**
+ * Hook for listing and revoking the current user's sessions.
+ * Automatically fetches sessions on mount.
+ */
+export const useAccountSessions = (): UseAccountSessionsState & UseAccountSessionsActions => {
+    const [sessions, setSessions] = useState<AccountSession[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Fetch active sessions from server
+    const fetchSessions = useCallback(async () => {
+        setError(null);
+        setIsLoading(true);
+        try {
+            setSessions(await listSessions());
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to load sessions'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    // Sign out a single session
+    const revoke = useCallback(async (session: AccountSession) => {
+        setError(null);
+        try {
+            await revokeSession(session.id);
+            setSessions((prev) => prev.filter((s) => s.id !== session.id));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to sign out session'));
+        }
+    }, []);
+
+    // Sign out every session except this one
+    const revokeOthers = useCallback(async () => {
+        setError(null);
+        try {
+            await logoutOtherSessions();
+            setSessions((prev) => prev.filter((s) => s.current));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to sign out other devices'));
+        }
+    }, []);
+
+    const clearError = useCallback(() => setError(null), []);
+
+    // Initial load
+    useEffect(() => {
+        fetchSessions();
+    }, [fetchSessions]);
+
+    return {
+        sessions,
+        isLoading,
+        error,
+        fetchSessions,
+        revoke,
+        revokeOthers,
+        clearError,
+    };
+};
+
+export default useAccountSessions;
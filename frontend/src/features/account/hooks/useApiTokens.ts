@@ -0,0 +1,91 @@
+/**
+ * useApiTokens Hook
+ * ==================
+ * State management for the current user's personal access tokens.
+ * Handles fetching, creating, and revoking tokens.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { listApiTokens, createApiToken, revokeApiToken } from '../services/accountService';
+import { getErrorMessage } from '../../../utils';
+import type { ApiToken, CreateApiTokenPayload } from '../types/account.types';
+
+/** State shape returned by the hook */
+export interface UseApiTokensState {
+    tokens: ApiToken[];
+    /** Secret of the token just created, shown until dismissed */
+    createdSecret: string | null;
+    isLoading: boolean;
+    error: string | null;
+}
+
+/** Actions returned by the hook */
+export interface UseApiTokensActions {
+    fetchTokens: () => Promise<void>;
+    create: (payload: CreateApiTokenPayload) => Promise<void>;
+    revoke: (token: ApiToken) => Promise<void>;
+    dismissSecret: () => void;
+}
+
+/**
+ * Hook for managing personal access tokens on the account page.
+ * Automatically fetches tokens on mount.
+ */
+export const useApiTokens = (): UseApiTokensState & UseApiTokensActions => {
+    const [tokens, setTokens] = useState<ApiToken[]>([]);
+    const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Fetch all tokens from server
+    const fetchTokens = useCallback(async () => {
+        setError(null);
+        setIsLoading(true);
+        try {
+            setTokens(await listApiTokens());
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to load tokens'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    // Create a token; rethrows so the form can show the message inline
+    const create = useCallback(async (payload: CreateApiTokenPayload) => {
+        setError(null);
+        const { token, secret } = await createApiToken(payload);
+        setTokens((prev) => [token, ...prev]);
+        setCreatedSecret(secret);
+    }, []);
+
+    // Revoke a token
+    const revoke = useCallback(async (token: ApiToken) => {
+        setError(null);
+        try {
+            await revokeApiToken(token.id);
+            setTokens((prev) => prev.filter((t) => t.id !== token.id));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to revoke token'));
+        }
+    }, []);
+
+    const dismissSecret = useCallback(() => setCreatedSecret(null), []);
+
+    // Initial load
+    useEffect(() => {
+        fetchTokens();
+    }, [fetchTokens]);
+
+    return {
+        tokens,
+        createdSecret,
+        isLoading,
+        error,
+        fetchTokens,
+        create,
+        revoke,
+        dismissSecret,
+    };
+};
+
+export default useApiTokens;
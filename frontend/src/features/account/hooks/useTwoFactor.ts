@@ -0,0 +1,115 @@
+/**
+ * useTwoFactor Hook
+ * ==================
+ * State management for the current user's two-factor authentication.
+ * Handles setup, confirmation, disabling, and recovery code renewal.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import {
+    getTwoFactorStatus,
+    startTwoFactorSetup,
+    enableTwoFactor,
+    disableTwoFactor,
+    regenerateRecoveryCodes,
+} from '../services/accountService';
+import { getErrorMessage } from '../../../utils';
+import type { TwoFactorSetup, TwoFactorStatus } from '../types/account.types';
+
+/** State shape returned by the hook */
+export interface UseTwoFactorState {
+    status: TwoFactorStatus | null;
+    /** Secret being set up (between startSetup and enable) */
+    setup: TwoFactorSetup | null;
+    /** Freshly issued recovery codes, shown until dismissed */
+    recoveryCodes: string[] | null;
+    isLoading: boolean;
+    error: string | null;
+}
+
+/** Actions returned by the hook */
+export interface UseTwoFactorActions {
+    fetchStatus: () => Promise<void>;
+    startSetup: (password: string) => Promise<void>;
+    enable: (code: string) => Promise<void>;
+    disable: (password: string, code: string) => Promise<void>;
+    regenerateCodes: (code: string) => Promise<void>;
+    cancelSetup: () => void;
+    dismissRecoveryCodes: () => void;
+}
+
+/**
+ * Hook for managing two-factor authentication on the account page.
+ * Mutations rethrow so forms can show the message inline.
+ */
+export const useTwoFactor = (): UseTwoFactorState & UseTwoFactorActions => {
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Fetch current 2FA status
+    const fetchStatus = useCallback(async () => {
+        setError(null);
+        setIsLoading(true);
+        try {
+            setStatus(await getTwoFactorStatus());
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to load two-factor status'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    // Generate a secret for the authenticator app
+    const startSetup = useCallback(async (password: string) => {
+        setSetup(await startTwoFactorSetup(password));
+    }, []);
+
+    // Confirm the first code; 2FA is on from here
+    const enable = useCallback(async (code: string) => {
+        const codes = await enableTwoFactor(code);
+        setSetup(null);
+        setRecoveryCodes(codes);
+        setStatus({ enabled: true, pendingSetup: false, recoveryCodesRemaining: codes.length });
+    }, []);
+
+    // Turn 2FA off
+    const disable = useCallback(async (password: string, code: string) => {
+        await disableTwoFactor(password, code);
+        setStatus({ enabled: false, pendingSetup: false, recoveryCodesRemaining: 0 });
+    }, []);
+
+    // Replace recovery codes
+    const regenerateCodes = useCallback(async (code: string) => {
+        const codes = await regenerateRecoveryCodes(code);
+        setRecoveryCodes(codes);
+        setStatus((prev) => (prev ? { ...prev, recoveryCodesRemaining: codes.length } : prev));
+    }, []);
+
+    const cancelSetup = useCallback(() => setSetup(null), []);
+    const dismissRecoveryCodes = useCallback(() => setRecoveryCodes(null), []);
+
+    // Initial load
+    useEffect(() => {
+        fetchStatus();
+    }, [fetchStatus]);
+
+    return {
+        status,
+        setup,
+        recoveryCodes,
+        isLoading,
+        error,
+        fetchStatus,
+        startSetup,
+        enable,
+        disable,
+        regenerateCodes,
+        cancelSetup,
+        dismissRecoveryCodes,
+    };
+};
+
+export default useTwoFactor;
@@ -0,0 +1,8 @@
+// Re-export account feature modules
+export * from './types/account.types';
+export * from './services/accountService';
+export * from './hooks/useAccountSessions';
+export * from './hooks/useTwoFactor';
+export * from './hooks/useApiTokens';
+export * from './utils/userAgent';
+export * from './components';
@@ -0,0 +1,187 @@
+/**
+ * Account Service
+ * ================
+ * API call wrappers for the signed-in user's own account settings.
+ */
+
+import { apiFetch } from '../../../api';
+import { getAuthHeaders, getAuthJsonHeaders, handleErrorResponse } from '../../../utils';
+import type {
+    AccountSession,
+    AccountSessionListResponse,
+    ApiToken,
+    ApiTokenListResponse,
+    CreateApiTokenPayload,
+    CreatedApiTokenResponse,
+    DeleteAccountPayload,
+    DeleteAccountResponse,
+    RecoveryCodesResponse,
+    StorageUsage,
+    TwoFactorSetup,
+    TwoFactorStatus,
+} from '../types/account.types';
+
+// ============================================
+// API Calls
+// ============================================
+
+/**
+ * Reads the current user's storage usage and quota.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+    const response = await apiFetch('/account/storage', { headers: getAuthHeaders() });
+    if (!response.ok) await handleErrorResponse(response);
+    return response.json();
+};
+
+/**
+ * Lists the devices the current user is signed in on.
+ */
+export const listSessions = async (): Promise<AccountSession[]> => {
+    const response = await apiFetch('/account/sessions', { headers: getAuthHeaders() });
+    if (!response.ok) await handleErrorResponse(response);
+
+    const data: AccountSessionListResponse = await response.json();
+    return data.sessions;
+};
+
+/**
+ * Signs out one session. Revoking the current session ends this login.
+ * @param id - Session ID
+ */
+export const revokeSession = async (id: string): Promise<void> => {
+    const response = await apiFetch(`/account/sessions/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+};
+
+/**
+ * Reads the two-factor authentication status.
+ */
+export const getTwoFactorStatus = async (): Promise<TwoFactorStatus> => {
+    const response = await apiFetch('/account/2fa', { headers: getAuthHeaders() });
+    if (!response.ok) await handleErrorResponse(response);
+    return response.json();
+};
+
+/**
+ * Starts 2FA setup and returns the secret for the authenticator app.
+ * @param password - Current password
+ */
+export const startTwoFactorSetup = async (password: string): Promise<TwoFactorSetup> => {
+    const response = await apiFetch('/account/2fa/setup', {
+        method: 'POST',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify({ password }),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    return response.json();
+};
+
+/**
+ * Confirms setup with a code from the authenticator app.
+ * @param code - Current TOTP code
+ * @returns Recovery codes (shown only once)
+ */
+export const enableTwoFactor = async (code: string): Promise<string[]> => {
+    const response = await apiFetch('/account/2fa/enable', {
+        method: 'POST',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify({ code }),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    const data: RecoveryCodesResponse = await response.json();
+    return data.recoveryCodes;
+};
+
+/**
+ * Turns off two-factor authentication.
+ * @param password - Current password
+ * @param code - TOTP or recovery code
+ */
+export const disableTwoFactor = async (password: string, code: string): Promise<void> => {
+    const response = await apiFetch('/account/2fa/disable', {
+        method: 'POST',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify({ password, code }),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+};
+
+/**
+ * Replaces all recovery codes with a new set.
+ * @param code - TOTP or recovery code
+ * @returns The new recovery codes (shown only once)
+ */
+export const regenerateRecoveryCodes = async (code: string): Promise<string[]> => {
+    const response = await apiFetch('/account/2fa/recovery-codes', {
+        method: 'POST',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify({ code }),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    const data: RecoveryCodesResponse = await response.json();
+    return data.recoveryCodes;
+};
+
+/**
+ * Lists the current user's personal access tokens.
+ */
+export const listApiTokens = async (): Promise<ApiToken[]> => {
+    const response = await apiFetch('/account/tokens', { headers: getAuthHeaders() });
+    if (!response.ok) await handleErrorResponse(response);
+
+    const data: ApiTokenListResponse = await response.json();
+    return data.tokens;
+};
+
+/**
+ * Creates a personal access token.
+ * @param payload - Token name and scope
+ * @returns The token record and its secret (shown only once)
+ */
+export const createApiToken = async (payload: CreateApiTokenPayload): Promise<CreatedApiTokenResponse> => {
+    const response = await apiFetch('/account/tokens', {
+        method: 'POST',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    return response.json();
+};
+
+/**
+ * Revokes a personal access token. Scripts using it stop working.
+ * @param id - Token ID
+ */
+export const revokeApiToken = async (id: string): Promise<void> => {
+    const response = await apiFetch(`/account/tokens/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+};
+
+/**
+ * Deletes the current account. Its sessions end immediately.
+ * @param payload - Password confirmation and what to do with owned files
+ */
+export const deleteAccount = async (payload: DeleteAccountPayload): Promise<DeleteAccountResponse> => {
+    const response = await apiFetch('/account', {
+        method: 'DELETE',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    return response.json();
+};
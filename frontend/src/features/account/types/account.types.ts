@@ -0,0 +1,111 @@
+/**
+ * Account Types
+ * ==============
+ * Type definitions for the account settings feature.
+ */
+
+// ============================================
+// Backend Response Types
+// ============================================
+
+/** Signed-in device as returned by /api/account/sessions */
+export interface AccountSession {
+    id: string;
+    userAgent: string | null;
+    ipAddress: string | null;
+    createdAt: string;
+    lastSeenAt: string;
+    expiresAt: string;
+    /** True for the session making the request (this browser) */
+    current: boolean;
+}
+
+/** Response from GET /api/account/sessions */
+export interface AccountSessionListResponse {
+    sessions: AccountSession[];
+}
+
+/** Response from GET /api/account/2fa */
+export interface TwoFactorStatus {
+    enabled: boolean;
+    /** Setup was started but never confirmed */
+    pendingSetup: boolean;
+    recoveryCodesRemaining: number;
+}
+
+/** Response from POST /api/account/2fa/setup */
+export interface TwoFactorSetup {
+    /** Base32 secret for manual entry */
+    secret: string;
+    /** otpauth:// URI understood by authenticator apps */
+    otpauthUri: string;
+}
+
+/** Response from POST /api/account/2fa/enable and /2fa/recovery-codes */
+export interface RecoveryCodesResponse {
+    recoveryCodes: string[];
+}
+
+/** What a personal access token may do */
+export type ApiTokenScope = 'read' | 'upload' | 'full';
+
+/** Personal access token as returned by /api/account/tokens */
+export interface ApiToken {
+    id: string;
+    name: string;
+    scope: ApiTokenScope;
+    /** First characters of the token, to tell tokens apart */
+    prefix: string;
+    createdAt: string;
+    lastUsedAt: string | null;
+}
+
+/** Response from GET /api/account/tokens */
+export interface ApiTokenListResponse {
+    tokens: ApiToken[];
+}
+
+/** Response from GET /api/account/storage */
+export interface StorageUsage {
+    /** Bytes stored, including trash and previous versions */
+    usedBytes: number;
+    /** Storage quota in bytes, or null when unlimited */
+    quotaBytes: number | null;
+}
+
+/** Response from DELETE /api/account */
+export interface DeleteAccountResponse {
+    message: string;
+    /** Username that received the files, when transferred */
+    transferredTo?: string;
+    files: number;
+    folders: number;
+}
+
+/** Response from POST /api/account/tokens */
+export interface CreatedApiTokenResponse {
+    token: ApiToken;
+    /** The token itself; only returned once */
+    secret: string;
+}
+
+// ============================================
+// Request Types
+// ============================================
+
+/** Payload for deleting the current account */
+export interface DeleteAccountPayload {
+    password: string;
+    /** Delete owned files and folders, or hand them to another user */
+    files: 'delete' | 'transfer';
+    /** Recipient username (files: 'transfer') */
+    transferTo?: string;
+    /** TOTP or recovery code, required when 2FA is enabled */
+    code?: string;
+}
+
+/** Payload for creating a personal access token */
+export interface CreateApiTokenPayload {
+    name: string;
+    scope: ApiTokenScope;
+}
@@ -0,0 +1,57 @@
+/**
+ * User Agent Utilities
+ * =====================
+ * Turns a raw User-Agent header into a short device description.
+ */
+
+/** Browsers in match order (Edge and Opera also contain "Chrome") */
+const BROWSERS: Array<[RegExp, string]> = [
+    [/Edg\//, 'Edge'],
+    [/OPR\//, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+    [/curl\//, 'curl'],
+];
+
+/** Operating systems in match order (Android also contains "Linux") */
+const PLATFORMS: Array<[RegExp, string]> = [
+    [/Android/, 'Android'],
+    [/iPhone|iPad/, 'iOS'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/CrOS/, 'ChromeOS'],
+    [/Linux/, 'Linux'],
+];
+
+/**
+ * describeUserAgent
+ * Summarises a User-Agent string (e.g. "Firefox on Linux").
+ * @param userAgent - Raw header recorded with the session
+ */
+export function describeUserAgent(userAgent: string | null): string {
+    if (!userAgent) return 'Unknown device';
+
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && platform) return `${browser} on ${platform}`;
+    return browser ?? platform ?? 'Unknown device';
+}
+
+/**
+ * formatLastSeen
+ * Describes how long ago a session was used (e.g. "5 minutes ago").
+ * @param isoString - Timestamp from backend
+ */
+export function formatLastSeen(isoString: string): string {
+    const minutes = Math.floor((Date.now() - new Date(isoString).getTime()) / (60 * 1000));
+    if (minutes < 1) return 'Just now';
+    if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+
+    const days = Math.floor(hours / 24);
+    return `${days} day${days === 1 ? '' : 's'} ago`;
+}
@@ -0,0 +1,152 @@
+import { useState, type FC, type FormEvent } from 'react';
+import { motion } from 'motion/react';
+import { UserPlus, X } from 'lucide-react';
+import type { AdminRole, CreateUserPayload } from '../types/admin.types';
+
+/**
+ * CreateUserModal Props
+ */
+interface CreateUserModalProps {
+    /** Whether modal is visible */
+    isOpen: boolean;
+    /** Roles that can be assigned */
+    roles: AdminRole[];
+    /** Close modal callback */
+    onClose: () => void;
+    /** Create user callback */
+    onCreate: (payload: CreateUserPayload) => Promise<void>;
+}
+
+/**
+ * CreateUserModal Component
+ * ==========================
+ * Modal dialog for creating a new user account with an initial password
+ * and role.
+ */
+export const CreateUserModal: FC<CreateUserModalProps> = ({ isOpen, roles, onClose, onCreate }) => {
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [role, setRole] = useState('user');
+    const [isCreating, setIsCreating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Reset state when modal closes
+    const handleClose = () => {
+        setUsername('');
+        setPassword('');
+        setRole('user');
+        setError(null);
+        onClose();
+    };
+
+    // Handle form submission
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setError(null);
+
+        const trimmedUsername = username.trim();
+        if (!trimmedUsername) {
+            setError('Username is required');
+            return;
+        }
+        if (password.length < 6) {
+            setError('Password must be at least 6 characters');
+            return;
+        }
+
+        setIsCreating(true);
+        try {
+            await onCreate({ username: trimmedUsername, password, role });
+            handleClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create user');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <motion.div
+                className="bg-[#161B22] border border-[#30363D] rounded-lg p-6 max-w-md w-full mx-4"
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <UserPlus className="w-5 h-5 text-[#58A6FF]" />
+                        New User
+                    </h2>
+                    <button
+                        onClick={handleClose}
+                        className="p-1 hover:bg-[#0D1117] rounded text-slate-400"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {/* Form */}
+                <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+                    <input
+                        type="text"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        placeholder="Username"
+                        autoComplete="off"
+                        className="w-full bg-[#0B1220] border border-[#30363D] px-3 py-2 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none"
+                        autoFocus
+                        disabled={isCreating}
+                    />
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        placeholder="Initial password"
+                        autoComplete="new-password"
+                        className="w-full bg-[#0B1220] border border-[#30363D] px-3 py-2 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none"
+                        disabled={isCreating}
+                    />
+                    <select
+                        value={role}
+                        onChange={(e) => setRole(e.target.value)}
+                        className="w-full bg-[#0B1220] border border-[#30363D] px-3 py-2 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none"
+                        disabled={isCreating}
+                    >
+                        {roles.map((r) => (
+                            <option key={r.id} value={r.id}>{r.name}</option>
+                        ))}
+                    </select>
+
+                    {/* Error message */}
+                    {error && (
+                        <div className="text-red-400 text-sm">{error}</div>
+                    )}
+
+                    {/* Actions */}
+                    <div className="flex gap-3 justify-end mt-1">
+                        <button
+                            type="button"
+                            onClick={handleClose}
+                            className="px-3 py-1.5 rounded bg-[#0F1724] text-slate-300 hover:bg-[#1C2128]"
+                            disabled={isCreating}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            className="px-3 py-1.5 rounded bg-[#238636] text-white hover:bg-[#2EA043] disabled:opacity-50"
+                            disabled={isCreating || !username.trim() || !password}
+                        >
+                            {isCreating ? 'Creating...' : 'Create'}
+                        </button>
+                    </div>
+                </form>
+            </motion.div>
+        </div>
+    );
+};
+
+export default CreateUserModal;
@@ -0,0 +1,198 @@
+import { useState, type FC, type FormEvent } from 'react';
+import { Check, Copy, Ticket, Trash2 } from 'lucide-react';
+import { formatFileSize } from '../../files/utils/fileUtils';
+import { buildInviteUrl } from '../services/adminService';
+import type { AdminInvite, AdminRole, CreateInvitePayload } from '../types/admin.types';
+
+/**
+ * InvitesSection Props
+ */
+interface InvitesSectionProps {
+    invites: AdminInvite[];
+    /** Roles an invite may preset (the admin role is left out) */
+    roles: AdminRole[];
+    /** Create invite callback (rethrows so the form can show the message) */
+    onCreate: (payload: CreateInvitePayload) => Promise<void>;
+    onDelete: (invite: AdminInvite) => void;
+}
+
+/** Expiry choices offered when creating an invite (days; 0 = never). */
+const EXPIRY_DAYS = [1, 7, 30, 0];
+
+/**
+ * InvitesSection Component
+ * =========================
+ * Creates invite codes for self-service registration and lists existing
+ * ones with their usage. Copying an invite copies a registration link
+ * with the code filled in.
+ */
+export const InvitesSection: FC<InvitesSectionProps> = ({ invites, roles, onCreate, onDelete }) => {
+    const [maxUses, setMaxUses] = useState('1');
+    const [expiryDays, setExpiryDays] = useState(7);
+    const [role, setRole] = useState('');
+    const [quotaGb, setQuotaGb] = useState('');
+    const [isCreating, setIsCreating] = useState(false);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const inputClass =
+        'bg-[#0B1220] border border-[#30363D] px-3 py-2 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none';
+
+    // Handle form submission
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setError(null);
+
+        const uses = Number(maxUses);
+        if (!Number.isInteger(uses) || uses < 1) {
+            setError('Uses must be a whole number of at least 1');
+            return;
+        }
+        const quota = quotaGb ? Number(quotaGb) : null;
+        if (quota !== null && (!Number.isFinite(quota) || quota <= 0)) {
+            setError('Enter a quota greater than 0, or leave it empty for the default');
+            return;
+        }
+
+        setIsCreating(true);
+        try {
+            await onCreate({
+                maxUses: uses,
+                expiresAt: expiryDays ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString() : undefined,
+                role: role || undefined,
+                quotaBytes: quota !== null ? Math.floor(quota * 1024 ** 3) : undefined,
+            });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create invite');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    // Copy a registration link to the clipboard
+    const handleCopy = async (invite: AdminInvite) => {
+        try {
+            await navigator.clipboard.writeText(buildInviteUrl(invite.code));
+            setCopiedId(invite.id);
+        } catch {
+            // Clipboard may be unavailable over plain HTTP; the code is still selectable
+        }
+    };
+
+    return (
+        <section className="max-w-3xl">
+            <h2 className="text-lg font-semibold mb-3 flex items-center gap-2">
+                <Ticket className="w-5 h-5" />
+                Invites
+            </h2>
+
+            {/* New invite form */}
+            <form onSubmit={handleSubmit} className="p-3 bg-[#161B22] border border-[#30363D] rounded-lg flex flex-wrap items-end gap-2">
+                <label className="flex flex-col gap-1 text-xs text-slate-400">
+                    Uses
+                    <input
+                        type="number"
+                        min="1"
+                        value={maxUses}
+                        onChange={(e) => setMaxUses(e.target.value)}
+                        className={`w-20 ${inputClass}`}
+                        disabled={isCreating}
+                    />
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-slate-400">
+                    Expires
+                    <select
+                        value={expiryDays}
+                        onChange={(e) => setExpiryDays(Number(e.target.value))}
+                        className={inputClass}
+                        disabled={isCreating}
+                    >
+                        {EXPIRY_DAYS.map((days) => (
+                            <option key={days} value={days}>
+                                {days === 0 ? 'Never' : `In ${days} day${days === 1 ? '' : 's'}`}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-slate-400">
+                    Role
+                    <select
+                        value={role}
+                        onChange={(e) => setRole(e.target.value)}
+                        className={inputClass}
+                        disabled={isCreating}
+                    >
+                        <option value="">Default</option>
+                        {roles.filter((r) => r.id !== 'admin').map((r) => (
+                            <option key={r.id} value={r.id}>{r.name}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-slate-400">
+                    Quota (GB)
+                    <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={quotaGb}
+                        onChange={(e) => setQuotaGb(e.target.value)}
+                        placeholder="Default"
+                        className={`w-28 ${inputClass}`}
+                        disabled={isCreating}
+                    />
+                </label>
+                <button
+                    type="submit"
+                    className="px-3 py-2 rounded bg-[#238636] text-white hover:bg-[#2EA043] text-sm disabled:opacity-50"
+                    disabled={isCreating}
+                >
+                    {isCreating ? 'Creating...' : 'Create Invite'}
+                </button>
+            </form>
+            {error && <div className="mt-2 text-red-400 text-sm">{error}</div>}
+
+            {/* Invite list */}
+            <div className="mt-3 flex flex-col gap-2">
+                {invites.map((invite) => (
+                    <div
+                        key={invite.id}
+                        className={`flex items-center gap-3 p-3 bg-[#161B22] border border-[#30363D] rounded-lg ${invite.usable ? '' : 'opacity-60'}`}
+                    >
+                        <div className="flex-1 min-w-0">
+                            <div className="font-mono text-sm truncate select-all">{invite.code}</div>
+                            <div className="text-xs text-slate-500">
+                                {invite.useCount} of {invite.maxUses} used
+                                {' · '}
+                                {invite.expiresAt
+                                    ? `${new Date(invite.expiresAt).getTime() > Date.now() ? 'expires' : 'expired'} ${new Date(invite.expiresAt).toLocaleDateString()}`
+                                    : 'no expiry'}
+                                {invite.role && ` · role ${invite.role}`}
+                                {invite.quotaBytes !== null &&
+                                    ` · quota ${invite.quotaBytes === 0 ? 'unlimited' : formatFileSize(invite.quotaBytes)}`}
+                                {invite.createdBy && ` · by ${invite.createdBy}`}
+                            </div>
+                        </div>
+                        {invite.usable && (
+                            <button
+                                onClick={() => handleCopy(invite)}
+                                className="p-2 rounded text-slate-400 hover:text-slate-200 hover:bg-[#0D1117] transition-colors"
+                                title="Copy registration link"
+                            >
+                                {copiedId === invite.id ? <Check className="w-4 h-4 text-[#6BCB77]" /> : <Copy className="w-4 h-4" />}
+                            </button>
+                        )}
+                        <button
+                            onClick={() => onDelete(invite)}
+                            className="p-2 rounded text-slate-400 hover:text-red-400 hover:bg-[#0D1117] transition-colors"
+                            title="Revoke invite"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </section>
+    );
+};
+
+export default InvitesSection;
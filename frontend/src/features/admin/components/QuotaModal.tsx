@@ -0,0 +1,179 @@
+import { useState, type FC, type FormEvent } from 'react';
+import { motion } from 'motion/react';
+import { HardDrive, X } from 'lucide-react';
+import { formatFileSize } from '../../files/utils/fileUtils';
+import type { AdminUser } from '../types/admin.types';
+
+/**
+ * QuotaModal Props
+ */
+interface QuotaModalProps {
+    /** User whose quota is being edited (null hides the modal) */
+    user: AdminUser | null;
+    /** Close modal callback */
+    onClose: () => void;
+    /** Save quota callback (bytes; 0 = unlimited, null = server default) */
+    onSave: (user: AdminUser, quotaBytes: number | null) => Promise<void>;
+}
+
+type QuotaMode = 'default' | 'unlimited' | 'custom';
+type QuotaUnit = 'MB' | 'GB';
+
+const UNIT_BYTES: Record<QuotaUnit, number> = {
+    MB: 1024 ** 2,
+    GB: 1024 ** 3,
+};
+
+/** Initial form values for a user's current quota setting. */
+function initialValues(user: AdminUser | null): { mode: QuotaMode; amount: string; unit: QuotaUnit } {
+    if (!user || user.quotaBytes === null) return { mode: 'default', amount: '', unit: 'GB' };
+    if (user.quotaBytes === 0) return { mode: 'unlimited', amount: '', unit: 'GB' };
+
+    const unit: QuotaUnit = user.quotaBytes >= UNIT_BYTES.GB ? 'GB' : 'MB';
+    const amount = +(user.quotaBytes / UNIT_BYTES[unit]).toFixed(2);
+    return { mode: 'custom', amount: String(amount), unit };
+}
+
+/**
+ * QuotaModal Component
+ * =====================
+ * Modal dialog for setting a user's storage quota: the server default,
+ * unlimited, or a custom size. Render it keyed by user id so the form
+ * starts from that user's current setting.
+ */
+export const QuotaModal: FC<QuotaModalProps> = ({ user, onClose, onSave }) => {
+    const [values, setValues] = useState(() => initialValues(user));
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const { mode, amount, unit } = values;
+
+    // Handle form submission
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+        setError(null);
+
+        let quotaBytes: number | null = null;
+        if (mode === 'unlimited') quotaBytes = 0;
+        if (mode === 'custom') {
+            const parsed = Number(amount);
+            if (!Number.isFinite(parsed) || parsed <= 0) {
+                setError('Enter a size greater than 0');
+                return;
+            }
+            quotaBytes = Math.floor(parsed * UNIT_BYTES[unit]);
+        }
+
+        setIsSaving(true);
+        try {
+            await onSave(user, quotaBytes);
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update quota');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!user) return null;
+
+    const inputClass =
+        'bg-[#0B1220] border border-[#30363D] px-3 py-2 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none';
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <motion.div
+                className="bg-[#161B22] border border-[#30363D] rounded-lg p-6 max-w-md w-full mx-4"
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <HardDrive className="w-5 h-5 text-[#58A6FF]" />
+                        Storage Quota
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-1 hover:bg-[#0D1117] rounded text-slate-400"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="text-xs text-slate-500 mb-3">
+                    {user.username} uses {formatFileSize(user.usedBytes)}
+                    {user.effectiveQuotaBytes !== null
+                        ? ` of ${formatFileSize(user.effectiveQuotaBytes)}.`
+                        : ' (no limit).'}
+                </div>
+
+                {/* Form */}
+                <form onSubmit={handleSubmit} className="space-y-3">
+                    <select
+                        value={mode}
+                        onChange={(e) => setValues({ ...values, mode: e.target.value as QuotaMode })}
+                        className={`w-full ${inputClass}`}
+                        disabled={isSaving}
+                    >
+                        <option value="default">Server default</option>
+                        <option value="unlimited">Unlimited</option>
+                        <option value="custom">Custom</option>
+                    </select>
+
+                    {mode === 'custom' && (
+                        <div className="flex gap-2">
+                            <input
+                                type="number"
+                                min="0"
+                                step="any"
+                                value={amount}
+                                onChange={(e) => setValues({ ...values, amount: e.target.value })}
+                                placeholder="Size"
+                                className={`flex-1 min-w-0 ${inputClass}`}
+                                autoFocus
+                                disabled={isSaving}
+                            />
+                            <select
+                                value={unit}
+                                onChange={(e) => setValues({ ...values, unit: e.target.value as QuotaUnit })}
+                                className={inputClass}
+                                disabled={isSaving}
+                            >
+                                <option value="MB">MB</option>
+                                <option value="GB">GB</option>
+                            </select>
+                        </div>
+                    )}
+
+                    {/* Error message */}
+                    {error && (
+                        <div className="text-red-400 text-sm">{error}</div>
+                    )}
+
+                    {/* Actions */}
+                    <div className="flex gap-3 justify-end pt-1">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="px-3 py-1.5 rounded bg-[#0F1724] text-slate-300 hover:bg-[#1C2128]"
+                            disabled={isSaving}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            className="px-3 py-1.5 rounded bg-[#238636] text-white hover:bg-[#2EA043] disabled:opacity-50"
+                            disabled={isSaving || (mode === 'custom' && !amount)}
+                        >
+                            {isSaving ? 'Saving...' : 'Save'}
+                        </button>
+                    </div>
+                </form>
+            </motion.div>
+        </div>
+    );
+};
+
+export default QuotaModal;
@@ -0,0 +1,126 @@
+import { useState, type FC, type FormEvent } from 'react';
+import { motion } from 'motion/react';
+import { KeyRound, X } from 'lucide-react';
+import type { AdminUser } from '../types/admin.types';
+
+/**
+ * ResetPasswordModal Props
+ */
+interface ResetPasswordModalProps {
+    /** User whose password is being reset (null hides the modal) */
+    user: AdminUser | null;
+    /** Close modal callback */
+    onClose: () => void;
+    /** Reset password callback */
+    onReset: (user: AdminUser, password: string) => Promise<void>;
+}
+
+/**
+ * ResetPasswordModal Component
+ * =============================
+ * Modal dialog for setting a new password on another user's account.
+ */
+export const ResetPasswordModal: FC<ResetPasswordModalProps> = ({ user, onClose, onReset }) => {
+    const [password, setPassword] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Reset state when modal closes
+    const handleClose = () => {
+        setPassword('');
+        setError(null);
+        onClose();
+    };
+
+    // Handle form submission
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+        setError(null);
+
+        if (password.length < 6) {
+            setError('Password must be at least 6 characters');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await onReset(user, password);
+            handleClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to reset password');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!user) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <motion.div
+                className="bg-[#161B22] border border-[#30363D] rounded-lg p-6 max-w-md w-full mx-4"
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <KeyRound className="w-5 h-5 text-[#58A6FF]" />
+                        Reset Password
+                    </h2>
+                    <button
+                        onClick={handleClose}
+                        className="p-1 hover:bg-[#0D1117] rounded text-slate-400"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="text-xs text-slate-500 mb-3">
+                    {user.username} will be signed out of existing sessions.
+                </div>
+
+                {/* Form */}
+                <form onSubmit={handleSubmit}>
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        placeholder="New password"
+                        autoComplete="new-password"
+                        className="w-full bg-[#0B1220] border border-[#30363D] px-3 py-2 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none"
+                        autoFocus
+                        disabled={isSaving}
+                    />
+
+                    {/* Error message */}
+                    {error && (
+                        <div className="text-red-400 text-sm mt-2">{error}</div>
+                    )}
+
+                    {/* Actions */}
+                    <div className="flex gap-3 justify-end mt-4">
+                        <button
+                            type="button"
+                            onClick={handleClose}
+                            className="px-3 py-1.5 rounded bg-[#0F1724] text-slate-300 hover:bg-[#1C2128]"
+                            disabled={isSaving}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            className="px-3 py-1.5 rounded bg-[#238636] text-white hover:bg-[#2EA043] disabled:opacity-50"
+                            disabled={isSaving || !password}
+                        >
+                            {isSaving ? 'Saving...' : 'Reset'}
+                        </button>
+                    </div>
+                </form>
+            </motion.div>
+        </div>
+    );
+};
+
+export default ResetPasswordModal;
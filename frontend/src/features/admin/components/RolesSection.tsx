@@ -0,0 +1,133 @@
+import { useState, type FC, type FormEvent } from 'react';
+import { Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import type { Capability } from '../../auth/types/auth.types';
+import type { AdminRole, CreateRolePayload } from '../types/admin.types';
+
+/**
+ * RolesSection Props
+ */
+interface RolesSectionProps {
+    roles: AdminRole[];
+    /** Every capability a role can hold */
+    capabilities: Capability[];
+    /** Create role callback (rethrows so the form can show the message) */
+    onCreate: (payload: CreateRolePayload) => Promise<void>;
+    /** Replace a role's capabilities */
+    onChangeCapabilities: (role: AdminRole, capabilities: Capability[]) => void;
+    onDelete: (role: AdminRole) => void;
+}
+
+/**
+ * RolesSection Component
+ * =======================
+ * Lists roles with a checkbox per capability. The admin role always holds
+ * every capability and cannot be edited; custom roles can be deleted once
+ * no user holds them.
+ */
+export const RolesSection: FC<RolesSectionProps> = ({
+    roles,
+    capabilities,
+    onCreate,
+    onChangeCapabilities,
+    onDelete,
+}) => {
+    const [name, setName] = useState('');
+    const [isCreating, setIsCreating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // New roles start without capabilities; they are granted with the checkboxes
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        setError(null);
+        setIsCreating(true);
+        try {
+            await onCreate({ name: name.trim(), capabilities: [] });
+            setName('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create role');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    // Toggle one capability, keeping the server's capability order
+    const toggle = (role: AdminRole, capability: Capability) => {
+        const next = role.capabilities.includes(capability)
+            ? role.capabilities.filter((c) => c !== capability)
+            : capabilities.filter((c) => c === capability || role.capabilities.includes(c));
+        onChangeCapabilities(role, next);
+    };
+
+    return (
+        <section className="max-w-3xl">
+            <h2 className="text-lg font-semibold mb-3 flex items-center gap-2">
+                <ShieldCheck className="w-5 h-5" />
+                Roles
+            </h2>
+
+            <div className="flex flex-col gap-2">
+                {roles.map((role) => {
+                    const locked = role.id === 'admin';
+                    return (
+                        <div key={role.id} className="p-3 bg-[#161B22] border border-[#30363D] rounded-lg">
+                            <div className="flex items-center gap-2 mb-2">
+                                <span className="font-medium">{role.name}</span>
+                                {role.builtIn && <span className="text-xs text-slate-500">built-in</span>}
+                                <span className="text-xs text-slate-500">
+                                    · {role.userCount} user{role.userCount === 1 ? '' : 's'}
+                                </span>
+                                {!role.builtIn && (
+                                    <button
+                                        onClick={() => onDelete(role)}
+                                        className="ml-auto p-1 rounded text-slate-400 hover:text-red-400 hover:bg-[#0D1117] disabled:opacity-40 disabled:pointer-events-none"
+                                        title={role.userCount > 0 ? 'Assign its users another role first' : 'Delete role'}
+                                        disabled={role.userCount > 0}
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                )}
+                            </div>
+                            <div className="flex flex-wrap gap-x-4 gap-y-1">
+                                {capabilities.map((capability) => (
+                                    <label key={capability} className="flex items-center gap-1.5 text-sm text-slate-300">
+                                        <input
+                                            type="checkbox"
+                                            checked={role.capabilities.includes(capability)}
+                                            onChange={() => toggle(role, capability)}
+                                            disabled={locked || capability === 'admin'}
+                                        />
+                                        {capability}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {/* New role form */}
+            <form onSubmit={handleSubmit} className="mt-3 flex gap-2">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="New role name"
+                    className="flex-1 min-w-0 bg-[#0B1220] border border-[#30363D] px-3 py-2 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none"
+                    disabled={isCreating}
+                />
+                <button
+                    type="submit"
+                    className="flex items-center gap-2 px-3 py-1.5 rounded bg-[#238636] text-white hover:bg-[#2EA043] text-sm disabled:opacity-50"
+                    disabled={isCreating || !name.trim()}
+                >
+                    <Plus className="w-4 h-4" />
+                    Add Role
+                </button>
+            </form>
+            {error && <div className="mt-2 text-red-400 text-sm">{error}</div>}
+        </section>
+    );
+};
+
+export default RolesSection;
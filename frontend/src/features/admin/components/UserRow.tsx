@@ -0,0 +1,143 @@
+import type { FC } from 'react';
+import { KeyRound, HardDrive, Ban, CheckCircle, LockOpen, Trash2 } from 'lucide-react';
+import { formatFileSize } from '../../files/utils/fileUtils';
+import type { AdminRole, AdminUser } from '../types/admin.types';
+
+/**
+ * UserRow Props
+ */
+interface UserRowProps {
+    user: AdminUser;
+    /** Roles that can be assigned */
+    roles: AdminRole[];
+    /** True for the signed-in admin (self-demotion/deletion is disabled) */
+    isSelf: boolean;
+    onChangeRole: (user: AdminUser, role: string) => void;
+    onToggleDisabled: (user: AdminUser) => void;
+    onResetPassword: (user: AdminUser) => void;
+    onEditQuota: (user: AdminUser) => void;
+    onUnlock: (user: AdminUser) => void;
+    onDelete: (user: AdminUser) => void;
+}
+
+/**
+ * UserRow Component
+ * ==================
+ * One user account in the admin list with its role/status badges and actions.
+ */
+export const UserRow: FC<UserRowProps> = ({
+    user,
+    roles,
+    isSelf,
+    onChangeRole,
+    onToggleDisabled,
+    onResetPassword,
+    onEditQuota,
+    onUnlock,
+    onDelete,
+}) => {
+    const quotaPercent = user.effectiveQuotaBytes
+        ? Math.round((user.usedBytes / user.effectiveQuotaBytes) * 100)
+        : null;
+    const actionClass =
+        'p-2 rounded text-slate-400 hover:text-slate-200 hover:bg-[#0D1117] transition-colors disabled:opacity-40 disabled:pointer-events-none';
+
+    return (
+        <div className="flex items-center gap-3 p-3 bg-[#161B22] border border-[#30363D] rounded-lg">
+            <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                    <span className={`font-medium truncate ${user.disabled ? 'text-slate-500 line-through' : ''}`}>
+                        {user.username}
+                    </span>
+                    {isSelf && <span className="text-xs text-slate-500">(you)</span>}
+                    {user.isAdmin && (
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-[#3D7BF0]/20 text-[#58A6FF]">admin</span>
+                    )}
+                    {!user.isAdmin && user.role !== 'user' && (
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-[#30363D] text-slate-300">{user.role}</span>
+                    )}
+                    {user.disabled && (
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-red-500/20 text-red-400">disabled</span>
+                    )}
+                    {user.lockedUntil && (
+                        <span
+                            className="text-xs px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-400"
+                            title={`Locked until ${new Date(user.lockedUntil).toLocaleTimeString()}`}
+                        >
+                            locked
+                        </span>
+                    )}
+                </div>
+                <div className="text-xs text-slate-500">
+                    Created {new Date(user.createdAt).toLocaleDateString()}
+                    {' · '}
+                    <span className={quotaPercent !== null && quotaPercent >= 90 ? 'text-amber-400' : ''}>
+                        {formatFileSize(user.usedBytes)}
+                        {user.effectiveQuotaBytes !== null && ` of ${formatFileSize(user.effectiveQuotaBytes)} (${quotaPercent}%)`}
+                    </span>
+                    {user.failedLoginAttempts > 0 && (
+                        <span>
+                            {' · '}
+                            {user.failedLoginAttempts} failed sign-in{user.failedLoginAttempts === 1 ? '' : 's'}
+                        </span>
+                    )}
+                </div>
+            </div>
+
+            <div className="flex items-center gap-1 shrink-0">
+                <select
+                    value={user.role}
+                    onChange={(e) => onChangeRole(user, e.target.value)}
+                    className="bg-[#0B1220] border border-[#30363D] px-2 py-1 rounded text-sm text-slate-300 focus:border-[#58A6FF] focus:outline-none disabled:opacity-40"
+                    title="Role"
+                    disabled={isSelf}
+                >
+                    {roles.map((role) => (
+                        <option key={role.id} value={role.id}>{role.name}</option>
+                    ))}
+                </select>
+                {user.failedLoginAttempts > 0 && (
+                    <button
+                        onClick={() => onUnlock(user)}
+                        className={actionClass}
+                        title={user.lockedUntil ? 'Unlock sign-in' : 'Clear failed sign-ins'}
+                    >
+                        <LockOpen className="w-4 h-4" />
+                    </button>
+                )}
+                <button
+                    onClick={() => onResetPassword(user)}
+                    className={actionClass}
+                    title="Reset password"
+                >
+                    <KeyRound className="w-4 h-4" />
+                </button>
+                <button
+                    onClick={() => onEditQuota(user)}
+                    className={actionClass}
+                    title="Storage quota"
+                >
+                    <HardDrive className="w-4 h-4" />
+                </button>
+                <button
+                    onClick={() => onToggleDisabled(user)}
+                    className={actionClass}
+                    title={user.disabled ? 'Enable account' : 'Disable account'}
+                    disabled={isSelf}
+                >
+                    {user.disabled ? <CheckCircle className="w-4 h-4" /> : <Ban className="w-4 h-4" />}
+                </button>
+                <button
+                    onClick={() => onDelete(user)}
+                    className={`${actionClass} hover:text-red-400`}
+                    title="Delete user"
+                    disabled={isSelf}
+                >
+                    <Trash2 className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default UserRow;
@@ -0,0 +1,7 @@
+// Re-export admin UI components
+export { CreateUserModal } from './CreateUserModal';
+export { ResetPasswordModal } from './ResetPasswordModal';
+export { QuotaModal } from './QuotaModal';
+export { UserRow } from './UserRow';
+export { RolesSection } from './RolesSection';
+export { InvitesSection } from './InvitesSection';
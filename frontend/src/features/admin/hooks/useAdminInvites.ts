@@ -0,0 +1,86 @@
+/**
+ * useAdminInvites Hook
+ * =====================
+ * State management for the admin invite code list.
+ * Handles fetching, creating, and revoking invites.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { listInvites, createInvite, deleteInvite } from '../services/adminService';
+import { getErrorMessage } from '../../../utils';
+import type { AdminInvite, CreateInvitePayload } from '../types/admin.types';
+
+/** State shape returned by the hook */
+export interface UseAdminInvitesState {
+    invites: AdminInvite[];
+    isLoading: boolean;
+    error: string | null;
+}
+
+/** Actions returned by the hook */
+export interface UseAdminInvitesActions {
+    fetchInvites: () => Promise<void>;
+    create: (payload: CreateInvitePayload) => Promise<void>;
+    remove: (invite: AdminInvite) => Promise<void>;
+    clearError: () => void;
+}
+
+/**
+ * Hook for managing invite codes as an admin.
+ * Automatically fetches invites on mount.
+ */
+export const useAdminInvites = (): UseAdminInvitesState & UseAdminInvitesActions => {
+    const [invites, setInvites] = useState<AdminInvite[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Fetch all invites from server
+    const fetchInvites = useCallback(async () => {
+        setError(null);
+        setIsLoading(true);
+        try {
+            setInvites(await listInvites());
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to load invites'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    // Create an invite; rethrows so the form can show the message inline
+    const create = useCallback(async (payload: CreateInvitePayload) => {
+        setError(null);
+        const invite = await createInvite(payload);
+        setInvites((prev) => [invite, ...prev]);
+    }, []);
+
+    // Revoke an invite
+    const remove = useCallback(async (invite: AdminInvite) => {
+        setError(null);
+        try {
+            await deleteInvite(invite.id);
+            setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Revoke failed'));
+        }
+    }, []);
+
+    const clearError = useCallback(() => setError(null), []);
+
+    // Initial load
+    useEffect(() => {
+        fetchInvites();
+    }, [fetchInvites]);
+
+    return {
+        invites,
+        isLoading,
+        error,
+        fetchInvites,
+        create,
+        remove,
+        clearError,
+    };
+};
+
+export default useAdminInvites;
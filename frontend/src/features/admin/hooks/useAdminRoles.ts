@@ -0,0 +1,106 @@
+/**
+ * useAdminRoles Hook
+ * ===================
+ * State management for the admin role list.
+ * Handles fetching, creating, updating, and deleting roles.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { listRoles, createRole, updateRole, deleteRole } from '../services/adminService';
+import { getErrorMessage } from '../../../utils';
+import type { Capability } from '../../auth/types/auth.types';
+import type { AdminRole, CreateRolePayload, UpdateRolePayload } from '../types/admin.types';
+
+/** State shape returned by the hook */
+export interface UseAdminRolesState {
+    roles: AdminRole[];
+    /** Every capability a role can hold */
+    capabilities: Capability[];
+    isLoading: boolean;
+    error: string | null;
+}
+
+/** Actions returned by the hook */
+export interface UseAdminRolesActions {
+    fetchRoles: () => Promise<void>;
+    create: (payload: CreateRolePayload) => Promise<void>;
+    update: (role: AdminRole, payload: UpdateRolePayload) => Promise<void>;
+    remove: (role: AdminRole) => Promise<void>;
+    clearError: () => void;
+}
+
+/**
+ * Hook for managing roles as an admin.
+ * Automatically fetches roles on mount.
+ */
+export const useAdminRoles = (): UseAdminRolesState & UseAdminRolesActions => {
+    const [roles, setRoles] = useState<AdminRole[]>([]);
+    const [capabilities, setCapabilities] = useState<Capability[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Fetch all roles from server
+    const fetchRoles = useCallback(async () => {
+        setError(null);
+        setIsLoading(true);
+        try {
+            const data = await listRoles();
+            setRoles(data.roles);
+            setCapabilities(data.capabilities);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to load roles'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    // Create a role; rethrows so the form can show the message inline
+    const create = useCallback(async (payload: CreateRolePayload) => {
+        setError(null);
+        const role = await createRole(payload);
+        setRoles((prev) => [...prev, role]);
+    }, []);
+
+    // Rename a role or change its capabilities
+    const update = useCallback(async (role: AdminRole, payload: UpdateRolePayload) => {
+        setError(null);
+        try {
+            const updated = await updateRole(role.id, payload);
+            setRoles((prev) => prev.map((r) => (r.id === updated.id ? updated : r)));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Update failed'));
+        }
+    }, []);
+
+    // Delete a custom role
+    const remove = useCallback(async (role: AdminRole) => {
+        setError(null);
+        try {
+            await deleteRole(role.id);
+            setRoles((prev) => prev.filter((r) => r.id !== role.id));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Delete failed'));
+        }
+    }, []);
+
+    const clearError = useCallback(() => setError(null), []);
+
+    // Initial load
+    useEffect(() => {
+        fetchRoles();
+    }, [fetchRoles]);
+
+    return {
+        roles,
+        capabilities,
+        isLoading,
+        error,
+        fetchRoles,
+        create,
+        update,
+        remove,
+        clearError,
+    };
+};
+
+export default useAdminRoles;
@@ -0,0 +1,136 @@
+/**
+ * useAdminUsers Hook
+ * ===================
+ * State management for the admin user list.
+ * Handles fetching, creating, updating, resetting passwords, setting quotas, unlocking, and deleting users.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import {
+    listUsers,
+    createUser,
+    updateUser,
+    resetUserPassword,
+    unlockUser,
+    deleteUser,
+} from '../services/adminService';
+import { getErrorMessage } from '../../../utils';
+import type { AdminUser, CreateUserPayload, UpdateUserPayload } from '../types/admin.types';
+
+/** State shape returned by the hook */
+export interface UseAdminUsersState {
+    users: AdminUser[];
+    isLoading: boolean;
+    error: string | null;
+}
+
+/** Actions returned by the hook */
+export interface UseAdminUsersActions {
+    fetchUsers: () => Promise<void>;
+    create: (payload: CreateUserPayload) => Promise<void>;
+    update: (user: AdminUser, payload: UpdateUserPayload) => Promise<void>;
+    resetPassword: (user: AdminUser, password: string) => Promise<void>;
+    setQuota: (user: AdminUser, quotaBytes: number | null) => Promise<void>;
+    unlock: (user: AdminUser) => Promise<void>;
+    remove: (user: AdminUser) => Promise<void>;
+    clearError: () => void;
+}
+
+/**
+ * Hook for managing user accounts as an admin.
+ * Automatically fetches users on mount.
+ */
+export const useAdminUsers = (): UseAdminUsersState & UseAdminUsersActions => {
+    const [users, setUsers] = useState<AdminUser[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Fetch all users from server
+    const fetchUsers = useCallback(async () => {
+        setError(null);
+        setIsLoading(true);
+        try {
+            setUsers(await listUsers());
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to load users'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    // Create a user; rethrows so the form can show the message inline
+    const create = useCallback(async (payload: CreateUserPayload) => {
+        setError(null);
+        const user = await createUser(payload);
+        setUsers((prev) => [...prev, user]);
+    }, []);
+
+    // Toggle admin/disabled flags
+    const update = useCallback(async (user: AdminUser, payload: UpdateUserPayload) => {
+        setError(null);
+        try {
+            const updated = await updateUser(user.id, payload);
+            setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Update failed'));
+        }
+    }, []);
+
+    // Reset a user's password; rethrows so the prompt can show the message
+    const resetPassword = useCallback(async (user: AdminUser, password: string) => {
+        setError(null);
+        await resetUserPassword(user.id, password);
+    }, []);
+
+    // Set a user's storage quota; rethrows so the dialog can show the message
+    const setQuota = useCallback(async (user: AdminUser, quotaBytes: number | null) => {
+        setError(null);
+        const updated = await updateUser(user.id, { quotaBytes });
+        setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+    }, []);
+
+    // Lift a sign-in lockout
+    const unlock = useCallback(async (user: AdminUser) => {
+        setError(null);
+        try {
+            const updated = await unlockUser(user.id);
+            setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Unlock failed'));
+        }
+    }, []);
+
+    // Delete a user account
+    const remove = useCallback(async (user: AdminUser) => {
+        setError(null);
+        try {
+            await deleteUser(user.id);
+            setUsers((prev) => prev.filter((u) => u.id !== user.id));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Delete failed'));
+        }
+    }, []);
+
+    const clearError = useCallback(() => setError(null), []);
+
+    // Initial load
+    useEffect(() => {
+        fetchUsers();
+    }, [fetchUsers]);
+
+    return {
+        users,
+        isLoading,
+        error,
+        fetchUsers,
+        create,
+        update,
+        resetPassword,
+        setQuota,
+        unlock,
+        remove,
+        clearError,
+    };
+};
+
+export default useAdminUsers;
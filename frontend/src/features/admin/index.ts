@@ -0,0 +1,7 @@
+// Re-export admin feature modules
+export * from './types/admin.types';
+export * from './services/adminService';
+export * from './hooks/useAdminUsers';
+export * from './hooks/useAdminRoles';
+export * from './hooks/useAdminInvites';
+export * from './components';
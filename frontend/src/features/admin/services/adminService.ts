@@ -0,0 +1,216 @@
+/**
+ * Admin Service
+ * ==============
+ * API call wrappers for admin-only user, role, and invite management endpoints.
+ * All calls require the current user to have the admin role.
+ */
+
+import { apiFetch } from '../../../api';
+import { getAuthHeaders, getAuthJsonHeaders, handleErrorResponse } from '../../../utils';
+import type {
+    AdminUser,
+    AdminUserListResponse,
+    AdminUserResponse,
+    AdminRole,
+    AdminRoleListResponse,
+    AdminRoleResponse,
+    AdminInvite,
+    AdminInviteListResponse,
+    AdminInviteResponse,
+    CreateUserPayload,
+    UpdateUserPayload,
+    CreateRolePayload,
+    UpdateRolePayload,
+    CreateInvitePayload,
+} from '../types/admin.types';
+
+/** Registration URL that opens the register tab with the code filled in. */
+export const buildInviteUrl = (code: string): string =>
+    `${window.location.origin}/login?invite=${encodeURIComponent(code)}`;
+
+// ============================================
+// API Calls
+// ============================================
+
+/**
+ * Lists all user accounts.
+ */
+export const listUsers = async (): Promise<AdminUser[]> => {
+    const response = await apiFetch('/admin/users', { headers: getAuthHeaders() });
+    if (!response.ok) await handleErrorResponse(response);
+
+    const data: AdminUserListResponse = await response.json();
+    return data.users;
+};
+
+/**
+ * Creates a new user account.
+ * @param payload - Username, initial password, and optional role
+ */
+export const createUser = async (payload: CreateUserPayload): Promise<AdminUser> => {
+    const response = await apiFetch('/admin/users', {
+        method: 'POST',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    const data: AdminUserResponse = await response.json();
+    return data.user;
+};
+
+/**
+ * Resets a user's password. Their existing sessions are signed out.
+ * @param id - User ID
+ * @param password - New password
+ */
+export const resetUserPassword = async (id: string, password: string): Promise<void> => {
+    const response = await apiFetch(`/admin/users/${encodeURIComponent(id)}/password`, {
+        method: 'PUT',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify({ password }),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+};
+
+/**
+ * Changes a user's role, disabled state, or storage quota.
+ * @param id - User ID
+ * @param payload - Flags to change
+ */
+export const updateUser = async (id: string, payload: UpdateUserPayload): Promise<AdminUser> => {
+    const response = await apiFetch(`/admin/users/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    const data: AdminUserResponse = await response.json();
+    return data.user;
+};
+
+/**
+ * Clears a user's failed sign-in attempts and lifts any lockout.
+ * @param id - User ID
+ */
+export const unlockUser = async (id: string): Promise<AdminUser> => {
+    const response = await apiFetch(`/admin/users/${encodeURIComponent(id)}/unlock`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    const data: AdminUserResponse = await response.json();
+    return data.user;
+};
+
+/**
+ * Deletes a user account. Their files are kept.
+ * @param id - User ID
+ */
+export const deleteUser = async (id: string): Promise<void> => {
+    const response = await apiFetch(`/admin/users/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+};
+
+/**
+ * Lists roles and the capabilities a role can hold.
+ */
+export const listRoles = async (): Promise<AdminRoleListResponse> => {
+    const response = await apiFetch('/admin/roles', { headers: getAuthHeaders() });
+    if (!response.ok) await handleErrorResponse(response);
+
+    return response.json();
+};
+
+/**
+ * Creates a custom role.
+ * @param payload - Name, optional description, and capabilities
+ */
+export const createRole = async (payload: CreateRolePayload): Promise<AdminRole> => {
+    const response = await apiFetch('/admin/roles', {
+        method: 'POST',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    const data: AdminRoleResponse = await response.json();
+    return data.role;
+};
+
+/**
+ * Renames a role or replaces its capabilities.
+ * @param id - Role ID
+ * @param payload - Fields to change
+ */
+export const updateRole = async (id: string, payload: UpdateRolePayload): Promise<AdminRole> => {
+    const response = await apiFetch(`/admin/roles/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    const data: AdminRoleResponse = await response.json();
+    return data.role;
+};
+
+/**
+ * Deletes a custom role that no user holds.
+ * @param id - Role ID
+ */
+export const deleteRole = async (id: string): Promise<void> => {
+    const response = await apiFetch(`/admin/roles/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+};
+
+/**
+ * Lists invite codes, newest first.
+ */
+export const listInvites = async (): Promise<AdminInvite[]> => {
+    const response = await apiFetch('/admin/invites', { headers: getAuthHeaders() });
+    if (!response.ok) await handleErrorResponse(response);
+
+    const data: AdminInviteListResponse = await response.json();
+    return data.invites;
+};
+
+/**
+ * Creates an invite code for self-service registration.
+ * @param payload - Allowed uses, expiry, and presets for new accounts
+ */
+export const createInvite = async (payload: CreateInvitePayload): Promise<AdminInvite> => {
+    const response = await apiFetch('/admin/invites', {
+        method: 'POST',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    const data: AdminInviteResponse = await response.json();
+    return data.invite;
+};
+
+/**
+ * Revokes an invite code.
+ * @param id - Invite ID
+ */
+export const deleteInvite = async (id: string): Promise<void> => {
+    const response = await apiFetch(`/admin/invites/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+};
@@ -0,0 +1,144 @@
+/**
+ * Admin Types
+ * ============
+ * Type definitions for the admin user management feature.
+ */
+
+import type { Capability } from '../../auth/types/auth.types';
+
+// ============================================
+// Backend Response Types
+// ============================================
+
+/** User account as returned by /api/admin/users */
+export interface AdminUser {
+    id: string;
+    username: string;
+    isAdmin: boolean;
+    /** Role id; decides what the user may do */
+    role: string;
+    disabled: boolean;
+    /** Recent failed sign-ins (reset on successful sign-in or unlock) */
+    failedLoginAttempts: number;
+    /** End of the running sign-in lockout, or null when not locked */
+    lockedUntil: string | null;
+    /** Quota set for this user in bytes (0 = unlimited), or null for the server default */
+    quotaBytes: number | null;
+    /** Quota that applies after the server default, or null when unlimited */
+    effectiveQuotaBytes: number | null;
+    /** Bytes stored, including trash and previous versions */
+    usedBytes: number;
+    createdAt: string;
+    updatedAt: string | null;
+}
+
+/** Response from GET /api/admin/users */
+export interface AdminUserListResponse {
+    users: AdminUser[];
+}
+
+/** Response from POST /api/admin/users, PATCH /api/admin/users/:id and POST /api/admin/users/:id/unlock */
+export interface AdminUserResponse {
+    user: AdminUser;
+}
+
+/** Role as returned by /api/admin/roles */
+export interface AdminRole {
+    id: string;
+    name: string;
+    description: string | null;
+    capabilities: Capability[];
+    /** Built-in roles (admin, user, guest) cannot be deleted */
+    builtIn: boolean;
+    /** Number of users holding the role */
+    userCount: number;
+    createdAt: string;
+    updatedAt: string | null;
+}
+
+/** Response from GET /api/admin/roles */
+export interface AdminRoleListResponse {
+    roles: AdminRole[];
+    /** Every capability a role can hold */
+    capabilities: Capability[];
+}
+
+/** Response from POST /api/admin/roles and PATCH /api/admin/roles/:id */
+export interface AdminRoleResponse {
+    role: AdminRole;
+}
+
+/** Invite code as returned by /api/admin/invites */
+export interface AdminInvite {
+    id: string;
+    code: string;
+    maxUses: number;
+    useCount: number;
+    expiresAt: string | null;
+    /** Role given to new accounts, or null for the default role */
+    role: string | null;
+    /** Quota given to new accounts in bytes (0 = unlimited), or null for the server default */
+    quotaBytes: number | null;
+    /** False once used up or expired */
+    usable: boolean;
+    /** Username of the admin who created it (null if since deleted) */
+    createdBy: string | null;
+    createdAt: string;
+}
+
+/** Response from GET /api/admin/invites */
+export interface AdminInviteListResponse {
+    invites: AdminInvite[];
+}
+
+/** Response from POST /api/admin/invites */
+export interface AdminInviteResponse {
+    invite: AdminInvite;
+}
+
+// ============================================
+// Request Types
+// ============================================
+
+/** Payload for creating a user */
+export interface CreateUserPayload {
+    username: string;
+    password: string;
+    isAdmin?: boolean;
+    /** Role id (takes precedence over isAdmin) */
+    role?: string;
+}
+
+/** Payload for changing role/disabled flags or setting the storage quota */
+export interface UpdateUserPayload {
+    isAdmin?: boolean;
+    role?: string;
+    disabled?: boolean;
+    /** Quota in bytes (0 = unlimited, null = server default) */
+    quotaBytes?: number | null;
+}
+
+/** Payload for creating a role */
+export interface CreateRolePayload {
+    name: string;
+    description?: string;
+    capabilities: Capability[];
+}
+
+/** Payload for renaming a role or changing its capabilities */
+export interface UpdateRolePayload {
+    name?: string;
+    description?: string | null;
+    capabilities?: Capability[];
+}
+
+/** Payload for creating an invite code */
+export interface CreateInvitePayload {
+    /** Registrations allowed (default 1) */
+    maxUses?: number;
+    /** ISO timestamp after which the code stops working */
+    expiresAt?: string;
+    role?: string;
+    /** Quota in bytes (0 = unlimited, null = server default) */
+    quotaBytes?: number | null;
+}
@@ -1,4 +1,4 @@
-import { Lock, User } from "lucide-react";
+import { ArrowLeft, KeyRound, Lock, ShieldCheck, User } from "lucide-react";
 import { motion } from "motion/react";
 import { Button } from "../../../components/Button";
 import { TextInput } from "../../../components/TextInput";
@@ -9,25 +9,121 @@ import type { LoginFormProps } from "../types/auth.types";
  * LoginForm Component
  * Displays a login form with username/password inputs and validation
  * Uses custom hook for form state management and validation logic
+ * Accounts with two-factor authentication get a second step asking for
+ * the authenticator (or recovery) code
+ * When single sign-on is configured, a "Sign in with SSO" button is shown
+ * below the password form
  */
-export const LoginForm = ({ onSubmit, isLoading = false }: LoginFormProps) => {
+export const LoginForm = ({
+  onSubmit,
+  onSubmitCode,
+  onCancelTwoFactor,
+  twoFactorRequired = false,
+  ssoEnabled = false,
+  onSso,
+  isLoading = false,
+}: LoginFormProps) => {
   // Use custom hook for form logic
-  const { formData, errors, touched, updateField, handleBlur, validateForm } =
-    useLoginForm();
+  const {
+    formData,
+    errors,
+    touched,
+    updateField,
+    handleBlur,
+    validateForm,
+    validateCodeStep,
+    resetCode,
+  } = useLoginForm();
 
   /**
    * Handles form submission
-   * Validates all fields and calls onSubmit if valid
+   * Validates the current step and calls onSubmit/onSubmitCode if valid
    */
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (twoFactorRequired) {
+      if (validateCodeStep()) {
+        onSubmitCode?.(formData.code.trim());
+      }
+      return;
+    }
+
     // Validate and submit if valid
     if (validateForm()) {
       onSubmit?.(formData.username, formData.password);
     }
   };
 
+  /**
+   * Returns to the username/password step
+   */
+  const handleCancelTwoFactor = () => {
+    resetCode();
+    onCancelTwoFactor?.();
+  };
+
+  // Second step: authentication code
+  if (twoFactorRequired) {
+    return (
+      <motion.div
+        className="w-full max-w-md"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4, ease: "easeOut" }}
+      >
+        <div className="bg-[#161B22] rounded-xl border border-[#30363D] p-8 shadow-2xl">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-[#8B949E]">
+              Enter the 6-digit code from your authenticator app, or one of
+              your recovery codes.
+            </p>
+
+            {/* Authentication code input field */}
+            <TextInput
+              label="Authentication code"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              value={formData.code}
+              onChange={(e) => updateField("code", e.target.value)}
+              onBlur={() => handleBlur("code")}
+              error={touched.code ? errors.code : ""}
+              disabled={isLoading}
+              autoFocus
+              required
+              fullWidth
+              icon={<ShieldCheck className="w-5 h-5" />}
+            />
+
+            {/* Submit button */}
+            <Button
+              type="submit"
+              variant="primary"
+              size="lg"
+              fullWidth
+              disabled={isLoading}
+            >
+              {isLoading ? "Verifying..." : "Verify"}
+            </Button>
+
+            {/* Back to username/password */}
+            <button
+              type="button"
+              onClick={handleCancelTwoFactor}
+              disabled={isLoading}
+              className="w-full flex items-center justify-center gap-2 text-sm text-[#8B949E] hover:text-[#C9D1D9] transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back
+            </button>
+          </form>
+        </div>
+      </motion.div>
+    );
+  }
+
   return (
     <motion.div
       className="w-full max-w-md"
@@ -84,6 +180,30 @@ export const LoginForm = ({ onSubmit, isLoading = false }: LoginFormProps) => {
 
           {/* No forgot password button - handled elsewhere if needed */}
         </form>
+
+        {/* Single sign-on through the identity provider */}
+        {ssoEnabled && (
+          <>
+            <div className="my-4 flex items-center gap-3 text-xs text-[#8B949E]">
+              <div className="h-px flex-1 bg-[#30363D]" />
+              or
+              <div className="h-px flex-1 bg-[#30363D]" />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="lg"
+              fullWidth
+              disabled={isLoading}
+              onClick={onSso}
+            >
+              <span className="flex items-center justify-center gap-2">
+                <KeyRound className="w-5 h-5" />
+                Sign in with SSO
+              </span>
+            </Button>
+          </>
+        )}
       </div>
     </motion.div>
   );
@@ -0,0 +1,123 @@
+import { KeyRound, Lock, Ticket, User } from "lucide-react";
+import { motion } from "motion/react";
+import { Button } from "../../../components/Button";
+import { TextInput } from "../../../components/TextInput";
+import { useRegisterForm } from "../hooks/useRegisterForm";
+import type { RegisterFormProps } from "../types/auth.types";
+
+/**
+ * RegisterForm Component
+ * Self-service sign-up with an invite code issued by an admin
+ * Uses custom hook for form state management and validation logic
+ */
+export const RegisterForm = ({
+  onSubmit,
+  initialInviteCode = "",
+  isLoading = false,
+}: RegisterFormProps) => {
+  // Use custom hook for form logic
+  const { formData, errors, touched, updateField, handleBlur, validateForm } =
+    useRegisterForm(initialInviteCode);
+
+  /**
+   * Handles form submission
+   * Validates all fields and calls onSubmit if valid
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (validateForm()) {
+      onSubmit?.(formData.inviteCode.trim(), formData.username.trim(), formData.password);
+    }
+  };
+
+  return (
+    <motion.div
+      className="w-full max-w-md"
+      // Fade in animation on mount
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, ease: "easeOut" }}
+    >
+      {/* Form container with subtle border and shadow */}
+      <div className="bg-[#161B22] rounded-xl border border-[#30363D] p-8 shadow-2xl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Invite code input field */}
+          <TextInput
+            label="Invite code"
+            type="text"
+            autoComplete="off"
+            placeholder="Code from your admin"
+            value={formData.inviteCode}
+            onChange={(e) => updateField("inviteCode", e.target.value)}
+            onBlur={() => handleBlur("inviteCode")}
+            error={touched.inviteCode ? errors.inviteCode : ""}
+            disabled={isLoading}
+            required
+            fullWidth
+            icon={<Ticket className="w-5 h-5" />}
+          />
+
+          {/* Username input field */}
+          <TextInput
+            label="Username"
+            type="text"
+            autoComplete="username"
+            placeholder="your-username"
+            value={formData.username}
+            onChange={(e) => updateField("username", e.target.value)}
+            onBlur={() => handleBlur("username")}
+            error={touched.username ? errors.username : ""}
+            disabled={isLoading}
+            required
+            fullWidth
+            icon={<User className="w-5 h-5" />}
+          />
+
+          {/* Password input field */}
+          <TextInput
+            label="Password"
+            type="password"
+            autoComplete="new-password"
+            placeholder="••••••••"
+            value={formData.password}
+            onChange={(e) => updateField("password", e.target.value)}
+            onBlur={() => handleBlur("password")}
+            error={touched.password ? errors.password : ""}
+            disabled={isLoading}
+            required
+            fullWidth
+            icon={<Lock className="w-5 h-5" />}
+          />
+
+          {/* Password confirmation input field */}
+          <TextInput
+            label="Confirm password"
+            type="password"
+            autoComplete="new-password"
+            placeholder="••••••••"
+            value={formData.confirmPassword}
+            onChange={(e) => updateField("confirmPassword", e.target.value)}
+            onBlur={() => handleBlur("confirmPassword")}
+            error={touched.confirmPassword ? errors.confirmPassword : ""}
+            disabled={isLoading}
+            required
+            fullWidth
+            icon={<KeyRound className="w-5 h-5" />}
+          />
+
+          {/* Submit button */}
+          <Button
+            type="submit"
+            variant="primary"
+            size="lg"
+            fullWidth
+            disabled={isLoading}
+          >
+            {isLoading ? "Creating account..." : "Create Account"}
+          </Button>
+        </form>
+      </div>
+    </motion.div>
+  );
+};
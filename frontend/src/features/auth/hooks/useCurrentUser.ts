@@ -0,0 +1,55 @@
+/**
+ * useCurrentUser Hook
+ * ====================
+ * Loads the authenticated user's profile (id, username, role, capabilities)
+ * on mount. Used to show role-dependent UI such as the admin link and to
+ * hide actions the user's role does not allow.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { getCurrentUser } from '../services/authService';
+import type { Capability, User } from '../types/auth.types';
+
+/** State shape returned by the hook */
+export interface UseCurrentUserState {
+    user: User | null;
+    isAdmin: boolean;
+    isLoading: boolean;
+    /** True when the user's role grants the capability (false while loading) */
+    can: (capability: Capability) => boolean;
+}
+
+/**
+ * Hook for reading the current user's profile.
+ * Failures leave `user` null; the session itself is handled by ProtectedRoute.
+ */
+export const useCurrentUser = (): UseCurrentUserState => {
+    const [user, setUser] = useState<User | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+        getCurrentUser()
+            .then((profile) => {
+                if (!cancelled) setUser(profile);
+            })
+            .catch(() => {
+                if (!cancelled) setUser(null);
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const can = useCallback(
+        (capability: Capability) => user?.capabilities?.includes(capability) ?? false,
+        [user]
+    );
+
+    return { user, isAdmin: user?.role === 'admin', isLoading, can };
+};
+
+export default useCurrentUser;
@@ -4,7 +4,14 @@ import type {
     LoginFormErrors,
     LoginFormTouched,
 } from "../types/auth.types";
-import { validateUsername, validatePassword } from "../utils/validation";
+import { validateUsername, validatePassword, validateCode } from "../utils/validation";
+
+/** Validator for each form field */
+const validators: Record<keyof LoginFormData, (value: string) => string> = {
+    username: validateUsername,
+    password: validatePassword,
+    code: validateCode,
+};
 
 /**
  * Custom hook for managing login form state and validation
@@ -15,18 +22,21 @@ export const useLoginForm = () => {
     const [formData, setFormData] = useState<LoginFormData>({
         username: "",
         password: "",
+        code: "",
     });
 
     // Error state for validation feedback
     const [errors, setErrors] = useState<LoginFormErrors>({
         username: "",
         password: "",
+        code: "",
     });
 
     // Track if user has attempted to interact with fields
     const [touched, setTouched] = useState<LoginFormTouched>({
         username: false,
         password: false,
+        code: false,
     });
 
     /**
@@ -43,42 +53,56 @@ export const useLoginForm = () => {
         setTouched((prev) => ({ ...prev, [field]: true }));
 
         // Validate on blur
-        if (field === "username") {
-            setErrors((prev) => ({ ...prev, username: validateUsername(formData.username) }));
-        } else {
-            setErrors((prev) => ({
-                ...prev,
-                password: validatePassword(formData.password),
-            }));
-        }
+        setErrors((prev) => ({ ...prev, [field]: validators[field](formData[field]) }));
     };
 
     /**
-     * Validates all form fields
+     * Validates the username/password step
      * @returns true if form is valid, false otherwise
      */
     const validateForm = (): boolean => {
         const usernameError = validateUsername(formData.username);
         const passwordError = validatePassword(formData.password);
 
-        setErrors({
+        setErrors((prev) => ({
+            ...prev,
             username: usernameError,
             password: passwordError,
-        });
+        }));
 
         // Mark all fields as touched
-        setTouched({ username: true, password: true });
+        setTouched((prev) => ({ ...prev, username: true, password: true }));
 
         return !usernameError && !passwordError;
     };
 
+    /**
+     * Validates the authentication code step
+     * @returns true if the code looks valid, false otherwise
+     */
+    const validateCodeStep = (): boolean => {
+        const codeError = validateCode(formData.code);
+        setErrors((prev) => ({ ...prev, code: codeError }));
+        setTouched((prev) => ({ ...prev, code: true }));
+        return !codeError;
+    };
+
+    /**
+     * Clears the authentication code (e.g. when leaving the second step)
+     */
+    const resetCode = () => {
+        setFormData((prev) => ({ ...prev, code: "" }));
+        setErrors((prev) => ({ ...prev, code: "" }));
+        setTouched((prev) => ({ ...prev, code: false }));
+    };
+
     /**
      * Resets form to initial state
      */
     const resetForm = () => {
-        setFormData({ username: "", password: "" });
-        setErrors({ username: "", password: "" });
-        setTouched({ username: false, password: false });
+        setFormData({ username: "", password: "", code: "" });
+        setErrors({ username: "", password: "", code: "" });
+        setTouched({ username: false, password: false, code: false });
     };
 
     return {
@@ -88,6 +112,8 @@ export const useLoginForm = () => {
         updateField,
         handleBlur,
         validateForm,
+        validateCodeStep,
+        resetCode,
         resetForm,
     };
 };
\ No newline at end of file
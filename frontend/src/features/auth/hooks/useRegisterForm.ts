@@ -0,0 +1,97 @@
+import { useState } from "react";
+import type {
+    RegisterFormData,
+    RegisterFormErrors,
+    RegisterFormTouched,
+} from "../types/auth.types";
+import { validateUsername, validateNewPassword, validateInviteCode } from "../utils/validation";
+
+/**
+ * Custom hook for managing registration form state and validation
+ * Mirrors useLoginForm; the password must be confirmed
+ */
+export const useRegisterForm = (initialInviteCode = "") => {
+    // Form state management
+    const [formData, setFormData] = useState<RegisterFormData>({
+        inviteCode: initialInviteCode,
+        username: "",
+        password: "",
+        confirmPassword: "",
+    });
+
+    // Error state for validation feedback
+    const [errors, setErrors] = useState<RegisterFormErrors>({
+        inviteCode: "",
+        username: "",
+        password: "",
+        confirmPassword: "",
+    });
+
+    // Track if user has attempted to interact with fields
+    const [touched, setTouched] = useState<RegisterFormTouched>({
+        inviteCode: false,
+        username: false,
+        password: false,
+        confirmPassword: false,
+    });
+
+    /**
+     * Validates one field against the current form values
+     */
+    const validateField = (field: keyof RegisterFormData, data: RegisterFormData): string => {
+        switch (field) {
+            case "inviteCode":
+                return validateInviteCode(data.inviteCode);
+            case "username":
+                return validateUsername(data.username.trim());
+            case "password":
+                return validateNewPassword(data.password);
+            case "confirmPassword":
+                return data.confirmPassword === data.password ? "" : "Passwords do not match";
+        }
+    };
+
+    /**
+     * Updates a single form field value
+     */
+    const updateField = (field: keyof RegisterFormData, value: string) => {
+        setFormData((prev) => ({ ...prev, [field]: value }));
+    };
+
+    /**
+     * Marks a field as touched and validates it
+     */
+    const handleBlur = (field: keyof RegisterFormData) => {
+        setTouched((prev) => ({ ...prev, [field]: true }));
+
+        // Validate on blur
+        setErrors((prev) => ({ ...prev, [field]: validateField(field, formData) }));
+    };
+
+    /**
+     * Validates every field
+     * @returns true if form is valid, false otherwise
+     */
+    const validateForm = (): boolean => {
+        const fields = Object.keys(formData) as (keyof RegisterFormData)[];
+        const nextErrors = Object.fromEntries(
+            fields.map((field) => [field, validateField(field, formData)])
+        ) as RegisterFormErrors;
+
+        setErrors(nextErrors);
+
+        // Mark all fields as touched
+        setTouched({ inviteCode: true, username: true, password: true, confirmPassword: true });
+
+        return fields.every((field) => !nextErrors[field]);
+    };
+
+    return {
+        formData,
+        errors,
+        touched,
+        updateField,
+        handleBlur,
+        validateForm,
+    };
+};
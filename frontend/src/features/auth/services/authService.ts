@@ -2,46 +2,26 @@
  * Auth Service
  * =============
  * API call wrappers for authentication endpoints.
- * Handles login, logout, and user session management.
+ * Handles login, registration, logout, and user session management.
  */
 
-import { apiFetch } from '../../../api';
-import type { LoginResponse, User } from '../types/auth.types';
-
-// ============================================
-// Constants
-// ============================================
-
-/** localStorage key for storing the JWT token */
-export const TOKEN_STORAGE_KEY = 'auth_token';
+import { apiFetch, getApiUrl } from '../../../api';
+import type { LoginResponse, TwoFactorChallengeResponse, User } from '../types/auth.types';
+import { clearToken, getToken, setTokens } from './tokenStorage';
 
 // ============================================
 // Token Management
 // ============================================
 
-/**
- * Stores the authentication token in localStorage.
- * @param token - JWT token received from login response
- */
-export const setToken = (token: string): void => {
-    localStorage.setItem(TOKEN_STORAGE_KEY, token);
-};
-
-/**
- * Retrieves the stored authentication token.
- * @returns The stored JWT token, or null if not found
- */
-export const getToken = (): string | null => {
-    return localStorage.getItem(TOKEN_STORAGE_KEY);
-};
-
-/**
- * Removes the authentication token from storage.
- * Called during logout to clear the session.
- */
-export const clearToken = (): void => {
-    localStorage.removeItem(TOKEN_STORAGE_KEY);
-};
+export {
+    TOKEN_STORAGE_KEY,
+    REFRESH_TOKEN_STORAGE_KEY,
+    setToken,
+    getToken,
+    setTokens,
+    getRefreshToken,
+    clearToken,
+} from './tokenStorage';
 
 /**
  * Checks if a user is currently authenticated.
@@ -57,11 +37,14 @@ export const isAuthenticated = (): boolean => {
 
 /**
  * Authenticates a user with username and password.
- * On success, stores the JWT token and returns user data.
+ * On success, stores the access and refresh tokens and returns user data.
+ * Accounts with two-factor authentication get a challenge instead; pass it
+ * to `completeTwoFactorLogin` along with the user's code.
  *
  * @param username - The user's username
  * @param password - The user's password
- * @returns Promise resolving to LoginResponse with token and user
+ * @returns Promise resolving to LoginResponse with token and user, or a
+ *          TwoFactorChallengeResponse
  * @throws Error with message from backend on authentication failure
  *
  * @example
@@ -75,7 +58,7 @@ export const isAuthenticated = (): boolean => {
 export const login = async (
     username: string,
     password: string
-): Promise<LoginResponse> => {
+): Promise<LoginResponse | TwoFactorChallengeResponse> => {
     const response = await apiFetch('/users/login', {
         method: 'POST',
         headers: {
@@ -91,10 +74,140 @@ export const login = async (
     }
 
     // Parse successful response
+    const data: LoginResponse | TwoFactorChallengeResponse = await response.json();
+
+    // Store tokens for subsequent authenticated requests
+    if (!('twoFactorRequired' in data)) {
+        setTokens(data.token, data.refreshToken);
+    }
+
+    return data;
+};
+
+/**
+ * Creates an account with an admin-issued invite code.
+ * On success, stores the access and refresh tokens and returns user data,
+ * so the new account is signed in right away.
+ *
+ * @param inviteCode - Invite code from an admin
+ * @param username - Desired username
+ * @param password - Desired password (min 6 characters)
+ * @returns Promise resolving to LoginResponse with token and user
+ * @throws Error with message from backend if the code or username is rejected
+ */
+export const register = async (
+    inviteCode: string,
+    username: string,
+    password: string
+): Promise<LoginResponse> => {
+    const response = await apiFetch('/users/register', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code: inviteCode, username, password }),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Registration failed. Please try again.');
+    }
+
+    const data: LoginResponse = await response.json();
+    setTokens(data.token, data.refreshToken);
+
+    return data;
+};
+
+/**
+ * Completes sign-in for an account with two-factor authentication.
+ * On success, stores the access and refresh tokens and returns user data.
+ *
+ * @param challengeToken - Challenge returned by `login`
+ * @param code - TOTP code from the authenticator app, or a recovery code
+ * @returns Promise resolving to LoginResponse with token and user
+ * @throws Error with message from backend if the code is rejected
+ */
+export const completeTwoFactorLogin = async (
+    challengeToken: string,
+    code: string
+): Promise<LoginResponse> => {
+    const response = await apiFetch('/users/login/2fa', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challengeToken, code }),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Verification failed. Please try again.');
+    }
+
     const data: LoginResponse = await response.json();
+    setTokens(data.token, data.refreshToken);
+
+    return data;
+};
+
+/**
+ * Checks whether the server offers single sign-on.
+ * Treated as unavailable if the check fails.
+ *
+ * @returns Promise resolving to true when the "Sign in with SSO" button
+ *          should be shown
+ */
+export const getSsoEnabled = async (): Promise<boolean> => {
+    try {
+        const response = await apiFetch('/users/oidc');
+        if (!response.ok) return false;
+        const data: { enabled: boolean } = await response.json();
+        return data.enabled;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Starts single sign-on by sending the browser to the identity provider.
+ * The backend brings it back to /login with a one-time `sso` code (or an
+ * `ssoError` message); pass the code to `completeSsoLogin`.
+ */
+export const startSsoLogin = (): void => {
+    const returnTo = encodeURIComponent(window.location.origin);
+    window.location.assign(`${getApiUrl('/users/oidc/login')}?returnTo=${returnTo}`);
+};
+
+/**
+ * Finishes single sign-on by trading the one-time code for a session.
+ * On success, stores the access and refresh tokens and returns user data.
+ * Accounts with two-factor authentication get a challenge instead, as
+ * with `login`.
+ *
+ * @param code - The `sso` query parameter from the callback redirect
+ * @returns Promise resolving to LoginResponse with token and user, or a
+ *          TwoFactorChallengeResponse
+ * @throws Error with message from backend if the code is expired or used
+ */
+export const completeSsoLogin = async (code: string): Promise<LoginResponse | TwoFactorChallengeResponse> => {
+    const response = await apiFetch('/users/oidc/exchange', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code }),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Single sign-on failed. Please try again.');
+    }
 
-    // Store token for subsequent authenticated requests
-    setToken(data.token);
+    const data: LoginResponse | TwoFactorChallengeResponse = await response.json();
+    if (!('twoFactorRequired' in data)) {
+        setTokens(data.token, data.refreshToken);
+    }
 
     return data;
 };
@@ -128,21 +241,19 @@ export const getCurrentUser = async (): Promise<User> => {
         throw new Error('Failed to fetch user profile');
     }
 
-    return response.json();
+    const data: { user: User } = await response.json();
+    return data.user;
 };
 
 /**
  * Logs out the current user.
- * Clears the stored token and notifies the backend.
+ * Revokes the session on the backend and clears the stored tokens.
  *
  * @returns Promise that resolves when logout is complete
  */
 export const logout = async (): Promise<void> => {
     const token = getToken();
 
-    // Always clear local token, even if backend call fails
-    clearToken();
-
     if (token) {
         try {
             await apiFetch('/users/logout', {
@@ -152,8 +263,40 @@ export const logout = async (): Promise<void> => {
                 },
             });
         } catch {
-            // Silently handle logout errors - token is already cleared
+            // Silently handle logout errors - local session is cleared below
             console.warn('Backend logout failed, but local session cleared');
         }
     }
+
+    // Always clear local tokens, even if backend call fails
+    clearToken();
+};
+
+/**
+ * Signs out every other device, keeping the current session.
+ *
+ * @returns Promise resolving to the number of sessions ended
+ * @throws Error if not authenticated or the request fails
+ */
+export const logoutOtherSessions = async (): Promise<number> => {
+    const token = getToken();
+
+    if (!token) {
+        throw new Error('No authentication token found');
+    }
+
+    const response = await apiFetch('/users/logout-others', {
+        method: 'POST',
+        headers: {
+            Authorization: `Bearer ${token}`,
+        },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Failed to sign out other devices');
+    }
+
+    const data: { revoked: number } = await response.json();
+    return data.revoked;
 };
\ No newline at end of file
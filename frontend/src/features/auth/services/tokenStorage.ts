@@ -0,0 +1,56 @@
+/**
+ * Token Storage
+ * ==============
+ * localStorage access for the access token (short-lived JWT) and the
+ * refresh token used to renew it. Has no imports so both `api.ts` and
+ * the auth service can use it without a circular dependency.
+ */
+
+/** localStorage key for storing the JWT access token */
+export const TOKEN_STORAGE_KEY = 'auth_token';
+
+/** localStorage key for storing the refresh token */
+export const REFRESH_TOKEN_STORAGE_KEY = 'auth_refresh_token';
+
+/**
+ * Stores the access token in localStorage.
+ * @param token - JWT token received from login or refresh
+ */
+export const setToken = (token: string): void => {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+};
+
+/**
+ * Retrieves the stored access token.
+ * @returns The stored JWT token, or null if not found
+ */
+export const getToken = (): string | null => {
+    return localStorage.getItem(TOKEN_STORAGE_KEY);
+};
+
+/**
+ * Stores both tokens of a session.
+ * @param token - JWT access token
+ * @param refreshToken - Refresh token (rotates on every refresh)
+ */
+export const setTokens = (token: string, refreshToken: string): void => {
+    setToken(token);
+    localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, refreshToken);
+};
+
+/**
+ * Retrieves the stored refresh token.
+ * @returns The refresh token, or null if not found
+ */
+export const getRefreshToken = (): string | null => {
+    return localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+};
+
+/**
+ * Removes both tokens from storage.
+ * Called during logout or when the session has ended.
+ */
+export const clearToken = (): void => {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+};
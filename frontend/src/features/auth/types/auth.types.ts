@@ -2,6 +2,12 @@
 // API Response Types
 // ============================================
 
+/**
+ * Actions a role can be allowed to perform. Listing and downloading need
+ * no capability.
+ */
+export type Capability = 'upload' | 'edit' | 'delete' | 'delete-permanent' | 'share' | 'admin';
+
 /**
  * User object returned from the backend after authentication.
  * Represents the authenticated user's identity and permissions.
@@ -10,17 +16,30 @@ export interface User {
     id: string;
     username: string;
     role: string;
+    /** Capabilities of the user's role (only returned by GET /api/users/me) */
+    capabilities?: Capability[];
 }
 
 /**
  * Successful login response from POST /api/users/login.
- * Contains JWT token for subsequent authenticated requests.
+ * Contains a short-lived JWT access token and the refresh token used to
+ * renew it (POST /api/users/refresh returns the same shape).
  */
 export interface LoginResponse {
     token: string;
+    refreshToken: string;
     user: User;
 }
 
+/**
+ * Response from POST /api/users/login for accounts with two-factor
+ * authentication. Sign-in is completed at POST /api/users/login/2fa.
+ */
+export interface TwoFactorChallengeResponse {
+    twoFactorRequired: true;
+    challengeToken: string;
+}
+
 /**
  * Error response structure from auth endpoints.
  * Backend returns this shape for 400/401 responses.
@@ -40,6 +59,8 @@ export interface AuthError {
 export interface LoginFormData {
     username: string;
     password: string;
+    /** TOTP or recovery code (second login step) */
+    code: string;
 }
 
 /**
@@ -49,6 +70,7 @@ export interface LoginFormData {
 export interface LoginFormErrors {
     username: string;
     password: string;
+    code: string;
 }
 
 /**
@@ -58,6 +80,39 @@ export interface LoginFormErrors {
 export interface LoginFormTouched {
     username: boolean;
     password: boolean;
+    code: boolean;
+}
+
+/**
+ * Registration form field values.
+ */
+export interface RegisterFormData {
+    /** Invite code issued by an admin */
+    inviteCode: string;
+    username: string;
+    password: string;
+    confirmPassword: string;
+}
+
+/**
+ * Validation error messages for registration form fields.
+ * Empty string indicates no error.
+ */
+export type RegisterFormErrors = Record<keyof RegisterFormData, string>;
+
+/**
+ * Tracks which registration form fields have been interacted with.
+ */
+export type RegisterFormTouched = Record<keyof RegisterFormData, boolean>;
+
+/**
+ * Props for the RegisterForm component.
+ */
+export interface RegisterFormProps {
+    onSubmit?: (inviteCode: string, username: string, password: string) => void;
+    /** Prefilled invite code (e.g. from an `?invite=` link) */
+    initialInviteCode?: string;
+    isLoading?: boolean;
 }
 
 /**
@@ -65,5 +120,15 @@ export interface LoginFormTouched {
  */
 export interface LoginFormProps {
     onSubmit?: (username: string, password: string) => void;
+    /** Submit the authentication code (second step) */
+    onSubmitCode?: (code: string) => void;
+    /** Leave the second step and start over */
+    onCancelTwoFactor?: () => void;
+    /** Show the authentication code step instead of username/password */
+    twoFactorRequired?: boolean;
+    /** Show the "Sign in with SSO" button */
+    ssoEnabled?: boolean;
+    /** Start single sign-on */
+    onSso?: () => void;
     isLoading?: boolean;
 }
\ No newline at end of file
@@ -16,4 +16,39 @@ export const validateUsername = (username: string): string => {
 export const validatePassword = (password: string): string => {
     if (!password) return "Password is required";
     return "";
-};
\ No newline at end of file
+};
+
+/**
+ * Validates the two-factor code: 6 digits, or a recovery code (xxxxx-xxxxx)
+ * @param code - Code entered on the second login step
+ * @returns Error message if invalid, empty string if valid
+ */
+export const validateCode = (code: string): string => {
+    const trimmed = code.trim();
+    if (!trimmed) return "Authentication code is required";
+    if (!/^\d{6}$/.test(trimmed.replace(/\s/g, "")) && !/^[0-9a-f]{5}-?[0-9a-f]{5}$/i.test(trimmed)) {
+        return "Enter the 6-digit code or a recovery code";
+    }
+    return "";
+};
+
+/**
+ * Validates invite code presence
+ * @param inviteCode - Invite code entered on the registration form
+ * @returns Error message if invalid, empty string if valid
+ */
+export const validateInviteCode = (inviteCode: string): string => {
+    if (!inviteCode.trim()) return "Invite code is required";
+    return "";
+};
+
+/**
+ * Validates a new password (same minimum length as the backend)
+ * @param password - Password chosen on the registration form
+ * @returns Error message if invalid, empty string if valid
+ */
+export const validateNewPassword = (password: string): string => {
+    if (!password) return "Password is required";
+    if (password.length < 6) return "Password must be at least 6 characters";
+    return "";
+};
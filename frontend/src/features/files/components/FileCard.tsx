@@ -19,6 +19,10 @@ export const FileCard: FC<FileCardProps> = ({
   onRestore,
   onPermanentDelete,
   onMove,
+  onShare,
+  onTogglePublic,
+  selected = false,
+  onSelect,
   className = '',
 }) => {
   // Infer file type from the original filename for icon display
@@ -36,6 +40,10 @@ export const FileCard: FC<FileCardProps> = ({
         onRestore={onRestore}
         onPermanentDelete={onPermanentDelete}
         onMove={onMove}
+        onShare={onShare}
+        onTogglePublic={onTogglePublic}
+        selected={selected}
+        onSelect={onSelect}
         className={className}
       />
     );
@@ -51,6 +59,10 @@ export const FileCard: FC<FileCardProps> = ({
       onRestore={onRestore}
       onPermanentDelete={onPermanentDelete}
       onMove={onMove}
+      onShare={onShare}
+      onTogglePublic={onTogglePublic}
+      selected={selected}
+      onSelect={onSelect}
       className={className}
     />
   );
@@ -1,8 +1,8 @@
 import { motion } from 'motion/react';
-import { Eye, DownloadCloud, Trash2, RotateCcw, XCircle, MoveRight } from 'lucide-react';
+import { Eye, DownloadCloud, Trash2, RotateCcw, XCircle, MoveRight, Link2, Globe } from 'lucide-react';
 import type { FC } from 'react';
 import type { FileItem, FileType } from '../types/file.types';
-import { formatFileSize, formatDate } from '../utils/fileUtils';
+import { formatFileSize, formatDate, formatPurgeCountdown } from '../utils/fileUtils';
 import FileIcon from './FileIcon';
 import { isPreviewable } from '../../../utils';
 
@@ -16,6 +16,10 @@ interface FileCardGridInternalProps {
   onRestore?: (file: FileItem) => void;
   onPermanentDelete?: (file: FileItem) => void;
   onMove?: (file: FileItem) => void;
+  onShare?: (file: FileItem) => void;
+  onTogglePublic?: (file: FileItem) => void;
+  selected?: boolean;
+  onSelect?: (file: FileItem) => void;
   className?: string;
 }
 
@@ -33,6 +37,10 @@ export const FileCardGrid: FC<FileCardGridInternalProps> = ({
   onRestore,
   onPermanentDelete,
   onMove,
+  onShare,
+  onTogglePublic,
+  selected = false,
+  onSelect,
   className = '',
 }) => {
   const isDeleted = file.status === 'deleted';
@@ -42,10 +50,21 @@ export const FileCardGrid: FC<FileCardGridInternalProps> = ({
 
   return (
     <motion.div
-      className={`${base} p-3 flex flex-col items-center justify-between h-56 group ${className} ${isDeleted ? 'opacity-70' : ''}`}
+      className={`${base} p-3 flex flex-col items-center justify-between h-56 group relative ${selected ? 'ring-1 ring-[#6BCB77]' : ''} ${className} ${isDeleted ? 'opacity-70' : ''}`}
       whileHover={{}}
       transition={{ type: 'spring', stiffness: 400, damping: 20 }}
     >
+      {/* Selection checkbox */}
+      {onSelect && !isDeleted && (
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={() => onSelect(file)}
+          aria-label={`select ${file.originalName}`}
+          className={`absolute top-2 left-2 w-4 h-4 accent-[#6BCB77] cursor-pointer ${selected ? '' : 'md:opacity-0 md:group-hover:opacity-100'}`}
+        />
+      )}
+
       {/* File icon */}
       <div className="w-full flex items-center justify-center pt-2">
         <div className="w-16 h-16 rounded-lg bg-[#0F1724] flex items-center justify-center overflow-hidden">
@@ -80,6 +99,11 @@ export const FileCardGrid: FC<FileCardGridInternalProps> = ({
           <div className="text-xs text-[#6B7280]">
             {formatDate(file.createdAt)}
           </div>
+          {isDeleted && file.purgeAt && (
+            <div className="text-xs text-[#F85149] mt-1" title={new Date(file.purgeAt).toLocaleString()}>
+              {formatPurgeCountdown(file.purgeAt)}
+            </div>
+          )}
         </div>
       </div>
 
@@ -88,22 +112,26 @@ export const FileCardGrid: FC<FileCardGridInternalProps> = ({
         {isDeleted ? (
           // Trash view actions: restore & permanent delete
           <>
-            <button
-              onClick={() => onRestore?.(file)}
-              aria-label="restore"
-              title="Restore file"
-              className="p-1 hover:bg-[#0D1117] rounded group-hover:text-[#6BCB77]"
-            >
-              <RotateCcw className="w-5 h-5" />
-            </button>
-            <button
-              onClick={() => onPermanentDelete?.(file)}
-              aria-label="permanent delete"
-              title="Delete permanently"
-              className="p-1 hover:bg-[#0D1117] rounded group-hover:text-[#F85149]"
-            >
-              <XCircle className="w-5 h-5" />
-            </button>
+            {onRestore && (
+              <button
+                onClick={() => onRestore(file)}
+                aria-label="restore"
+                title="Restore file"
+                className="p-1 hover:bg-[#0D1117] rounded group-hover:text-[#6BCB77]"
+              >
+                <RotateCcw className="w-5 h-5" />
+              </button>
+            )}
+            {onPermanentDelete && (
+              <button
+                onClick={() => onPermanentDelete(file)}
+                aria-label="permanent delete"
+                title="Delete permanently"
+                className="p-1 hover:bg-[#0D1117] rounded group-hover:text-[#F85149]"
+              >
+                <XCircle className="w-5 h-5" />
+              </button>
+            )}
           </>
         ) : (
           // Normal view actions: preview, download & soft delete
@@ -125,21 +153,45 @@ export const FileCardGrid: FC<FileCardGridInternalProps> = ({
             >
               <DownloadCloud className="w-5 h-5" />
             </button>
-            <button
-              onClick={() => onMove?.(file)}
-              aria-label="move"
-              title="Move to folder"
-              className="p-1 hover:bg-[#0D1117] rounded hover:text-[#58A6FF]"
-            >
-              <MoveRight className="w-5 h-5" />
-            </button>
-            <button
-              onClick={() => onDelete?.(file)}
-              aria-label="delete"
-              className="p-1 hover:bg-[#0D1117] rounded hover:text-[#F85149]"
-            >
-              <Trash2 className="w-5 h-5" />
-            </button>
+            {onMove && (
+              <button
+                onClick={() => onMove(file)}
+                aria-label="move"
+                title="Move to folder"
+                className="p-1 hover:bg-[#0D1117] rounded hover:text-[#58A6FF]"
+              >
+                <MoveRight className="w-5 h-5" />
+              </button>
+            )}
+            {onShare && (
+              <button
+                onClick={() => onShare(file)}
+                aria-label="share"
+                title="Share link"
+                className="p-1 hover:bg-[#0D1117] rounded hover:text-[#58A6FF]"
+              >
+                <Link2 className="w-5 h-5" />
+              </button>
+            )}
+            {onTogglePublic && (
+              <button
+                onClick={() => onTogglePublic(file)}
+                aria-label={file.isPublic ? 'unpublish' : 'publish'}
+                title={file.isPublic ? 'Remove from public gallery' : 'Publish to public gallery'}
+                className={`p-1 hover:bg-[#0D1117] rounded hover:text-[#58A6FF] ${file.isPublic ? 'text-[#58A6FF]' : ''}`}
+              >
+                <Globe className="w-5 h-5" />
+              </button>
+            )}
+            {onDelete && (
+              <button
+                onClick={() => onDelete(file)}
+                aria-label="delete"
+                className="p-1 hover:bg-[#0D1117] rounded hover:text-[#F85149]"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            )}
           </>
         )}
       </div>
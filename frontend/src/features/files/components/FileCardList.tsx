@@ -1,8 +1,8 @@
 import { motion } from 'motion/react';
-import { Eye, DownloadCloud, Trash2, RotateCcw, XCircle, MoveRight } from 'lucide-react';
+import { Eye, DownloadCloud, Trash2, RotateCcw, XCircle, MoveRight, Link2, Globe } from 'lucide-react';
 import type { FC } from 'react';
 import type { FileItem, FileType } from '../types/file.types';
-import { formatFileSize, formatDate } from '../utils/fileUtils';
+import { formatFileSize, formatDate, formatPurgeCountdown } from '../utils/fileUtils';
 import FileIcon from './FileIcon';
 import { isPreviewable } from '../../../utils';
 
@@ -16,6 +16,10 @@ interface FileCardListInternalProps {
   onRestore?: (file: FileItem) => void;
   onPermanentDelete?: (file: FileItem) => void;
   onMove?: (file: FileItem) => void;
+  onShare?: (file: FileItem) => void;
+  onTogglePublic?: (file: FileItem) => void;
+  selected?: boolean;
+  onSelect?: (file: FileItem) => void;
   className?: string;
 }
 
@@ -33,6 +37,10 @@ export const FileCardList: FC<FileCardListInternalProps> = ({
   onRestore,
   onPermanentDelete,
   onMove,
+  onShare,
+  onTogglePublic,
+  selected = false,
+  onSelect,
   className = '',
 }) => {
   const isDeleted = file.status === 'deleted';
@@ -42,10 +50,21 @@ export const FileCardList: FC<FileCardListInternalProps> = ({
 
   return (
     <motion.div
-      className={`${base} p-4 flex items-center gap-4 ${className} ${isDeleted ? 'opacity-70' : ''}`}
+      className={`${base} p-4 flex items-center gap-4 ${selected ? 'ring-1 ring-[#6BCB77]' : ''} ${className} ${isDeleted ? 'opacity-70' : ''}`}
       whileHover={{}}
       transition={{ duration: 0.12 }}
     >
+      {/* Selection checkbox */}
+      {onSelect && !isDeleted && (
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={() => onSelect(file)}
+          aria-label={`select ${file.originalName}`}
+          className="w-4 h-4 accent-[#6BCB77] cursor-pointer shrink-0"
+        />
+      )}
+
       {/* File icon */}
       <div className="w-12 h-12 flex items-center justify-center rounded-md bg-[#0F1724] shrink-0">
         <FileIcon type={fileType} />
@@ -79,6 +98,11 @@ export const FileCardList: FC<FileCardListInternalProps> = ({
         <div className="text-xs text-[#6B7280]">
           {formatDate(file.createdAt)}
         </div>
+        {isDeleted && file.purgeAt && (
+          <div className="text-xs text-[#F85149] mt-1" title={new Date(file.purgeAt).toLocaleString()}>
+            {formatPurgeCountdown(file.purgeAt)}
+          </div>
+        )}
       </div>
 
       {/* Action buttons */}
@@ -86,22 +110,26 @@ export const FileCardList: FC<FileCardListInternalProps> = ({
         {isDeleted ? (
           // Trash view actions
           <>
-            <button
-              aria-label="restore"
-              title="Restore file"
-              onClick={() => onRestore?.(file)}
-              className="p-1 hover:bg-[#0D1117] rounded text-[#6BCB77]"
-            >
-              <RotateCcw className="w-5 h-5" />
-            </button>
-            <button
-              aria-label="permanent delete"
-              title="Delete permanently"
-              onClick={() => onPermanentDelete?.(file)}
-              className="p-1 hover:bg-[#0D1117] rounded text-[#F85149]"
-            >
-              <XCircle className="w-5 h-5" />
-            </button>
+            {onRestore && (
+              <button
+                aria-label="restore"
+                title="Restore file"
+                onClick={() => onRestore(file)}
+                className="p-1 hover:bg-[#0D1117] rounded text-[#6BCB77]"
+              >
+                <RotateCcw className="w-5 h-5" />
+              </button>
+            )}
+            {onPermanentDelete && (
+              <button
+                aria-label="permanent delete"
+                title="Delete permanently"
+                onClick={() => onPermanentDelete(file)}
+                className="p-1 hover:bg-[#0D1117] rounded text-[#F85149]"
+              >
+                <XCircle className="w-5 h-5" />
+              </button>
+            )}
           </>
         ) : (
           // Normal view actions: preview, download & delete
@@ -123,21 +151,45 @@ export const FileCardList: FC<FileCardListInternalProps> = ({
             >
               <DownloadCloud className="w-5 h-5" />
             </button>
-            <button
-              aria-label="move"
-              title="Move to folder"
-              onClick={() => onMove?.(file)}
-              className="p-1 hover:bg-[#0D1117] rounded hover:text-[#58A6FF]"
-            >
-              <MoveRight className="w-5 h-5" />
-            </button>
-            <button
-              aria-label="delete"
-              onClick={() => onDelete?.(file)}
-              className="p-1 hover:bg-[#0D1117] rounded hover:text-[#F85149]"
-            >
-              <Trash2 className="w-5 h-5" />
-            </button>
+            {onMove && (
+              <button
+                aria-label="move"
+                title="Move to folder"
+                onClick={() => onMove(file)}
+                className="p-1 hover:bg-[#0D1117] rounded hover:text-[#58A6FF]"
+              >
+                <MoveRight className="w-5 h-5" />
+              </button>
+            )}
+            {onShare && (
+              <button
+                aria-label="share"
+                title="Share link"
+                onClick={() => onShare(file)}
+                className="p-1 hover:bg-[#0D1117] rounded hover:text-[#58A6FF]"
+              >
+                <Link2 className="w-5 h-5" />
+              </button>
+            )}
+            {onTogglePublic && (
+              <button
+                onClick={() => onTogglePublic(file)}
+                aria-label={file.isPublic ? 'unpublish' : 'publish'}
+                title={file.isPublic ? 'Remove from public gallery' : 'Publish to public gallery'}
+                className={`p-1 hover:bg-[#0D1117] rounded hover:text-[#58A6FF] ${file.isPublic ? 'text-[#58A6FF]' : ''}`}
+              >
+                <Globe className="w-5 h-5" />
+              </button>
+            )}
+            {onDelete && (
+              <button
+                aria-label="delete"
+                onClick={() => onDelete(file)}
+                className="p-1 hover:bg-[#0D1117] rounded hover:text-[#F85149]"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            )}
           </>
         )}
       </div>
@@ -5,19 +5,24 @@
  * Contains the title, storage indicator, and action buttons.
  */
 
-import { FolderPlus, Trash2 } from 'lucide-react';
+import { FolderPlus, FolderSymlink, Images, LogOut, Trash2, UserCog, Users } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { StorageIndicator } from './StorageIndicator';
+import { useCurrentUser } from '../../auth/hooks/useCurrentUser';
+import { logout } from '../../auth/services/authService';
+import type { StorageUsage } from '../../account/types/account.types';
 
 // ============================================
 // Types
 // ============================================
 
 export interface FileDashboardHeaderProps {
-  /** Callback when "New Folder" is clicked */
-  onCreateFolder: () => void;
+  /** Callback when "New Folder" is clicked (omit to hide the button) */
+  onCreateFolder?: () => void;
   /** Root directory total size (for storage display) */
   rootSize?: number;
+  /** Storage usage and quota of the signed-in user */
+  storage?: StorageUsage;
   /** Current folder path to restore from trash */
   currentPath?: string;
 }
@@ -32,35 +37,88 @@ export interface FileDashboardHeaderProps {
 export const FileDashboardHeader = ({
   onCreateFolder,
   rootSize,
+  storage,
   currentPath = '',
 }: FileDashboardHeaderProps) => {
   const navigate = useNavigate();
+  const { user, isAdmin, can } = useCurrentUser();
 
   // Navigate to trash, passing current folder as state for return navigation
   const handleTrashClick = () => {
     navigate('/trash', { state: { from: currentPath } });
   };
 
+  // End the session on the server, then return to the login page
+  const handleSignOut = async () => {
+    await logout();
+    navigate('/login', { replace: true });
+  };
+
   return (
     <header className="mb-4 flex items-center justify-between">
       <div className="flex flex-col gap-1">
         <h1 className="text-2xl font-bold">My Files</h1>
-        <StorageIndicator totalSize={rootSize} />
+        <StorageIndicator
+          totalSize={rootSize}
+          usedBytes={storage?.usedBytes}
+          quotaBytes={storage?.quotaBytes}
+        />
       </div>
       <div className="flex items-center gap-3">
+        {onCreateFolder && (
+          <button
+            onClick={onCreateFolder}
+            className="flex items-center gap-2 text-sm text-slate-400 hover:text-slate-200 transition-colors"
+          >
+            <FolderPlus className="w-4 h-4" />
+            New Folder
+          </button>
+        )}
         <button
-          onClick={onCreateFolder}
+          onClick={handleTrashClick}
           className="flex items-center gap-2 text-sm text-slate-400 hover:text-slate-200 transition-colors"
         >
-          <FolderPlus className="w-4 h-4" />
-          New Folder
+          <Trash2 className="w-4 h-4" />
+          Trash
         </button>
         <button
-          onClick={handleTrashClick}
+          onClick={() => navigate('/shared')}
           className="flex items-center gap-2 text-sm text-slate-400 hover:text-slate-200 transition-colors"
         >
-          <Trash2 className="w-4 h-4" />
-          Trash
+          <FolderSymlink className="w-4 h-4" />
+          Shared with me
+        </button>
+        {user && can('share') && (
+          <button
+            onClick={() => navigate(`/u/${encodeURIComponent(user.username)}`)}
+            className="flex items-center gap-2 text-sm text-slate-400 hover:text-slate-200 transition-colors"
+          >
+            <Images className="w-4 h-4" />
+            Public gallery
+          </button>
+        )}
+        {isAdmin && (
+          <button
+            onClick={() => navigate('/admin')}
+            className="flex items-center gap-2 text-sm text-slate-400 hover:text-slate-200 transition-colors"
+          >
+            <Users className="w-4 h-4" />
+            Users
+          </button>
+        )}
+        <button
+          onClick={() => navigate('/account')}
+          className="flex items-center gap-2 text-sm text-slate-400 hover:text-slate-200 transition-colors"
+        >
+          <UserCog className="w-4 h-4" />
+          Account
+        </button>
+        <button
+          onClick={handleSignOut}
+          className="flex items-center gap-2 text-sm text-slate-400 hover:text-slate-200 transition-colors"
+        >
+          <LogOut className="w-4 h-4" />
+          Sign out
         </button>
       </div>
     </header>
@@ -27,14 +27,26 @@ export interface FileGridProps {
   onPreview: (file: FileItem) => void;
   /** Download file callback */
   onDownload: (file: FileItem) => void;
-  /** Delete file callback */
-  onDelete: (file: FileItem) => void;
-  /** Move file callback */
-  onMove: (file: FileItem) => void;
+  /** Delete file callback (omitted when the role cannot delete) */
+  onDelete?: (file: FileItem) => void;
+  /** Move file callback (omitted when the role cannot edit) */
+  onMove?: (file: FileItem) => void;
+  /** Share file callback */
+  onShare?: (file: FileItem) => void;
+  /** Publish/unpublish file callback (omitted when the role cannot share) */
+  onTogglePublic?: (file: FileItem) => void;
+  /** Ids of selected files */
+  selectedIds?: string[];
+  /** Select/deselect file callback (omitted to hide checkboxes) */
+  onSelect?: (file: FileItem) => void;
   /** Navigate to folder callback */
   onFolderClick: (path: string) => void;
   /** Delete folder callback */
-  onFolderDelete: (path: string) => void;
+  onFolderDelete?: (path: string) => void;
+  /** Share folder callback */
+  onFolderShare?: (path: string) => void;
+  /** Download folder as ZIP callback */
+  onFolderDownload?: (path: string) => void;
 }
 
 // ============================================
@@ -54,8 +66,14 @@ export const FileGrid = ({
   onDownload,
   onDelete,
   onMove,
+  onShare,
+  onTogglePublic,
+  selectedIds = [],
+  onSelect,
   onFolderClick,
   onFolderDelete,
+  onFolderShare,
+  onFolderDownload,
 }: FileGridProps) => {
   const gridClass =
     view === 'grid'
@@ -79,6 +97,8 @@ export const FileGrid = ({
           variant={view}
           onClick={onFolderClick}
           onDelete={onFolderDelete}
+          onShare={onFolderShare}
+          onDownload={onFolderDownload}
         />
       ))}
 
@@ -92,6 +112,10 @@ export const FileGrid = ({
           onDownload={onDownload}
           onDelete={onDelete}
           onMove={onMove}
+          onShare={onShare}
+          onTogglePublic={onTogglePublic}
+          selected={selectedIds.includes(file.id)}
+          onSelect={onSelect}
         />
       ))}
     </motion.div>
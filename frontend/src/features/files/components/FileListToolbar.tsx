@@ -19,6 +19,8 @@ interface FileListToolbarProps {
 	onUpload?: (file: File, action?: 'replace' | 'keep_both') => Promise<void> | void;
 	/** Upload callback for multiple files (folder upload) */
 	onUploadMultiple?: (files: File[]) => Promise<BatchUploadResponse | null> | void;
+	/** Upload callback for an archive to extract server-side */
+	onUploadArchive?: (file: File) => Promise<BatchUploadResponse | null> | void;
 	onDuplicate?: (data: { conflict: ConflictPayload | null; file: File }) => void;
 	/** Refresh callback */
 	onRefresh?: () => void;
@@ -32,7 +34,7 @@ interface FileListToolbarProps {
  * FileListToolbar Component
  * =========================
  * Toolbar for file dashboard with search, view toggle, and upload.
- * Supports single file, multiple files, and folder uploads.
+ * Supports single file, multiple files, folder and archive uploads.
  * Delegates actual operations to parent via props.
  */
 export const FileListToolbar: FC<FileListToolbarProps> = ({
@@ -42,6 +44,7 @@ export const FileListToolbar: FC<FileListToolbarProps> = ({
 	setPattern,
 	onUpload,
 	onUploadMultiple,
+	onUploadArchive,
 	onDuplicate,
 	onRefresh,
 	count,
@@ -110,6 +113,7 @@ export const FileListToolbar: FC<FileListToolbarProps> = ({
 						label={isUploading ? 'Uploading...' : 'Upload'}
 						onDuplicate={onDuplicate}
 						allowFolderUpload={!!onUploadMultiple}
+						onUploadArchive={onUploadArchive}
 					/>
 				)}
 			</div>
@@ -3,13 +3,15 @@
  * =================
  * Modal for previewing files inline (images, videos, PDFs, audio, text/code).
  * Mobile-friendly with responsive sizing and touch-friendly controls.
+ * Optionally shows the file's version history next to the preview.
  */
 
-import { useEffect, useCallback, type FC } from 'react';
-import { X, Download } from 'lucide-react';
+import { useEffect, useCallback, useState, type FC } from 'react';
+import { X, Download, History } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import type { FileItem } from '../types/file.types';
 import { getPreviewType } from '../../../utils';
+import { FileVersionsPanel } from './FileVersionsPanel';
 
 // ============================================
 // Types
@@ -30,6 +32,8 @@ export interface FilePreviewModalProps {
     onClose: () => void;
     /** Download file callback */
     onDownload?: (file: FileItem) => void;
+    /** Called after a previous version is restored; enables the history panel */
+    onVersionRestored?: (file: FileItem) => void;
 }
 
 // ============================================
@@ -121,7 +125,11 @@ export const FilePreviewModal: FC<FilePreviewModalProps> = ({
     isLoading = false,
     onClose,
     onDownload,
+    onVersionRestored,
 }) => {
+    // Version history panel visibility
+    const [showVersions, setShowVersions] = useState(false);
+
     // Close on Escape key
     const handleKeyDown = useCallback(
         (e: KeyboardEvent) => {
@@ -170,6 +178,18 @@ export const FilePreviewModal: FC<FilePreviewModalProps> = ({
                                 {file.originalName}
                             </h2>
                             <div className="flex items-center gap-2">
+                                {/* Version history toggle */}
+                                {onVersionRestored && (
+                                    <button
+                                        onClick={() => setShowVersions((v) => !v)}
+                                        className={`p-2 rounded-lg hover:bg-[#30363D] transition-colors ${showVersions ? 'text-[#58A6FF]' : 'text-[#8B949E] hover:text-[#58A6FF]'}`}
+                                        title="Version history"
+                                        aria-label="Toggle version history"
+                                        aria-pressed={showVersions}
+                                    >
+                                        <History className="w-5 h-5" />
+                                    </button>
+                                )}
                                 {/* Download button */}
                                 {onDownload && (
                                     <button
@@ -193,18 +213,27 @@ export const FilePreviewModal: FC<FilePreviewModalProps> = ({
                             </div>
                         </div>
 
-                        {/* Content */}
-                        <div className="flex-1 flex items-center justify-center p-4 overflow-auto">
-                            {isLoading ? (
-                                <div className="flex items-center justify-center">
-                                    <div className="w-8 h-8 border-2 border-[#6BCB77] border-t-transparent rounded-full animate-spin" />
+                        <div className="flex-1 flex flex-col md:flex-row min-h-0 overflow-hidden">
+                            {/* Content */}
+                            <div className="flex-1 flex items-center justify-center p-4 overflow-auto">
+                                {isLoading ? (
+                                    <div className="flex items-center justify-center">
+                                        <div className="w-8 h-8 border-2 border-[#6BCB77] border-t-transparent rounded-full animate-spin" />
+                                    </div>
+                                ) : (
+                                    <PreviewContent
+                                        file={file}
+                                        blobUrl={blobUrl}
+                                        textContent={textContent}
+                                    />
+                                )}
+                            </div>
+
+                            {/* Version history */}
+                            {showVersions && onVersionRestored && (
+                                <div className="md:w-72 max-h-[40vh] md:max-h-none flex flex-col border-t md:border-t-0 md:border-l border-[#30363D] bg-[#161B22]">
+                                    <FileVersionsPanel file={file} onRestored={onVersionRestored} />
                                 </div>
-                            ) : (
-                                <PreviewContent
-                                    file={file}
-                                    blobUrl={blobUrl}
-                                    textContent={textContent}
-                                />
                             )}
                         </div>
                     </motion.div>
@@ -0,0 +1,90 @@
+/**
+ * FileVersionsPanel
+ * ==================
+ * Version history of a file, shown alongside the preview.
+ * Each previous version can be downloaded or restored.
+ */
+
+import { type FC } from 'react';
+import { Download, RotateCcw, Loader2 } from 'lucide-react';
+import { useFileVersions } from '../hooks/useFileVersions';
+import { formatFileSize } from '../utils/fileUtils';
+import type { FileItem } from '../types/file.types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface FileVersionsPanelProps {
+    /** File whose history is shown */
+    file: FileItem;
+    /** Called with the updated file after a version is restored */
+    onRestored?: (file: FileItem) => void;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export const FileVersionsPanel: FC<FileVersionsPanelProps> = ({ file, onRestored }) => {
+    const { versions, isLoading, restoringId, error, download, restore } = useFileVersions(file.id);
+
+    const handleRestore = async (versionId: string) => {
+        const version = versions.find((v) => v.id === versionId);
+        if (!version) return;
+        if (!window.confirm('Restore this version? The current content will be kept as a version.')) return;
+        const updated = await restore(version);
+        if (updated) onRestored?.(updated);
+    };
+
+    return (
+        <div className="flex flex-col gap-2 p-4 overflow-y-auto">
+            <h3 className="text-sm font-medium text-[#C9D1D9]">Version history</h3>
+
+            {/* Error message */}
+            {error && <div className="text-red-400 text-sm">{error}</div>}
+
+            {isLoading && (
+                <div className="flex justify-center py-4">
+                    <Loader2 className="w-5 h-5 text-[#58A6FF] animate-spin" />
+                </div>
+            )}
+            {!isLoading && versions.length === 0 && (
+                <div className="text-sm text-slate-500 py-2">No previous versions.</div>
+            )}
+
+            {versions.map((version) => (
+                <div key={version.id} className="flex items-center gap-2 p-2 rounded bg-[#0D1117] border border-[#30363D]">
+                    <div className="flex-1 min-w-0">
+                        <div className="text-xs text-slate-300 truncate" title={new Date(version.uploadedAt).toLocaleString()}>
+                            {new Date(version.uploadedAt).toLocaleString()}
+                        </div>
+                        <div className="text-xs text-slate-500 truncate">
+                            {version.size != null ? formatFileSize(version.size) : 'Unknown size'}
+                            {version.replacedBy ? ` · replaced by ${version.replacedBy}` : ''}
+                        </div>
+                    </div>
+                    <button
+                        onClick={() => download(version)}
+                        title="Download this version"
+                        className="p-1 rounded text-slate-400 hover:text-[#6BCB77]"
+                    >
+                        <Download className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => handleRestore(version.id)}
+                        title="Restore this version"
+                        className="p-1 rounded text-slate-400 hover:text-[#58A6FF] disabled:opacity-50"
+                        disabled={restoringId !== null}
+                    >
+                        {restoringId === version.id
+                            ? <Loader2 className="w-4 h-4 animate-spin" />
+                            : <RotateCcw className="w-4 h-4" />}
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default FileVersionsPanel;
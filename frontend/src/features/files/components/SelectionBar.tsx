@@ -0,0 +1,74 @@
+/**
+ * SelectionBar
+ * =============
+ * Banner with actions for the files currently selected in a folder.
+ */
+
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { FileArchive, Loader2, X } from 'lucide-react';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SelectionBarProps {
+  /** Number of selected files */
+  count: number;
+  /** Download the selection as one ZIP */
+  onDownloadZip: () => Promise<void>;
+  /** Clear the selection */
+  onClear: () => void;
+}
+
+// ============================================
+// Component
+// ============================================
+
+/**
+ * Shows how many files are selected with "Download as ZIP" and "Clear".
+ */
+export const SelectionBar = ({ count, onDownloadZip, onClear }: SelectionBarProps) => {
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      await onDownloadZip();
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <motion.div
+      className="mb-4 p-3 bg-[#161B22] border border-[#3D7B4F] rounded-lg text-sm text-[#C9D1D9] flex items-center justify-between gap-3"
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <span>
+        {count} {count === 1 ? 'file' : 'files'} selected
+      </span>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleDownload}
+          disabled={isDownloading}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-[#238636] hover:bg-[#2EA043] text-white disabled:opacity-60"
+        >
+          {isDownloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileArchive className="w-4 h-4" />}
+          Download as ZIP
+        </button>
+        <button
+          onClick={onClear}
+          aria-label="clear selection"
+          title="Clear selection"
+          className="p-1.5 rounded-md hover:bg-[#0D1117] text-slate-400 hover:text-slate-200"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </motion.div>
+  );
+};
+
+export default SelectionBar;
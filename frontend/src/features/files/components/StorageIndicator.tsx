@@ -6,14 +6,36 @@ import { formatFileSize } from '../utils/fileUtils';
  * ================
  * Minimal storage usage indicator for root directory.
  * Shows total space used with icon. Subtle and clean.
+ * With a storage quota, shows used/limit with a percentage and a thin bar.
  */
 
 interface StorageIndicatorProps {
   /** Total root directory size in bytes */
   totalSize: number | undefined;
+  /** Bytes counted against the quota (includes trash and versions) */
+  usedBytes?: number;
+  /** Storage quota in bytes; null or undefined when unlimited */
+  quotaBytes?: number | null;
 }
 
-export const StorageIndicator = ({ totalSize }: StorageIndicatorProps) => {
+export const StorageIndicator = ({ totalSize, usedBytes, quotaBytes }: StorageIndicatorProps) => {
+  if (usedBytes !== undefined && quotaBytes) {
+    const percent = Math.min(100, Math.round((usedBytes / quotaBytes) * 100));
+    const barColor = percent >= 90 ? 'bg-red-400' : percent >= 75 ? 'bg-amber-400' : 'bg-[#3D7BF0]';
+
+    return (
+      <div className="flex items-center gap-2 text-xs text-[#8B949E]">
+        <HardDrive className="w-4 h-4" />
+        <span>
+          {formatFileSize(usedBytes)} of {formatFileSize(quotaBytes)} used ({percent}%)
+        </span>
+        <div className="w-24 h-1.5 rounded-full bg-[#30363D] overflow-hidden">
+          <div className={`h-full ${barColor}`} style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+    );
+  }
+
   if (totalSize === undefined) return null;
 
   return (
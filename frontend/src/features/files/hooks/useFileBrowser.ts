@@ -9,12 +9,12 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { listFolderContents } from '../../folders/services/folderService';
-import { listFiles, moveFile } from '../services/fileService';
+import { listFiles, moveFile, setFilePublic } from '../services/fileService';
 import { useUploadWithProgress, type PendingBatchUpload } from './useUploadWithProgress';
 import { useFileOperations } from './useFileOperations';
 import { buildBreadcrumbs, getParentPath, getErrorMessage } from '../../../utils';
 import type { FileItem, BatchUploadResponse, UploadProgress } from '../types/file.types';
-import type { DirectoryEntry, BreadcrumbSegment } from '../../folders/types/folder.types';
+import type { DirectoryEntry, BreadcrumbSegment, FolderAccess } from '../../folders/types/folder.types';
 
 // Re-export for consumers
 export type { PendingBatchUpload };
@@ -26,12 +26,16 @@ export type { PendingBatchUpload };
 /** State shape for file browser */
 export interface UseFileBrowserState {
     currentPath: string;
+    /** Access to the current folder (below 'owner' when shared by someone else) */
+    folderAccess: FolderAccess;
     files: FileItem[];
     folders: DirectoryEntry[];
     breadcrumbs: BreadcrumbSegment[];
     isLoading: boolean;
     error: string | null;
     lastBatchResult: BatchUploadResponse | null;
+    /** Ids of the files selected in the current folder */
+    selectedIds: string[];
     pendingBatchUpload: PendingBatchUpload | null;
     uploadProgress: UploadProgress;
 }
@@ -43,12 +47,19 @@ export interface UseFileBrowserActions {
     refresh: () => Promise<void>;
     upload: (file: File, action?: 'replace' | 'keep_both') => Promise<void>;
     uploadMultiple: (files: File[], action?: 'replace' | 'keep_both') => Promise<BatchUploadResponse | null>;
+    /** Upload a .zip/.tar/.tar.gz and extract it into the current folder */
+    uploadArchive: (file: File) => Promise<BatchUploadResponse | null>;
     resolveBatchConflict: (action: 'replace' | 'keep_both') => Promise<void>;
     cancelUpload: () => void;
     cancelBatchUpload: () => void;
     download: (file: FileItem) => Promise<void>;
+    downloadFolder: (path: string) => Promise<void>;
+    downloadSelected: () => Promise<void>;
+    toggleSelect: (file: FileItem) => void;
+    clearSelection: () => void;
     remove: (file: FileItem) => Promise<void>;
     move: (file: FileItem, destinationPath: string, action?: 'replace' | 'keep_both') => Promise<void>;
+    setPublic: (file: FileItem, isPublic: boolean) => Promise<void>;
     clearError: () => void;
     clearBatchResult: () => void;
 }
@@ -61,11 +72,13 @@ export interface UseFileBrowserActions {
 export const useFileBrowser = (): UseFileBrowserState & UseFileBrowserActions => {
     const [searchParams, setSearchParams] = useSearchParams();
     const [currentPath, setCurrentPath] = useState('');
+    const [folderAccess, setFolderAccess] = useState<FolderAccess>('owner');
     const [files, setFiles] = useState<FileItem[]>([]);
     const [folders, setFolders] = useState<DirectoryEntry[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [lastBatchResult, setLastBatchResult] = useState<BatchUploadResponse | null>(null);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
     // File download/delete operations
     const fileOps = useFileOperations(currentPath);
@@ -80,22 +93,27 @@ export const useFileBrowser = (): UseFileBrowserState & UseFileBrowserActions =>
         try {
             const folderResponse = await listFolderContents(path);
             const subfolders = folderResponse.contents.filter((e) => e.type === 'folder');
-            const fileResponse = await listFiles('active');
+            const fileResponse = await listFiles('active', path);
             const currentFolderFiles = fileResponse.files.filter((file) => {
                 const fileFolderPath = file.storagePath.split('/').slice(0, -1).join('/');
                 return fileFolderPath === path;
             });
             setCurrentPath(path);
+            setFolderAccess(folderResponse.access);
             setFolders(subfolders);
             setFiles(currentFolderFiles);
+            // Keep only selected files that are still listed here
+            setSelectedIds((prev) => prev.filter((id) => currentFolderFiles.some((file) => file.id === id)));
         } catch (err) {
             // If path doesn't exist or is invalid, fallback to root
             const errorMsg = getErrorMessage(err, 'Folder not found');
             if (path !== '') {
                 setError(`${errorMsg}. Returning to root.`);
                 setCurrentPath('');
+                setFolderAccess('owner');
                 setFolders([]);
                 setFiles([]);
+                setSelectedIds([]);
                 // Update URL to root without path param
                 setSearchParams({});
                 // Recursively load root
@@ -144,6 +162,12 @@ export const useFileBrowser = (): UseFileBrowserState & UseFileBrowserActions =>
         return result;
     }, [uploadOps, currentPath]);
 
+    const uploadArchive = useCallback(async (file: File): Promise<BatchUploadResponse | null> => {
+        const result = await uploadOps.uploadArchive(file, currentPath);
+        if (result) setLastBatchResult(result);
+        return result;
+    }, [uploadOps, currentPath]);
+
     const resolveBatchConflict = useCallback(async (action: 'replace' | 'keep_both') => {
         const result = await uploadOps.resolveBatchConflict(currentPath, action);
         if (result) setLastBatchResult(result);
@@ -158,6 +182,34 @@ export const useFileBrowser = (): UseFileBrowserState & UseFileBrowserActions =>
         }
     }, [fileOps]);
 
+    const downloadFolder = useCallback(async (path: string) => {
+        setError(null);
+        try {
+            await fileOps.downloadFolder(path);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Folder download failed'));
+        }
+    }, [fileOps]);
+
+    const downloadSelected = useCallback(async () => {
+        const selected = files.filter((file) => selectedIds.includes(file.id));
+        if (selected.length === 0) return;
+        setError(null);
+        try {
+            await fileOps.downloadArchive(selected);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Download failed'));
+        }
+    }, [fileOps, files, selectedIds]);
+
+    const toggleSelect = useCallback((file: FileItem) => {
+        setSelectedIds((prev) => (
+            prev.includes(file.id) ? prev.filter((id) => id !== file.id) : [...prev, file.id]
+        ));
+    }, []);
+
+    const clearSelection = useCallback(() => setSelectedIds([]), []);
+
     const remove = useCallback(async (file: FileItem) => {
         setError(null);
         setIsLoading(true);
@@ -189,6 +241,16 @@ export const useFileBrowser = (): UseFileBrowserState & UseFileBrowserActions =>
         }
     }, [refresh]);
 
+    const setPublic = useCallback(async (file: FileItem, isPublic: boolean) => {
+        setError(null);
+        try {
+            const updated = await setFilePublic(file.id, isPublic);
+            setFiles((prev) => prev.map((f) => (f.id === updated.id ? updated : f)));
+        } catch (err) {
+            setError(getErrorMessage(err, isPublic ? 'Publish failed' : 'Unpublish failed'));
+        }
+    }, []);
+
     const clearError = useCallback(() => setError(null), []);
     const clearBatchResult = useCallback(() => setLastBatchResult(null), []);
 
@@ -200,12 +262,14 @@ export const useFileBrowser = (): UseFileBrowserState & UseFileBrowserActions =>
 
     return {
         currentPath,
+        folderAccess,
         files,
         folders,
         breadcrumbs,
         isLoading,
         error,
         lastBatchResult,
+        selectedIds,
         pendingBatchUpload: uploadOps.pendingBatchUpload,
         uploadProgress: uploadOps.uploadProgress,
         navigateTo,
@@ -213,12 +277,18 @@ export const useFileBrowser = (): UseFileBrowserState & UseFileBrowserActions =>
         refresh,
         upload,
         uploadMultiple,
+        uploadArchive,
         resolveBatchConflict,
         cancelUpload: uploadOps.cancelUpload,
         cancelBatchUpload: uploadOps.cancelBatchUpload,
         download,
+        downloadFolder,
+        downloadSelected,
+        toggleSelect,
+        clearSelection,
         remove,
         move,
+        setPublic,
         clearError,
         clearBatchResult,
     };
@@ -1,7 +1,7 @@
 /**
  * useFileOperations Hook
  * =======================
- * Centralized file operations (upload, download, delete).
+ * Centralized file operations (upload, download, ZIP download, delete).
  * Used by useFileBrowser and useFiles to avoid duplication.
  * Handles conflict detection and error management.
  */
@@ -11,8 +11,10 @@ import {
     uploadFile,
     uploadFiles as uploadFilesService,
     downloadFileById,
+    downloadFilesArchive,
     softDeleteFile,
 } from '../services/fileService';
+import { downloadFolderArchive } from '../../folders/services/folderService';
 import { downloadBlob, isApiError } from '../../../utils';
 import type { FileItem, BatchUploadResponse, BatchConflictInfo } from '../types/file.types';
 
@@ -137,6 +139,30 @@ export const useFileOperations = (currentPath: string = '') => {
         downloadBlob(blob, file.originalName);
     }, []);
 
+    /**
+     * Download a folder and its contents as a ZIP.
+     * @param path - Folder path to download
+     */
+    const downloadFolder = useCallback(async (path: string): Promise<void> => {
+        const blob = await downloadFolderArchive(path);
+        downloadBlob(blob, `${path.split('/').pop() || 'files'}.zip`);
+    }, []);
+
+    /**
+     * Download several files as one ZIP, named after the folder they share.
+     * @param files - FileItems to include
+     */
+    const downloadArchive = useCallback(async (files: FileItem[]): Promise<void> => {
+        const blob = await downloadFilesArchive(files.map((f) => f.id));
+        const folders = files.map((f) => f.storagePath.split('/').slice(0, -1));
+        const common = folders.reduce((acc, segments) => {
+            let i = 0;
+            while (i < acc.length && acc[i] === segments[i]) i++;
+            return acc.slice(0, i);
+        });
+        downloadBlob(blob, `${common[common.length - 1] || 'files'}.zip`);
+    }, []);
+
     /**
      * Soft-delete a file (move to trash).
      * @param file - FileItem to delete
@@ -149,6 +175,8 @@ export const useFileOperations = (currentPath: string = '') => {
         upload,
         uploadMultiple,
         download,
+        downloadFolder,
+        downloadArchive,
         remove,
     };
 };
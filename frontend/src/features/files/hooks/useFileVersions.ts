@@ -0,0 +1,92 @@
+/**
+ * useFileVersions Hook
+ * =====================
+ * State management for the version history of a single file.
+ * Handles fetching, downloading, and restoring previous versions.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { listFileVersions, downloadFileVersion, restoreFileVersion } from '../services/fileService';
+import { downloadBlob, getErrorMessage } from '../../../utils';
+import type { FileItem, FileVersion } from '../types/file.types';
+
+/** State shape returned by the hook */
+export interface UseFileVersionsState {
+    versions: FileVersion[];
+    isLoading: boolean;
+    /** ID of the version currently being restored */
+    restoringId: string | null;
+    error: string | null;
+}
+
+/** Actions returned by the hook */
+export interface UseFileVersionsActions {
+    fetchVersions: () => Promise<void>;
+    download: (version: FileVersion) => Promise<void>;
+    restore: (version: FileVersion) => Promise<FileItem | null>;
+    clearError: () => void;
+}
+
+/**
+ * Hook for the versions of one file. Pass null to stay idle
+ * (e.g. while the history panel is hidden).
+ */
+export const useFileVersions = (fileId: string | null): UseFileVersionsState & UseFileVersionsActions => {
+    const [versions, setVersions] = useState<FileVersion[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Fetch versions for the current file
+    const fetchVersions = useCallback(async () => {
+        if (!fileId) return;
+        setError(null);
+        setIsLoading(true);
+        try {
+            setVersions(await listFileVersions(fileId));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to load version history'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [fileId]);
+
+    // Download a version under its original name
+    const download = useCallback(async (version: FileVersion) => {
+        setError(null);
+        try {
+            const blob = await downloadFileVersion(version.fileId, version.id);
+            downloadBlob(blob, version.originalName);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to download version'));
+        }
+    }, []);
+
+    // Restore a version; the list is reloaded since the replaced content becomes a version
+    const restore = useCallback(async (version: FileVersion) => {
+        setError(null);
+        setRestoringId(version.id);
+        try {
+            const { file } = await restoreFileVersion(version.fileId, version.id);
+            await fetchVersions();
+            return file;
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to restore version'));
+            return null;
+        } finally {
+            setRestoringId(null);
+        }
+    }, [fetchVersions]);
+
+    const clearError = useCallback(() => setError(null), []);
+
+    // Load whenever the file changes
+    useEffect(() => {
+        setVersions([]);
+        fetchVersions();
+    }, [fetchVersions]);
+
+    return { versions, isLoading, restoringId, error, fetchVersions, download, restore, clearError };
+};
+
+export default useFileVersions;
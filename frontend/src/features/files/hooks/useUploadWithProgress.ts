@@ -3,12 +3,17 @@
  * ===========================
  * Handles file uploads with progress tracking and cancellation.
  * Provides XHR-based uploads that report progress and can be cancelled.
+ * Large single-file uploads are chunked and resume after interruptions
+ * (including re-selecting the same file after a page reload).
+ * Archives can be uploaded for server-side extraction; they report
+ * conflicts and results like batch uploads.
  */
 
 import { useState, useCallback, useRef } from 'react';
 import {
     uploadFileWithProgress,
     uploadFilesWithProgress,
+    uploadArchiveWithProgress,
 } from '../services/uploadWithProgress';
 import { isApiError, getErrorMessage, type ApiError } from '../../../utils';
 import type { BatchUploadResponse, UploadProgress, BatchConflictInfo } from '../types/file.types';
@@ -30,6 +35,8 @@ export interface PendingBatchUpload {
     files: File[];
     conflicts: BatchConflictInfo[];
     totalFiles: number;
+    /** Set when `files` is a single archive to extract */
+    extract?: boolean;
 }
 
 /** Hook return type */
@@ -38,6 +45,7 @@ export interface UseUploadWithProgressReturn {
     pendingBatchUpload: PendingBatchUpload | null;
     upload: (file: File, folder: string, action?: 'replace' | 'keep_both') => Promise<void>;
     uploadMultiple: (files: File[], folder: string, action?: 'replace' | 'keep_both') => Promise<BatchUploadResponse | null>;
+    uploadArchive: (file: File, folder: string, action?: 'replace' | 'keep_both') => Promise<BatchUploadResponse | null>;
     resolveBatchConflict: (folder: string, action: 'replace' | 'keep_both') => Promise<BatchUploadResponse | null>;
     cancelUpload: () => void;
     cancelBatchUpload: () => void;
@@ -119,11 +127,12 @@ export function useUploadWithProgress(
         }
     }, [onSuccess, onError]);
 
-    /** Upload multiple files with progress */
-    const uploadMultiple = useCallback(async (
+    /** Upload multiple files (or one archive to extract) with progress */
+    const sendBatch = useCallback(async (
         files: File[],
         folder: string,
-        action?: 'replace' | 'keep_both'
+        action: 'replace' | 'keep_both' | undefined,
+        extract: boolean
     ): Promise<BatchUploadResponse | null> => {
         const controller = new AbortController();
         abortControllerRef.current = controller;
@@ -137,10 +146,13 @@ export function useUploadWithProgress(
         });
 
         try {
-            const result = await uploadFilesWithProgress(files, folder || undefined, action, {
-                onProgress: (percent) => setUploadProgress((p) => ({ ...p, percent })),
+            const options = {
+                onProgress: (percent: number) => setUploadProgress((p) => ({ ...p, percent })),
                 signal: controller.signal,
-            });
+            };
+            const result = extract
+                ? await uploadArchiveWithProgress(files[0], folder || undefined, action, options)
+                : await uploadFilesWithProgress(files, folder || undefined, action, options);
 
             if (!result.ok && result.error === 'Upload cancelled') return null;
 
@@ -152,6 +164,7 @@ export function useUploadWithProgress(
                         files,
                         conflicts: payload.conflicts as BatchConflictInfo[],
                         totalFiles: (payload.totalFiles as number) || files.length,
+                        extract,
                     });
                     return null;
                 }
@@ -170,7 +183,7 @@ export function useUploadWithProgress(
             await onSuccess();
             return result.data;
         } catch (err) {
-            onError(getErrorMessage(err, 'Batch upload failed'));
+            onError(getErrorMessage(err, extract ? 'Archive upload failed' : 'Batch upload failed'));
             return null;
         } finally {
             abortControllerRef.current = null;
@@ -178,6 +191,20 @@ export function useUploadWithProgress(
         }
     }, [onSuccess, onError]);
 
+    /** Upload multiple files with progress */
+    const uploadMultiple = useCallback((
+        files: File[],
+        folder: string,
+        action?: 'replace' | 'keep_both'
+    ) => sendBatch(files, folder, action, false), [sendBatch]);
+
+    /** Upload an archive and extract it into `folder` */
+    const uploadArchive = useCallback((
+        file: File,
+        folder: string,
+        action?: 'replace' | 'keep_both'
+    ) => sendBatch([file], folder, action, true), [sendBatch]);
+
     /** Resolve batch conflict with action */
     const resolveBatchConflict = useCallback(async (
         folder: string,
@@ -185,16 +212,18 @@ export function useUploadWithProgress(
     ): Promise<BatchUploadResponse | null> => {
         if (!pendingBatchUpload) return null;
 
-        const result = await uploadMultiple(pendingBatchUpload.files, folder, action);
+        const { files, extract = false } = pendingBatchUpload;
+        const result = await sendBatch(files, folder, action, extract);
         setPendingBatchUpload(null);
         return result;
-    }, [pendingBatchUpload, uploadMultiple]);
+    }, [pendingBatchUpload, sendBatch]);
 
     return {
         uploadProgress,
         pendingBatchUpload,
         upload,
         uploadMultiple,
+        uploadArchive,
         resolveBatchConflict,
         cancelUpload,
         cancelBatchUpload,
@@ -15,6 +15,7 @@ import type {
     BatchUploadResponse,
     FileActionResponse,
     DeleteResponse,
+    FileVersion,
 } from '../types/file.types';
 
 // ============================================
@@ -39,6 +40,8 @@ const mapFileRecord = (record: Record<string, unknown>): FileItem => ({
     accessCount: (record.access_count as number) ?? 0,
     lastAccessed: record.last_accessed as string | null,
     status: (record.status as 'active' | 'deleted') ?? 'active',
+    deletedAt: (record.deleted_at as string | null) ?? null,
+    purgeAt: (record.purge_at as string | null) ?? null,
     metadataJson: record.metadata_json as string | null,
     createdAt: record.created_at as string,
     updatedAt: record.updated_at as string | null,
@@ -53,10 +56,13 @@ const mapFileRecord = (record: Record<string, unknown>): FileItem => ({
 /**
  * Fetches list of user's files (active files only by default).
  * @param status - Optional filter for file status ('active' | 'deleted')
+ * @param folder - Optional, only files directly in this folder ('' for root);
+ *                 includes files other users added to a shared folder
  */
-export const listFiles = async (status?: string): Promise<FileListResponse> => {
+export const listFiles = async (status?: string, folder?: string): Promise<FileListResponse> => {
     const params = new URLSearchParams();
     if (status) params.set('status', status);
+    if (folder !== undefined) params.set('folder', folder);
     const url = params.toString() ? `/files?${params}` : '/files';
 
     const response = await apiFetch(url, { headers: getAuthHeaders() });
@@ -105,6 +111,22 @@ export const downloadFileById = async (fileId: string): Promise<Blob> => {
     return response.blob();
 };
 
+/**
+ * Downloads several files as one ZIP archive blob.
+ * Entries keep their folders relative to the deepest folder the files share.
+ * @param fileIds - UUIDs of the files to include
+ */
+export const downloadFilesArchive = async (fileIds: string[]): Promise<Blob> => {
+    const response = await apiFetch('/files/archive', {
+        method: 'POST',
+        headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileIds }),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    return response.blob();
+};
+
 /**
  * Soft-deletes a file (moves to trash).
  * @param fileId - UUID of the file to soft-delete
@@ -221,4 +243,74 @@ export const moveFile = async (
 
     const data = await response.json();
     return { message: data.message, file: mapFileRecord(data.file) };
-};
\ No newline at end of file
+};
+
+/**
+ * Publishes a file to (or removes it from) its owner's public gallery.
+ * @param fileId - UUID of the file
+ * @param isPublic - Whether the file should be listed publicly
+ */
+export const setFilePublic = async (fileId: string, isPublic: boolean): Promise<FileItem> => {
+    const response = await apiFetch(`/files/id/${encodeURIComponent(fileId)}`, {
+        method: 'PATCH',
+        headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_public: isPublic }),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+
+    const data = await response.json();
+    return mapFileRecord(data.file);
+};
+
+// ============================================
+// Version History
+// ============================================
+
+/**
+ * Lists previous versions of a file, newest first.
+ * @param fileId - UUID of the file
+ */
+export const listFileVersions = async (fileId: string): Promise<FileVersion[]> => {
+    const response = await apiFetch(`/files/id/${encodeURIComponent(fileId)}/versions`, {
+        headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+
+    const data = await response.json();
+    return data.versions || [];
+};
+
+/**
+ * Downloads a previous version of a file as a blob.
+ * @param fileId - UUID of the file
+ * @param versionId - UUID of the version
+ */
+export const downloadFileVersion = async (fileId: string, versionId: string): Promise<Blob> => {
+    const response = await apiFetch(
+        `/files/id/${encodeURIComponent(fileId)}/versions/${encodeURIComponent(versionId)}`,
+        { headers: getAuthHeaders() }
+    );
+
+    if (!response.ok) await handleErrorResponse(response);
+    return response.blob();
+};
+
+/**
+ * Makes a previous version the current content of a file.
+ * The replaced content becomes a version itself.
+ * @param fileId - UUID of the file
+ * @param versionId - UUID of the version to restore
+ */
+export const restoreFileVersion = async (fileId: string, versionId: string): Promise<FileActionResponse> => {
+    const response = await apiFetch(
+        `/files/id/${encodeURIComponent(fileId)}/versions/${encodeURIComponent(versionId)}/restore`,
+        { method: 'POST', headers: getAuthHeaders() }
+    );
+
+    if (!response.ok) await handleErrorResponse(response);
+
+    const data = await response.json();
+    return { message: data.message, file: mapFileRecord(data.file) };
+};
@@ -2,11 +2,13 @@
  * Upload Service with Progress
  * =============================
  * XHR-based upload functions that support progress tracking and cancellation.
+ * Large single files go through the resumable upload API in chunks, so an
+ * interrupted upload picks up where it left off instead of starting over.
  * Used by useFileBrowser hook for upload operations.
  */
 
-import { getApiUrl } from '../../../api';
-import { getAuthHeaders } from '../../../utils';
+import { apiFetch, ensureFreshToken, getApiUrl } from '../../../api';
+import { getAuthHeaders, getAuthJsonHeaders } from '../../../utils';
 
 // ============================================
 // Types
@@ -35,12 +37,17 @@ export interface UploadResult<T> {
 /**
  * Performs an XHR upload with progress tracking.
  * Returns a promise that resolves with the parsed JSON response.
+ * Defaults to a multipart POST; pass `method`/`headers` for raw chunk uploads.
+ * Renews the access token first so long chunked uploads don't get signed out.
  */
-function xhrUpload<T extends { message?: string }>(
+async function xhrUpload<T extends { message?: string }>(
     url: string,
-    formData: FormData,
-    options?: UploadOptions
+    body: FormData | Blob,
+    options?: UploadOptions,
+    init?: { method?: string; headers?: Record<string, string> }
 ): Promise<UploadResult<T>> {
+    await ensureFreshToken();
+
     return new Promise((resolve) => {
         const xhr = new XMLHttpRequest();
 
@@ -87,7 +94,7 @@ function xhrUpload<T extends { message?: string }>(
         }
 
         // Send request
-        xhr.open('POST', url);
+        xhr.open(init?.method ?? 'POST', url);
 
         // Set auth headers (but not Content-Type - let browser set for FormData)
         const headers = getAuthHeaders();
@@ -96,8 +103,11 @@ function xhrUpload<T extends { message?: string }>(
                 xhr.setRequestHeader(key, value);
             }
         });
+        Object.entries(init?.headers ?? {}).forEach(([key, value]) => {
+            xhr.setRequestHeader(key, value);
+        });
 
-        xhr.send(formData);
+        xhr.send(body);
     });
 }
 
@@ -129,6 +139,7 @@ interface BatchUploadResponse {
 
 /**
  * Upload a single file with progress tracking.
+ * Files larger than one chunk are uploaded resumably.
  *
  * @param file - File to upload
  * @param folder - Optional subfolder path
@@ -141,6 +152,10 @@ export async function uploadFileWithProgress(
     action?: 'replace' | 'keep_both',
     options?: UploadOptions
 ): Promise<UploadResult<SingleUploadResponse>> {
+    if (file.size > RESUMABLE_CHUNK_SIZE) {
+        return uploadFileResumable(file, folder, action, options);
+    }
+
     const formData = new FormData();
 
     // Order matters: folder/action before file
@@ -183,3 +198,236 @@ export async function uploadFilesWithProgress(
     const url = getApiUrl('/files/upload/batch');
     return xhrUpload<BatchUploadResponse>(url, formData, options);
 }
+
+/**
+ * Upload a .zip/.tar/.tar.gz archive and have the server extract it.
+ * Responds like a batch upload, one result per archive entry.
+ *
+ * @param file - Archive to upload
+ * @param folder - Optional folder to extract into
+ * @param action - Conflict resolution: 'replace' | 'keep_both'
+ * @param options - Progress and cancellation options
+ */
+export async function uploadArchiveWithProgress(
+    file: File,
+    folder?: string,
+    action?: 'replace' | 'keep_both',
+    options?: UploadOptions
+): Promise<UploadResult<BatchUploadResponse>> {
+    const formData = new FormData();
+
+    // Order matters: folder/action/extract before file
+    if (folder) formData.append('folder', folder);
+    if (action) formData.append('action', action);
+    formData.append('extract', 'true');
+    formData.append('file', file);
+
+    const url = getApiUrl('/files/upload');
+    return xhrUpload<BatchUploadResponse>(url, formData, options);
+}
+
+// ============================================
+// Resumable Uploads
+// ============================================
+
+/** Bytes sent per PATCH request */
+const RESUMABLE_CHUNK_SIZE = 8 * 1024 * 1024;
+
+/** Attempts per chunk before giving up on a flaky connection */
+const MAX_CHUNK_RETRIES = 5;
+
+/** localStorage key prefix mapping a local file to its server-side upload id */
+const RESUME_KEY_PREFIX = 'moxbox:upload:';
+
+/** Server-side state of a resumable upload */
+interface ResumableUpload {
+    id: string;
+    offset: number;
+    size: number;
+}
+
+/**
+ * Identifies "the same file into the same folder" across page reloads,
+ * so re-selecting an interrupted file resumes it.
+ */
+function getResumeKey(file: File, folder?: string): string {
+    return `${RESUME_KEY_PREFIX}${folder ?? ''}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+/** Wait before retrying, resolving early if the upload is cancelled. */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            resolve();
+        });
+    });
+}
+
+/** Fetch the received offset of an upload; null when it no longer exists. */
+async function fetchResumableUpload(id: string): Promise<ResumableUpload | null> {
+    const response = await apiFetch(`/files/uploads/${encodeURIComponent(id)}`, {
+        headers: getAuthHeaders(),
+    });
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    return data.upload as ResumableUpload;
+}
+
+/** Start a new resumable upload on the server. */
+async function createResumableUpload(
+    file: File,
+    folder?: string
+): Promise<UploadResult<{ message?: string; upload?: ResumableUpload }>> {
+    const response = await apiFetch('/files/uploads', {
+        method: 'POST',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify({
+            filename: file.name,
+            size: file.size,
+            mimeType: file.type || undefined,
+            folder: folder || undefined,
+        }),
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+        return { ok: false, status: response.status, data, error: data?.message || `Upload failed (${response.status})` };
+    }
+    return { ok: true, status: response.status, data };
+}
+
+/** Discard a server-side upload (best effort). */
+async function cancelResumableUpload(id: string): Promise<void> {
+    try {
+        await apiFetch(`/files/uploads/${encodeURIComponent(id)}`, {
+            method: 'DELETE',
+            headers: getAuthHeaders(),
+        });
+    } catch {
+        // Stale uploads are purged server-side eventually
+    }
+}
+
+/**
+ * Upload a single file in chunks via the resumable upload API.
+ * - Reuses a previous upload of the same file (tracked in localStorage)
+ * - Retries dropped chunks from the server's last received offset
+ * - On a 409 name conflict the upload is kept, so retrying with an action
+ *   finalizes it without sending the bytes again
+ *
+ * @param file - File to upload
+ * @param folder - Optional subfolder path
+ * @param action - Conflict resolution: 'replace' | 'keep_both'
+ * @param options - Progress and cancellation options
+ */
+export async function uploadFileResumable(
+    file: File,
+    folder?: string,
+    action?: 'replace' | 'keep_both',
+    options?: UploadOptions
+): Promise<UploadResult<SingleUploadResponse>> {
+    const resumeKey = getResumeKey(file, folder);
+    const signal = options?.signal;
+
+    // Resume a previous attempt when the server still has it
+    let upload: ResumableUpload | null = null;
+    const savedId = localStorage.getItem(resumeKey);
+    if (savedId) {
+        upload = await fetchResumableUpload(savedId);
+        if (!upload) localStorage.removeItem(resumeKey);
+    }
+
+    if (!upload) {
+        const created = await createResumableUpload(file, folder);
+        if (!created.ok || !created.data?.upload) {
+            return { ok: false, status: created.status, data: null, error: created.error };
+        }
+        upload = created.data.upload;
+        localStorage.setItem(resumeKey, upload.id);
+    }
+
+    const uploadUrl = getApiUrl(`/files/uploads/${encodeURIComponent(upload.id)}`);
+    let offset = upload.offset;
+    let attempts = 0;
+
+    // Send the remaining bytes chunk by chunk
+    while (offset < file.size) {
+        if (signal?.aborted) break;
+
+        const chunk = file.slice(offset, offset + RESUMABLE_CHUNK_SIZE);
+        const chunkStart = offset;
+        const result = await xhrUpload<{ message?: string; offset?: number; upload?: ResumableUpload }>(
+            uploadUrl,
+            chunk,
+            {
+                onProgress: options?.onProgress
+                    ? (percent) => options.onProgress!(
+                        Math.round(((chunkStart + (chunk.size * percent) / 100) / file.size) * 100)
+                    )
+                    : undefined,
+                signal,
+            },
+            {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/offset+octet-stream',
+                    'Upload-Offset': String(chunkStart),
+                },
+            }
+        );
+
+        if (result.ok && result.data?.upload) {
+            offset = result.data.upload.offset;
+            attempts = 0;
+            continue;
+        }
+
+        if (signal?.aborted) break;
+
+        // Offset drifted (e.g. a previous chunk partially landed) — continue from the server's offset
+        if (result.status === 409 && typeof result.data?.offset === 'number') {
+            offset = result.data.offset;
+            continue;
+        }
+
+        // Network drop or server hiccup — back off, then ask the server where to resume
+        if (result.status === 0 || result.status >= 500) {
+            attempts += 1;
+            if (attempts > MAX_CHUNK_RETRIES) {
+                return { ok: false, status: result.status, data: null, error: 'Upload interrupted. Select the file again to resume.' };
+            }
+            await delay(1000 * 2 ** (attempts - 1), signal);
+            const current = await fetchResumableUpload(upload.id).catch(() => null);
+            if (current) offset = current.offset;
+            continue;
+        }
+
+        localStorage.removeItem(resumeKey);
+        return { ok: false, status: result.status, data: null, error: result.error };
+    }
+
+    if (signal?.aborted) {
+        localStorage.removeItem(resumeKey);
+        await cancelResumableUpload(upload.id);
+        return { ok: false, status: 0, data: null, error: 'Upload cancelled' };
+    }
+
+    // All bytes received — finalize into a file record
+    const response = await apiFetch(`/files/uploads/${encodeURIComponent(upload.id)}/complete`, {
+        method: 'POST',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify(action ? { action } : {}),
+    });
+    const data = await response.json().catch(() => null);
+
+    // Keep the upload around on conflicts so the retry only needs to finalize
+    if (response.status !== 409) localStorage.removeItem(resumeKey);
+
+    if (!response.ok) {
+        return { ok: false, status: response.status, data, error: data?.message || `Upload failed (${response.status})` };
+    }
+    return { ok: true, status: response.status, data };
+}
@@ -49,6 +49,10 @@ export interface FileItem {
     lastAccessed: string | null;
     /** File status: 'active' or 'deleted' */
     status: FileStatus;
+    /** When the file was moved to Trash */
+    deletedAt: string | null;
+    /** When Trash retention will permanently delete it (trash listing only) */
+    purgeAt: string | null;
     /** Optional JSON metadata */
     metadataJson: string | null;
     /** Creation timestamp */
@@ -57,6 +61,31 @@ export interface FileItem {
     updatedAt: string | null;
 }
 
+/**
+ * FileVersion is a previous content of a file, kept when the file
+ * was replaced (GET /api/files/id/:id/versions).
+ */
+export interface FileVersion {
+    /** Version ID (UUID) */
+    id: string;
+    /** ID of the file this version belongs to */
+    fileId: string;
+    /** Filename at the time the content was replaced */
+    originalName: string;
+    /** MIME type of the version */
+    mimeType: string | null;
+    /** Size in bytes */
+    size: number | null;
+    /** SHA-256 hash of the version content */
+    hashSha256: string | null;
+    /** When this content was uploaded */
+    uploadedAt: string;
+    /** When this content was replaced */
+    replacedAt: string;
+    /** Username of who replaced it */
+    replacedBy: string | null;
+}
+
 // ============================================
 // API Response Types
 // ============================================
@@ -169,6 +198,14 @@ export interface FileCardProps {
     onPermanentDelete?: (file: FileItem) => void;
     /** Move to folder callback */
     onMove?: (file: FileItem) => void;
+    /** Create/manage share links callback */
+    onShare?: (file: FileItem) => void;
+    /** Publish/unpublish in the owner's public gallery callback */
+    onTogglePublic?: (file: FileItem) => void;
+    /** Whether the file is part of the current selection */
+    selected?: boolean;
+    /** Select/deselect callback (omitted when selection isn't offered) */
+    onSelect?: (file: FileItem) => void;
     /** Additional CSS classes */
     className?: string;
 }
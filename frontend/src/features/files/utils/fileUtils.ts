@@ -55,8 +55,21 @@ export function formatDate(isoString: string | null): string {
     }
 }
 
+/**
+ * formatPurgeCountdown
+ * Describes when a trashed file will be permanently deleted
+ * (e.g. "Deletes in 3 days").
+ * @param isoString - Purge timestamp from backend
+ */
+export function formatPurgeCountdown(isoString: string): string {
+    const days = Math.ceil((new Date(isoString).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+    if (days <= 0) return 'Deletes soon';
+    return `Deletes in ${days} day${days === 1 ? '' : 's'}`;
+}
+
 export default {
     inferFileType,
     formatFileSize,
     formatDate,
+    formatPurgeCountdown,
 };
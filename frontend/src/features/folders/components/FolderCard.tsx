@@ -1,5 +1,5 @@
 import { motion } from 'motion/react';
-import { Folder, Trash2, Edit2 } from 'lucide-react';
+import { Folder, Trash2, Edit2, Link2, FileArchive } from 'lucide-react';
 import type { FC } from 'react';
 import { formatFileSize } from '../../files/utils/fileUtils';
 
@@ -19,6 +19,10 @@ interface FolderCardProps {
     onRename?: (path: string) => void;
     /** Callback for delete action */
     onDelete?: (path: string) => void;
+    /** Callback for share link action */
+    onShare?: (path: string) => void;
+    /** Callback for "Download as ZIP" action */
+    onDownload?: (path: string) => void;
     /** Card layout variant */
     variant?: 'list' | 'grid';
     /** Additional CSS classes */
@@ -38,6 +42,8 @@ export const FolderCard: FC<FolderCardProps> = ({
     onClick,
     onRename,
     onDelete,
+    onShare,
+    onDownload,
     variant = 'list',
     className = '',
 }) => {
@@ -73,6 +79,16 @@ export const FolderCard: FC<FolderCardProps> = ({
 
                 {/* Actions (show on hover) */}
                 <div className="mt-2 flex items-center gap-2 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+                    {onDownload && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onDownload(path); }}
+                            aria-label="download as zip"
+                            title="Download as ZIP"
+                            className="p-1 hover:bg-[#0D1117] rounded text-slate-400 hover:text-[#6BCB77]"
+                        >
+                            <FileArchive className="w-4 h-4" />
+                        </button>
+                    )}
                     {onRename && (
                         <button
                             onClick={(e) => { e.stopPropagation(); onRename(path); }}
@@ -82,6 +98,15 @@ export const FolderCard: FC<FolderCardProps> = ({
                             <Edit2 className="w-4 h-4" />
                         </button>
                     )}
+                    {onShare && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onShare(path); }}
+                            aria-label="share"
+                            className="p-1 hover:bg-[#0D1117] rounded text-slate-400 hover:text-[#58A6FF]"
+                        >
+                            <Link2 className="w-4 h-4" />
+                        </button>
+                    )}
                     {onDelete && (
                         <button
                             onClick={(e) => { e.stopPropagation(); onDelete(path); }}
@@ -122,6 +147,16 @@ export const FolderCard: FC<FolderCardProps> = ({
 
             {/* Actions */}
             <div className="flex items-center gap-2 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+                {onDownload && (
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onDownload(path); }}
+                        aria-label="download as zip"
+                        title="Download as ZIP"
+                        className="p-1 hover:bg-[#0D1117] rounded text-slate-400 hover:text-[#6BCB77]"
+                    >
+                        <FileArchive className="w-4 h-4" />
+                    </button>
+                )}
                 {onRename && (
                     <button
                         onClick={(e) => { e.stopPropagation(); onRename(path); }}
@@ -131,6 +166,15 @@ export const FolderCard: FC<FolderCardProps> = ({
                         <Edit2 className="w-4 h-4" />
                     </button>
                 )}
+                {onShare && (
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onShare(path); }}
+                        aria-label="share"
+                        className="p-1 hover:bg-[#0D1117] rounded text-slate-400 hover:text-[#58A6FF]"
+                    >
+                        <Link2 className="w-4 h-4" />
+                    </button>
+                )}
                 {onDelete && (
                     <button
                         onClick={(e) => { e.stopPropagation(); onDelete(path); }}
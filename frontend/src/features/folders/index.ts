@@ -1,5 +1,6 @@
 // Re-export folder feature modules
 export * from './types/folder.types';
 export * from './services/folderService';
+export * from './utils/folderAccess';
 export * from './hooks/useFolders';
 export * from './components';
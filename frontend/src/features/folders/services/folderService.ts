@@ -93,3 +93,17 @@ export const deleteFolder = async (path: string): Promise<DeleteFolderResponse>
     if (!response.ok) await handleErrorResponse(response);
     return response.json();
 };
+
+/**
+ * Downloads a folder and everything below it as a ZIP archive blob.
+ * @param path - Relative folder path (empty string for root)
+ */
+export const downloadFolderArchive = async (path: string): Promise<Blob> => {
+    const params = new URLSearchParams();
+    if (path) params.set('path', path);
+    const url = params.toString() ? `/folders/archive?${params}` : '/folders/archive';
+
+    const response = await apiFetch(url, { headers: getAuthHeaders() });
+    if (!response.ok) await handleErrorResponse(response);
+    return response.blob();
+};
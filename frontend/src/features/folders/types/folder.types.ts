@@ -18,6 +18,13 @@ export interface DirectoryEntry {
     size?: number;
 }
 
+/**
+ * The signed-in user's access to a folder, from least to most:
+ * view (list/download), upload, edit (rename/move/trash), owner (also share).
+ * Anything below owner comes from another user sharing the folder.
+ */
+export type FolderAccess = 'view' | 'upload' | 'edit' | 'owner';
+
 // ============================================
 // API Response Types
 // ============================================
@@ -26,6 +33,8 @@ export interface DirectoryEntry {
 export interface FolderListResponse {
     /** Current folder path */
     path: string;
+    /** Caller's access to this folder */
+    access: FolderAccess;
     /** Array of files and subfolders */
     contents: DirectoryEntry[];
 }
@@ -0,0 +1,19 @@
+/**
+ * Folder Access Utilities
+ * ========================
+ * Compare the access levels reported by GET /api/folders/list.
+ */
+
+import type { FolderAccess } from '../types/folder.types';
+
+const ACCESS_ORDER: FolderAccess[] = ['view', 'upload', 'edit', 'owner'];
+
+/**
+ * True when `access` is at least `required`.
+ *
+ * @example
+ * hasFolderAccess('edit', 'upload') // true
+ * hasFolderAccess('view', 'upload') // false
+ */
+export const hasFolderAccess = (access: FolderAccess, required: FolderAccess): boolean =>
+    ACCESS_ORDER.indexOf(access) >= ACCESS_ORDER.indexOf(required);
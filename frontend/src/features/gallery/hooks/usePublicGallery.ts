@@ -0,0 +1,52 @@
+/**
+ * usePublicGallery Hook
+ * ======================
+ * Loads the files a user has published for the public gallery page.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { getPublicGallery } from '../services/galleryService';
+import { getErrorMessage } from '../../../utils';
+import type { PublicFile } from '../types/gallery.types';
+
+/** State shape returned by the hook */
+export interface UsePublicGalleryState {
+    files: PublicFile[];
+    isLoading: boolean;
+    error: string | null;
+}
+
+/** Actions returned by the hook */
+export interface UsePublicGalleryActions {
+    refresh: () => Promise<void>;
+}
+
+/** Hook for reading one user's public gallery. */
+export const usePublicGallery = (username: string): UsePublicGalleryState & UsePublicGalleryActions => {
+    const [files, setFiles] = useState<PublicFile[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        setError(null);
+        setIsLoading(true);
+        try {
+            const gallery = await getPublicGallery(username);
+            setFiles(gallery.files);
+        } catch (err) {
+            setFiles([]);
+            setError(getErrorMessage(err, 'This gallery is unavailable'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [username]);
+
+    // Load whenever the username changes
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    return { files, isLoading, error, refresh };
+};
+
+export default usePublicGallery;
@@ -0,0 +1,4 @@
+// Re-export public gallery feature modules
+export * from './types/gallery.types';
+export * from './services/galleryService';
+export * from './hooks/usePublicGallery';
@@ -0,0 +1,40 @@
+/**
+ * Gallery Service
+ * ================
+ * API call wrappers for a user's public gallery (no auth).
+ */
+
+import { apiFetch } from '../../../api';
+import { handleErrorResponse } from '../../../utils';
+import type { PublicGalleryResponse } from '../types/gallery.types';
+
+/** Base path of a user's gallery */
+const galleryPath = (username: string): string =>
+    `/public/${encodeURIComponent(username)}`;
+
+/**
+ * Builds the frontend URL of a user's gallery.
+ */
+export const buildGalleryUrl = (username: string): string =>
+    `${window.location.origin}/u/${encodeURIComponent(username)}`;
+
+/**
+ * Lists the files a user has published.
+ * @param username - Gallery owner
+ */
+export const getPublicGallery = async (username: string): Promise<PublicGalleryResponse> => {
+    const response = await apiFetch(galleryPath(username));
+    if (!response.ok) await handleErrorResponse(response);
+    return response.json();
+};
+
+/**
+ * Downloads a published file.
+ * @param username - Gallery owner
+ * @param fileId - Published file ID
+ */
+export const downloadPublicFile = async (username: string, fileId: string): Promise<Blob> => {
+    const response = await apiFetch(`${galleryPath(username)}/files/${encodeURIComponent(fileId)}`);
+    if (!response.ok) await handleErrorResponse(response);
+    return response.blob();
+};
@@ -0,0 +1,21 @@
+/**
+ * Public Gallery Types
+ * =====================
+ * Type definitions for the files a user has published (is_public),
+ * as served without sign-in by /api/public/:username.
+ */
+
+/** A published file */
+export interface PublicFile {
+    id: string;
+    name: string;
+    size: number | null;
+    mimeType: string | null;
+    createdAt: string;
+}
+
+/** Response from GET /api/public/:username */
+export interface PublicGalleryResponse {
+    username: string;
+    files: PublicFile[];
+}
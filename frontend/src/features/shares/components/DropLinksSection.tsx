@@ -0,0 +1,192 @@
+import { useState, type FC, type FormEvent } from 'react';
+import { Inbox, Copy, Check, Lock, Clock, Upload, Trash2, Loader2 } from 'lucide-react';
+import { useDropLinks } from '../hooks/useDropLinks';
+import { buildDropUrl } from '../services/shareService';
+import { formatFileSize } from '../../files/utils/fileUtils';
+import type { DropLink } from '../types/share.types';
+
+/**
+ * DropLinksSection Props
+ */
+interface DropLinksSectionProps {
+    /** Folder that receives the uploads */
+    folderPath: string;
+}
+
+/**
+ * DropLinksSection Component
+ * ===========================
+ * "File requests" part of the share modal for folders. Creates upload-only
+ * links that let people without an account send files into the folder,
+ * optionally limited by expiry, password and total size.
+ */
+export const DropLinksSection: FC<DropLinksSectionProps> = ({ folderPath }) => {
+    const { links, isLoading, error, create, revoke } = useDropLinks(folderPath);
+
+    const [expiresOn, setExpiresOn] = useState('');
+    const [password, setPassword] = useState('');
+    const [maxMegabytes, setMaxMegabytes] = useState('');
+    const [requireUploaderName, setRequireUploaderName] = useState(false);
+    const [isCreating, setIsCreating] = useState(false);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+
+    // Create a link with the chosen restrictions
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setIsCreating(true);
+        try {
+            const link = await create({
+                // Expire at the end of the chosen local day
+                expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+                password: password || undefined,
+                maxBytes: maxMegabytes ? Math.round(Number(maxMegabytes) * 1024 * 1024) : undefined,
+                requireUploaderName,
+            });
+            if (link) {
+                setExpiresOn('');
+                setPassword('');
+                setMaxMegabytes('');
+                setRequireUploaderName(false);
+            }
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    // Copy a link URL to the clipboard
+    const handleCopy = async (link: DropLink) => {
+        try {
+            await navigator.clipboard.writeText(buildDropUrl(link.token));
+            setCopiedId(link.id);
+        } catch {
+            // Clipboard may be unavailable over plain HTTP; the URL is still selectable
+        }
+    };
+
+    const inputClass = 'bg-[#0B1220] border border-[#30363D] px-2 py-1.5 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none';
+
+    return (
+        <div className="mt-6 pt-4 border-t border-[#30363D]">
+            <h3 className="text-sm font-semibold flex items-center gap-2 mb-3">
+                <Inbox className="w-4 h-4 text-[#58A6FF]" />
+                File requests
+            </h3>
+
+            {/* New link form */}
+            <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3">
+                <label className="flex flex-col gap-1 text-xs text-slate-400">
+                    Expires on
+                    <input
+                        type="date"
+                        value={expiresOn}
+                        onChange={(e) => setExpiresOn(e.target.value)}
+                        className={inputClass}
+                        disabled={isCreating}
+                    />
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-slate-400">
+                    Password
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        placeholder="Optional"
+                        autoComplete="new-password"
+                        className={inputClass}
+                        disabled={isCreating}
+                    />
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-slate-400">
+                    Max total size (MB)
+                    <input
+                        type="number"
+                        min={1}
+                        value={maxMegabytes}
+                        onChange={(e) => setMaxMegabytes(e.target.value)}
+                        placeholder="Unlimited"
+                        className={inputClass}
+                        disabled={isCreating}
+                    />
+                </label>
+                <div className="sm:col-span-3 flex items-center justify-between gap-3">
+                    <label className="flex items-center gap-2 text-xs text-slate-400">
+                        <input
+                            type="checkbox"
+                            checked={requireUploaderName}
+                            onChange={(e) => setRequireUploaderName(e.target.checked)}
+                            disabled={isCreating}
+                        />
+                        Ask uploaders for their name
+                    </label>
+                    <button
+                        type="submit"
+                        className="px-3 py-1.5 rounded bg-[#238636] text-white text-sm hover:bg-[#2EA043] disabled:opacity-50"
+                        disabled={isCreating}
+                    >
+                        {isCreating ? 'Creating...' : 'Create request'}
+                    </button>
+                </div>
+            </form>
+
+            {/* Error message */}
+            {error && (
+                <div className="text-red-400 text-sm mb-3">{error}</div>
+            )}
+
+            {/* Existing links */}
+            <div className="flex flex-col gap-2 max-h-48 overflow-y-auto">
+                {isLoading && (
+                    <div className="flex justify-center py-2">
+                        <Loader2 className="w-5 h-5 text-[#3D7BF0] animate-spin" />
+                    </div>
+                )}
+                {!isLoading && links.length === 0 && (
+                    <div className="text-sm text-slate-500 text-center py-2">No active file requests.</div>
+                )}
+                {links.map((link) => (
+                    <div key={link.id} className="p-2 rounded bg-[#0D1117] border border-[#30363D]">
+                        <div className="flex items-center gap-2">
+                            <input
+                                readOnly
+                                value={buildDropUrl(link.token)}
+                                onFocus={(e) => e.target.select()}
+                                className="flex-1 min-w-0 bg-transparent text-xs text-slate-300 outline-none"
+                            />
+                            <button
+                                onClick={() => handleCopy(link)}
+                                title="Copy link"
+                                className="p-1 rounded text-slate-400 hover:text-[#58A6FF]"
+                            >
+                                {copiedId === link.id ? <Check className="w-4 h-4 text-[#6BCB77]" /> : <Copy className="w-4 h-4" />}
+                            </button>
+                            <button
+                                onClick={() => revoke(link)}
+                                title="Revoke link"
+                                className="p-1 rounded text-slate-400 hover:text-[#F85149]"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-slate-500">
+                            {link.hasPassword && (
+                                <span className="flex items-center gap-1"><Lock className="w-3 h-3" /> Password</span>
+                            )}
+                            {link.expiresAt && (
+                                <span className="flex items-center gap-1">
+                                    <Clock className="w-3 h-3" /> Expires {new Date(link.expiresAt).toLocaleDateString()}
+                                </span>
+                            )}
+                            <span className="flex items-center gap-1">
+                                <Upload className="w-3 h-3" />
+                                {link.uploadCount} files, {formatFileSize(link.bytesReceived)}
+                                {link.maxBytes != null ? ` / ${formatFileSize(link.maxBytes)}` : ''}
+                            </span>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default DropLinksSection;
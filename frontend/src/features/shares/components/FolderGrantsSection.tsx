@@ -0,0 +1,130 @@
+import { useState, type FC, type FormEvent } from 'react';
+import { Users, Trash2, Loader2 } from 'lucide-react';
+import { useFolderGrants } from '../hooks/useFolderGrants';
+import type { FolderPermission } from '../types/share.types';
+
+/**
+ * FolderGrantsSection Props
+ */
+interface FolderGrantsSectionProps {
+    /** Folder whose grants are managed */
+    folderPath: string;
+}
+
+/** Labels for the permission select */
+const PERMISSION_LABELS: Record<FolderPermission, string> = {
+    view: 'Can view',
+    upload: 'Can upload',
+    edit: 'Can edit',
+};
+
+/**
+ * FolderGrantsSection Component
+ * ==============================
+ * "People with access" part of the share modal for folders. Shares the
+ * folder with other accounts by username and lets the owner change or
+ * remove their permission.
+ */
+export const FolderGrantsSection: FC<FolderGrantsSectionProps> = ({ folderPath }) => {
+    const { grants, isLoading, error, grant, revoke } = useFolderGrants(folderPath);
+
+    const [username, setUsername] = useState('');
+    const [permission, setPermission] = useState<FolderPermission>('view');
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Share with the entered username
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!username.trim()) return;
+        setIsSaving(true);
+        try {
+            if (await grant(username.trim(), permission)) {
+                setUsername('');
+                setPermission('view');
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const selectClass = 'bg-[#0B1220] border border-[#30363D] px-2 py-1.5 rounded text-slate-100 text-sm focus:border-[#58A6FF] focus:outline-none';
+
+    return (
+        <div className="mt-6 pt-4 border-t border-[#30363D]">
+            <h3 className="text-sm font-semibold flex items-center gap-2 mb-3">
+                <Users className="w-4 h-4 text-[#58A6FF]" />
+                People with access
+            </h3>
+
+            {/* Share with a user */}
+            <form onSubmit={handleSubmit} className="flex gap-2 mb-3">
+                <input
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder="Username"
+                    className={`flex-1 min-w-0 ${selectClass}`}
+                    disabled={isSaving}
+                />
+                <select
+                    value={permission}
+                    onChange={(e) => setPermission(e.target.value as FolderPermission)}
+                    className={selectClass}
+                    disabled={isSaving}
+                >
+                    {Object.entries(PERMISSION_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+                <button
+                    type="submit"
+                    className="px-3 py-1.5 rounded bg-[#238636] text-white text-sm hover:bg-[#2EA043] disabled:opacity-50"
+                    disabled={isSaving || !username.trim()}
+                >
+                    {isSaving ? 'Sharing...' : 'Share'}
+                </button>
+            </form>
+
+            {/* Error message */}
+            {error && (
+                <div className="text-red-400 text-sm mb-3">{error}</div>
+            )}
+
+            {/* Current grants */}
+            <div className="flex flex-col gap-2 max-h-48 overflow-y-auto">
+                {isLoading && (
+                    <div className="flex justify-center py-2">
+                        <Loader2 className="w-5 h-5 text-[#3D7BF0] animate-spin" />
+                    </div>
+                )}
+                {!isLoading && grants.length === 0 && (
+                    <div className="text-sm text-slate-500 text-center py-2">Only you can access this folder.</div>
+                )}
+                {grants.map((g) => (
+                    <div key={g.id} className="flex items-center gap-2 p-2 rounded bg-[#0D1117] border border-[#30363D]">
+                        <span className="flex-1 min-w-0 truncate text-sm">{g.username ?? 'Unknown user'}</span>
+                        <select
+                            value={g.permission}
+                            onChange={(e) => g.username && grant(g.username, e.target.value as FolderPermission)}
+                            className={selectClass}
+                            disabled={!g.username}
+                        >
+                            {Object.entries(PERMISSION_LABELS).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={() => revoke(g)}
+                            title="Remove access"
+                            className="p-1 rounded text-slate-400 hover:text-[#F85149]"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default FolderGrantsSection;
@@ -0,0 +1,216 @@
+import { useState, type FC, type FormEvent } from 'react';
+import { motion } from 'motion/react';
+import { Link2, X, Copy, Check, Lock, Clock, Download, Trash2, Loader2 } from 'lucide-react';
+import { useShareLinks } from '../hooks/useShareLinks';
+import { FolderGrantsSection } from './FolderGrantsSection';
+import { DropLinksSection } from './DropLinksSection';
+import { buildShareUrl } from '../services/shareService';
+import type { ShareLink, ShareTarget } from '../types/share.types';
+
+/**
+ * ShareLinkModal Props
+ */
+interface ShareLinkModalProps {
+    /** File or folder being shared (null hides the modal) */
+    target: ShareTarget | null;
+    /** Close modal callback */
+    onClose: () => void;
+}
+
+/**
+ * ShareLinkModal Component
+ * =========================
+ * Modal dialog for creating and revoking public links to a file or folder.
+ * Links can carry an expiry date, a password and a download limit.
+ * Folders can also be shared with other accounts (see FolderGrantsSection)
+ * and receive files through upload-only links (see DropLinksSection).
+ */
+export const ShareLinkModal: FC<ShareLinkModalProps> = ({ target, onClose }) => {
+    const { links, isLoading, error, create, revoke } = useShareLinks(target);
+
+    const [expiresOn, setExpiresOn] = useState('');
+    const [password, setPassword] = useState('');
+    const [maxDownloads, setMaxDownloads] = useState('');
+    const [isCreating, setIsCreating] = useState(false);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+
+    // Reset form state when modal closes
+    const handleClose = () => {
+        setExpiresOn('');
+        setPassword('');
+        setMaxDownloads('');
+        setCopiedId(null);
+        onClose();
+    };
+
+    // Create a link with the chosen restrictions
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setIsCreating(true);
+        try {
+            const link = await create({
+                // Expire at the end of the chosen local day
+                expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+                password: password || undefined,
+                maxDownloads: maxDownloads ? Number(maxDownloads) : undefined,
+            });
+            if (link) {
+                setExpiresOn('');
+                setPassword('');
+                setMaxDownloads('');
+            }
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    // Copy a link URL to the clipboard
+    const handleCopy = async (link: ShareLink) => {
+        try {
+            await navigator.clipboard.writeText(buildShareUrl(link.token));
+            setCopiedId(link.id);
+        } catch {
+            // Clipboard may be unavailable over plain HTTP; the URL is still selectable
+        }
+    };
+
+    if (!target) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <motion.div
+                className="bg-[#161B22] border border-[#30363D] rounded-lg p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto"
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold flex items-center gap-2 min-w-0">
+                        <Link2 className="w-5 h-5 text-[#58A6FF] shrink-0" />
+                        <span className="truncate">Share {target.name}</span>
+                    </h2>
+                    <button
+                        onClick={handleClose}
+                        className="p-1 hover:bg-[#0D1117] rounded text-slate-400"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {/* New link form */}
+                <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+                    <label className="flex flex-col gap-1 text-xs text-slate-400">
+                        Expires on
+                        <input
+                            type="date"
+                            value={expiresOn}
+                            onChange={(e) => setExpiresOn(e.target.value)}
+                            className="bg-[#0B1220] border border-[#30363D] px-2 py-1.5 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none"
+                            disabled={isCreating}
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-xs text-slate-400">
+                        Password
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            placeholder="Optional"
+                            autoComplete="new-password"
+                            className="bg-[#0B1220] border border-[#30363D] px-2 py-1.5 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none"
+                            disabled={isCreating}
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-xs text-slate-400">
+                        Max downloads
+                        <input
+                            type="number"
+                            min={1}
+                            value={maxDownloads}
+                            onChange={(e) => setMaxDownloads(e.target.value)}
+                            placeholder="Unlimited"
+                            className="bg-[#0B1220] border border-[#30363D] px-2 py-1.5 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none"
+                            disabled={isCreating}
+                        />
+                    </label>
+                    <div className="sm:col-span-3 flex justify-end">
+                        <button
+                            type="submit"
+                            className="px-3 py-1.5 rounded bg-[#238636] text-white hover:bg-[#2EA043] disabled:opacity-50"
+                            disabled={isCreating}
+                        >
+                            {isCreating ? 'Creating...' : 'Create link'}
+                        </button>
+                    </div>
+                </form>
+
+                {/* Error message */}
+                {error && (
+                    <div className="text-red-400 text-sm mb-3">{error}</div>
+                )}
+
+                {/* Existing links */}
+                <div className="flex flex-col gap-2 max-h-64 overflow-y-auto">
+                    {isLoading && (
+                        <div className="flex justify-center py-4">
+                            <Loader2 className="w-5 h-5 text-[#3D7BF0] animate-spin" />
+                        </div>
+                    )}
+                    {!isLoading && links.length === 0 && (
+                        <div className="text-sm text-slate-500 text-center py-2">No active links.</div>
+                    )}
+                    {links.map((link) => (
+                        <div key={link.id} className="p-2 rounded bg-[#0D1117] border border-[#30363D]">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    readOnly
+                                    value={buildShareUrl(link.token)}
+                                    onFocus={(e) => e.target.select()}
+                                    className="flex-1 min-w-0 bg-transparent text-xs text-slate-300 outline-none"
+                                />
+                                <button
+                                    onClick={() => handleCopy(link)}
+                                    title="Copy link"
+                                    className="p-1 rounded text-slate-400 hover:text-[#58A6FF]"
+                                >
+                                    {copiedId === link.id ? <Check className="w-4 h-4 text-[#6BCB77]" /> : <Copy className="w-4 h-4" />}
+                                </button>
+                                <button
+                                    onClick={() => revoke(link)}
+                                    title="Revoke link"
+                                    className="p-1 rounded text-slate-400 hover:text-[#F85149]"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-slate-500">
+                                {link.hasPassword && (
+                                    <span className="flex items-center gap-1"><Lock className="w-3 h-3" /> Password</span>
+                                )}
+                                {link.expiresAt && (
+                                    <span className="flex items-center gap-1">
+                                        <Clock className="w-3 h-3" /> Expires {new Date(link.expiresAt).toLocaleDateString()}
+                                    </span>
+                                )}
+                                <span className="flex items-center gap-1">
+                                    <Download className="w-3 h-3" />
+                                    {link.downloadCount}{link.maxDownloads != null ? ` / ${link.maxDownloads}` : ''} downloads
+                                </span>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Sharing with other accounts and file requests */}
+                {target.kind === 'folder' && (
+                    <>
+                        <FolderGrantsSection folderPath={target.folderPath} />
+                        <DropLinksSection folderPath={target.folderPath} />
+                    </>
+                )}
+            </motion.div>
+        </div>
+    );
+};
+
+export default ShareLinkModal;
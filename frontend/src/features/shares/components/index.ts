@@ -0,0 +1,4 @@
+// Re-export share link, drop link and folder grant UI components
+export { ShareLinkModal } from './ShareLinkModal';
+export { FolderGrantsSection } from './FolderGrantsSection';
+export { DropLinksSection } from './DropLinksSection';
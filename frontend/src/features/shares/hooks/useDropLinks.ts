@@ -0,0 +1,87 @@
+/**
+ * useDropLinks Hook
+ * ==================
+ * State management for the upload-only drop links into a single folder.
+ * Handles fetching, creating, and revoking links.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { listDropLinks, createDropLink, revokeDropLink } from '../services/shareService';
+import { getErrorMessage } from '../../../utils';
+import type { DropLink, DropLinkOptions } from '../types/share.types';
+
+/** State shape returned by the hook */
+export interface UseDropLinksState {
+    links: DropLink[];
+    isLoading: boolean;
+    error: string | null;
+}
+
+/** Actions returned by the hook */
+export interface UseDropLinksActions {
+    fetchLinks: () => Promise<void>;
+    create: (options: DropLinkOptions) => Promise<DropLink | null>;
+    revoke: (link: DropLink) => Promise<void>;
+    clearError: () => void;
+}
+
+/**
+ * Hook for managing drop links into one folder. Pass null to stay idle
+ * (e.g. while the share modal is closed or shows a file).
+ */
+export const useDropLinks = (folderPath: string | null): UseDropLinksState & UseDropLinksActions => {
+    const [links, setLinks] = useState<DropLink[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Fetch links for the current folder
+    const fetchLinks = useCallback(async () => {
+        if (!folderPath) return;
+        setError(null);
+        setIsLoading(true);
+        try {
+            setLinks(await listDropLinks(folderPath));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to load drop links'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [folderPath]);
+
+    // Create a new link and add it to the top of the list
+    const create = useCallback(async (options: DropLinkOptions) => {
+        if (!folderPath) return null;
+        setError(null);
+        try {
+            const link = await createDropLink(folderPath, options);
+            setLinks((prev) => [link, ...prev]);
+            return link;
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to create drop link'));
+            return null;
+        }
+    }, [folderPath]);
+
+    // Revoke a link and drop it from the list
+    const revoke = useCallback(async (link: DropLink) => {
+        setError(null);
+        try {
+            await revokeDropLink(link.id);
+            setLinks((prev) => prev.filter((l) => l.id !== link.id));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to revoke drop link'));
+        }
+    }, []);
+
+    const clearError = useCallback(() => setError(null), []);
+
+    // Load whenever the folder changes
+    useEffect(() => {
+        setLinks([]);
+        fetchLinks();
+    }, [fetchLinks]);
+
+    return { links, isLoading, error, fetchLinks, create, revoke, clearError };
+};
+
+export default useDropLinks;
@@ -0,0 +1,87 @@
+/**
+ * useFolderGrants Hook
+ * =====================
+ * State management for the accounts a single folder is shared with.
+ * Handles fetching, granting (or changing a permission), and revoking.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { listFolderGrants, grantFolderAccess, revokeFolderGrant } from '../services/shareService';
+import { getErrorMessage } from '../../../utils';
+import type { FolderGrant, FolderPermission } from '../types/share.types';
+
+/** State shape returned by the hook */
+export interface UseFolderGrantsState {
+    grants: FolderGrant[];
+    isLoading: boolean;
+    error: string | null;
+}
+
+/** Actions returned by the hook */
+export interface UseFolderGrantsActions {
+    fetchGrants: () => Promise<void>;
+    grant: (username: string, permission: FolderPermission) => Promise<FolderGrant | null>;
+    revoke: (grant: FolderGrant) => Promise<void>;
+    clearError: () => void;
+}
+
+/**
+ * Hook for managing who can access one folder. Pass null to stay idle
+ * (e.g. while the share modal is closed or shows a file).
+ */
+export const useFolderGrants = (folderPath: string | null): UseFolderGrantsState & UseFolderGrantsActions => {
+    const [grants, setGrants] = useState<FolderGrant[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Fetch grants for the current folder
+    const fetchGrants = useCallback(async () => {
+        if (!folderPath) return;
+        setError(null);
+        setIsLoading(true);
+        try {
+            setGrants(await listFolderGrants(folderPath));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to load people with access'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [folderPath]);
+
+    // Share with a user; an existing grant for them is updated in place
+    const grant = useCallback(async (username: string, permission: FolderPermission) => {
+        if (!folderPath) return null;
+        setError(null);
+        try {
+            const saved = await grantFolderAccess(folderPath, username, permission);
+            setGrants((prev) => [...prev.filter((g) => g.id !== saved.id), saved]);
+            return saved;
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to share folder'));
+            return null;
+        }
+    }, [folderPath]);
+
+    // Stop sharing with a user
+    const revoke = useCallback(async (target: FolderGrant) => {
+        setError(null);
+        try {
+            await revokeFolderGrant(target.id);
+            setGrants((prev) => prev.filter((g) => g.id !== target.id));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to remove access'));
+        }
+    }, []);
+
+    const clearError = useCallback(() => setError(null), []);
+
+    // Load whenever the folder changes
+    useEffect(() => {
+        setGrants([]);
+        fetchGrants();
+    }, [fetchGrants]);
+
+    return { grants, isLoading, error, fetchGrants, grant, revoke, clearError };
+};
+
+export default useFolderGrants;
@@ -0,0 +1,92 @@
+/**
+ * useShareLinks Hook
+ * ===================
+ * State management for the share links of a single file or folder.
+ * Handles fetching, creating, and revoking links.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { listShareLinks, createShareLink, revokeShareLink } from '../services/shareService';
+import { getErrorMessage } from '../../../utils';
+import type { ShareLink, ShareLinkOptions, ShareTarget } from '../types/share.types';
+
+/** State shape returned by the hook */
+export interface UseShareLinksState {
+    links: ShareLink[];
+    isLoading: boolean;
+    error: string | null;
+}
+
+/** Actions returned by the hook */
+export interface UseShareLinksActions {
+    fetchLinks: () => Promise<void>;
+    create: (options: ShareLinkOptions) => Promise<ShareLink | null>;
+    revoke: (link: ShareLink) => Promise<void>;
+    clearError: () => void;
+}
+
+/**
+ * Hook for managing links to one target. Pass null to stay idle
+ * (e.g. while the share modal is closed).
+ */
+export const useShareLinks = (target: ShareTarget | null): UseShareLinksState & UseShareLinksActions => {
+    const [links, setLinks] = useState<ShareLink[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Fetch links for the current target
+    const fetchLinks = useCallback(async () => {
+        if (!target) return;
+        setError(null);
+        setIsLoading(true);
+        try {
+            if (target.kind === 'file') {
+                setLinks(await listShareLinks(target.fileId));
+            } else {
+                const all = await listShareLinks();
+                setLinks(all.filter((link) => link.folderPath === target.folderPath));
+            }
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to load share links'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [target]);
+
+    // Create a new link with optional restrictions
+    const create = useCallback(async (options: ShareLinkOptions) => {
+        if (!target) return null;
+        setError(null);
+        try {
+            const link = await createShareLink(target, options);
+            setLinks((prev) => [link, ...prev]);
+            return link;
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to create share link'));
+            return null;
+        }
+    }, [target]);
+
+    // Revoke an existing link
+    const revoke = useCallback(async (link: ShareLink) => {
+        setError(null);
+        try {
+            await revokeShareLink(link.id);
+            setLinks((prev) => prev.filter((l) => l.id !== link.id));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to revoke share link'));
+        }
+    }, []);
+
+    const clearError = useCallback(() => setError(null), []);
+
+    // Load whenever the target changes
+    useEffect(() => {
+        setLinks([]);
+        fetchLinks();
+    }, [fetchLinks]);
+
+    return { links, isLoading, error, fetchLinks, create, revoke, clearError };
+};
+
+export default useShareLinks;
@@ -0,0 +1,65 @@
+/**
+ * useSharedWithMe Hook
+ * =====================
+ * Folders other users have shared with the current user.
+ * Handles fetching and leaving a share.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { listSharedWithMe, revokeFolderGrant } from '../services/shareService';
+import { getErrorMessage } from '../../../utils';
+import type { SharedFolder } from '../types/share.types';
+
+/** State shape returned by the hook */
+export interface UseSharedWithMeState {
+    shared: SharedFolder[];
+    isLoading: boolean;
+    error: string | null;
+}
+
+/** Actions returned by the hook */
+export interface UseSharedWithMeActions {
+    refresh: () => Promise<void>;
+    leave: (folder: SharedFolder) => Promise<void>;
+    clearError: () => void;
+}
+
+/** Hook for the "Shared with me" page. */
+export const useSharedWithMe = (): UseSharedWithMeState & UseSharedWithMeActions => {
+    const [shared, setShared] = useState<SharedFolder[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        setError(null);
+        setIsLoading(true);
+        try {
+            setShared(await listSharedWithMe());
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to load shared folders'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    // Remove the current user's own grant
+    const leave = useCallback(async (folder: SharedFolder) => {
+        setError(null);
+        try {
+            await revokeFolderGrant(folder.id);
+            setShared((prev) => prev.filter((f) => f.id !== folder.id));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to leave shared folder'));
+        }
+    }, []);
+
+    const clearError = useCallback(() => setError(null), []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    return { shared, isLoading, error, refresh, leave, clearError };
+};
+
+export default useSharedWithMe;
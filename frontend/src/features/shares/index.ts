@@ -0,0 +1,8 @@
+// Re-export share link, drop link and folder grant feature modules
+export * from './types/share.types';
+export * from './services/shareService';
+export * from './hooks/useShareLinks';
+export * from './hooks/useDropLinks';
+export * from './hooks/useFolderGrants';
+export * from './hooks/useSharedWithMe';
+export * from './components';
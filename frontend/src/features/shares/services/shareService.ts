@@ -0,0 +1,305 @@
+/**
+ * Share Service
+ * ==============
+ * API call wrappers for share link management (authenticated), the public
+ * `/s/:token` landing/download routes, upload-only drop links (`/d/:token`),
+ * and sharing folders with other accounts (folder grants).
+ */
+
+import { apiFetch, API_BASE_URL } from '../../../api';
+import { getAuthHeaders, getAuthJsonHeaders, handleErrorResponse } from '../../../utils';
+import type {
+    DropLink,
+    DropLinkInfo,
+    DropLinkOptions,
+    FolderGrant,
+    FolderPermission,
+    ShareLink,
+    ShareLinkOptions,
+    ShareTarget,
+    SharedFolder,
+    SharedLinkInfo,
+} from '../types/share.types';
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Builds the frontend URL recipients should open for a token.
+ */
+export const buildShareUrl = (token: string): string =>
+    `${window.location.origin}/s/${encodeURIComponent(token)}`;
+
+/**
+ * Builds the frontend URL uploaders should open for a drop token.
+ */
+export const buildDropUrl = (token: string): string =>
+    `${window.location.origin}/d/${encodeURIComponent(token)}`;
+
+/** Absolute backend URL for a public share route (outside /api). */
+const publicShareUrl = (token: string, suffix = ''): string =>
+    `${API_BASE_URL.replace(/\/+$/, '')}/s/${encodeURIComponent(token)}${suffix}`;
+
+/** Absolute backend URL for a public drop route (outside /api). */
+const publicDropUrl = (token: string, suffix = ''): string =>
+    `${API_BASE_URL.replace(/\/+$/, '')}/d/${encodeURIComponent(token)}${suffix}`;
+
+/** Headers carrying the visitor-supplied password, if any. */
+const passwordHeaders = (password?: string): HeadersInit =>
+    password ? { 'X-Share-Password': password } : {};
+
+// ============================================
+// Owner API Calls
+// ============================================
+
+/**
+ * Lists the current user's active share links.
+ * @param fileId - Optional, only links for this file
+ */
+export const listShareLinks = async (fileId?: string): Promise<ShareLink[]> => {
+    const params = new URLSearchParams();
+    if (fileId) params.set('fileId', fileId);
+    const url = params.toString() ? `/shares?${params}` : '/shares';
+
+    const response = await apiFetch(url, { headers: getAuthHeaders() });
+    if (!response.ok) await handleErrorResponse(response);
+
+    const data: { shareLinks: ShareLink[] } = await response.json();
+    return data.shareLinks;
+};
+
+/**
+ * Creates a share link for a file or folder.
+ * @param target - File or folder to share
+ * @param options - Optional expiry, password and download limit
+ */
+export const createShareLink = async (
+    target: ShareTarget,
+    options: ShareLinkOptions = {}
+): Promise<ShareLink> => {
+    const body = target.kind === 'file'
+        ? { fileId: target.fileId, ...options }
+        : { folderPath: target.folderPath, ...options };
+
+    const response = await apiFetch('/shares', {
+        method: 'POST',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify(body),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    const data: { shareLink: ShareLink } = await response.json();
+    return data.shareLink;
+};
+
+/**
+ * Revokes a share link so its token stops working.
+ * @param id - Share link ID
+ */
+export const revokeShareLink = async (id: string): Promise<void> => {
+    const response = await apiFetch(`/shares/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+};
+
+// ============================================
+// Drop Link API Calls
+// ============================================
+
+/**
+ * Lists the current user's active drop links.
+ * @param folderPath - Optional, only links into this folder
+ */
+export const listDropLinks = async (folderPath?: string): Promise<DropLink[]> => {
+    const params = new URLSearchParams();
+    if (folderPath) params.set('folderPath', folderPath);
+    const url = params.toString() ? `/drops?${params}` : '/drops';
+
+    const response = await apiFetch(url, { headers: getAuthHeaders() });
+    if (!response.ok) await handleErrorResponse(response);
+
+    const data: { dropLinks: DropLink[] } = await response.json();
+    return data.dropLinks;
+};
+
+/**
+ * Creates an upload-only drop link into a folder.
+ * @param folderPath - Destination folder
+ * @param options - Optional expiry, password, size limit and name requirement
+ */
+export const createDropLink = async (
+    folderPath: string,
+    options: DropLinkOptions = {}
+): Promise<DropLink> => {
+    const response = await apiFetch('/drops', {
+        method: 'POST',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify({ folderPath, ...options }),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    const data: { dropLink: DropLink } = await response.json();
+    return data.dropLink;
+};
+
+/**
+ * Revokes a drop link so its token stops working.
+ * @param id - Drop link ID
+ */
+export const revokeDropLink = async (id: string): Promise<void> => {
+    const response = await apiFetch(`/drops/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+};
+
+// ============================================
+// Folder Grant API Calls
+// ============================================
+
+/**
+ * Lists the accounts a folder is shared with.
+ * @param path - Relative folder path
+ */
+export const listFolderGrants = async (path: string): Promise<FolderGrant[]> => {
+    const params = new URLSearchParams({ path });
+    const response = await apiFetch(`/folders/grants?${params}`, { headers: getAuthHeaders() });
+    if (!response.ok) await handleErrorResponse(response);
+
+    const data: { grants: FolderGrant[] } = await response.json();
+    return data.grants;
+};
+
+/**
+ * Shares a folder with another account, or changes their permission.
+ * @param path - Relative folder path
+ * @param username - Account to share with
+ * @param permission - What they may do in the folder
+ */
+export const grantFolderAccess = async (
+    path: string,
+    username: string,
+    permission: FolderPermission
+): Promise<FolderGrant> => {
+    const response = await apiFetch('/folders/grants', {
+        method: 'POST',
+        headers: getAuthJsonHeaders(),
+        body: JSON.stringify({ path, username, permission }),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    const data: { grant: FolderGrant } = await response.json();
+    return data.grant;
+};
+
+/**
+ * Stops sharing a folder with an account (or leaves a folder shared with you).
+ * @param id - Grant ID
+ */
+export const revokeFolderGrant = async (id: string): Promise<void> => {
+    const response = await apiFetch(`/folders/grants/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+};
+
+/**
+ * Lists folders other users have shared with the current user.
+ */
+export const listSharedWithMe = async (): Promise<SharedFolder[]> => {
+    const response = await apiFetch('/folders/shared', { headers: getAuthHeaders() });
+    if (!response.ok) await handleErrorResponse(response);
+
+    const data: { shared: SharedFolder[] } = await response.json();
+    return data.shared;
+};
+
+// ============================================
+// Public API Calls (no auth)
+// ============================================
+
+/**
+ * Fetches landing info for a share token.
+ * @param token - Share token from the URL
+ * @param password - Optional password to unlock the contents
+ */
+export const getSharedLink = async (token: string, password?: string): Promise<SharedLinkInfo> => {
+    const response = await apiFetch(publicShareUrl(token), {
+        headers: passwordHeaders(password),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    return response.json();
+};
+
+/**
+ * Downloads a file through a share link.
+ * @param token - Share token from the URL
+ * @param password - Password for protected links
+ * @param fileId - File inside a shared folder (folder links only)
+ */
+export const downloadSharedFile = async (
+    token: string,
+    password?: string,
+    fileId?: string
+): Promise<Blob> => {
+    const suffix = fileId ? `/download?fileId=${encodeURIComponent(fileId)}` : '/download';
+    const response = await apiFetch(publicShareUrl(token, suffix), {
+        headers: passwordHeaders(password),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    return response.blob();
+};
+
+/**
+ * Fetches landing info for a drop token.
+ * @param token - Drop token from the URL
+ * @param password - Optional password to unlock uploading
+ */
+export const getDropLink = async (token: string, password?: string): Promise<DropLinkInfo> => {
+    const response = await apiFetch(publicDropUrl(token), {
+        headers: passwordHeaders(password),
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    return response.json();
+};
+
+/**
+ * Uploads one file through a drop link.
+ * @param token - Drop token from the URL
+ * @param file - File to send
+ * @param password - Password for protected links
+ * @param uploaderName - Who is sending the file
+ * @returns The name the file was stored under
+ */
+export const uploadToDropLink = async (
+    token: string,
+    file: File,
+    password?: string,
+    uploaderName?: string
+): Promise<string> => {
+    const formData = new FormData();
+    // Fields before the file so they are parsed first
+    if (uploaderName) formData.append('uploaderName', uploaderName);
+    formData.append('file', file);
+
+    const response = await apiFetch(publicDropUrl(token, '/upload'), {
+        method: 'POST',
+        headers: passwordHeaders(password),
+        body: formData,
+    });
+
+    if (!response.ok) await handleErrorResponse(response);
+    const data: { name: string } = await response.json();
+    return data.name;
+};
@@ -0,0 +1,131 @@
+/**
+ * Share Link Types
+ * =================
+ * Type definitions for tokenized public share links, upload-only drop
+ * links and folders shared with other accounts (folder grants).
+ */
+
+// ============================================
+// Backend Response Types
+// ============================================
+
+/** Share link as returned by /api/shares */
+export interface ShareLink {
+    id: string;
+    token: string;
+    /** Backend-relative landing path, e.g. "/s/abc123" */
+    url: string;
+    fileId: string | null;
+    folderPath: string | null;
+    hasPassword: boolean;
+    expiresAt: string | null;
+    maxDownloads: number | null;
+    downloadCount: number;
+    createdAt: string;
+    revokedAt: string | null;
+}
+
+/** A file visible through a share link */
+export interface SharedFile {
+    id: string;
+    name: string;
+    /** Path relative to the shared folder (or the filename for file links) */
+    path: string;
+    size: number | null;
+    mimeType: string | null;
+}
+
+/** Public landing info from GET /s/:token */
+export interface SharedLinkInfo {
+    type: 'file' | 'folder';
+    name: string;
+    sharedBy: string;
+    requiresPassword: boolean;
+    /** False until the correct password has been supplied */
+    unlocked: boolean;
+    expiresAt: string | null;
+    downloadsRemaining: number | null;
+    file?: SharedFile;
+    files?: SharedFile[];
+}
+
+/** Upload-only drop link as returned by /api/drops */
+export interface DropLink {
+    id: string;
+    token: string;
+    /** Backend-relative landing path, e.g. "/d/abc123" */
+    url: string;
+    folderPath: string;
+    hasPassword: boolean;
+    requireUploaderName: boolean;
+    expiresAt: string | null;
+    maxBytes: number | null;
+    bytesReceived: number;
+    uploadCount: number;
+    createdAt: string;
+    revokedAt: string | null;
+}
+
+/** Public landing info from GET /d/:token */
+export interface DropLinkInfo {
+    /** Name of the destination folder */
+    name: string;
+    requestedBy: string;
+    requiresPassword: boolean;
+    /** False until the correct password has been supplied */
+    unlocked: boolean;
+    requireUploaderName: boolean;
+    expiresAt: string | null;
+    /** Bytes that may still be uploaded (null = unlimited) */
+    bytesRemaining: number | null;
+    /** Largest single file the server accepts */
+    maxFileSize: number;
+}
+
+/** What another account may do in a shared folder */
+export type FolderPermission = 'view' | 'upload' | 'edit';
+
+/** A folder shared with one account, from /api/folders/grants */
+export interface FolderGrant {
+    id: string;
+    path: string;
+    userId: string;
+    username: string | null;
+    permission: FolderPermission;
+    createdAt: string;
+}
+
+/** A folder someone shared with the current user, from /api/folders/shared */
+export interface SharedFolder {
+    id: string;
+    path: string;
+    name: string;
+    permission: FolderPermission;
+    /** Username of the folder owner */
+    owner: string | null;
+    createdAt: string;
+}
+
+// ============================================
+// Request Types
+// ============================================
+
+/** What a new link points at */
+export type ShareTarget =
+    | { kind: 'file'; fileId: string; name: string }
+    | { kind: 'folder'; folderPath: string; name: string };
+
+/** Optional restrictions for a new link */
+export interface ShareLinkOptions {
+    expiresAt?: string;
+    password?: string;
+    maxDownloads?: number;
+}
+
+/** Optional restrictions for a new drop link */
+export interface DropLinkOptions {
+    expiresAt?: string;
+    password?: string;
+    maxBytes?: number;
+    requireUploaderName?: boolean;
+}
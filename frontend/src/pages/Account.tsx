@@ -0,0 +1,134 @@
+import { motion } from 'motion/react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Loader2, LogOut, MonitorSmartphone, UserCog } from 'lucide-react';
+import { useAccountSessions, ApiTokensSection, DeleteAccountSection, SessionRow, TwoFactorSection } from '../features/account';
+import type { AccountSession } from '../features/account';
+import { clearToken, logout } from '../features/auth/services/authService';
+import { useCurrentUser } from '../features/auth/hooks/useCurrentUser';
+
+/**
+ * Account Page
+ * =============
+ * Settings for the signed-in user.
+ * Two-factor authentication setup, personal access tokens for scripts, and
+ * the devices the account is signed in on with the option to sign out any
+ * of them, or every device but this one, and deleting the account.
+ */
+export const Account = () => {
+  const navigate = useNavigate();
+  const { user } = useCurrentUser();
+
+  // Session management hook
+  const { sessions, isLoading, error, fetchSessions, revoke, revokeOthers } = useAccountSessions();
+  const otherSessions = sessions.filter((session) => !session.current);
+
+  // Signing out this device ends the login, so return to the login page
+  const handleRevoke = async (session: AccountSession) => {
+    if (session.current) {
+      await logout();
+      navigate('/login', { replace: true });
+      return;
+    }
+    await revoke(session);
+  };
+
+  // The account (and this session) no longer exists
+  const handleDeleted = () => {
+    clearToken();
+    navigate('/login', { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0D1117] p-4 sm:p-6 text-slate-200">
+      {/* Page header */}
+      <header className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate('/files')}
+            className="p-2 rounded hover:bg-[#161B22] transition-colors"
+            title="Back to files"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+            <UserCog className="w-6 h-6" />
+            Account
+          </h1>
+          {user && <span className="text-sm text-slate-500">{user.username}</span>}
+        </div>
+      </header>
+
+      {/* Error message display */}
+      {error && (
+        <motion.div
+          className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm max-w-3xl"
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          {error}
+        </motion.div>
+      )}
+
+      {/* Two-factor authentication */}
+      <TwoFactorSection />
+
+      {/* Personal access tokens */}
+      <ApiTokensSection />
+
+      {/* Active sessions */}
+      <section className="max-w-3xl">
+        <div className="mb-3 flex items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <MonitorSmartphone className="w-5 h-5" />
+            Active sessions
+          </h2>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => fetchSessions()}
+              className="px-3 py-1 rounded bg-[#0f1724] text-slate-400 text-sm"
+            >
+              Refresh
+            </button>
+            <button
+              onClick={() => revokeOthers()}
+              disabled={otherSessions.length === 0}
+              className="flex items-center gap-2 px-3 py-1 rounded bg-red-500/10 text-red-400 hover:bg-red-500/20 text-sm disabled:opacity-40 disabled:pointer-events-none"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign out other devices
+            </button>
+          </div>
+        </div>
+
+        {/* Loading state */}
+        {isLoading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 text-[#3D7BF0] animate-spin" />
+          </div>
+        )}
+
+        {/* Session list */}
+        {!isLoading && (
+          <motion.div
+            className="flex flex-col gap-2"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ duration: 0.3 }}
+          >
+            {sessions.map((session) => (
+              <SessionRow key={session.id} session={session} onRevoke={handleRevoke} />
+            ))}
+            {sessions.length === 0 && (
+              <p className="text-sm text-slate-500">No active sessions.</p>
+            )}
+          </motion.div>
+        )}
+      </section>
+
+      {/* Danger zone */}
+      <DeleteAccountSection onDeleted={handleDeleted} />
+    </div>
+  );
+};
+
+export default Account;
@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Loader2, UserPlus, Users } from 'lucide-react';
+import {
+  useAdminUsers,
+  useAdminRoles,
+  useAdminInvites,
+  CreateUserModal,
+  ResetPasswordModal,
+  QuotaModal,
+  UserRow,
+  RolesSection,
+  InvitesSection,
+} from '../features/admin';
+import type { AdminUser, CreateUserPayload } from '../features/admin';
+import { useCurrentUser } from '../features/auth/hooks/useCurrentUser';
+
+/**
+ * Admin Page
+ * ===========
+ * User management for administrators.
+ * Lists accounts and allows creating users, resetting passwords,
+ * assigning roles, setting storage quotas, lifting sign-in
+ * lockouts, disabling, and deleting accounts. Below the user list,
+ * roles and their capabilities, and invite codes for self-service
+ * registration, can be managed.
+ */
+export const Admin = () => {
+  const navigate = useNavigate();
+  const { user: currentUser, isAdmin, isLoading: isUserLoading } = useCurrentUser();
+
+  // Modal state
+  const [showCreate, setShowCreate] = useState(false);
+  const [resetTarget, setResetTarget] = useState<AdminUser | null>(null);
+  const [quotaTarget, setQuotaTarget] = useState<AdminUser | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<AdminUser | null>(null);
+
+  // User management hook
+  const {
+    users,
+    isLoading,
+    error,
+    fetchUsers,
+    create,
+    update,
+    resetPassword,
+    setQuota,
+    unlock,
+    remove,
+  } = useAdminUsers();
+
+  // Role management hook
+  const {
+    roles,
+    capabilities,
+    error: rolesError,
+    fetchRoles,
+    create: createRole,
+    update: updateRole,
+    remove: removeRole,
+  } = useAdminRoles();
+
+  // Invite management hook
+  const {
+    invites,
+    error: invitesError,
+    fetchInvites,
+    create: createInvite,
+    remove: removeInvite,
+  } = useAdminInvites();
+
+  // Role changes move users between roles, so refresh the role counts too
+  const handleChangeRole = async (user: AdminUser, role: string) => {
+    await update(user, { role });
+    await fetchRoles();
+  };
+
+  const handleCreateUser = async (payload: CreateUserPayload) => {
+    await create(payload);
+    await fetchRoles();
+  };
+
+  // Handle delete with confirmation
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    const target = deleteTarget;
+    setDeleteTarget(null);
+    await remove(target);
+  };
+
+  // Non-admins have nothing to do here
+  if (!isUserLoading && !isAdmin) {
+    return <Navigate to="/files" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0D1117] p-4 sm:p-6 text-slate-200">
+      {/* Page header */}
+      <header className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate('/files')}
+            className="p-2 rounded hover:bg-[#161B22] transition-colors"
+            title="Back to files"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+            <Users className="w-6 h-6" />
+            Users
+          </h1>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => { fetchUsers(); fetchRoles(); fetchInvites(); }}
+            className="px-3 py-1 rounded bg-[#0f1724] text-slate-400 text-sm"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={() => setShowCreate(true)}
+            className="flex items-center gap-2 px-3 py-1 rounded bg-[#238636] text-white hover:bg-[#2EA043] text-sm"
+          >
+            <UserPlus className="w-4 h-4" />
+            New User
+          </button>
+        </div>
+      </header>
+
+      {/* Error message display */}
+      {(error || rolesError || invitesError) && (
+        <motion.div
+          className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm"
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          {error || rolesError || invitesError}
+        </motion.div>
+      )}
+
+      {/* Loading state */}
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 text-[#3D7BF0] animate-spin" />
+        </div>
+      )}
+
+      {/* User list */}
+      {!isLoading && (
+        <motion.div
+          className="flex flex-col gap-2 max-w-3xl"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.3 }}
+        >
+          {users.map((user) => (
+            <UserRow
+              key={user.id}
+              user={user}
+              roles={roles}
+              isSelf={user.id === currentUser?.id}
+              onChangeRole={handleChangeRole}
+              onToggleDisabled={(u) => update(u, { disabled: !u.disabled })}
+              onResetPassword={setResetTarget}
+              onEditQuota={setQuotaTarget}
+              onUnlock={unlock}
+              onDelete={setDeleteTarget}
+            />
+          ))}
+        </motion.div>
+      )}
+
+      {/* Roles */}
+      {!isLoading && roles.length > 0 && (
+        <div className="mt-8">
+          <RolesSection
+            roles={roles}
+            capabilities={capabilities}
+            onCreate={createRole}
+            onChangeCapabilities={(role, caps) => updateRole(role, { capabilities: caps })}
+            onDelete={removeRole}
+          />
+        </div>
+      )}
+
+      {/* Invites */}
+      {!isLoading && (
+        <div className="mt-8">
+          <InvitesSection
+            invites={invites}
+            roles={roles}
+            onCreate={createInvite}
+            onDelete={removeInvite}
+          />
+        </div>
+      )}
+
+      {/* Confirmation modal for delete */}
+      {deleteTarget && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <motion.div
+            className="bg-[#161B22] border border-[#30363D] rounded-lg p-6 max-w-sm w-full mx-4"
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+          >
+            <h2 className="text-lg font-semibold mb-2">Delete {deleteTarget.username}?</h2>
+            <p className="text-sm text-slate-400 mb-4">
+              The account will be removed. Files it owned are kept and remain
+              visible to admins.
+            </p>
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={() => setDeleteTarget(null)}
+                className="px-3 py-1 rounded bg-[#0F1724] text-slate-300"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDelete}
+                className="px-3 py-1 rounded bg-red-500 text-white"
+              >
+                Delete
+              </button>
+            </div>
+          </motion.div>
+        </div>
+      )}
+
+      <CreateUserModal
+        isOpen={showCreate}
+        roles={roles}
+        onClose={() => setShowCreate(false)}
+        onCreate={handleCreateUser}
+      />
+      <ResetPasswordModal
+        user={resetTarget}
+        onClose={() => setResetTarget(null)}
+        onReset={resetPassword}
+      />
+      <QuotaModal
+        key={quotaTarget?.id ?? 'none'}
+        user={quotaTarget}
+        onClose={() => setQuotaTarget(null)}
+        onSave={setQuota}
+      />
+    </div>
+  );
+};
+
+export default Admin;
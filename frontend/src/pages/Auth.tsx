@@ -1,18 +1,80 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { motion } from "motion/react";
 import { LoginForm } from "../features/auth/components/LoginForm";
-import { login } from "../features/auth/services/authService";
+import { RegisterForm } from "../features/auth/components/RegisterForm";
+import {
+  login,
+  completeTwoFactorLogin,
+  register,
+  getSsoEnabled,
+  startSsoLogin,
+  completeSsoLogin,
+} from "../features/auth/services/authService";
 import BoxmoxLogo from "../assets/boxmox.svg";
 
+/**
+ * Auth Page
+ * Sign in, or create an account with an invite code on the register tab.
+ * Links of the form /login?invite=CODE open the register tab prefilled.
+ * Single sign-on returns here with ?sso=CODE (traded for a session) or
+ * ?ssoError=MESSAGE.
+ */
 export const AuthPage = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const inviteCode = searchParams.get("invite") ?? "";
+  const ssoCode = searchParams.get("sso");
+
+  // Which form is shown
+  const [mode, setMode] = useState<"login" | "register">(inviteCode ? "register" : "login");
 
   // Loading state while login request is in progress
-  const [isLoading, setIsLoading] = useState(false);
+  const [isLoading, setIsLoading] = useState(ssoCode !== null);
 
   // Error message to display on login failure
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(searchParams.get("ssoError"));
+
+  // Whether the "Sign in with SSO" button is shown
+  const [ssoEnabled, setSsoEnabled] = useState(false);
+
+  // Challenge from the password (or SSO) step when the account uses 2FA
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+
+  // SSO codes are single use; guards against the effect running twice
+  const ssoCodeHandled = useRef(false);
+
+  useEffect(() => {
+    getSsoEnabled().then(setSsoEnabled);
+  }, []);
+
+  /**
+   * Finishes single sign-on when the backend redirects back with a code.
+   * Navigates to /files on success, or continues with the code step for
+   * accounts with 2FA.
+   */
+  useEffect(() => {
+    if (!ssoCode || ssoCodeHandled.current) return;
+    ssoCodeHandled.current = true;
+
+    completeSsoLogin(ssoCode)
+      .then((result) => {
+        if ("twoFactorRequired" in result) {
+          setChallengeToken(result.challengeToken);
+          setIsLoading(false);
+          setSearchParams({}, { replace: true });
+          return;
+        }
+        navigate("/files");
+      })
+      .catch((err) => {
+        const message =
+          err instanceof Error ? err.message : "Single sign-on failed. Please try again.";
+        setError(message);
+        setIsLoading(false);
+        setSearchParams({}, { replace: true });
+      });
+  }, [ssoCode, navigate, setSearchParams]);
 
   /**
    * Handles login form submission.
@@ -25,7 +87,13 @@ export const AuthPage = () => {
 
     try {
       // Attempt login - token is stored automatically by authService
-      await login(username, password);
+      const result = await login(username, password);
+
+      // Accounts with 2FA continue with the code step
+      if ("twoFactorRequired" in result) {
+        setChallengeToken(result.challengeToken);
+        return;
+      }
 
       // Navigate to files dashboard on success
       navigate("/files");
@@ -39,6 +107,72 @@ export const AuthPage = () => {
     }
   };
 
+  /**
+   * Handles the authentication code step.
+   * Completes sign-in and navigates to /files on success.
+   */
+  const handleCode = async (code: string) => {
+    if (!challengeToken) return;
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      await completeTwoFactorLogin(challengeToken, code);
+      navigate("/files");
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Verification failed. Please try again.";
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Handles registration form submission.
+   * The new account is signed in, so navigate to /files on success.
+   */
+  const handleRegister = async (code: string, username: string, password: string) => {
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      await register(code, username, password);
+      navigate("/files");
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Registration failed. Please try again.";
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Starts single sign-on (leaves the app for the identity provider).
+   */
+  const handleSso = () => {
+    setError(null);
+    setIsLoading(true);
+    startSsoLogin();
+  };
+
+  /**
+   * Switches between the login and register tabs.
+   */
+  const handleModeChange = (next: "login" | "register") => {
+    setMode(next);
+    setError(null);
+  };
+
+  /**
+   * Leaves the code step and returns to username/password.
+   */
+  const handleCancelTwoFactor = () => {
+    setChallengeToken(null);
+    setError(null);
+  };
+
   return (
     <div className="min-h-screen bg-[#0D1117] flex items-center justify-center p-4">
       {/* Background decorative elements */}
@@ -105,8 +239,44 @@ export const AuthPage = () => {
           </motion.div>
         )}
 
-        {/* Login form component */}
-        <LoginForm onSubmit={handleLogin} isLoading={isLoading} />
+        {/* Login / register tabs (hidden during the 2FA step) */}
+        {challengeToken === null && (
+          <div className="mb-4 grid grid-cols-2 gap-1 p-1 bg-[#161B22] border border-[#30363D] rounded-lg">
+            {(["login", "register"] as const).map((tab) => (
+              <button
+                key={tab}
+                type="button"
+                onClick={() => handleModeChange(tab)}
+                disabled={isLoading}
+                className={`py-1.5 rounded text-sm transition-colors ${
+                  mode === tab
+                    ? "bg-[#3D7BF0] text-white"
+                    : "text-[#8B949E] hover:text-[#C9D1D9]"
+                }`}
+              >
+                {tab === "login" ? "Log In" : "Register"}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {mode === "register" && challengeToken === null ? (
+          <RegisterForm
+            onSubmit={handleRegister}
+            initialInviteCode={inviteCode}
+            isLoading={isLoading}
+          />
+        ) : (
+          <LoginForm
+            onSubmit={handleLogin}
+            onSubmitCode={handleCode}
+            onCancelTwoFactor={handleCancelTwoFactor}
+            twoFactorRequired={challengeToken !== null}
+            ssoEnabled={ssoEnabled}
+            onSso={handleSso}
+            isLoading={isLoading}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,220 @@
+import { useState, useEffect, useCallback, useRef, type ChangeEvent, type DragEvent, type FormEvent } from 'react';
+import { useParams } from 'react-router-dom';
+import { motion } from 'motion/react';
+import { CheckCircle2, Folder, Loader2, Lock, UploadCloud, XCircle } from 'lucide-react';
+import { getDropLink, uploadToDropLink } from '../features/shares/services/shareService';
+import type { DropLinkInfo } from '../features/shares/types/share.types';
+import { formatFileSize } from '../features/files/utils/fileUtils';
+import { getErrorMessage } from '../utils';
+import BoxmoxLogo from '../assets/boxmox.svg';
+
+/** Upload state of one file sent through the link */
+interface SentFile {
+  key: string;
+  name: string;
+  status: 'uploading' | 'done' | 'failed';
+  message?: string;
+}
+
+/**
+ * DropUpload Page
+ * ================
+ * Public upload page for `/d/:token` drop links (no login required).
+ * Prompts for a password when the link is protected, then lets the
+ * visitor send files into the owner's folder. Nothing in the folder is
+ * ever shown here.
+ */
+export const DropUpload = () => {
+  const { token = '' } = useParams();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [info, setInfo] = useState<DropLinkInfo | null>(null);
+  const [password, setPassword] = useState('');
+  const [uploaderName, setUploaderName] = useState('');
+  const [sent, setSent] = useState<SentFile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load landing info (optionally unlocking with the entered password)
+  const load = useCallback(async (withPassword?: string) => {
+    setError(null);
+    setIsLoading(true);
+    try {
+      setInfo(await getDropLink(token, withPassword));
+    } catch (err) {
+      setError(getErrorMessage(err, 'This link is unavailable'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Submit password to unlock uploading
+  const handleUnlock = (e: FormEvent) => {
+    e.preventDefault();
+    load(password);
+  };
+
+  // Send files one at a time so each gets its own result
+  const sendFiles = async (files: File[]) => {
+    if (!info || files.length === 0) return;
+    if (info.requireUploaderName && !uploaderName.trim()) {
+      setError('Please enter your name first');
+      return;
+    }
+
+    setError(null);
+    setIsUploading(true);
+    for (const file of files) {
+      const key = `${file.name}-${file.size}-${Date.now()}`;
+      setSent((prev) => [{ key, name: file.name, status: 'uploading' }, ...prev]);
+      try {
+        const storedAs = await uploadToDropLink(token, file, password || undefined, uploaderName.trim() || undefined);
+        setSent((prev) => prev.map((s) => (s.key === key ? { ...s, name: storedAs, status: 'done' } : s)));
+      } catch (err) {
+        const message = getErrorMessage(err, 'Upload failed');
+        setSent((prev) => prev.map((s) => (s.key === key ? { ...s, status: 'failed', message } : s)));
+      }
+    }
+    setIsUploading(false);
+    // Refresh the remaining allowance
+    await load(password || undefined);
+  };
+
+  const handleSelect = (e: ChangeEvent<HTMLInputElement>) => {
+    sendFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!isUploading) sendFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0D1117] flex items-center justify-center p-4 text-slate-200">
+      <motion.div
+        className="bg-[#161B22] border border-[#30363D] rounded-lg p-6 max-w-lg w-full"
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        {/* Branding */}
+        <div className="flex items-center gap-2 mb-4">
+          <img src={BoxmoxLogo} alt="Boxmox" className="w-8 h-8" />
+          <span className="text-sm text-slate-400">File request</span>
+        </div>
+
+        {/* Loading state */}
+        {isLoading && !info && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-8 h-8 text-[#3D7BF0] animate-spin" />
+          </div>
+        )}
+
+        {/* Link details */}
+        {info && (
+          <>
+            <h1 className="text-xl font-bold flex items-center gap-2 mb-1 min-w-0">
+              <Folder className="w-5 h-5 text-[#58A6FF] shrink-0" />
+              <span className="truncate">{info.name}</span>
+            </h1>
+            <div className="text-xs text-slate-500 mb-4">
+              {info.requestedBy} is asking for files
+              {info.expiresAt && ` • open until ${new Date(info.expiresAt).toLocaleDateString()}`}
+              {info.bytesRemaining != null && ` • ${formatFileSize(info.bytesRemaining)} left`}
+            </div>
+
+            {/* Password prompt */}
+            {!info.unlocked && (
+              <form onSubmit={handleUnlock} className="flex gap-2">
+                <div className="relative flex-1">
+                  <Lock className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Password"
+                    className="w-full bg-[#0B1220] border border-[#30363D] pl-9 pr-3 py-2 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none"
+                    autoFocus
+                  />
+                </div>
+                <button
+                  type="submit"
+                  className="px-3 py-2 rounded bg-[#238636] text-white hover:bg-[#2EA043] disabled:opacity-50"
+                  disabled={!password || isLoading}
+                >
+                  Unlock
+                </button>
+              </form>
+            )}
+
+            {/* Upload form */}
+            {info.unlocked && (
+              <>
+                <input
+                  type="text"
+                  value={uploaderName}
+                  onChange={(e) => setUploaderName(e.target.value)}
+                  placeholder={info.requireUploaderName ? 'Your name' : 'Your name (optional)'}
+                  maxLength={100}
+                  className="w-full mb-3 bg-[#0B1220] border border-[#30363D] px-3 py-2 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none"
+                  disabled={isUploading}
+                />
+                <div
+                  onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                  onDragLeave={() => setIsDragging(false)}
+                  onDrop={handleDrop}
+                  onClick={() => !isUploading && fileInputRef.current?.click()}
+                  className={`flex flex-col items-center justify-center gap-2 p-8 rounded-lg border-2 border-dashed cursor-pointer transition-colors ${
+                    isDragging ? 'border-[#58A6FF] bg-[#58A6FF]/10' : 'border-[#30363D] hover:border-[#58A6FF]'
+                  }`}
+                >
+                  {isUploading
+                    ? <Loader2 className="w-8 h-8 text-[#3D7BF0] animate-spin" />
+                    : <UploadCloud className="w-8 h-8 text-[#58A6FF]" />}
+                  <span className="text-sm text-slate-400">
+                    {isUploading ? 'Uploading...' : 'Drop files here or click to choose'}
+                  </span>
+                  <span className="text-xs text-slate-500">Up to {formatFileSize(info.maxFileSize)} per file</span>
+                </div>
+                <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleSelect} />
+
+                {/* Files sent this visit */}
+                {sent.length > 0 && (
+                  <div className="flex flex-col gap-2 mt-4 max-h-64 overflow-y-auto">
+                    {sent.map((file) => (
+                      <div key={file.key} className="flex items-center gap-3 p-2 rounded bg-[#0D1117] border border-[#30363D]">
+                        {file.status === 'uploading' && <Loader2 className="w-4 h-4 text-[#3D7BF0] animate-spin shrink-0" />}
+                        {file.status === 'done' && <CheckCircle2 className="w-4 h-4 text-[#6BCB77] shrink-0" />}
+                        {file.status === 'failed' && <XCircle className="w-4 h-4 text-[#F85149] shrink-0" />}
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm truncate">{file.name}</div>
+                          {file.message && <div className="text-xs text-red-400">{file.message}</div>}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </>
+        )}
+
+        {/* Error message */}
+        {error && (
+          <div className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default DropUpload;
@@ -12,18 +12,25 @@ import { Loader2 } from 'lucide-react';
 import { useFileBrowser } from '../features/files/hooks/useFileBrowser';
 import { useFolders } from '../features/folders/hooks/useFolders';
 import { getRootFolderInfo } from '../features/folders/services/folderService';
+import { hasFolderAccess } from '../features/folders/utils/folderAccess';
+import { getStorageUsage } from '../features/account/services/accountService';
+import type { StorageUsage } from '../features/account/types/account.types';
 import { FileListToolbar } from '../features/files/components/FileListToolbar';
 import { Breadcrumbs, CreateFolderModal } from '../features/folders/components';
 import { FileDashboardHeader } from '../features/files/components/FileDashboardHeader';
 import { ErrorNotification } from '../features/files/components/ErrorNotification';
 import { BatchUploadNotification } from '../features/files/components/BatchUploadNotification';
 import { UploadProgressBar } from '../features/files/components/UploadProgressBar';
+import { SelectionBar } from '../features/files/components/SelectionBar';
 import { DuplicateConflictModal } from '../features/files/components/DuplicateConflictModal';
 import { BatchUploadConflictModal } from '../features/files/components/BatchUploadConflictModal';
 import { FilePreviewModal } from '../features/files/components/FilePreviewModal';
 import { FileGrid } from '../features/files/components/FileGrid';
 import { MoveFileModal } from '../features/files/components/MoveFileModal';
+import { ShareLinkModal } from '../features/shares/components';
+import type { ShareTarget } from '../features/shares/types/share.types';
 import { downloadFileById } from '../features/files/services/fileService';
+import { useCurrentUser } from '../features/auth/hooks/useCurrentUser';
 import { getPreviewType } from '../utils';
 import { isApiError } from '../utils/apiHelpers';
 import type { FileItem, ConflictPayload } from '../features/files/types/file.types';
@@ -66,6 +73,9 @@ export const FileDashboard = () => {
   // File move modal state
   const [moveState, setMoveState] = useState<MoveState>({ file: null, destinationPath: '' });
 
+  // Share link modal state (file or folder being shared)
+  const [shareTarget, setShareTarget] = useState<ShareTarget | null>(null);
+
   // Move conflict modal state (409 conflict during move)
   const [moveConflict, setMoveConflict] = useState<{
     conflict: ConflictPayload | null;
@@ -75,6 +85,7 @@ export const FileDashboard = () => {
 
   // Root folder size state
   const [rootSize, setRootSize] = useState<number | undefined>(undefined);
+  const [storage, setStorage] = useState<StorageUsage | undefined>(undefined);
 
   // Duplicate upload conflict state
   const [duplicateConflict, setDuplicateConflict] = useState<{
@@ -85,28 +96,44 @@ export const FileDashboard = () => {
   // File browser hook (combined files + folders)
   const {
     currentPath,
+    folderAccess,
     files,
     folders,
     breadcrumbs,
     isLoading,
     error,
     lastBatchResult,
+    selectedIds,
     pendingBatchUpload,
     uploadProgress,
     navigateTo,
     refresh,
     upload,
     uploadMultiple,
+    uploadArchive,
     resolveBatchConflict,
     cancelUpload,
     cancelBatchUpload,
     download,
+    downloadFolder,
+    downloadSelected,
+    toggleSelect,
+    clearSelection,
     remove,
     move,
+    setPublic,
     clearBatchResult,
     clearError: clearFileError,
   } = useFileBrowser();
 
+  // Role capabilities and access to the current (possibly shared) folder
+  // decide which actions are offered
+  const { can } = useCurrentUser();
+  const canUpload = can('upload') && hasFolderAccess(folderAccess, 'upload');
+  const canEdit = can('edit') && hasFolderAccess(folderAccess, 'edit');
+  const canDelete = can('delete') && hasFolderAccess(folderAccess, 'edit');
+  const canShare = can('share') && hasFolderAccess(folderAccess, 'owner');
+
   // Folder operations
   const { create: createFolder, remove: deleteFolder, error: foldersError, clearError: clearFoldersError } = useFolders();
 
@@ -130,7 +157,7 @@ export const FileDashboard = () => {
 
   const totalCount = filteredFiles.length + filteredFolders.length;
 
-  // Fetch root folder size from API
+  // Fetch root folder size and the user's storage quota from API
   useEffect(() => {
     const loadRootSize = async () => {
       try {
@@ -141,6 +168,11 @@ export const FileDashboard = () => {
         // Fallback: sum folder sizes if API fails
         setRootSize(folders.reduce((acc, folder) => acc + (folder.size ?? 0), 0));
       }
+      try {
+        setStorage(await getStorageUsage());
+      } catch (err) {
+        console.error('Failed to load storage quota:', err);
+      }
     };
     loadRootSize();
   }, [folders]);
@@ -154,7 +186,15 @@ export const FileDashboard = () => {
   const handleMove = (file: FileItem) => {
     setMoveState({ file, destinationPath: currentPath });
   };
+  const handleShare = (file: FileItem) => {
+    setShareTarget({ kind: 'file', fileId: file.id, name: file.originalName });
+  };
+  const handleTogglePublic = (file: FileItem) => setPublic(file, !file.isPublic);
+  const handleFolderShare = (path: string) => {
+    setShareTarget({ kind: 'folder', folderPath: path, name: path.split('/').pop() || path });
+  };
   const handleFolderClick = (path: string) => navigateTo(path);
+  const handleFolderDownload = (path: string) => downloadFolder(path);
 
   const handleFolderDelete = async (path: string) => {
     await deleteFolder(path);
@@ -199,6 +239,15 @@ export const FileDashboard = () => {
     setPreviewState(null);
   }, [previewState]);
 
+  // Version restored from the preview - reload the preview and the listing
+  const handleVersionRestored = useCallback(async (file: FileItem) => {
+    if (previewState?.blobUrl) {
+      URL.revokeObjectURL(previewState.blobUrl);
+    }
+    await handlePreview(file);
+    await refresh();
+  }, [previewState, handlePreview, refresh]);
+
   // Duplicate conflict handlers
   const onDuplicate = (data: { conflict: ConflictPayload | null; file: File }) => {
     setDuplicateConflict(data);
@@ -261,7 +310,12 @@ export const FileDashboard = () => {
   return (
     <div className="min-h-screen bg-[#0D1117] p-6 text-slate-200">
       {/* Header */}
-      <FileDashboardHeader onCreateFolder={() => setShowCreateFolder(true)} rootSize={rootSize} currentPath={currentPath} />
+      <FileDashboardHeader
+        onCreateFolder={canUpload ? () => setShowCreateFolder(true) : undefined}
+        rootSize={rootSize}
+        storage={storage}
+        currentPath={currentPath}
+      />
 
       {/* Breadcrumbs */}
       <Breadcrumbs segments={breadcrumbs} onNavigate={navigateTo} className="mb-4" />
@@ -292,14 +346,24 @@ export const FileDashboard = () => {
         setView={setView}
         pattern={pattern}
         setPattern={setPattern}
-        onUpload={upload}
-        onUploadMultiple={uploadMultiple}
+        onUpload={canUpload ? upload : undefined}
+        onUploadMultiple={canUpload ? uploadMultiple : undefined}
+        onUploadArchive={canUpload ? uploadArchive : undefined}
         onRefresh={refresh}
         count={totalCount}
         isUploading={uploadProgress.isUploading}
         onDuplicate={onDuplicate}
       />
 
+      {/* Selected files */}
+      {selectedIds.length > 0 && (
+        <SelectionBar
+          count={selectedIds.length}
+          onDownloadZip={downloadSelected}
+          onClear={clearSelection}
+        />
+      )}
+
       {/* Loading state */}
       {isLoading && !uploadProgress.isUploading && (
         <div className="flex items-center justify-center py-12">
@@ -323,10 +387,16 @@ export const FileDashboard = () => {
           view={view}
           onPreview={handlePreview}
           onDownload={handleDownload}
-          onDelete={handleDelete}
-          onMove={handleMove}
+          onDelete={canDelete ? handleDelete : undefined}
+          onMove={canEdit ? handleMove : undefined}
+          onShare={canShare ? handleShare : undefined}
+          onTogglePublic={can('share') ? handleTogglePublic : undefined}
+          selectedIds={selectedIds}
+          onSelect={toggleSelect}
           onFolderClick={handleFolderClick}
-          onFolderDelete={handleFolderDelete}
+          onFolderDelete={canDelete ? handleFolderDelete : undefined}
+          onFolderShare={canShare ? handleFolderShare : undefined}
+          onFolderDownload={handleFolderDownload}
         />
       )}
 
@@ -341,6 +411,9 @@ export const FileDashboard = () => {
         />
       )}
 
+      {/* Share link modal */}
+      <ShareLinkModal target={shareTarget} onClose={() => setShareTarget(null)} />
+
       {/* Create folder modal */}
       <CreateFolderModal
         isOpen={showCreateFolder}
@@ -388,6 +461,7 @@ export const FileDashboard = () => {
         isLoading={previewState?.isLoading ?? false}
         onClose={handleClosePreview}
         onDownload={handleDownload}
+        onVersionRestored={handleVersionRestored}
       />
     </div>
   );
@@ -0,0 +1,188 @@
+import { useState, useCallback } from 'react';
+import { useParams } from 'react-router-dom';
+import { motion } from 'motion/react';
+import { DownloadCloud, Eye, Images, Loader2 } from 'lucide-react';
+import { usePublicGallery } from '../features/gallery/hooks/usePublicGallery';
+import { downloadPublicFile } from '../features/gallery/services/galleryService';
+import type { PublicFile } from '../features/gallery/types/gallery.types';
+import { FilePreviewModal } from '../features/files/components/FilePreviewModal';
+import { FileIcon } from '../features/files/components/FileIcon';
+import { formatDate, formatFileSize, inferFileType } from '../features/files/utils/fileUtils';
+import type { FileItem } from '../features/files/types/file.types';
+import { downloadBlob, getErrorMessage, getPreviewType, isPreviewable } from '../utils';
+import BoxmoxLogo from '../assets/boxmox.svg';
+
+/** State for the preview modal */
+interface PreviewState {
+  file: FileItem;
+  blobUrl: string | null;
+  textContent: string | null;
+  isLoading: boolean;
+}
+
+/** Shape a published file as a FileItem so the regular preview modal can show it */
+const toFileItem = (file: PublicFile): FileItem => ({
+  id: file.id,
+  originalName: file.name,
+  storedName: file.name,
+  mimeType: file.mimeType,
+  size: file.size,
+  hashSha256: null,
+  storageProvider: 'local',
+  storagePath: file.name,
+  ownerId: null,
+  isPublic: true,
+  accessCount: 0,
+  lastAccessed: null,
+  status: 'active',
+  deletedAt: null,
+  purgeAt: null,
+  metadataJson: null,
+  createdAt: file.createdAt,
+  updatedAt: null,
+});
+
+/**
+ * PublicGallery Page
+ * ===================
+ * Public, read-only gallery for `/u/:username` (no login required).
+ * Shows the files the user has published and previews them with the
+ * same modal as the file dashboard.
+ */
+export const PublicGallery = () => {
+  const { username = '' } = useParams();
+  const { files, isLoading, error } = usePublicGallery(username);
+
+  const [previewState, setPreviewState] = useState<PreviewState | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Fetch the file and open the preview modal
+  const handlePreview = useCallback(async (file: PublicFile) => {
+    const item = toFileItem(file);
+    setActionError(null);
+    setPreviewState({ file: item, blobUrl: null, textContent: null, isLoading: true });
+
+    try {
+      const blob = await downloadPublicFile(username, file.id);
+      if (getPreviewType(file.mimeType) === 'text') {
+        setPreviewState({ file: item, blobUrl: null, textContent: await blob.text(), isLoading: false });
+      } else {
+        setPreviewState({ file: item, blobUrl: URL.createObjectURL(blob), textContent: null, isLoading: false });
+      }
+    } catch (err) {
+      setPreviewState(null);
+      setActionError(getErrorMessage(err, 'Preview failed'));
+    }
+  }, [username]);
+
+  // Close preview and cleanup blob URL
+  const handleClosePreview = useCallback(() => {
+    if (previewState?.blobUrl) {
+      URL.revokeObjectURL(previewState.blobUrl);
+    }
+    setPreviewState(null);
+  }, [previewState]);
+
+  const handleDownload = useCallback(async (file: { id: string; name: string }) => {
+    setActionError(null);
+    try {
+      downloadBlob(await downloadPublicFile(username, file.id), file.name);
+    } catch (err) {
+      setActionError(getErrorMessage(err, 'Download failed'));
+    }
+  }, [username]);
+
+  const shownError = actionError ?? error;
+
+  return (
+    <div className="min-h-screen bg-[#0D1117] p-4 sm:p-6 text-slate-200">
+      {/* Page header */}
+      <header className="mb-6 flex items-center gap-3">
+        <img src={BoxmoxLogo} alt="Boxmox" className="w-8 h-8" />
+        <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2 min-w-0">
+          <Images className="w-6 h-6 shrink-0" />
+          <span className="truncate">{username}</span>
+        </h1>
+      </header>
+
+      {/* Error message */}
+      {shownError && (
+        <div className="mb-4 p-3 rounded bg-red-500/10 border border-red-500/30 text-red-400 text-sm">
+          {shownError}
+        </div>
+      )}
+
+      {/* Loading state */}
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 text-[#3D7BF0] animate-spin" />
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!isLoading && !error && files.length === 0 && (
+        <div className="text-center py-12 text-slate-400">Nothing has been published yet.</div>
+      )}
+
+      {/* Published files */}
+      {!isLoading && files.length > 0 && (
+        <motion.div
+          className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.3 }}
+        >
+          {files.map((file) => (
+            <div
+              key={file.id}
+              className="bg-[#161B22] border border-[#30363D] rounded-lg p-3 flex flex-col items-center h-48 text-[#C9D1D9] hover:border-[#3D7B4F] transition-colors"
+            >
+              <div className="w-16 h-16 mt-2 rounded-lg bg-[#0F1724] flex items-center justify-center">
+                <FileIcon type={inferFileType(file.name)} />
+              </div>
+              <div className="mt-3 w-full text-center font-semibold text-sm truncate text-[#F0F6FC] px-1" title={file.name}>
+                {file.name}
+              </div>
+              <div className="text-xs text-[#6B7280] mt-1">
+                {file.size ? formatFileSize(file.size) : 'Unknown'} • {formatDate(file.createdAt)}
+              </div>
+              <div className="mt-auto flex items-center gap-1">
+                {isPreviewable(file.mimeType) && (
+                  <button
+                    onClick={() => handlePreview(file)}
+                    aria-label="preview"
+                    title="Preview file"
+                    className="p-1 hover:bg-[#0D1117] rounded hover:text-[#58A6FF]"
+                  >
+                    <Eye className="w-5 h-5" />
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDownload(file)}
+                  aria-label="download"
+                  title="Download"
+                  className="p-1 hover:bg-[#0D1117] rounded hover:text-[#6BCB77]"
+                >
+                  <DownloadCloud className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </motion.div>
+      )}
+
+      {/* File preview modal */}
+      <FilePreviewModal
+        file={previewState?.file ?? null}
+        blobUrl={previewState?.blobUrl ?? null}
+        textContent={previewState?.textContent ?? null}
+        isOpen={previewState !== null}
+        isLoading={previewState?.isLoading ?? false}
+        onClose={handleClosePreview}
+        onDownload={(file) => handleDownload({ id: file.id, name: file.originalName })}
+      />
+    </div>
+  );
+};
+
+export default PublicGallery;
@@ -0,0 +1,170 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { useParams } from 'react-router-dom';
+import { motion } from 'motion/react';
+import { DownloadCloud, Folder, Loader2, Lock } from 'lucide-react';
+import { getSharedLink, downloadSharedFile } from '../features/shares/services/shareService';
+import type { SharedFile, SharedLinkInfo } from '../features/shares/types/share.types';
+import { formatFileSize } from '../features/files/utils/fileUtils';
+import { downloadBlob, getErrorMessage } from '../utils';
+import BoxmoxLogo from '../assets/boxmox.svg';
+
+/**
+ * SharedLink Page
+ * ================
+ * Public landing page for `/s/:token` share links (no login required).
+ * Prompts for a password when the link is protected, then lists the
+ * shared file (or the files inside a shared folder) for download.
+ */
+export const SharedLink = () => {
+  const { token = '' } = useParams();
+
+  const [info, setInfo] = useState<SharedLinkInfo | null>(null);
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load landing info (optionally unlocking with the entered password)
+  const load = useCallback(async (withPassword?: string) => {
+    setError(null);
+    setIsLoading(true);
+    try {
+      setInfo(await getSharedLink(token, withPassword));
+    } catch (err) {
+      setError(getErrorMessage(err, 'This link is unavailable'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Submit password to unlock contents
+  const handleUnlock = (e: FormEvent) => {
+    e.preventDefault();
+    load(password);
+  };
+
+  // Download one file through the link
+  const handleDownload = async (file: SharedFile) => {
+    if (!info) return;
+    setError(null);
+    setDownloadingId(file.id);
+    try {
+      const fileId = info.type === 'folder' ? file.id : undefined;
+      const blob = await downloadSharedFile(token, password || undefined, fileId);
+      downloadBlob(blob, file.name);
+      // Count the download here: reloading fails once the last one is used
+      setInfo((prev) => prev && prev.downloadsRemaining != null
+        ? { ...prev, downloadsRemaining: Math.max(0, prev.downloadsRemaining - 1) }
+        : prev);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Download failed'));
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const files = info?.type === 'file' ? (info.file ? [info.file] : []) : info?.files ?? [];
+  const isExhausted = info?.downloadsRemaining === 0;
+
+  return (
+    <div className="min-h-screen bg-[#0D1117] flex items-center justify-center p-4 text-slate-200">
+      <motion.div
+        className="bg-[#161B22] border border-[#30363D] rounded-lg p-6 max-w-lg w-full"
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        {/* Branding */}
+        <div className="flex items-center gap-2 mb-4">
+          <img src={BoxmoxLogo} alt="Boxmox" className="w-8 h-8" />
+          <span className="text-sm text-slate-400">Shared file</span>
+        </div>
+
+        {/* Loading state */}
+        {isLoading && !info && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-8 h-8 text-[#3D7BF0] animate-spin" />
+          </div>
+        )}
+
+        {/* Link details */}
+        {info && (
+          <>
+            <h1 className="text-xl font-bold flex items-center gap-2 mb-1 min-w-0">
+              {info.type === 'folder' && <Folder className="w-5 h-5 text-[#58A6FF] shrink-0" />}
+              <span className="truncate">{info.name}</span>
+            </h1>
+            <div className="text-xs text-slate-500 mb-4">
+              Shared by {info.sharedBy}
+              {info.expiresAt && ` • expires ${new Date(info.expiresAt).toLocaleDateString()}`}
+              {info.downloadsRemaining != null && ` • ${info.downloadsRemaining} downloads left`}
+            </div>
+
+            {/* Password prompt */}
+            {!info.unlocked && (
+              <form onSubmit={handleUnlock} className="flex gap-2">
+                <div className="relative flex-1">
+                  <Lock className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Password"
+                    className="w-full bg-[#0B1220] border border-[#30363D] pl-9 pr-3 py-2 rounded text-slate-100 focus:border-[#58A6FF] focus:outline-none"
+                    autoFocus
+                  />
+                </div>
+                <button
+                  type="submit"
+                  className="px-3 py-2 rounded bg-[#238636] text-white hover:bg-[#2EA043] disabled:opacity-50"
+                  disabled={!password || isLoading}
+                >
+                  Unlock
+                </button>
+              </form>
+            )}
+
+            {/* Files */}
+            {info.unlocked && (
+              <div className="flex flex-col gap-2 max-h-96 overflow-y-auto">
+                {files.length === 0 && (
+                  <div className="text-sm text-slate-500 text-center py-4">This folder is empty.</div>
+                )}
+                {files.map((file) => (
+                  <div key={file.id} className="flex items-center gap-3 p-3 rounded bg-[#0D1117] border border-[#30363D]">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm truncate" title={file.path}>{file.path}</div>
+                      <div className="text-xs text-slate-500">{file.size ? formatFileSize(file.size) : '—'}</div>
+                    </div>
+                    <button
+                      onClick={() => handleDownload(file)}
+                      disabled={downloadingId !== null || isExhausted}
+                      className="p-2 rounded text-slate-400 hover:text-[#6BCB77] hover:bg-[#161B22] disabled:opacity-50"
+                      title="Download"
+                    >
+                      {downloadingId === file.id
+                        ? <Loader2 className="w-5 h-5 animate-spin" />
+                        : <DownloadCloud className="w-5 h-5" />}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Error message */}
+        {error && (
+          <div className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default SharedLink;
@@ -0,0 +1,105 @@
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'motion/react';
+import { ArrowLeft, Folder, FolderSymlink, Loader2, LogOut } from 'lucide-react';
+import { useSharedWithMe } from '../features/shares/hooks/useSharedWithMe';
+import type { SharedFolder } from '../features/shares/types/share.types';
+
+/** How each permission is described to the grantee */
+const PERMISSION_LABELS: Record<SharedFolder['permission'], string> = {
+  view: 'View only',
+  upload: 'Can upload',
+  edit: 'Can edit',
+};
+
+/**
+ * Shared With Me Page
+ * ====================
+ * Folders other users have shared with the signed-in user. Opening one
+ * browses it in the file dashboard; leaving removes the user's access.
+ */
+export const SharedWithMe = () => {
+  const navigate = useNavigate();
+  const { shared, isLoading, error, leave, clearError } = useSharedWithMe();
+
+  // Browse the shared folder in the file dashboard
+  const handleOpen = (folder: SharedFolder) => {
+    navigate(`/files?path=${encodeURIComponent(folder.path)}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0D1117] p-4 sm:p-6 text-slate-200">
+      {/* Page header */}
+      <header className="mb-6 flex items-center gap-3">
+        <button
+          onClick={() => navigate('/files')}
+          className="p-2 rounded hover:bg-[#161B22] transition-colors"
+          title="Back to files"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+          <FolderSymlink className="w-6 h-6" />
+          Shared with me
+        </h1>
+      </header>
+
+      {/* Error message */}
+      {error && (
+        <div className="mb-4 p-3 rounded bg-red-500/10 border border-red-500/30 text-red-400 text-sm flex items-center justify-between">
+          <span>{error}</span>
+          <button onClick={clearError} className="text-xs hover:text-red-300">Dismiss</button>
+        </div>
+      )}
+
+      {/* Loading state */}
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 text-[#3D7BF0] animate-spin" />
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!isLoading && shared.length === 0 && (
+        <div className="text-center py-12 text-slate-400">
+          Nobody has shared a folder with you yet.
+        </div>
+      )}
+
+      {/* Shared folders */}
+      {!isLoading && shared.length > 0 && (
+        <div className="flex flex-col gap-2">
+          {shared.map((folder) => (
+            <motion.div
+              key={folder.id}
+              className="flex items-center gap-3 p-3 rounded-lg bg-[#161B22] border border-[#30363D] hover:border-[#58A6FF] transition-colors"
+              initial={{ opacity: 0, y: 5 }}
+              animate={{ opacity: 1, y: 0 }}
+            >
+              <button
+                onClick={() => handleOpen(folder)}
+                className="flex-1 min-w-0 flex items-center gap-3 text-left"
+              >
+                <Folder className="w-6 h-6 text-[#58A6FF] shrink-0" />
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{folder.name}</div>
+                  <div className="text-xs text-slate-500 truncate">
+                    {folder.owner ? `Shared by ${folder.owner}` : 'Shared folder'} · {PERMISSION_LABELS[folder.permission]}
+                  </div>
+                </div>
+              </button>
+              <button
+                onClick={() => leave(folder)}
+                title="Leave shared folder"
+                className="p-2 rounded text-slate-400 hover:text-[#F85149] transition-colors"
+              >
+                <LogOut className="w-4 h-4" />
+              </button>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharedWithMe;
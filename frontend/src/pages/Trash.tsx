@@ -5,6 +5,7 @@ import { useTrash } from '../features/files/hooks/useTrash';
 import { FileCard } from '../features/files/components/FileCard';
 import { Loader2, ArrowLeft, Trash2 } from 'lucide-react';
 import type { FileItem } from '../features/files/types/file.types';
+import { useCurrentUser } from '../features/auth/hooks/useCurrentUser';
 
 /** Location state passed from FileDashboard when navigating to trash */
 interface TrashLocationState {
@@ -43,6 +44,7 @@ export const Trash = () => {
     permanentDelete,
     emptyTrash,
   } = useTrash();
+  const { can } = useCurrentUser();
 
   // Filter trashed files locally based on search pattern
   const filteredFiles = useMemo(() => {
@@ -99,7 +101,7 @@ export const Trash = () => {
             Trash
           </h1>
         </div>
-        {trashedFiles.length > 0 && (
+        {trashedFiles.length > 0 && can('delete-permanent') && (
           <button
             onClick={() => setShowConfirm(true)}
             className="px-3 py-1 rounded bg-red-500/20 text-red-400 hover:bg-red-500/30 transition-colors text-sm w-full sm:w-auto"
@@ -213,8 +215,8 @@ export const Trash = () => {
               key={file.id}
               file={file}
               variant={view}
-              onRestore={handleRestore}
-              onPermanentDelete={handlePermanentDelete}
+              onRestore={can('delete') ? handleRestore : undefined}
+              onPermanentDelete={can('delete-permanent') ? handlePermanentDelete : undefined}
             />
           ))}
         </motion.div>